@@ -0,0 +1,127 @@
+/**
+ * Alert Push Delivery
+ *
+ * Sends a user's stored, not-yet-pushed alert events to every browser
+ * they subscribed, used by api/push-alerts.ts and the scheduled
+ * revaluation. An event is marked pushed only once it reached at least
+ * one device; events that failed everywhere stay pending and are retried
+ * by later runs for a day.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import type { AlertEventRow, Database } from '../../src/types/database';
+import { sendWebPush, VapidDetails } from './webPush';
+
+type ServiceClient = ReturnType<typeof createClient<Database>>;
+
+// Shown by the service worker; keep in sync with public/sw.js
+interface AlertNotificationPayload {
+  title: string;
+  body: string;
+  tag: string;
+  gameId: string;
+}
+
+export interface AlertPushResult {
+  sent: number;
+  removed: number;
+  // Events left pending because no device accepted them
+  pending: number;
+}
+
+// Undelivered events older than this are no longer worth a notification
+const RETRY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export function getVapidDetails(env: NodeJS.ProcessEnv = process.env): VapidDetails | null {
+  const publicKey = env.VAPID_PUBLIC_KEY || env.VITE_VAPID_PUBLIC_KEY;
+  const privateKey = env.VAPID_PRIVATE_KEY;
+  const subject = env.VAPID_SUBJECT;
+  return publicKey && privateKey && subject ? { publicKey, privateKey, subject } : null;
+}
+
+/**
+ * The given events plus any earlier ones still waiting for a retry
+ */
+async function loadPendingEvents(supabase: ServiceClient, userId: string, eventIds: string[], now: Date) {
+  const pending = () => supabase
+    .from('alert_events')
+    .select('*')
+    .eq('user_id', userId)
+    .is('pushed_at', null);
+
+  const [requested, retries] = await Promise.all([
+    eventIds.length > 0 ? pending().in('id', eventIds) : Promise.resolve({ data: [] as AlertEventRow[], error: null }),
+    pending().gte('fired_at', new Date(now.getTime() - RETRY_WINDOW_MS).toISOString()),
+  ]);
+  if (requested.error) throw requested.error;
+  if (retries.error) throw retries.error;
+
+  const byId = new Map<string, AlertEventRow>();
+  for (const event of [...(requested.data || []), ...(retries.data || [])]) byId.set(event.id, event);
+  return [...byId.values()];
+}
+
+export async function deliverAlertPushes(
+  supabase: ServiceClient,
+  userId: string,
+  vapid: VapidDetails,
+  eventIds: string[] = [],
+  now = new Date()
+): Promise<AlertPushResult> {
+  const events = await loadPendingEvents(supabase, userId, eventIds, now);
+  if (events.length === 0) return { sent: 0, removed: 0, pending: 0 };
+
+  const { data: subscriptions, error: subscriptionsError } = await supabase
+    .from('push_subscriptions')
+    .select('*')
+    .eq('user_id', userId);
+  if (subscriptionsError) throw subscriptionsError;
+
+  let sent = 0;
+  const expired = new Set<string>();
+  const delivered: string[] = [];
+  for (const event of events) {
+    const payload: AlertNotificationPayload = {
+      title: event.game_name,
+      body: event.message,
+      tag: event.id,
+      gameId: event.game_id,
+    };
+
+    let reached = false;
+    for (const subscription of subscriptions || []) {
+      if (expired.has(subscription.id)) continue;
+      try {
+        const result = await sendWebPush(
+          { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+          JSON.stringify(payload),
+          vapid
+        );
+        if (result.ok) {
+          sent++;
+          reached = true;
+        } else if (result.gone) {
+          expired.add(subscription.id);
+        } else {
+          console.error('Push service rejected notification, status:', result.status);
+        }
+      } catch (error) {
+        console.error('Push delivery failed:', error);
+      }
+    }
+    if (reached) delivered.push(event.id);
+  }
+
+  if (expired.size > 0) {
+    await supabase.from('push_subscriptions').delete().in('id', [...expired]);
+  }
+  if (delivered.length > 0) {
+    const { error } = await supabase
+      .from('alert_events')
+      .update({ pushed_at: now.toISOString() })
+      .in('id', delivered);
+    if (error) throw error;
+  }
+
+  return { sent, removed: expired.size, pending: events.length - delivered.length };
+}
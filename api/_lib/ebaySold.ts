@@ -0,0 +1,127 @@
+/**
+ * eBay Sold Items Search
+ *
+ * Server-side access to eBay's Marketplace Insights API, used by the
+ * api/ebay-sold.ts proxy and the scheduled revaluation. Exchanges
+ * EBAY_CLIENT_ID and EBAY_CLIENT_SECRET for an application token using the
+ * client-credentials grant and caches it until shortly before it expires.
+ */
+
+import type { MarketComparable } from '../../src/types/asset';
+
+const EBAY_API_URL = process.env.EBAY_API_URL || 'https://api.ebay.com';
+const INSIGHTS_SCOPE = 'https://api.ebay.com/oauth/api_scope/buy.marketplace.insights';
+
+// Refresh the token this long before eBay says it expires
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+export interface EbayCredentials {
+  clientId: string;
+  clientSecret: string;
+}
+
+interface CachedToken {
+  accessToken: string;
+  expiresAt: number;
+}
+
+interface TokenResponse {
+  access_token: string;
+  expires_in: number;
+}
+
+interface ItemSalesResponse {
+  itemSales?: Array<{
+    itemId: string;
+    title: string;
+    lastSoldPrice?: {
+      value: string;
+      currency: string;
+    };
+    lastSoldDate?: string;
+    condition?: string;
+    itemWebUrl?: string;
+  }>;
+  total?: number;
+}
+
+// Survives between invocations while the function instance stays warm
+let cachedToken: CachedToken | null = null;
+
+async function getAccessToken(clientId: string, clientSecret: string): Promise<string> {
+  if (cachedToken && cachedToken.expiresAt - TOKEN_EXPIRY_MARGIN_MS > Date.now()) {
+    return cachedToken.accessToken;
+  }
+
+  const credentials = Buffer.from(`${clientId}:${clientSecret}`).toString('base64');
+  const response = await fetch(`${EBAY_API_URL}/identity/v1/oauth2/token`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Authorization': `Basic ${credentials}`,
+    },
+    body: new URLSearchParams({
+      grant_type: 'client_credentials',
+      scope: INSIGHTS_SCOPE,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`eBay token request failed, status: ${response.status}`);
+  }
+
+  const data = (await response.json()) as TokenResponse;
+  cachedToken = {
+    accessToken: data.access_token,
+    expiresAt: Date.now() + data.expires_in * 1000,
+  };
+  return cachedToken.accessToken;
+}
+
+function toComparables(data: ItemSalesResponse): MarketComparable[] {
+  return (data.itemSales || [])
+    // Only keep real transactions with a price and an end date
+    .filter(item => item.lastSoldPrice && item.lastSoldDate)
+    .map(item => ({
+      name: item.title,
+      soldPrice: parseFloat(item.lastSoldPrice!.value),
+      soldDate: item.lastSoldDate!.split('T')[0],
+      source: 'eBay',
+      condition: item.condition,
+      url: item.itemWebUrl,
+    }))
+    .filter(comp => comp.soldPrice > 0);
+}
+
+export function getEbayCredentials(env: NodeJS.ProcessEnv = process.env): EbayCredentials | null {
+  const clientId = env.EBAY_CLIENT_ID;
+  const clientSecret = env.EBAY_CLIENT_SECRET;
+  return clientId && clientSecret ? { clientId, clientSecret } : null;
+}
+
+/**
+ * Items that actually sold, for a search built by buildEbaySoldSearchParams
+ */
+export async function searchSoldItems(params: URLSearchParams, { clientId, clientSecret }: EbayCredentials): Promise<MarketComparable[]> {
+  const token = await getAccessToken(clientId, clientSecret);
+  const response = await fetch(
+    `${EBAY_API_URL}/buy/marketplace_insights/v1_beta/item_sales/search?${params}`,
+    {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'X-EBAY-C-MARKETPLACE-ID': 'EBAY_US',
+      },
+    }
+  );
+
+  if (response.status === 401) {
+    // Token revoked early - fetch a new one on the next request
+    cachedToken = null;
+  }
+
+  if (!response.ok) {
+    throw new Error(`eBay sold search failed, status: ${response.status}`);
+  }
+
+  return toComparables((await response.json()) as ItemSalesResponse);
+}
@@ -0,0 +1,285 @@
+/**
+ * Mail Transports
+ *
+ * Pluggable delivery for outgoing email. Senders build a MailMessage and
+ * hand it to whichever transport the environment selects:
+ * - smtp: a minimal SMTP client (implicit TLS or STARTTLS, AUTH PLAIN;
+ *   credentials are only ever sent over TLS)
+ * - file: writes each message as an .eml file, for local testing
+ *
+ * MAIL_TRANSPORT=smtp needs SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS
+ * (SMTP_SECURE=true for implicit TLS, usually port 465).
+ * MAIL_TRANSPORT=file writes to MAIL_FILE_DIR (default .mail).
+ */
+
+import { randomUUID } from 'node:crypto';
+import { mkdir, writeFile } from 'node:fs/promises';
+import net from 'node:net';
+import path from 'node:path';
+import tls from 'node:tls';
+
+export interface MailMessage {
+  // Either an address or "Name <address>"
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  // Implicit TLS; otherwise STARTTLS is used when the server offers it,
+  // and required when there are credentials to send
+  secure: boolean;
+  user?: string;
+  pass?: string;
+}
+
+const SMTP_TIMEOUT_MS = 30 * 1000;
+
+// ============================================
+// MIME
+// ============================================
+
+// Deliberately strict: no whitespace, brackets or quoting, so nothing in an
+// address can end a header line or an SMTP command
+const ADDRESS_PATTERN = /^[^\s@<>()[\]",;:\\]+@[^\s@<>()[\]",;:\\]+\.[^\s@<>()[\]",;:\\]+$/;
+
+function getAddress(mailbox: string): string {
+  return mailbox.match(/<([^>]+)>/)?.[1] || mailbox.trim();
+}
+
+export function isValidAddress(address: string): boolean {
+  return ADDRESS_PATTERN.test(address);
+}
+
+/**
+ * The address in "Name <address>" or a bare address. Throws for anything
+ * with line breaks or that isn't a plain address, since it ends up in
+ * headers and SMTP commands.
+ */
+export function parseMailbox(mailbox: string): string {
+  const address = getAddress(mailbox);
+  if (/[\r\n]/.test(mailbox) || !isValidAddress(address)) {
+    throw new Error(`Invalid email address: ${JSON.stringify(mailbox)}`);
+  }
+  return address;
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+}
+
+function encodeBody(value: string): string {
+  return Buffer.from(value).toString('base64').replace(/.{76}/g, '$&\r\n');
+}
+
+export function buildMimeMessage(message: MailMessage, date = new Date()): string {
+  const boundary = `gil0-${randomUUID()}`;
+  const domain = parseMailbox(message.from).split('@')[1];
+  const to = parseMailbox(message.to);
+
+  return [
+    `From: ${encodeHeader(message.from)}`,
+    `To: ${to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
+
+// ============================================
+// FILE SINK
+// ============================================
+
+export function createFileTransport(directory: string): MailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      await mkdir(directory, { recursive: true });
+      const recipient = parseMailbox(message.to).replace(/[^a-z0-9@._-]/gi, '_');
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${recipient}.eml`;
+      await writeFile(path.join(directory, fileName), buildMimeMessage(message));
+    },
+  };
+}
+
+// ============================================
+// SMTP
+// ============================================
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+// Reads complete (possibly multi-line) replies off a socket. Once the
+// socket fails or closes, waiting and later reads reject.
+function createReplyReader(socket: net.Socket) {
+  let buffer = '';
+  let pending: SmtpReply['lines'] = [];
+  let failure: Error | null = null;
+  const replies: SmtpReply[] = [];
+  const waiting: Array<{ resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }> = [];
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf8');
+    let newline: number;
+    while ((newline = buffer.indexOf('\r\n')) >= 0) {
+      const line = buffer.slice(0, newline);
+      buffer = buffer.slice(newline + 2);
+      pending.push(line.slice(4));
+      // "250-..." continues the reply, "250 ..." ends it
+      if (line[3] !== '-') {
+        const reply = { code: Number(line.slice(0, 3)), lines: pending };
+        pending = [];
+        const waiter = waiting.shift();
+        if (waiter) waiter.resolve(reply);
+        else replies.push(reply);
+      }
+    }
+  };
+  const onError = (error: Error) => {
+    failure = failure || error;
+    while (waiting.length > 0) waiting.shift()!.reject(failure);
+  };
+  const onClose = () => onError(new Error('SMTP connection closed by the server'));
+
+  socket.on('data', onData);
+  socket.on('error', onError);
+  socket.on('end', onClose);
+  socket.on('close', onClose);
+
+  return {
+    read(): Promise<SmtpReply> {
+      const reply = replies.shift();
+      if (reply) return Promise.resolve(reply);
+      if (failure) return Promise.reject(failure);
+      return new Promise((resolve, reject) => waiting.push({ resolve, reject }));
+    },
+    detach() {
+      socket.off('data', onData);
+      socket.off('error', onError);
+      socket.off('end', onClose);
+      socket.off('close', onClose);
+    },
+  };
+}
+
+function connect(config: SmtpConfig): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host }, () => resolve(socket))
+      : net.connect({ host: config.host, port: config.port }, () => resolve(socket));
+    socket.once('error', reject);
+  });
+}
+
+function upgradeToTls(socket: net.Socket, host: string): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const secureSocket = tls.connect({ socket, servername: host }, () => resolve(secureSocket));
+    secureSocket.once('error', reject);
+  });
+}
+
+export function createSmtpTransport(config: SmtpConfig): MailTransport {
+  return {
+    name: 'smtp',
+    async send(message) {
+      const from = parseMailbox(message.from);
+      const to = parseMailbox(message.to);
+      let socket = await connect(config);
+      socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error('SMTP connection timed out')));
+      let reader = createReplyReader(socket);
+
+      const expect = async (accepted: number[]) => {
+        const reply = await reader.read();
+        if (!accepted.includes(reply.code)) {
+          throw new Error(`SMTP error ${reply.code}: ${reply.lines.join(' ')}`);
+        }
+        return reply;
+      };
+      const command = (line: string, accepted: number[]) => {
+        socket.write(`${line}\r\n`);
+        return expect(accepted);
+      };
+
+      try {
+        await expect([220]);
+        const hello = await command('EHLO gil0', [250]);
+        const hasCredentials = Boolean(config.user && config.pass);
+
+        if (!config.secure) {
+          if (hello.lines.some(line => line.toUpperCase().startsWith('STARTTLS'))) {
+            await command('STARTTLS', [220]);
+            reader.detach();
+            socket = await upgradeToTls(socket, config.host);
+            reader = createReplyReader(socket);
+            await command('EHLO gil0', [250]);
+          } else if (hasCredentials) {
+            throw new Error('SMTP server does not offer STARTTLS; refusing to send credentials in cleartext');
+          }
+        }
+
+        if (hasCredentials) {
+          const credentials = Buffer.from(`\0${config.user}\0${config.pass}`).toString('base64');
+          await command(`AUTH PLAIN ${credentials}`, [235]);
+        }
+
+        await command(`MAIL FROM:<${from}>`, [250]);
+        await command(`RCPT TO:<${to}>`, [250, 251]);
+        await command('DATA', [354]);
+        // Lines starting with a dot are escaped by doubling it
+        const data = buildMimeMessage(message).replace(/^\./gm, '..');
+        await command(`${data}\r\n.`, [250]);
+        await command('QUIT', [221]);
+      } finally {
+        socket.end();
+      }
+    },
+  };
+}
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export function createMailTransportFromEnv(env: NodeJS.ProcessEnv = process.env): MailTransport | null {
+  switch (env.MAIL_TRANSPORT) {
+    case 'smtp':
+      if (!env.SMTP_HOST) return null;
+      return createSmtpTransport({
+        host: env.SMTP_HOST,
+        port: Number(env.SMTP_PORT || (env.SMTP_SECURE === 'true' ? 465 : 587)),
+        secure: env.SMTP_SECURE === 'true',
+        user: env.SMTP_USER,
+        pass: env.SMTP_PASS,
+      });
+    case 'file':
+      return createFileTransport(env.MAIL_FILE_DIR || '.mail');
+    default:
+      return null;
+  }
+}
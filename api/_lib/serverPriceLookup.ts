@@ -0,0 +1,103 @@
+/**
+ * Server Price Lookup
+ *
+ * lookupPrice for the scheduled revaluation: asks PriceCharting (with the
+ * server's key) and eBay sold listings (through api/_lib/ebaySold.ts) for
+ * comparables and values them with the same engine as the app. Per-user
+ * provider settings only exist in the browser, so every configured
+ * provider is used. PriceCharting requests are capped per run, and
+ * identical searches from different collections are only made once.
+ */
+
+import type { Asset, MarketComparable } from '../../src/types/asset';
+import type { PriceLookupResult } from '../../src/services/priceLookup';
+import type { PriceBreakdown } from '../../src/services/priceProviders';
+import { fetchPriceChartingSearch, PriceChartingFetch } from '../../src/services/priceChartingSearch';
+import { buildEbaySoldSearchParams } from '../../src/services/ebaySearch';
+import { createEmptyLookupResult, getLookupDetails, valueComparables } from '../../src/services/priceValuation';
+import type { ValuationConfig } from '../../src/services/valuationConfig';
+import { EbayCredentials, searchSoldItems } from './ebaySold';
+
+const PRICECHARTING_API_URL = process.env.PRICECHARTING_API_URL || 'https://www.pricecharting.com/api';
+
+// A search is a products query, sometimes followed by a product query
+const REQUESTS_PER_SEARCH = 2;
+
+export interface ServerPriceLookupOptions {
+  priceChartingKey: string | null;
+  // PriceCharting requests this run may spend
+  priceChartingBudget: number;
+  ebay: EbayCredentials | null;
+  config: ValuationConfig;
+}
+
+export interface ServerPriceLookup {
+  lookup: (game: Asset) => Promise<PriceLookupResult>;
+  // False once the PriceCharting budget can't cover another search
+  hasBudget: () => boolean;
+  isConfigured: () => boolean;
+}
+
+export function getPriceChartingKey(env: NodeJS.ProcessEnv = process.env): string | null {
+  return env.PRICECHARTING_API_KEY || env.VITE_PRICECHARTING_API_KEY || null;
+}
+
+export function createServerPriceLookup({
+  priceChartingKey,
+  priceChartingBudget,
+  ebay,
+  config,
+}: ServerPriceLookupOptions): ServerPriceLookup {
+  let priceChartingRequests = 0;
+  const searches = new Map<string, Promise<PriceLookupResult>>();
+
+  const fetchPriceCharting: PriceChartingFetch = async (endpoint, params) => {
+    if (priceChartingRequests >= priceChartingBudget) return null;
+    priceChartingRequests++;
+    return fetch(`${PRICECHARTING_API_URL}/${endpoint}?${params}`);
+  };
+
+  const search = async (game: Asset): Promise<PriceLookupResult> => {
+    const details = getLookupDetails(game);
+    const comparables: MarketComparable[] = [];
+    const contributors: string[] = [];
+    let priceBreakdown: PriceBreakdown | undefined;
+
+    // Same provider ids and order as the app's registry
+    if (priceChartingKey && game.category === 'video-games') {
+      const result = await fetchPriceChartingSearch(fetchPriceCharting, priceChartingKey, game.name, details, config);
+      if (result && result.estimatedValue > 0) {
+        comparables.push(...result.comparables);
+        contributors.push('pricecharting');
+        priceBreakdown = result.priceBreakdown;
+      }
+    }
+
+    if (ebay) {
+      try {
+        const sold = await searchSoldItems(buildEbaySoldSearchParams(game.name, game.category, details), ebay);
+        if (sold.length > 0) {
+          comparables.push(...sold);
+          contributors.push('ebay');
+        }
+      } catch (error) {
+        console.error('eBay lookup failed:', error);
+      }
+    }
+
+    if (comparables.length === 0) {
+      return createEmptyLookupResult('No pricing data found for this item', config);
+    }
+    return valueComparables({ category: game.category, name: game.name, details }, comparables, contributors, priceBreakdown, config);
+  };
+
+  return {
+    lookup: (game) => {
+      const key = JSON.stringify([game.category, game.name.trim().toLowerCase(), getLookupDetails(game)]);
+      if (!searches.has(key)) searches.set(key, search(game));
+      return searches.get(key)!;
+    },
+    hasBudget: () => !priceChartingKey || priceChartingRequests + REQUESTS_PER_SEARCH <= priceChartingBudget,
+    isConfigured: () => Boolean(priceChartingKey || ebay),
+  };
+}
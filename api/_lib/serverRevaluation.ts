@@ -0,0 +1,258 @@
+/**
+ * Scheduled Collection Revaluation
+ *
+ * Server-side counterpart of the app's revaluation job, run by
+ * api/revalue-cron.ts so synced collections stay priced while the app is
+ * closed. Every owned game not valued within the last day is re-priced,
+ * never-valued and stalest first, until the run's time or request budget
+ * is spent; the next run picks up where this one stopped. Each valued game
+ * gets a new current value and a price snapshot, the owner's alert rules
+ * are evaluated against the new snapshots, and fired alerts are pushed.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import type { Asset, PriceSnapshot } from '../../src/types/asset';
+import type { AlertEvent, AlertRule } from '../../src/types/alerts';
+import type { AlertEventRow, AlertRuleRow, Database, PriceSnapshotRow } from '../../src/types/database';
+import type { PriceLookupResult } from '../../src/services/priceLookup';
+import { gameRowToAsset } from '../../src/services/gamesRepository';
+import { evaluateAlertRules } from '../../src/services/alertEngine';
+import { createPriceSnapshot, isRecordableResult } from '../../src/utils/priceHistory';
+import { deliverAlertPushes } from './alertPushes';
+import type { VapidDetails } from './webPush';
+
+type ServiceClient = ReturnType<typeof createClient<Database>>;
+
+// Matches the app's daily schedule, less some slack for cron timing
+const REVALUATION_INTERVAL_MS = 20 * 60 * 60 * 1000;
+// Firing history read per user, as much as the app keeps
+const ALERT_HISTORY_LIMIT = 100;
+
+export interface ServerRevaluationOptions {
+  lookup: (game: Asset) => Promise<PriceLookupResult>;
+  // Checked before each game, e.g. for the time or request budget
+  shouldContinue: () => boolean;
+  // Alerts are only recorded, not pushed, without VAPID keys
+  vapid: VapidDetails | null;
+  maxGames: number;
+  delayMs?: number;
+  now?: Date;
+}
+
+export interface ServerRevaluationSummary {
+  valued: number;
+  failed: number;
+  remaining: number;
+  alerts: number;
+  pushed: number;
+}
+
+interface DueGame {
+  userId: string;
+  game: Asset;
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// ============================================
+// ROW MAPPING
+// ============================================
+
+function rowToSnapshot(row: PriceSnapshotRow): PriceSnapshot {
+  return {
+    id: row.id,
+    gameId: row.game_id,
+    value: Number(row.value),
+    source: row.source,
+    confidence: row.confidence as PriceSnapshot['confidence'],
+    confidenceScore: row.confidence_score || 0,
+    configVersion: row.config_version || undefined,
+    recordedAt: row.recorded_at,
+  };
+}
+
+function rowToRule(row: AlertRuleRow): AlertRule {
+  return {
+    id: row.id,
+    scope: row.scope as unknown as AlertRule['scope'],
+    condition: row.condition as unknown as AlertRule['condition'],
+    enabled: row.enabled,
+    createdAt: row.created_at,
+  };
+}
+
+function rowToEvent(row: AlertEventRow): AlertEvent {
+  return {
+    id: row.id,
+    ruleId: row.rule_id || '',
+    gameId: row.game_id,
+    gameName: row.game_name,
+    snapshotId: row.snapshot_id,
+    message: row.message,
+    previousValue: row.previous_value === null ? null : Number(row.previous_value),
+    currentValue: Number(row.current_value),
+    firedAt: row.fired_at,
+    read: row.read_at !== null,
+  };
+}
+
+// ============================================
+// GAMES
+// ============================================
+
+/**
+ * Owned games due for a new value: never valued first, then stalest
+ */
+async function loadDueGames(supabase: ServiceClient, maxGames: number, now: Date): Promise<DueGame[]> {
+  const owned = () => supabase.from('games').select('*').is('sale_date', null);
+
+  const [never, stale] = await Promise.all([
+    owned().is('last_valued_at', null).order('created_at', { ascending: true }).limit(maxGames),
+    owned()
+      .lt('last_valued_at', new Date(now.getTime() - REVALUATION_INTERVAL_MS).toISOString())
+      .order('last_valued_at', { ascending: true })
+      .limit(maxGames),
+  ]);
+  if (never.error) throw never.error;
+  if (stale.error) throw stale.error;
+
+  return [...(never.data || []), ...(stale.data || [])]
+    .slice(0, maxGames)
+    .map(row => ({ userId: row.user_id, game: gameRowToAsset(row) }));
+}
+
+async function storeValuation(supabase: ServiceClient, userId: string, game: Asset, result: PriceLookupResult): Promise<Asset | null> {
+  // Skip games sold or deleted since they were loaded
+  const { data: updated, error: updateError } = await supabase
+    .from('games')
+    .update({ current_value: result.estimatedValue, last_valued_at: result.lastUpdated })
+    .eq('id', game.id)
+    .eq('user_id', userId)
+    .is('sale_date', null)
+    .select('id');
+  if (updateError) throw updateError;
+  if (!updated || updated.length === 0) return null;
+
+  const snapshot = createPriceSnapshot(game.id, result, result.lastUpdated);
+  const { error: snapshotError } = await supabase.from('price_snapshots').insert({
+    id: snapshot.id,
+    game_id: snapshot.gameId,
+    user_id: userId,
+    value: snapshot.value,
+    source: snapshot.source,
+    confidence: snapshot.confidence,
+    confidence_score: snapshot.confidenceScore,
+    config_version: snapshot.configVersion ?? null,
+    recorded_at: snapshot.recordedAt,
+  });
+  if (snapshotError) throw snapshotError;
+
+  return { ...game, currentValue: result.estimatedValue, lastValuedAt: result.lastUpdated };
+}
+
+// ============================================
+// ALERTS
+// ============================================
+
+/**
+ * Fire the user's rules against the new snapshots, the way the app does
+ * after a revaluation; returns the recorded events
+ */
+async function fireAlerts(supabase: ServiceClient, userId: string, valued: Asset[], now: Date): Promise<AlertEvent[]> {
+  const { data: ruleRows, error: rulesError } = await supabase
+    .from('alert_rules')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('enabled', true);
+  if (rulesError) throw rulesError;
+  if (!ruleRows || ruleRows.length === 0) return [];
+
+  const [snapshots, history] = await Promise.all([
+    supabase
+      .from('price_snapshots')
+      .select('*')
+      .eq('user_id', userId)
+      .in('game_id', valued.map(g => g.id)),
+    supabase
+      .from('alert_events')
+      .select('*')
+      .eq('user_id', userId)
+      .order('fired_at', { ascending: false })
+      .limit(ALERT_HISTORY_LIMIT),
+  ]);
+  if (snapshots.error) throw snapshots.error;
+  if (history.error) throw history.error;
+
+  const fired = evaluateAlertRules({
+    rules: ruleRows.map(rowToRule),
+    games: valued,
+    snapshots: (snapshots.data || []).map(rowToSnapshot),
+    history: (history.data || []).map(rowToEvent),
+    now,
+  });
+  if (fired.length === 0) return [];
+
+  const { error: insertError } = await supabase.from('alert_events').insert(fired.map(e => ({
+    id: e.id,
+    user_id: userId,
+    rule_id: e.ruleId || null,
+    game_id: e.gameId,
+    game_name: e.gameName,
+    snapshot_id: e.snapshotId,
+    message: e.message,
+    previous_value: e.previousValue,
+    current_value: e.currentValue,
+    fired_at: e.firedAt,
+  })));
+  if (insertError) throw insertError;
+  return fired;
+}
+
+// ============================================
+// JOB
+// ============================================
+
+export async function revalueStoredCollections(
+  supabase: ServiceClient,
+  { lookup, shouldContinue, vapid, maxGames, delayMs = 300, now = new Date() }: ServerRevaluationOptions
+): Promise<ServerRevaluationSummary> {
+  const games = await loadDueGames(supabase, maxGames, now);
+  const summary: ServerRevaluationSummary = { valued: 0, failed: 0, remaining: games.length, alerts: 0, pushed: 0 };
+  const valuedByUser = new Map<string, Asset[]>();
+
+  for (const { userId, game } of games) {
+    if (!shouldContinue()) break;
+
+    try {
+      const result = await lookup(game);
+      const valued = isRecordableResult(result) ? await storeValuation(supabase, userId, game, result) : null;
+      if (valued) {
+        valuedByUser.set(userId, [...(valuedByUser.get(userId) || []), valued]);
+        summary.valued++;
+      } else {
+        summary.failed++;
+      }
+    } catch (error) {
+      console.error(`Failed to revalue ${game.name}:`, error);
+      summary.failed++;
+    }
+
+    summary.remaining--;
+    if (delayMs > 0) await delay(delayMs);
+  }
+
+  for (const [userId, valued] of valuedByUser) {
+    try {
+      const fired = await fireAlerts(supabase, userId, valued, now);
+      summary.alerts += fired.length;
+      if (vapid && fired.length > 0) {
+        const pushes = await deliverAlertPushes(supabase, userId, vapid, fired.map(e => e.id), now);
+        summary.pushed += pushes.sent;
+      }
+    } catch (error) {
+      console.error(`Alerts for ${userId} failed:`, error);
+    }
+  }
+
+  return summary;
+}
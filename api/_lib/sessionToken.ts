@@ -0,0 +1,61 @@
+/**
+ * Session Token Verification
+ *
+ * Checks the Clerk session token (an RS256 JWT) a signed-in browser sends
+ * as `Authorization: Bearer <token>`, so functions that use the Supabase
+ * service role act only for the user who is actually calling. Verified
+ * networklessly against the instance's public key (CLERK_JWT_KEY, the PEM
+ * shown under "API keys" in the Clerk dashboard).
+ */
+
+import { createPublicKey, verify } from 'node:crypto';
+
+// Seconds of clock drift allowed between Clerk and this function
+const CLOCK_SKEW_S = 5;
+
+interface SessionClaims {
+  sub?: unknown;
+  exp?: unknown;
+  nbf?: unknown;
+}
+
+function decodeSegment<T>(segment: string): T | null {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The user id (`sub`) of a valid, unexpired session token; null otherwise
+ */
+export function verifySessionToken(token: string, publicKeyPem: string, now = Date.now()): string | null {
+  const [header, claims, signature, ...rest] = token.split('.');
+  if (!header || !claims || !signature || rest.length > 0) return null;
+  if (decodeSegment<{ alg?: unknown }>(header)?.alg !== 'RS256') return null;
+
+  try {
+    const key = createPublicKey(publicKeyPem.replace(/\\n/g, '\n'));
+    const valid = verify('sha256', Buffer.from(`${header}.${claims}`), key, Buffer.from(signature, 'base64url'));
+    if (!valid) return null;
+  } catch (error) {
+    console.error('Session token verification failed:', error);
+    return null;
+  }
+
+  const payload = decodeSegment<SessionClaims>(claims);
+  const nowS = Math.floor(now / 1000);
+  if (!payload || typeof payload.sub !== 'string' || typeof payload.exp !== 'number') return null;
+  if (payload.exp + CLOCK_SKEW_S < nowS) return null;
+  if (typeof payload.nbf === 'number' && payload.nbf - CLOCK_SKEW_S > nowS) return null;
+  return payload.sub;
+}
+
+/**
+ * The verified user id behind a request's bearer token, if any
+ */
+export function getRequestUserId(request: Request, publicKeyPem: string): string | null {
+  const match = request.headers.get('authorization')?.match(/^Bearer\s+(\S+)$/i);
+  return match ? verifySessionToken(match[1], publicKeyPem) : null;
+}
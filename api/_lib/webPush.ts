@@ -0,0 +1,155 @@
+/**
+ * Web Push Sender
+ *
+ * Minimal Web Push implementation on node:crypto: VAPID authentication
+ * (RFC 8292) and aes128gcm payload encryption (RFC 8291). Files under
+ * api/_lib are shared helpers, not deployed as routes.
+ *
+ * The push service is whatever the subscription's endpoint points at, so
+ * pass a local stand-in endpoint (or `fetchImpl`) to exercise the sender
+ * without a browser.
+ */
+
+import { createCipheriv, createECDH, createHmac, createPrivateKey, randomBytes, sign } from 'node:crypto';
+
+// Keys are base64url, as handed out by PushSubscription.toJSON()
+export interface WebPushSubscription {
+  endpoint: string;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+}
+
+export interface VapidDetails {
+  // mailto: or https: contact for the push service operator
+  subject: string;
+  publicKey: string;
+  privateKey: string;
+}
+
+export interface SendOptions {
+  // Seconds the push service keeps the message for an offline device
+  ttl?: number;
+  fetchImpl?: typeof fetch;
+}
+
+export interface PushResult {
+  status: number;
+  ok: boolean;
+  // The subscription expired or was revoked and should be deleted
+  gone: boolean;
+}
+
+const RECORD_SIZE = 4096;
+// Push services accept 4096 byte bodies: the 86 byte header, then the
+// payload plus its delimiter and 16 byte auth tag
+export const MAX_PAYLOAD_BYTES = RECORD_SIZE - 86 - 17;
+const VAPID_TOKEN_TTL_S = 12 * 60 * 60;
+
+// ============================================
+// ENCODING
+// ============================================
+
+const fromBase64Url = (value: string) => Buffer.from(value, 'base64url');
+const toBase64Url = (value: Buffer) => value.toString('base64url');
+
+function hkdf(salt: Buffer, ikm: Buffer, info: Buffer, length: number): Buffer {
+  const prk = createHmac('sha256', salt).update(ikm).digest();
+  return createHmac('sha256', prk).update(Buffer.concat([info, Buffer.from([1])])).digest().subarray(0, length);
+}
+
+// ============================================
+// PAYLOAD ENCRYPTION (RFC 8291)
+// ============================================
+
+export function encryptPayload(
+  payload: Buffer,
+  subscription: WebPushSubscription,
+  salt: Buffer = randomBytes(16)
+): Buffer {
+  const clientPublicKey = fromBase64Url(subscription.keys.p256dh);
+  const authSecret = fromBase64Url(subscription.keys.auth);
+
+  const serverKeys = createECDH('prime256v1');
+  const serverPublicKey = serverKeys.generateKeys();
+  const sharedSecret = serverKeys.computeSecret(clientPublicKey);
+
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), clientPublicKey, serverPublicKey]);
+  const ikm = hkdf(authSecret, sharedSecret, keyInfo, 32);
+  const contentKey = hkdf(salt, ikm, Buffer.from('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = hkdf(salt, ikm, Buffer.from('Content-Encoding: nonce\0'), 12);
+
+  // Single record, so it ends with the last-record delimiter
+  const cipher = createCipheriv('aes-128-gcm', contentKey, nonce);
+  const ciphertext = Buffer.concat([
+    cipher.update(Buffer.concat([payload, Buffer.from([2])])),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+
+  const recordSize = Buffer.alloc(4);
+  recordSize.writeUInt32BE(RECORD_SIZE);
+  return Buffer.concat([salt, recordSize, Buffer.from([serverPublicKey.length]), serverPublicKey, ciphertext]);
+}
+
+// ============================================
+// VAPID (RFC 8292)
+// ============================================
+
+export function createVapidAuthorization(endpoint: string, vapid: VapidDetails, now = Date.now()): string {
+  const publicKey = fromBase64Url(vapid.publicKey);
+  const privateKey = createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      d: vapid.privateKey,
+      x: toBase64Url(publicKey.subarray(1, 33)),
+      y: toBase64Url(publicKey.subarray(33, 65)),
+    },
+    format: 'jwk',
+  });
+
+  const header = toBase64Url(Buffer.from(JSON.stringify({ typ: 'JWT', alg: 'ES256' })));
+  const claims = toBase64Url(Buffer.from(JSON.stringify({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(now / 1000) + VAPID_TOKEN_TTL_S,
+    sub: vapid.subject,
+  })));
+  const signature = sign('sha256', Buffer.from(`${header}.${claims}`), { key: privateKey, dsaEncoding: 'ieee-p1363' });
+
+  return `vapid t=${header}.${claims}.${toBase64Url(signature)}, k=${vapid.publicKey}`;
+}
+
+// ============================================
+// SENDING
+// ============================================
+
+export async function sendWebPush(
+  subscription: WebPushSubscription,
+  payload: string,
+  vapid: VapidDetails,
+  { ttl = 24 * 60 * 60, fetchImpl = fetch }: SendOptions = {}
+): Promise<PushResult> {
+  const body = Buffer.from(payload);
+  if (body.length > MAX_PAYLOAD_BYTES) {
+    throw new Error(`Push payload is ${body.length} bytes, the limit is ${MAX_PAYLOAD_BYTES}`);
+  }
+
+  const response = await fetchImpl(subscription.endpoint, {
+    method: 'POST',
+    headers: {
+      'Authorization': createVapidAuthorization(subscription.endpoint, vapid),
+      'Content-Encoding': 'aes128gcm',
+      'Content-Type': 'application/octet-stream',
+      'TTL': String(ttl),
+    },
+    body: encryptPayload(body, subscription),
+  });
+
+  return {
+    status: response.status,
+    ok: response.ok,
+    gone: response.status === 404 || response.status === 410,
+  };
+}
@@ -0,0 +1,148 @@
+/**
+ * Digest Email Confirmation
+ *
+ * Digests carry a user's whole collection, so they only go to an address
+ * the user has proven they read. After saving digest settings the app
+ * asks for a confirmation link to be mailed to the address; opening the
+ * link marks it confirmed, and api/digest-cron.ts skips unconfirmed ones.
+ *
+ * POST /api/digest-confirm   (Authorization: Bearer <Clerk session token>)
+ *   Responds with { status: 'confirmed' | 'sent' | 'pending' }
+ * GET /api/digest-confirm?token=<token>   (the emailed link)
+ *
+ * Environment: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, CLERK_JWT_KEY,
+ * MAIL_FROM, APP_URL, plus the mail transport settings
+ */
+
+import { createHash, randomBytes } from 'node:crypto';
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from '../src/types/database';
+import type { DigestConfirmationStatus } from '../src/types/digest';
+import { normalizeDigestEmail, renderDigestConfirmationEmail } from '../src/utils/collectionDigest';
+import { createMailTransportFromEnv, isValidAddress } from './_lib/mailTransport';
+import { getRequestUserId } from './_lib/sessionToken';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A new link for the same address is sent at most this often
+const RESEND_INTERVAL_MS = 10 * 60 * 1000;
+const TOKEN_TTL_MS = 7 * DAY_MS;
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function page(title: string, message: string, appUrl: string, status = 200): Response {
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width"><title>${title}</title></head>
+<body style="font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',sans-serif;max-width:480px;margin:48px auto;padding:0 16px;color:#111111;">
+  <h1 style="font-size:20px;">${title}</h1>
+  <p>${message}</p>
+  <p><a href="${appUrl}">Open gil0</a></p>
+</body>
+</html>`;
+  return new Response(html, { status, headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+}
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+function getServiceClient() {
+  const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!supabaseUrl || !serviceKey) return null;
+  return createClient<Database>(supabaseUrl, serviceKey, {
+    auth: { persistSession: false },
+  });
+}
+
+export async function POST(request: Request): Promise<Response> {
+  const supabase = getServiceClient();
+  const clerkJwtKey = process.env.CLERK_JWT_KEY;
+  const from = process.env.MAIL_FROM;
+  const transport = createMailTransportFromEnv();
+  if (!supabase || !clerkJwtKey || !from || !transport) {
+    return json({ error: 'Digest email not configured' }, 503);
+  }
+
+  const userId = getRequestUserId(request, clerkJwtKey);
+  if (!userId) return json({ error: 'Unauthorized' }, 401);
+  const appUrl = process.env.APP_URL || new URL(request.url).origin;
+
+  try {
+    const { data: settings, error: settingsError } = await supabase
+      .from('digest_settings')
+      .select('email')
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (settingsError) throw settingsError;
+    const email = normalizeDigestEmail(settings?.email || '');
+    if (!isValidAddress(email)) return json({ error: 'No valid digest email saved' }, 400);
+
+    const { data: confirmation, error: confirmationError } = await supabase
+      .from('digest_email_confirmations')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (confirmationError) throw confirmationError;
+
+    const sameAddress = confirmation?.email === email;
+    const respond = (status: DigestConfirmationStatus) => json({ status });
+    if (sameAddress && confirmation.confirmed_at) return respond('confirmed');
+    if (sameAddress && confirmation.sent_at && Date.now() - new Date(confirmation.sent_at).getTime() < RESEND_INTERVAL_MS) {
+      return respond('pending');
+    }
+
+    const token = randomBytes(32).toString('base64url');
+    const { error: saveError } = await supabase.from('digest_email_confirmations').upsert({
+      user_id: userId,
+      email,
+      token_hash: hashToken(token),
+      sent_at: new Date().toISOString(),
+      confirmed_at: null,
+    });
+    if (saveError) throw saveError;
+
+    const confirmUrl = `${new URL(request.url).origin}/api/digest-confirm?token=${token}`;
+    await transport.send({ from, to: email, ...renderDigestConfirmationEmail({ confirmUrl, appUrl }) });
+    return respond('sent');
+  } catch (error) {
+    console.error('Digest confirmation error:', error);
+    return json({ error: 'Failed to send confirmation email' }, 502);
+  }
+}
+
+export async function GET(request: Request): Promise<Response> {
+  const supabase = getServiceClient();
+  const appUrl = process.env.APP_URL || new URL(request.url).origin;
+  if (!supabase) return page('Not available', 'Digest email is not configured.', appUrl, 503);
+
+  const token = new URL(request.url).searchParams.get('token');
+  const invalid = () => page('Link expired', 'This confirmation link is invalid or has expired. Save your digest settings again for a new one.', appUrl, 400);
+  if (!token) return invalid();
+
+  try {
+    const { data: confirmation, error } = await supabase
+      .from('digest_email_confirmations')
+      .select('*')
+      .eq('token_hash', hashToken(token))
+      .maybeSingle();
+    if (error) throw error;
+    if (!confirmation?.sent_at || Date.now() - new Date(confirmation.sent_at).getTime() > TOKEN_TTL_MS) {
+      return invalid();
+    }
+
+    const { error: updateError } = await supabase
+      .from('digest_email_confirmations')
+      .update({ confirmed_at: new Date().toISOString(), token_hash: null })
+      .eq('user_id', confirmation.user_id);
+    if (updateError) throw updateError;
+
+    return page('Email confirmed', `Collection digests will be sent to ${confirmation.email}.`, appUrl);
+  } catch (error) {
+    console.error('Digest confirmation error:', error);
+    return page('Something went wrong', 'We could not confirm your address. Try the link again later.', appUrl, 502);
+  }
+}
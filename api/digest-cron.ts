@@ -0,0 +1,161 @@
+/**
+ * Collection Digest Sender
+ *
+ * Scheduled function (Vercel cron, daily - see vercel.json) that emails
+ * each opted-in user a summary of their collection once their weekly or
+ * monthly period has passed, at the address they confirmed through
+ * api/digest-confirm.ts. Collection data is read with the Supabase
+ * service role; the digest itself is built by src/utils/collectionDigest.ts
+ * and delivered through the transport chosen by MAIL_TRANSPORT (see
+ * api/_lib/mailTransport.ts).
+ *
+ * GET /api/digest-cron   (Authorization: Bearer <CRON_SECRET>; Vercel cron
+ * sends it automatically, and the endpoint refuses to run without one)
+ * Responds with { sent: number, failed: number }
+ *
+ * Environment: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, MAIL_FROM, APP_URL,
+ * CRON_SECRET, plus the mail transport settings
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import type { PriceSnapshot } from '../src/types/asset';
+import type { Database, DigestSettingsRow, PriceSnapshotRow } from '../src/types/database';
+import type { DigestFrequency, DigestSettings } from '../src/types/digest';
+import { createSupabaseGamesRepository } from '../src/services/gamesRepository';
+import {
+  buildCollectionDigest,
+  getDigestPeriodDays,
+  isDigestDue,
+  normalizeDigestEmail,
+  renderDigestEmail,
+} from '../src/utils/collectionDigest';
+import { createMailTransportFromEnv } from './_lib/mailTransport';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type ServiceClient = ReturnType<typeof createClient<Database>>;
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function rowToSettings(row: DigestSettingsRow): DigestSettings {
+  return {
+    enabled: row.enabled,
+    email: row.email,
+    frequency: row.frequency as DigestFrequency,
+    lastSentAt: row.last_sent_at || undefined,
+  };
+}
+
+function rowToSnapshot(row: PriceSnapshotRow): PriceSnapshot {
+  return {
+    id: row.id,
+    gameId: row.game_id,
+    value: Number(row.value),
+    source: row.source,
+    confidence: row.confidence as PriceSnapshot['confidence'],
+    confidenceScore: row.confidence_score || 0,
+    configVersion: row.config_version || undefined,
+    recordedAt: row.recorded_at,
+  };
+}
+
+async function loadDigestData(supabase: ServiceClient, userId: string, since: Date) {
+  const games = await createSupabaseGamesRepository(supabase, userId).list();
+
+  const { data: snapshotRows, error: snapshotsError } = await supabase
+    .from('price_snapshots')
+    .select('*')
+    .eq('user_id', userId)
+    .order('recorded_at', { ascending: true });
+  if (snapshotsError) throw snapshotsError;
+
+  const { data: alertRows, error: alertsError } = await supabase
+    .from('alert_events')
+    .select('game_name, message, fired_at')
+    .eq('user_id', userId)
+    .gte('fired_at', since.toISOString());
+  if (alertsError) throw alertsError;
+
+  return {
+    games,
+    snapshots: (snapshotRows || []).map(rowToSnapshot),
+    alerts: (alertRows || []).map(row => ({ gameName: row.game_name, message: row.message, firedAt: row.fired_at })),
+  };
+}
+
+export async function GET(request: Request): Promise<Response> {
+  // Without a secret anyone could trigger a send of every digest
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) return json({ error: 'Digest email not configured' }, 503);
+  if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return json({ error: 'Unauthorized' }, 401);
+  }
+
+  const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  const from = process.env.MAIL_FROM;
+  const transport = createMailTransportFromEnv();
+  if (!supabaseUrl || !serviceKey || !from || !transport) {
+    return json({ error: 'Digest email not configured' }, 503);
+  }
+  const appUrl = process.env.APP_URL || new URL(request.url).origin;
+
+  const supabase = createClient<Database>(supabaseUrl, serviceKey, {
+    auth: { persistSession: false },
+  });
+
+  const { data: settingsRows, error } = await supabase
+    .from('digest_settings')
+    .select('*')
+    .eq('enabled', true);
+  if (error) {
+    console.error('Error loading digest settings:', error);
+    return json({ error: 'Failed to load digest settings' }, 502);
+  }
+
+  const { data: confirmationRows, error: confirmationsError } = await supabase
+    .from('digest_email_confirmations')
+    .select('user_id, email')
+    .not('confirmed_at', 'is', null);
+  if (confirmationsError) {
+    console.error('Error loading digest confirmations:', confirmationsError);
+    return json({ error: 'Failed to load digest settings' }, 502);
+  }
+  const confirmedEmails = new Map((confirmationRows || []).map(row => [row.user_id, row.email]));
+
+  const now = new Date();
+  let sent = 0;
+  let failed = 0;
+
+  // One user at a time keeps memory and SMTP connections bounded
+  for (const row of settingsRows || []) {
+    const settings = rowToSettings(row);
+    if (!isDigestDue(settings, now)) continue;
+    // Only addresses the user proved they read
+    if (confirmedEmails.get(row.user_id) !== normalizeDigestEmail(settings.email)) continue;
+
+    try {
+      const since = new Date(now.getTime() - getDigestPeriodDays(settings.frequency) * DAY_MS);
+      const data = await loadDigestData(supabase, row.user_id, since);
+      const digest = buildCollectionDigest({ ...data, frequency: settings.frequency, now });
+      const email = renderDigestEmail(digest, { appUrl });
+
+      await transport.send({ from, to: normalizeDigestEmail(settings.email), ...email });
+      await supabase
+        .from('digest_settings')
+        .update({ last_sent_at: now.toISOString() })
+        .eq('user_id', row.user_id);
+      sent++;
+    } catch (sendError) {
+      console.error(`Digest for ${row.user_id} failed:`, sendError);
+      failed++;
+    }
+  }
+
+  return json({ sent, failed });
+}
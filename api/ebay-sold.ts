@@ -0,0 +1,81 @@
+/**
+ * eBay Sold Listings Proxy
+ *
+ * Serverless function (deployed by Vercel from /api) that keeps the eBay
+ * client secret out of the browser. The OAuth token and the Marketplace
+ * Insights query for items that actually sold live in api/_lib/ebaySold.ts.
+ *
+ * Only signed-in users of the app may search, so the app's eBay quota can't
+ * be spent by anyone who finds the URL.
+ *
+ * GET /api/ebay-sold?q=<query>&category_ids=<ids>&filter=<filter>&limit=<n>
+ * (Authorization: Bearer <Clerk session token>)
+ * Responds with MarketComparable[]
+ *
+ * Environment: EBAY_CLIENT_ID, EBAY_CLIENT_SECRET, CLERK_JWT_KEY
+ */
+
+import { getEbayCredentials, searchSoldItems } from './_lib/ebaySold';
+import { getRequestUserId } from './_lib/sessionToken';
+
+// Results per search, as many as the app asks for
+const MAX_LIMIT = 50;
+const MAX_QUERY_LENGTH = 200;
+// Comma-separated category ids, and the condition filter the app sends
+const CATEGORY_IDS_PATTERN = /^\d+(,\d+)*$/;
+const FILTER_PATTERN = /^conditionIds:\{\d+(\|\d+)*\}$/;
+
+function json(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+export async function GET(request: Request): Promise<Response> {
+  const credentials = getEbayCredentials();
+  const clerkJwtKey = process.env.CLERK_JWT_KEY;
+  if (!credentials || !clerkJwtKey) {
+    return json({ error: 'eBay proxy not configured' }, 503);
+  }
+
+  if (!getRequestUserId(request, clerkJwtKey)) {
+    return json({ error: 'Unauthorized' }, 401);
+  }
+
+  const url = new URL(request.url);
+  const query = url.searchParams.get('q')?.trim();
+  if (!query) {
+    return json({ error: 'Missing q parameter' }, 400);
+  }
+  if (query.length > MAX_QUERY_LENGTH) {
+    return json({ error: 'Query too long' }, 400);
+  }
+
+  const requestedLimit = parseInt(url.searchParams.get('limit') || '', 10);
+  const limit = Number.isNaN(requestedLimit) ? MAX_LIMIT : Math.min(Math.max(requestedLimit, 1), MAX_LIMIT);
+  const params = new URLSearchParams({ q: query, limit: String(limit) });
+
+  const categoryIds = url.searchParams.get('category_ids');
+  if (categoryIds) {
+    if (!CATEGORY_IDS_PATTERN.test(categoryIds)) return json({ error: 'Invalid category_ids' }, 400);
+    params.set('category_ids', categoryIds);
+  }
+  const filter = url.searchParams.get('filter');
+  if (filter) {
+    if (!FILTER_PATTERN.test(filter)) return json({ error: 'Invalid filter' }, 400);
+    params.set('filter', filter);
+  }
+
+  try {
+    const comparables = await searchSoldItems(params, credentials);
+    return json(comparables, 200, {
+      // Sold data changes slowly; the browser can reuse it, but a shared
+      // cache would hand it to callers who never signed in
+      'Cache-Control': 'private, max-age=3600',
+    });
+  } catch (error) {
+    console.error('eBay proxy error:', error);
+    return json({ error: 'eBay request failed' }, 502);
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Price Alert Push Sender
+ *
+ * Serverless function that delivers fired price alerts as Web Push
+ * notifications. The app calls it after recording alert events during a
+ * background revaluation; it reads those events and the user's push
+ * subscriptions with the Supabase service role, sends one notification
+ * per event to every subscribed browser, and marks the events that
+ * reached a device as pushed so a retry never notifies twice (see
+ * api/_lib/alertPushes.ts). Only stored, not-yet-pushed events are
+ * sent, so a caller can't push arbitrary content, and only for the user
+ * whose Clerk session token comes with the request.
+ *
+ * POST /api/push-alerts  { userId: string, eventIds: string[] }
+ *   (Authorization: Bearer <Clerk session token>)
+ * Responds with { sent: number, removed: number, pending: number }
+ *
+ * Environment: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, CLERK_JWT_KEY,
+ * VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY and VAPID_SUBJECT (e.g.
+ * mailto:you@example.com)
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from '../src/types/database';
+import { deliverAlertPushes, getVapidDetails } from './_lib/alertPushes';
+import { getRequestUserId } from './_lib/sessionToken';
+
+interface PushAlertsRequest {
+  userId?: unknown;
+  eventIds?: unknown;
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+export async function POST(request: Request): Promise<Response> {
+  const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  const clerkJwtKey = process.env.CLERK_JWT_KEY;
+  const vapid = getVapidDetails();
+  if (!supabaseUrl || !serviceKey || !clerkJwtKey || !vapid) {
+    return json({ error: 'Push notifications not configured' }, 503);
+  }
+
+  const callerId = getRequestUserId(request, clerkJwtKey);
+  if (!callerId) return json({ error: 'Unauthorized' }, 401);
+
+  let body: PushAlertsRequest;
+  try {
+    body = (await request.json()) as PushAlertsRequest;
+  } catch {
+    return json({ error: 'Invalid JSON body' }, 400);
+  }
+  const { userId, eventIds } = body;
+  if (typeof userId !== 'string' || !Array.isArray(eventIds) || eventIds.some(id => typeof id !== 'string')) {
+    return json({ error: 'Expected userId and eventIds' }, 400);
+  }
+  if (userId !== callerId) return json({ error: 'Forbidden' }, 403);
+
+  const supabase = createClient<Database>(supabaseUrl, serviceKey, {
+    auth: { persistSession: false },
+  });
+
+  try {
+    return json(await deliverAlertPushes(supabase, userId, vapid, eventIds as string[]));
+  } catch (error) {
+    console.error('Push alerts error:', error);
+    return json({ error: 'Failed to send push notifications' }, 502);
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Collection Revaluation Cron
+ *
+ * Scheduled function (Vercel cron, daily - see vercel.json) that re-prices
+ * synced collections while the app is closed: new current values and
+ * price snapshots are written with the Supabase service role, alert rules
+ * fire on them and fired alerts go out as push notifications (see
+ * api/_lib/serverRevaluation.ts). The app's own job still revalues
+ * local-only collections and anything this run didn't reach.
+ *
+ * GET /api/revalue-cron   (Authorization: Bearer <CRON_SECRET>; Vercel cron
+ * sends it automatically, and the endpoint refuses to run without one)
+ * Responds with { valued, failed, remaining, alerts, pushed }
+ *
+ * Environment: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, CRON_SECRET,
+ * PRICECHARTING_API_KEY and/or EBAY_CLIENT_ID + EBAY_CLIENT_SECRET, plus
+ * the VAPID keys to push alerts
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from '../src/types/database';
+import { DEFAULT_VALUATION_CONFIG, fetchValuationConfig } from '../src/services/valuationConfig';
+import { getVapidDetails } from './_lib/alertPushes';
+import { getEbayCredentials } from './_lib/ebaySold';
+import { createServerPriceLookup, getPriceChartingKey } from './_lib/serverPriceLookup';
+import { revalueStoredCollections } from './_lib/serverRevaluation';
+
+// Half the PriceCharting free tier, leaving the rest for lookups made in the app
+const PRICECHARTING_REQUESTS_PER_RUN = 250;
+const MAX_GAMES_PER_RUN = 500;
+// Stop starting new lookups well before the function's maxDuration
+const RUN_TIME_BUDGET_MS = 240 * 1000;
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+export async function GET(request: Request): Promise<Response> {
+  // Without a secret anyone could spend the day's price lookups
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) return json({ error: 'Revaluation not configured' }, 503);
+  if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return json({ error: 'Unauthorized' }, 401);
+  }
+
+  const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!supabaseUrl || !serviceKey) {
+    return json({ error: 'Revaluation not configured' }, 503);
+  }
+
+  const supabase = createClient<Database>(supabaseUrl, serviceKey, {
+    auth: { persistSession: false },
+  });
+
+  const prices = createServerPriceLookup({
+    priceChartingKey: getPriceChartingKey(),
+    priceChartingBudget: PRICECHARTING_REQUESTS_PER_RUN,
+    ebay: getEbayCredentials(),
+    // Value with the tuning the app is using
+    config: (await fetchValuationConfig(supabase)) || DEFAULT_VALUATION_CONFIG,
+  });
+  if (!prices.isConfigured()) {
+    return json({ error: 'No price providers configured' }, 503);
+  }
+
+  const startedAt = Date.now();
+  try {
+    const summary = await revalueStoredCollections(supabase, {
+      lookup: prices.lookup,
+      shouldContinue: () => prices.hasBudget() && Date.now() - startedAt < RUN_TIME_BUDGET_MS,
+      vapid: getVapidDetails(),
+      maxGames: MAX_GAMES_PER_RUN,
+    });
+    return json(summary);
+  } catch (error) {
+    console.error('Revaluation run failed:', error);
+    return json({ error: 'Revaluation failed' }, 502);
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * gil0 Service Worker
+ *
+ * Periodic background sync: the browser wakes this worker roughly once a
+ * day and it asks any open app window to revalue the collection. Price
+ * lookups need the app's providers, response cache and quota counters,
+ * so the work itself runs in the page (see useRevaluation). With no
+ * window open, synced collections are revalued by the daily server job
+ * (api/revalue-cron.ts) instead.
+ *
+ * Web Push: shows price alerts sent by api/push-alerts.ts and the server
+ * revaluation, and tapping one opens that game's details in the app.
+ */
+
+const REVALUATION_SYNC_TAG = 'revalue-collection';
+// Keep in sync with src/lib/serviceWorker.ts
+const OPEN_GAME_MESSAGE = 'open-game';
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('periodicsync', (event) => {
+  if (event.tag === REVALUATION_SYNC_TAG) {
+    event.waitUntil(requestRevaluation());
+  }
+});
+
+async function requestRevaluation() {
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  for (const client of windows) {
+    client.postMessage({ type: REVALUATION_SYNC_TAG });
+  }
+}
+
+self.addEventListener('push', (event) => {
+  if (!event.data) return;
+
+  let alert;
+  try {
+    alert = event.data.json();
+  } catch {
+    return;
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(alert.title, {
+      body: alert.body,
+      tag: alert.tag,
+      icon: '/logo.svg',
+      data: { gameId: alert.gameId },
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const gameId = event.notification.data?.gameId;
+  event.waitUntil(openGame(gameId));
+});
+
+async function openGame(gameId) {
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  const client = windows[0];
+  if (client) {
+    await client.focus();
+    if (gameId) client.postMessage({ type: OPEN_GAME_MESSAGE, gameId });
+    return;
+  }
+  await self.clients.openWindow(gameId ? `/?game=${encodeURIComponent(gameId)}` : '/');
+}
@@ -16,21 +16,28 @@ import {
   Upload,
   RefreshCw,
   ScanBarcode,
-  X
+  X,
+  Layers,
+  Package
 } from 'lucide-react';
-import { AssetCategory, MarketComparable } from '@/types/asset';
+import { AssetCategory, MarketComparable, TradingCardDetails, categoryIcons, categoryLabels } from '@/types/asset';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
 import { PhotoCapture } from '@/components/PhotoCapture';
+import { TradingCardFields } from '@/components/TradingCardFields';
+import { ValuationBreakdown } from '@/components/ValuationBreakdown';
 import { lookupPrice, isAnyApiConfigured } from '@/services/priceLookup';
+import type { ExplainedComparable } from '@/services/valuationEngine';
 import { getGameCoverImage } from '@/services/gameImageService';
-import { lookupByUPC } from '@/services/priceChartingApi';
+import { lookupByUPC, getPriceProvider } from '@/services/priceProviders';
+import { SnapshotInput } from '@/utils/priceHistory';
 import Quagga from '@ericblade/quagga2';
 
 interface AddAssetModalProps {
   isOpen: boolean;
+  userId: string | null;
   onClose: () => void;
   onAdd: (asset: {
     name: string;
@@ -41,7 +48,19 @@ interface AddAssetModalProps {
     photos?: string[];
     estimatedValue?: number;
     categoryDetails?: Record<string, unknown>;
+    valuation?: SnapshotInput;
   }) => void;
+  // Switches to adding several items bought together for one price
+  onStartLot?: () => void;
+  // Starts at the details step with these values, e.g. a wishlist purchase
+  prefill?: AddAssetPrefill | null;
+}
+
+export interface AddAssetPrefill {
+  name: string;
+  platform: string;
+  conditionType: 'sealed' | 'cib' | 'loose';
+  purchasePrice?: number;
 }
 
 type Step = 'method' | 'photo' | 'details' | 'pricing' | 'review';
@@ -57,8 +76,15 @@ const platforms = [
   'Other'
 ];
 
-export const AddAssetModal = ({ isOpen, onClose, onAdd }: AddAssetModalProps) => {
+const defaultCardDetails: TradingCardDetails = {
+  cardGame: 'pokemon',
+  setName: '',
+  gradingCompany: 'raw',
+};
+
+export const AddAssetModal = ({ isOpen, userId, onClose, onAdd, onStartLot, prefill }: AddAssetModalProps) => {
   const [step, setStep] = useState<Step>('method');
+  const [category, setCategory] = useState<AssetCategory>('video-games');
   const [name, setName] = useState('');
   const [purchasePrice, setPurchasePrice] = useState('');
   const [source, setSource] = useState('');
@@ -82,6 +108,9 @@ export const AddAssetModal = ({ isOpen, onClose, onAdd }: AddAssetModalProps) =>
   const [gradingCompany, setGradingCompany] = useState<'WATA' | 'VGA' | 'CGC' | 'raw'>('raw');
   const [grade, setGrade] = useState('');
   const [sealRating, setSealRating] = useState('');
+
+  // Trading card specific fields
+  const [cardDetails, setCardDetails] = useState<TradingCardDetails>(defaultCardDetails);
   
   // Cover image state
   const [coverImageUrl, setCoverImageUrl] = useState<string | null>(null);
@@ -97,7 +126,9 @@ export const AddAssetModal = ({ isOpen, onClose, onAdd }: AddAssetModalProps) =>
   const [rollingAverage, setRollingAverage] = useState<{ days30: number | null; days90: number | null; days180: number | null } | null>(null);
   const [adjustments, setAdjustments] = useState<Array<{ type: string; factor: number; reason: string }>>([]);
   const [methodology, setMethodology] = useState<string>('');
-  const [priceSource, setPriceSource] = useState<'pricecharting' | 'ebay' | 'mock' | 'combined' | null>(null);
+  const [priceSource, setPriceSource] = useState<string | null>(null);
+  const [configVersion, setConfigVersion] = useState<string | undefined>(undefined);
+  const [scoredComparables, setScoredComparables] = useState<ExplainedComparable[]>([]);
 
   // Barcode scanner functions
   const startScanner = useCallback(() => {
@@ -152,7 +183,7 @@ export const AddAssetModal = ({ isOpen, onClose, onAdd }: AddAssetModalProps) =>
         setIsLookingUpBarcode(true);
         
         try {
-          const gameInfo = await lookupByUPC(code);
+          const gameInfo = await lookupByUPC(code, userId);
           
           if (gameInfo) {
             setName(gameInfo.name);
@@ -185,7 +216,7 @@ export const AddAssetModal = ({ isOpen, onClose, onAdd }: AddAssetModalProps) =>
     return () => {
       Quagga.offDetected(handleDetected);
     };
-  }, [isScanning, stopScanner]);
+  }, [isScanning, stopScanner, userId]);
 
   // Cleanup scanner on unmount or close
   useEffect(() => {
@@ -196,11 +227,24 @@ export const AddAssetModal = ({ isOpen, onClose, onAdd }: AddAssetModalProps) =>
     }
   }, [isOpen, isScanning]);
 
+  // Apply prefilled values when the modal opens
+  useEffect(() => {
+    if (!isOpen || !prefill) return;
+    setCategory('video-games');
+    setName(prefill.name);
+    setPlatform(prefill.platform);
+    setConditionType(prefill.conditionType);
+    if (prefill.purchasePrice) setPurchasePrice(String(prefill.purchasePrice));
+    setStep('details');
+  }, [isOpen, prefill]);
+
   // Reset form when modal closes
   useEffect(() => {
     if (!isOpen) {
       setTimeout(() => {
         setStep('method');
+        setCategory('video-games');
+        setCardDetails(defaultCardDetails);
         setName('');
         setPurchasePrice('');
         setSource('');
@@ -223,6 +267,8 @@ export const AddAssetModal = ({ isOpen, onClose, onAdd }: AddAssetModalProps) =>
         setAdjustments([]);
         setMethodology('');
         setPriceSource(null);
+        setConfigVersion(undefined);
+        setScoredComparables([]);
         setCoverImageUrl(null);
         setIsLoadingCover(false);
         setCustomImage(null);
@@ -252,19 +298,39 @@ export const AddAssetModal = ({ isOpen, onClose, onAdd }: AddAssetModalProps) =>
     setStep('details');
   };
 
-  const getCategoryDetails = () => ({
+  const isCard = category === 'trading-cards';
+  const itemLabel = isCard ? 'Card' : 'Game';
+
+  const getCategoryDetails = (): Record<string, unknown> => isCard ? { ...cardDetails } : {
     platform,
     region,
     conditionType,
     gradingCompany,
     grade: grade ? parseFloat(grade) : undefined,
     sealRating: sealRating || undefined,
-  });
+  };
+
+  // Condition bucket the market comparison is restricted to
+  const getConditionLabel = () => {
+    if (!isCard) return conditionType.toUpperCase();
+    return cardDetails.gradingCompany && cardDetails.gradingCompany !== 'raw'
+      ? `${cardDetails.gradingCompany} ${cardDetails.grade ?? ''}`.trim()
+      : 'RAW';
+  };
+
+  // One-line summary, e.g. "SNES • CIB • WATA" or "Base Set #4/102 • PSA 9"
+  const getDetailsSummary = () => {
+    if (isCard) {
+      const set = cardDetails.cardNumber ? `${cardDetails.setName} #${cardDetails.cardNumber}` : cardDetails.setName;
+      return `${set} • ${getConditionLabel()}`;
+    }
+    return `${platform} • ${conditionType.toUpperCase()}${gradingCompany !== 'raw' ? ` • ${gradingCompany} ${grade}` : ''}`;
+  };
 
   // Fetch game cover image from RAWG API
   const fetchCoverImage = async () => {
-    // Skip if user already took a photo
-    if (photos.length > 0) return;
+    // Skip if user already took a photo (cover art only exists for games)
+    if (photos.length > 0 || isCard) return;
     
     setIsLoadingCover(true);
     try {
@@ -287,9 +353,10 @@ export const AddAssetModal = ({ isOpen, onClose, onAdd }: AddAssetModalProps) =>
     
     try {
       const result = await lookupPrice({
-        category: 'video-games',
+        category,
         name,
         details: getCategoryDetails(),
+        userId,
       });
       
       setEstimatedValue(result.estimatedValue);
@@ -301,6 +368,8 @@ export const AddAssetModal = ({ isOpen, onClose, onAdd }: AddAssetModalProps) =>
       setAdjustments(result.adjustments);
       setMethodology(result.methodology);
       setPriceSource(result.source);
+      setConfigVersion(result.configVersion);
+      setScoredComparables(result.scoredComparables);
     } catch (error) {
       console.error('Price lookup failed:', error);
       setPriceSource('mock');
@@ -316,13 +385,24 @@ export const AddAssetModal = ({ isOpen, onClose, onAdd }: AddAssetModalProps) =>
       
       onAdd({
         name,
-        category: 'video-games',
+        category,
         purchasePrice: parseFloat(purchasePrice),
         source,
         imageUrl,
-        photos: photos.length > 0 ? photos : undefined,
+        // A custom cover is kept in the gallery too
+        photos: customImage ? [customImage, ...photos] : photos.length > 0 ? photos : undefined,
         estimatedValue: estimatedValue || undefined,
         categoryDetails: getCategoryDetails(),
+        // Only market lookups are recorded as price snapshots
+        valuation: estimatedValue && priceConfidence && priceSource && priceSource !== 'mock'
+          ? {
+              estimatedValue,
+              source: priceSource,
+              confidence: priceConfidence,
+              confidenceScore,
+              configVersion,
+            }
+          : undefined,
       });
       onClose();
     }
@@ -343,7 +423,8 @@ export const AddAssetModal = ({ isOpen, onClose, onAdd }: AddAssetModalProps) =>
   };
 
   const canProceedFromDetails = () => {
-    return name.trim().length > 0 && platform.length > 0;
+    if (name.trim().length === 0) return false;
+    return isCard ? cardDetails.setName.trim().length > 0 : platform.length > 0;
   };
 
   const canProceedFromPricing = () => {
@@ -372,10 +453,10 @@ export const AddAssetModal = ({ isOpen, onClose, onAdd }: AddAssetModalProps) =>
       <DialogContent className="bg-card border-border max-w-md mx-4 max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="font-display text-xl text-foreground flex items-center gap-2">
-            <Gamepad2 className="w-5 h-5 text-primary" />
-            {step === 'method' && 'Add Video Game'}
-            {step === 'photo' && 'Capture Game'}
-            {step === 'details' && 'Game Details'}
+            {isCard ? <Layers className="w-5 h-5 text-primary" /> : <Gamepad2 className="w-5 h-5 text-primary" />}
+            {step === 'method' && `Add ${isCard ? 'Trading Card' : 'Video Game'}`}
+            {step === 'photo' && `Capture ${itemLabel}`}
+            {step === 'details' && `${itemLabel} Details`}
             {step === 'pricing' && 'Pricing & Source'}
             {step === 'review' && 'Review & Confirm'}
           </DialogTitle>
@@ -434,8 +515,26 @@ export const AddAssetModal = ({ isOpen, onClose, onAdd }: AddAssetModalProps) =>
         {/* Step 1: Method Selection */}
         {step === 'method' && (
           <div className="space-y-4">
+            {/* Category */}
+            <div className="grid grid-cols-2 gap-2">
+              {(Object.keys(categoryLabels) as AssetCategory[]).map(c => (
+                <button
+                  key={c}
+                  onClick={() => setCategory(c)}
+                  className={`flex items-center justify-center gap-2 p-2 rounded-lg text-sm font-medium border transition-colors ${
+                    category === c
+                      ? 'bg-primary/20 border-primary/50 text-foreground'
+                      : 'bg-secondary border-border/50 text-muted-foreground hover:text-foreground'
+                  }`}
+                >
+                  <span>{categoryIcons[c]}</span>
+                  {categoryLabels[c]}
+                </button>
+              ))}
+            </div>
+
             <p className="text-sm text-muted-foreground text-center">
-              How would you like to add your game?
+              How would you like to add your {itemLabel.toLowerCase()}?
             </p>
             
             {scanError && (
@@ -454,20 +553,22 @@ export const AddAssetModal = ({ isOpen, onClose, onAdd }: AddAssetModalProps) =>
             )}
             
             <div className="grid grid-cols-1 gap-3">
-              {/* Barcode Scan Option */}
-              <button
-                onClick={startScanner}
-                className="flex items-center gap-4 p-4 rounded-xl bg-gradient-to-r from-primary/20 to-primary/10 border border-primary/30 hover:border-primary/50 transition-all group"
-              >
-                <div className="w-12 h-12 rounded-full bg-primary/30 flex items-center justify-center group-hover:scale-110 transition-transform">
-                  <ScanBarcode className="w-6 h-6 text-primary" />
-                </div>
-                <div className="text-left">
-                  <p className="font-semibold text-foreground">Scan Barcode</p>
-                  <p className="text-xs text-muted-foreground">Instantly look up game by UPC</p>
-                </div>
-                <Sparkles className="w-5 h-5 text-primary ml-auto" />
-              </button>
+              {/* Barcode Scan Option (game cases only) */}
+              {!isCard && (
+                <button
+                  onClick={startScanner}
+                  className="flex items-center gap-4 p-4 rounded-xl bg-gradient-to-r from-primary/20 to-primary/10 border border-primary/30 hover:border-primary/50 transition-all group"
+                >
+                  <div className="w-12 h-12 rounded-full bg-primary/30 flex items-center justify-center group-hover:scale-110 transition-transform">
+                    <ScanBarcode className="w-6 h-6 text-primary" />
+                  </div>
+                  <div className="text-left">
+                    <p className="font-semibold text-foreground">Scan Barcode</p>
+                    <p className="text-xs text-muted-foreground">Instantly look up game by UPC</p>
+                  </div>
+                  <Sparkles className="w-5 h-5 text-primary ml-auto" />
+                </button>
+              )}
               
               {/* Photo Option */}
               <button
@@ -479,7 +580,7 @@ export const AddAssetModal = ({ isOpen, onClose, onAdd }: AddAssetModalProps) =>
                 </div>
                 <div className="text-left">
                   <p className="font-semibold text-foreground">Take Photo</p>
-                  <p className="text-xs text-muted-foreground">Capture your game with camera</p>
+                  <p className="text-xs text-muted-foreground">Capture your {itemLabel.toLowerCase()} with camera</p>
                 </div>
               </button>
 
@@ -496,6 +597,22 @@ export const AddAssetModal = ({ isOpen, onClose, onAdd }: AddAssetModalProps) =>
                   <p className="text-xs text-muted-foreground">Enter details without photo</p>
                 </div>
               </button>
+
+              {/* Lot Purchase Option */}
+              {onStartLot && (
+                <button
+                  onClick={onStartLot}
+                  className="flex items-center gap-4 p-4 rounded-xl bg-secondary hover:bg-secondary/80 border border-border/50 hover:border-border transition-all"
+                >
+                  <div className="w-12 h-12 rounded-full bg-muted flex items-center justify-center">
+                    <Package className="w-6 h-6 text-muted-foreground" />
+                  </div>
+                  <div className="text-left">
+                    <p className="font-semibold text-foreground">Lot Purchase</p>
+                    <p className="text-xs text-muted-foreground">Add several items bought for one price</p>
+                  </div>
+                </button>
+              )}
             </div>
           </div>
         )}
@@ -509,7 +626,7 @@ export const AddAssetModal = ({ isOpen, onClose, onAdd }: AddAssetModalProps) =>
           />
         )}
 
-        {/* Step 3: Game Details */}
+        {/* Step 3: Game / Card Details */}
         {step === 'details' && (
           <div className="space-y-4">
             {photos.length > 0 && (
@@ -524,111 +641,117 @@ export const AddAssetModal = ({ isOpen, onClose, onAdd }: AddAssetModalProps) =>
 
           <div className="space-y-2">
               <Label htmlFor="name" className="text-sm text-muted-foreground">
-                Game Title <span className="text-primary">*</span>
+                {isCard ? 'Card Name' : 'Game Title'} <span className="text-primary">*</span>
               </Label>
             <Input
               id="name"
               value={name}
               onChange={(e) => setName(e.target.value)}
-                placeholder="e.g., Super Mario Bros."
+                placeholder={isCard ? 'e.g., Charizard' : 'e.g., Super Mario Bros.'}
               className="bg-secondary border-border focus:border-primary"
             />
           </div>
 
-          <div className="space-y-2">
-              <Label className="text-sm text-muted-foreground">
-                Platform <span className="text-primary">*</span>
-              </Label>
-              <select
-                value={platform}
-                onChange={(e) => setPlatform(e.target.value)}
-                className="w-full h-10 px-3 rounded-md bg-secondary border border-border text-foreground text-sm focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
-              >
-                <option value="">Select platform...</option>
-                {platforms.map(p => (
-                  <option key={p} value={p}>{p}</option>
-                ))}
-              </select>
-            </div>
+            {isCard ? (
+              <TradingCardFields value={cardDetails} onChange={setCardDetails} />
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <Label className="text-sm text-muted-foreground">
+                    Platform <span className="text-primary">*</span>
+                  </Label>
+                  <select
+                    value={platform}
+                    onChange={(e) => setPlatform(e.target.value)}
+                    className="w-full h-10 px-3 rounded-md bg-secondary border border-border text-foreground text-sm focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+                  >
+                    <option value="">Select platform...</option>
+                    {platforms.map(p => (
+                      <option key={p} value={p}>{p}</option>
+                    ))}
+                  </select>
+                </div>
 
-            <div className="grid grid-cols-2 gap-3">
-              <div className="space-y-2">
-                <Label className="text-sm text-muted-foreground">Region</Label>
-                <select
-                  value={region}
-                  onChange={(e) => setRegion(e.target.value as typeof region)}
-                  className="w-full h-10 px-3 rounded-md bg-secondary border border-border text-foreground text-sm focus:border-primary focus:outline-none"
-                >
-                  <option value="NTSC">NTSC (US)</option>
-                  <option value="PAL">PAL (EU)</option>
-                  <option value="NTSC-J">NTSC-J (Japan)</option>
-                  <option value="other">Other</option>
-                </select>
-              </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label className="text-sm text-muted-foreground">Region</Label>
+                    <select
+                      value={region}
+                      onChange={(e) => setRegion(e.target.value as typeof region)}
+                      className="w-full h-10 px-3 rounded-md bg-secondary border border-border text-foreground text-sm focus:border-primary focus:outline-none"
+                    >
+                      <option value="NTSC">NTSC (US)</option>
+                      <option value="PAL">PAL (EU)</option>
+                      <option value="NTSC-J">NTSC-J (Japan)</option>
+                      <option value="other">Other</option>
+                    </select>
+                  </div>
 
-              <div className="space-y-2">
-                <Label className="text-sm text-muted-foreground">Condition</Label>
-                <select
-                  value={conditionType}
-                  onChange={(e) => setConditionType(e.target.value as typeof conditionType)}
-                  className="w-full h-10 px-3 rounded-md bg-secondary border border-border text-foreground text-sm focus:border-primary focus:outline-none"
-                >
-                  <option value="sealed">Sealed</option>
-                  <option value="cib">CIB (Complete)</option>
-                  <option value="loose">Loose</option>
-                </select>
-              </div>
-            </div>
+                  <div className="space-y-2">
+                    <Label className="text-sm text-muted-foreground">Condition</Label>
+                    <select
+                      value={conditionType}
+                      onChange={(e) => setConditionType(e.target.value as typeof conditionType)}
+                      className="w-full h-10 px-3 rounded-md bg-secondary border border-border text-foreground text-sm focus:border-primary focus:outline-none"
+                    >
+                      <option value="sealed">Sealed</option>
+                      <option value="cib">CIB (Complete)</option>
+                      <option value="loose">Loose</option>
+                    </select>
+                  </div>
+                </div>
 
-            <div className="grid grid-cols-2 gap-3">
-              <div className="space-y-2">
-                <Label className="text-sm text-muted-foreground">Grading</Label>
-                <select
-                  value={gradingCompany}
-                  onChange={(e) => setGradingCompany(e.target.value as typeof gradingCompany)}
-                  className="w-full h-10 px-3 rounded-md bg-secondary border border-border text-foreground text-sm focus:border-primary focus:outline-none"
-                >
-                  <option value="raw">Ungraded</option>
-                  <option value="WATA">WATA</option>
-                  <option value="VGA">VGA</option>
-                  <option value="CGC">CGC</option>
-                </select>
-              </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label className="text-sm text-muted-foreground">Grading</Label>
+                    <select
+                      value={gradingCompany}
+                      onChange={(e) => setGradingCompany(e.target.value as typeof gradingCompany)}
+                      className="w-full h-10 px-3 rounded-md bg-secondary border border-border text-foreground text-sm focus:border-primary focus:outline-none"
+                    >
+                      <option value="raw">Ungraded</option>
+                      <option value="WATA">WATA</option>
+                      <option value="VGA">VGA</option>
+                      <option value="CGC">CGC</option>
+                    </select>
+                  </div>
 
-              {gradingCompany !== 'raw' && (
-                <div className="space-y-2">
-                  <Label className="text-sm text-muted-foreground">Grade</Label>
-                  <Input
-                    type="number"
-                    step="0.1"
-                    min="0"
-                    max="10"
-                    value={grade}
-                    onChange={(e) => setGrade(e.target.value)}
-                    placeholder="e.g., 9.4"
-                    className="bg-secondary border-border focus:border-primary"
-                  />
+                  {gradingCompany !== 'raw' && (
+                    <div className="space-y-2">
+                      <Label className="text-sm text-muted-foreground">Grade</Label>
+                      <Input
+                        type="number"
+                        step="0.1"
+                        min="0"
+                        max="10"
+                        value={grade}
+                        onChange={(e) => setGrade(e.target.value)}
+                        placeholder="e.g., 9.4"
+                        className="bg-secondary border-border focus:border-primary"
+                      />
+                    </div>
+                  )}
                 </div>
-              )}
-            </div>
 
-            {conditionType === 'sealed' && gradingCompany !== 'raw' && (
-              <div className="space-y-2">
-                <Label className="text-sm text-muted-foreground">Seal Rating</Label>
-                <select
-                  value={sealRating}
-                  onChange={(e) => setSealRating(e.target.value)}
-                  className="w-full h-10 px-3 rounded-md bg-secondary border border-border text-foreground text-sm focus:border-primary focus:outline-none"
-                >
-                  <option value="">Select seal rating...</option>
-                  <option value="A++">A++ (Perfect)</option>
-                  <option value="A+">A+ (Near Perfect)</option>
-                  <option value="A">A (Excellent)</option>
-                  <option value="B+">B+ (Very Good)</option>
-                  <option value="B">B (Good)</option>
-                  <option value="C">C (Fair)</option>
-                </select>
-              </div>
+                {conditionType === 'sealed' && gradingCompany !== 'raw' && (
+                  <div className="space-y-2">
+                    <Label className="text-sm text-muted-foreground">Seal Rating</Label>
+                    <select
+                      value={sealRating}
+                      onChange={(e) => setSealRating(e.target.value)}
+                      className="w-full h-10 px-3 rounded-md bg-secondary border border-border text-foreground text-sm focus:border-primary focus:outline-none"
+                    >
+                      <option value="">Select seal rating...</option>
+                      <option value="A++">A++ (Perfect)</option>
+                      <option value="A+">A+ (Near Perfect)</option>
+                      <option value="A">A (Excellent)</option>
+                      <option value="B+">B+ (Very Good)</option>
+                      <option value="B">B (Good)</option>
+                      <option value="C">C (Fair)</option>
+                    </select>
+                  </div>
+                )}
+              </>
             )}
 
             <div className="flex gap-3 pt-2">
@@ -693,8 +816,7 @@ export const AddAssetModal = ({ isOpen, onClose, onAdd }: AddAssetModalProps) =>
                 <div>
                   <h4 className="font-semibold text-foreground truncate">{name}</h4>
                   <p className="text-xs text-muted-foreground">
-                    {platform} • {conditionType.toUpperCase()}
-                    {gradingCompany !== 'raw' && ` • ${gradingCompany}`}
+                    {getDetailsSummary()}
                   </p>
           </div>
 
@@ -742,10 +864,8 @@ export const AddAssetModal = ({ isOpen, onClose, onAdd }: AddAssetModalProps) =>
                     }`}>
                       {priceSource === 'mock' ? (
                         <><Database className="w-3 h-3" /> Demo</>
-                      ) : priceSource === 'pricecharting' ? (
-                        <><Wifi className="w-3 h-3" /> PriceCharting</>
-                      ) : priceSource === 'ebay' ? (
-                        <><Wifi className="w-3 h-3" /> eBay</>
+                      ) : getPriceProvider(priceSource) ? (
+                        <><Wifi className="w-3 h-3" /> {getPriceProvider(priceSource)?.name}</>
                       ) : (
                         <><Wifi className="w-3 h-3" /> Live</>
                       )}
@@ -766,16 +886,22 @@ export const AddAssetModal = ({ isOpen, onClose, onAdd }: AddAssetModalProps) =>
               {/* Condition Badge */}
               <div className="flex items-center gap-2">
                 <span className="text-xs text-muted-foreground">Comparing:</span>
-                <span className={`text-xs px-2 py-0.5 rounded-full font-medium ${
-                  conditionType === 'sealed' ? 'bg-violet-500/20 text-violet-400' :
-                  conditionType === 'cib' ? 'bg-blue-500/20 text-blue-400' :
-                  'bg-amber-500/20 text-amber-400'
-                }`}>
-                  {conditionType === 'sealed' ? '🔒 Sealed Only' :
-                   conditionType === 'cib' ? '📦 CIB Only' :
-                   '💿 Loose Only'}
-                </span>
-                {gradingCompany !== 'raw' && (
+                {isCard ? (
+                  <span className="text-xs px-2 py-0.5 rounded-full font-medium bg-blue-500/20 text-blue-400">
+                    🃏 {getConditionLabel()} Only
+                  </span>
+                ) : (
+                  <span className={`text-xs px-2 py-0.5 rounded-full font-medium ${
+                    conditionType === 'sealed' ? 'bg-violet-500/20 text-violet-400' :
+                    conditionType === 'cib' ? 'bg-blue-500/20 text-blue-400' :
+                    'bg-amber-500/20 text-amber-400'
+                  }`}>
+                    {conditionType === 'sealed' ? '🔒 Sealed Only' :
+                     conditionType === 'cib' ? '📦 CIB Only' :
+                     '💿 Loose Only'}
+                  </span>
+                )}
+                {!isCard && gradingCompany !== 'raw' && (
                   <span className="text-xs px-2 py-0.5 rounded-full bg-success/20 text-success font-medium">
                     ⭐ Graded
                   </span>
@@ -786,7 +912,7 @@ export const AddAssetModal = ({ isOpen, onClose, onAdd }: AddAssetModalProps) =>
                 <div className="flex items-center justify-center py-4 gap-2">
                   <Loader2 className="w-5 h-5 animate-spin text-primary" />
                   <span className="text-sm text-muted-foreground">
-                    {isAnyApiConfigured() ? `Fetching ${conditionType.toUpperCase()} prices...` : 'Analyzing comparables...'}
+                    {isAnyApiConfigured() ? `Fetching ${getConditionLabel()} prices...` : 'Analyzing comparables...'}
                   </span>
                 </div>
               ) : estimatedValue ? (
@@ -821,7 +947,7 @@ export const AddAssetModal = ({ isOpen, onClose, onAdd }: AddAssetModalProps) =>
               {comparables.length > 0 && (
                 <div className="pt-2 border-t border-border/50">
                   <p className="text-xs text-muted-foreground mb-2">
-                    Comparable {conditionType.toUpperCase()} sales:
+                    Comparable {getConditionLabel()} sales:
                   </p>
                   <div className="space-y-1.5 max-h-28 overflow-y-auto">
                     {comparables.slice(0, 5).map((comp, idx) => (
@@ -896,6 +1022,9 @@ export const AddAssetModal = ({ isOpen, onClose, onAdd }: AddAssetModalProps) =>
                   {methodology}
                 </p>
               )}
+
+              {/* Comparable-level breakdown */}
+              <ValuationBreakdown comparables={scoredComparables} configVersion={configVersion} />
           </div>
 
             {/* Purchase Info */}
@@ -965,7 +1094,11 @@ export const AddAssetModal = ({ isOpen, onClose, onAdd }: AddAssetModalProps) =>
                 </div>
               ) : (
                 <div className="aspect-video bg-gradient-to-br from-primary/10 to-secondary flex items-center justify-center">
-                  <Gamepad2 className="w-16 h-16 text-primary/40" />
+                  {isCard ? (
+                    <Layers className="w-16 h-16 text-primary/40" />
+                  ) : (
+                    <Gamepad2 className="w-16 h-16 text-primary/40" />
+                  )}
                 </div>
               )}
               <div className="p-4 space-y-3">
@@ -973,9 +1106,8 @@ export const AddAssetModal = ({ isOpen, onClose, onAdd }: AddAssetModalProps) =>
                   <div>
                     <p className="font-semibold text-foreground">{name}</p>
                     <p className="text-sm text-muted-foreground flex items-center gap-1">
-                      <span>🎮</span>
-                      {platform} • {conditionType.toUpperCase()}
-                      {gradingCompany !== 'raw' && ` • ${gradingCompany} ${grade}`}
+                      <span>{categoryIcons[category]}</span>
+                      {getDetailsSummary()}
                     </p>
                   </div>
                 </div>
@@ -1001,10 +1133,17 @@ export const AddAssetModal = ({ isOpen, onClose, onAdd }: AddAssetModalProps) =>
                     <p className="text-xs text-muted-foreground">Source</p>
                     <p className="text-sm text-foreground">{source}</p>
                   </div>
-                  <div>
-                    <p className="text-xs text-muted-foreground">Region</p>
-                    <p className="text-sm text-foreground">{region}</p>
-                  </div>
+                  {isCard ? (
+                    <div>
+                      <p className="text-xs text-muted-foreground">Variant</p>
+                      <p className="text-sm text-foreground">{cardDetails.variant || '—'}</p>
+                    </div>
+                  ) : (
+                    <div>
+                      <p className="text-xs text-muted-foreground">Region</p>
+                      <p className="text-sm text-foreground">{region}</p>
+                    </div>
+                  )}
                 </div>
 
                 {estimatedValue && parseFloat(purchasePrice) > 0 && (
@@ -1038,7 +1177,7 @@ export const AddAssetModal = ({ isOpen, onClose, onAdd }: AddAssetModalProps) =>
                 className="flex-1 btn-premium"
           >
                 <Check className="w-4 h-4 mr-1" />
-                Add Game
+                Add {itemLabel}
           </Button>
             </div>
           </div>
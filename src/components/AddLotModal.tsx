@@ -0,0 +1,442 @@
+import { useState, useEffect } from 'react';
+import { Loader2, Package, Plus, Search, Trash2 } from 'lucide-react';
+import {
+  Asset,
+  AssetCategory,
+  LotAllocationMethod,
+  TradingCardDetails,
+  VideoGameDetails,
+  categoryIcons,
+  categoryLabels,
+} from '@/types/asset';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { lookupPrice, isAnyApiConfigured, PriceLookupResult } from '@/services/priceLookup';
+import { applyValuation } from '@/services/revaluation';
+import { SnapshotInput } from '@/utils/priceHistory';
+import {
+  allocateLotCost,
+  allocationMethodLabels,
+  createLot,
+  getUnallocatedAmount,
+} from '@/utils/lotAllocation';
+
+interface AddLotModalProps {
+  isOpen: boolean;
+  userId: string | null;
+  onClose: () => void;
+  onAdd: (entries: Array<{ game: Asset; valuation?: SnapshotInput }>) => Promise<void>;
+}
+
+interface LotItemDraft {
+  key: number;
+  name: string;
+  // Platform for games, set name for cards
+  group: string;
+  conditionType: VideoGameDetails['conditionType'];
+  manualAmount: string;
+  valuation?: PriceLookupResult;
+}
+
+// Common platforms for lots
+const platforms = [
+  'NES', 'SNES', 'N64', 'GameCube', 'Wii', 'Switch',
+  'Game Boy', 'GBA', 'DS', '3DS',
+  'PS1', 'PS2', 'PS3', 'PSP',
+  'Xbox', 'Xbox 360',
+  'Sega Genesis', 'Sega Saturn', 'Dreamcast',
+  'Atari 2600', 'Other',
+];
+
+let nextItemKey = 0;
+const createDraft = (group = ''): LotItemDraft => ({
+  key: nextItemKey++,
+  name: '',
+  group,
+  conditionType: 'loose',
+  manualAmount: '',
+});
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export const AddLotModal = ({ isOpen, userId, onClose, onAdd }: AddLotModalProps) => {
+  const [category, setCategory] = useState<AssetCategory>('video-games');
+  const [lotName, setLotName] = useState('');
+  const [totalCost, setTotalCost] = useState('');
+  const [source, setSource] = useState('');
+  const [purchaseDate, setPurchaseDate] = useState(today());
+  const [defaultGroup, setDefaultGroup] = useState('');
+  const [method, setMethod] = useState<LotAllocationMethod>('market');
+  const [items, setItems] = useState<LotItemDraft[]>(() => [createDraft()]);
+  const [lookupProgress, setLookupProgress] = useState<{ done: number; total: number } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isCard = category === 'trading-cards';
+
+  // Reset when modal closes
+  useEffect(() => {
+    if (!isOpen) {
+      setTimeout(() => {
+        setCategory('video-games');
+        setLotName('');
+        setTotalCost('');
+        setSource('');
+        setPurchaseDate(today());
+        setDefaultGroup('');
+        setMethod('market');
+        setItems([createDraft()]);
+        setLookupProgress(null);
+        setIsSaving(false);
+      }, 200);
+    }
+  }, [isOpen]);
+
+  const total = parseFloat(totalCost) || 0;
+  const namedItems = items.filter(item => item.name.trim());
+  const weights = namedItems.map(item =>
+    method === 'manual' ? parseFloat(item.manualAmount) || 0 : item.valuation?.estimatedValue || 0
+  );
+  const allocation = allocateLotCost(total, weights, method);
+  const allocationByKey = new Map(namedItems.map((item, i) => [item.key, allocation[i]]));
+  const unallocated = method === 'manual' ? getUnallocatedAmount(total, weights) : 0;
+  const missingMarketValues = method === 'market' && namedItems.some(item => !item.valuation);
+
+  const canSave = lotName.trim().length > 0
+    && total > 0
+    && source.trim().length > 0
+    && namedItems.length > 0
+    && namedItems.every(item => item.group.trim())
+    && unallocated === 0
+    && !lookupProgress
+    && !isSaving;
+
+  const updateItem = (key: number, changes: Partial<LotItemDraft>) => {
+    setItems(prev => prev.map(item => item.key === key ? { ...item, ...changes } : item));
+  };
+
+  const handleDefaultGroupChange = (group: string) => {
+    // Items still on the previous default follow the new one
+    setItems(prev => prev.map(item => item.group === defaultGroup ? { ...item, group } : item));
+    setDefaultGroup(group);
+  };
+
+  const handleLookupValues = async () => {
+    const pending = namedItems.filter(item => item.group.trim());
+    setLookupProgress({ done: 0, total: pending.length });
+
+    for (const item of pending) {
+      try {
+        const result = await lookupPrice({
+          category,
+          name: item.name.trim(),
+          details: isCard
+            ? { setName: item.group, gradingCompany: 'raw' }
+            : { platform: item.group, conditionType: item.conditionType },
+          userId,
+        });
+        updateItem(item.key, { valuation: result.estimatedValue > 0 ? result : undefined });
+      } catch (error) {
+        console.error(`Price lookup failed for ${item.name}:`, error);
+      }
+      setLookupProgress(prev => prev && { ...prev, done: prev.done + 1 });
+    }
+    setLookupProgress(null);
+  };
+
+  const handleSave = async () => {
+    if (!canSave) return;
+    setIsSaving(true);
+
+    const lot = createLot(lotName.trim(), total, method);
+    const entries = namedItems.map((item, i) => {
+      const purchasePrice = allocation[i];
+      let game: Asset = {
+        id: `${Date.now()}-${i}`,
+        name: item.name.trim(),
+        category,
+        imageUrl: '/placeholder.svg',
+        currentValue: purchasePrice,
+        estimatedValue: item.valuation?.estimatedValue,
+        purchasePrice,
+        purchaseDate,
+        source: source.trim(),
+        lastUpdated: today(),
+        lot: item.valuation ? { ...lot, marketValue: item.valuation.estimatedValue } : lot,
+        ...(isCard
+          ? { tradingCardDetails: { cardGame: 'other', setName: item.group, gradingCompany: 'raw' } as TradingCardDetails }
+          : { videoGameDetails: { platform: item.group, region: 'NTSC', conditionType: item.conditionType, gradingCompany: 'raw' } as VideoGameDetails }),
+      };
+      if (item.valuation) {
+        game = applyValuation(game, item.valuation);
+      }
+      return { game, valuation: item.valuation };
+    });
+
+    try {
+      await onAdd(entries);
+      onClose();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const selectClassName = 'w-full h-10 px-3 rounded-md bg-secondary border border-border text-foreground text-sm focus:border-primary focus:outline-none';
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="bg-card border-border max-w-md mx-4 max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-display text-xl text-foreground flex items-center gap-2">
+            <Package className="w-5 h-5 text-primary" />
+            Add a Lot
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {/* Category */}
+          <div className="grid grid-cols-2 gap-2">
+            {(Object.keys(categoryLabels) as AssetCategory[]).map(c => (
+              <button
+                key={c}
+                onClick={() => {
+                  setCategory(c);
+                  handleDefaultGroupChange('');
+                }}
+                className={`flex items-center justify-center gap-2 p-2 rounded-lg text-sm font-medium border transition-colors ${
+                  category === c
+                    ? 'bg-primary/20 border-primary/50 text-foreground'
+                    : 'bg-secondary border-border/50 text-muted-foreground hover:text-foreground'
+                }`}
+              >
+                <span>{categoryIcons[c]}</span>
+                {categoryLabels[c]}
+              </button>
+            ))}
+          </div>
+
+          {/* Purchase */}
+          <div className="space-y-2">
+            <Label htmlFor="lot-name" className="text-sm text-muted-foreground">
+              Lot Name <span className="text-primary">*</span>
+            </Label>
+            <Input
+              id="lot-name"
+              value={lotName}
+              onChange={(e) => setLotName(e.target.value)}
+              placeholder="e.g., 15 NES carts from a garage sale"
+              className="bg-secondary border-border focus:border-primary"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="lot-total" className="text-sm text-muted-foreground">
+                Total Paid <span className="text-primary">*</span>
+              </Label>
+              <Input
+                id="lot-total"
+                type="number"
+                min="0"
+                step="0.01"
+                value={totalCost}
+                onChange={(e) => setTotalCost(e.target.value)}
+                placeholder="0.00"
+                className="bg-secondary border-border focus:border-primary"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="lot-date" className="text-sm text-muted-foreground">Purchase Date</Label>
+              <Input
+                id="lot-date"
+                type="date"
+                value={purchaseDate}
+                onChange={(e) => setPurchaseDate(e.target.value)}
+                className="bg-secondary border-border focus:border-primary"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="lot-source" className="text-sm text-muted-foreground">
+                Source <span className="text-primary">*</span>
+              </Label>
+              <Input
+                id="lot-source"
+                value={source}
+                onChange={(e) => setSource(e.target.value)}
+                placeholder="e.g., eBay"
+                className="bg-secondary border-border focus:border-primary"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-sm text-muted-foreground">{isCard ? 'Set' : 'Platform'}</Label>
+              {isCard ? (
+                <Input
+                  value={defaultGroup}
+                  onChange={(e) => handleDefaultGroupChange(e.target.value)}
+                  placeholder="e.g., Base Set"
+                  className="bg-secondary border-border focus:border-primary"
+                />
+              ) : (
+                <select
+                  value={defaultGroup}
+                  onChange={(e) => handleDefaultGroupChange(e.target.value)}
+                  className={selectClassName}
+                >
+                  <option value="">Mixed</option>
+                  {platforms.map(p => <option key={p} value={p}>{p}</option>)}
+                </select>
+              )}
+            </div>
+          </div>
+
+          {/* Items */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-sm text-muted-foreground">Items ({namedItems.length})</Label>
+              {isAnyApiConfigured() && (
+                <button
+                  onClick={handleLookupValues}
+                  disabled={!!lookupProgress || namedItems.length === 0}
+                  className="flex items-center gap-1 text-xs text-primary hover:underline disabled:opacity-50"
+                >
+                  {lookupProgress ? <Loader2 className="w-3 h-3 animate-spin" /> : <Search className="w-3 h-3" />}
+                  {lookupProgress
+                    ? `Looking up ${lookupProgress.done}/${lookupProgress.total}`
+                    : 'Look up market values'}
+                </button>
+              )}
+            </div>
+
+            {items.map(item => (
+              <div key={item.key} className="p-3 rounded-lg bg-secondary/30 space-y-2">
+                <div className="flex gap-2">
+                  <Input
+                    value={item.name}
+                    onChange={(e) => updateItem(item.key, { name: e.target.value, valuation: undefined })}
+                    placeholder={isCard ? 'Card name' : 'Game title'}
+                    className="bg-secondary border-border focus:border-primary"
+                  />
+                  <button
+                    onClick={() => setItems(prev => prev.length > 1 ? prev.filter(i => i.key !== item.key) : prev)}
+                    className="text-muted-foreground hover:text-destructive px-1"
+                    aria-label="Remove item"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  {isCard ? (
+                    <Input
+                      value={item.group}
+                      onChange={(e) => updateItem(item.key, { group: e.target.value, valuation: undefined })}
+                      placeholder="Set name"
+                      className="bg-secondary border-border focus:border-primary"
+                    />
+                  ) : (
+                    <>
+                      <select
+                        value={item.group}
+                        onChange={(e) => updateItem(item.key, { group: e.target.value, valuation: undefined })}
+                        className={selectClassName}
+                      >
+                        <option value="">Platform</option>
+                        {platforms.map(p => <option key={p} value={p}>{p}</option>)}
+                      </select>
+                      <select
+                        value={item.conditionType}
+                        onChange={(e) => updateItem(item.key, {
+                          conditionType: e.target.value as VideoGameDetails['conditionType'],
+                          valuation: undefined,
+                        })}
+                        className={selectClassName}
+                      >
+                        <option value="loose">Loose</option>
+                        <option value="cib">CIB</option>
+                        <option value="sealed">Sealed</option>
+                      </select>
+                    </>
+                  )}
+                </div>
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                  <span>
+                    {item.valuation
+                      ? `Market $${item.valuation.estimatedValue.toLocaleString()}`
+                      : 'No market value yet'}
+                  </span>
+                  {method === 'manual' ? (
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={item.manualAmount}
+                      onChange={(e) => updateItem(item.key, { manualAmount: e.target.value })}
+                      placeholder="Cost"
+                      className="w-24 h-8 bg-secondary border-border focus:border-primary text-right"
+                    />
+                  ) : (
+                    allocationByKey.has(item.key) && (
+                      <span className="text-foreground font-medium">
+                        Cost ${allocationByKey.get(item.key)!.toLocaleString()}
+                      </span>
+                    )
+                  )}
+                </div>
+              </div>
+            ))}
+
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setItems(prev => [...prev, createDraft(defaultGroup)])}
+              className="w-full"
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Add Item
+            </Button>
+          </div>
+
+          {/* Allocation */}
+          <div className="space-y-2">
+            <Label className="text-sm text-muted-foreground">Split the cost</Label>
+            <div className="grid grid-cols-3 gap-2">
+              {(Object.keys(allocationMethodLabels) as LotAllocationMethod[]).map(m => (
+                <button
+                  key={m}
+                  onClick={() => setMethod(m)}
+                  className={`p-2 rounded-lg text-xs font-medium border transition-colors ${
+                    method === m
+                      ? 'bg-primary/20 border-primary/50 text-foreground'
+                      : 'bg-secondary border-border/50 text-muted-foreground hover:text-foreground'
+                  }`}
+                >
+                  {allocationMethodLabels[m]}
+                </button>
+              ))}
+            </div>
+            {missingMarketValues && (
+              <p className="text-xs text-muted-foreground">
+                Items without a market value count as an average item until values are looked up.
+              </p>
+            )}
+            {method === 'manual' && unallocated !== 0 && (
+              <p className="text-xs text-destructive">
+                {unallocated > 0
+                  ? `$${unallocated.toLocaleString()} left to allocate`
+                  : `$${Math.abs(unallocated).toLocaleString()} over the total paid`}
+              </p>
+            )}
+          </div>
+
+          <Button onClick={handleSave} disabled={!canSave} className="w-full">
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Add {namedItems.length} {namedItems.length === 1 ? 'Item' : 'Items'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
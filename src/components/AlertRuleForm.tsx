@@ -0,0 +1,217 @@
+import { useState, useMemo } from 'react';
+import { Asset } from '@/types/asset';
+import { AlertCondition, AlertRuleScope, PriceDirection } from '@/types/alerts';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { getGamePlatform } from '@/services/alertEngine';
+import { isTempId } from '@/services/syncQueue';
+
+type ScopeType = AlertRuleScope['type'];
+type ConditionType = AlertCondition['type'];
+
+interface AlertRuleFormProps {
+  games: Asset[];
+  onAdd: (scope: AlertRuleScope, condition: AlertCondition) => void;
+  onCancel: () => void;
+}
+
+const selectClassName =
+  'w-full h-10 px-3 rounded-md bg-secondary border border-border text-foreground text-sm focus:border-primary focus:outline-none';
+
+export const AlertRuleForm = ({ games, onAdd, onCancel }: AlertRuleFormProps) => {
+  const [scopeType, setScopeType] = useState<ScopeType>('collection');
+  const [gameId, setGameId] = useState('');
+  const [platform, setPlatform] = useState('');
+  const [conditionType, setConditionType] = useState<ConditionType>('percent-change');
+  const [target, setTarget] = useState('');
+  const [percent, setPercent] = useState('10');
+  const [direction, setDirection] = useState<PriceDirection>('either');
+  const [windowDays, setWindowDays] = useState(7);
+  const [confidence, setConfidence] = useState<'high' | 'medium'>('high');
+
+  // Games still waiting to sync get a new id, so they can't be watched yet
+  const watchableGames = useMemo(
+    () => games.filter(g => !isTempId(g.id)).sort((a, b) => a.name.localeCompare(b.name)),
+    [games]
+  );
+  const platforms = useMemo(
+    () => [...new Set(games.map(getGamePlatform).filter(Boolean))].sort(),
+    [games]
+  );
+
+  const buildScope = (): AlertRuleScope | null => {
+    if (scopeType === 'game') return gameId ? { type: 'game', gameId } : null;
+    if (scopeType === 'platform') return platform ? { type: 'platform', platform } : null;
+    return { type: 'collection' };
+  };
+
+  const buildCondition = (): AlertCondition | null => {
+    switch (conditionType) {
+      case 'price-above':
+      case 'price-below': {
+        const value = parseFloat(target);
+        return value > 0 ? { type: conditionType, target: value } : null;
+      }
+      case 'percent-change': {
+        const value = parseFloat(percent);
+        return value > 0 ? { type: 'percent-change', percent: value, direction, windowDays } : null;
+      }
+      case 'confidence-drop':
+        return { type: 'confidence-drop', below: confidence };
+    }
+  };
+
+  const scope = buildScope();
+  const condition = buildCondition();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (scope && condition) onAdd(scope, condition);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-secondary/30 rounded-xl p-4 space-y-3">
+      <h3 className="text-sm font-semibold text-foreground">New Alert Rule</h3>
+
+      <div className="space-y-1">
+        <Label htmlFor="rule-scope" className="text-xs text-muted-foreground">Watch</Label>
+        <select
+          id="rule-scope"
+          value={scopeType}
+          onChange={(e) => setScopeType(e.target.value as ScopeType)}
+          className={selectClassName}
+        >
+          <option value="collection">Whole collection</option>
+          <option value="platform" disabled={platforms.length === 0}>A platform</option>
+          <option value="game" disabled={watchableGames.length === 0}>A single game</option>
+        </select>
+      </div>
+
+      {scopeType === 'platform' && (
+        <select
+          aria-label="Platform"
+          value={platform}
+          onChange={(e) => setPlatform(e.target.value)}
+          className={selectClassName}
+        >
+          <option value="">Choose a platform</option>
+          {platforms.map(p => <option key={p} value={p}>{p}</option>)}
+        </select>
+      )}
+
+      {scopeType === 'game' && (
+        <select
+          aria-label="Game"
+          value={gameId}
+          onChange={(e) => setGameId(e.target.value)}
+          className={selectClassName}
+        >
+          <option value="">Choose a game</option>
+          {watchableGames.map(g => <option key={g.id} value={g.id}>{g.name}</option>)}
+        </select>
+      )}
+
+      <div className="space-y-1">
+        <Label htmlFor="rule-condition" className="text-xs text-muted-foreground">Alert when</Label>
+        <select
+          id="rule-condition"
+          value={conditionType}
+          onChange={(e) => setConditionType(e.target.value as ConditionType)}
+          className={selectClassName}
+        >
+          <option value="percent-change">Value changes by a percentage</option>
+          <option value="price-above">Value rises above a target</option>
+          <option value="price-below">Value falls below a target</option>
+          <option value="confidence-drop">Valuation confidence drops</option>
+        </select>
+      </div>
+
+      {(conditionType === 'price-above' || conditionType === 'price-below') && (
+        <div className="space-y-1">
+          <Label htmlFor="rule-target" className="text-xs text-muted-foreground">
+            Target Price <span className="text-primary">*</span>
+          </Label>
+          <Input
+            id="rule-target"
+            type="number"
+            min="0"
+            step="0.01"
+            placeholder="0.00"
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+            className="bg-secondary border-border focus:border-primary"
+          />
+        </div>
+      )}
+
+      {conditionType === 'percent-change' && (
+        <div className="grid grid-cols-3 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="rule-percent" className="text-xs text-muted-foreground">Change %</Label>
+            <Input
+              id="rule-percent"
+              type="number"
+              min="1"
+              step="1"
+              value={percent}
+              onChange={(e) => setPercent(e.target.value)}
+              className="bg-secondary border-border focus:border-primary"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="rule-direction" className="text-xs text-muted-foreground">Direction</Label>
+            <select
+              id="rule-direction"
+              value={direction}
+              onChange={(e) => setDirection(e.target.value as PriceDirection)}
+              className={selectClassName}
+            >
+              <option value="either">Either</option>
+              <option value="up">Up</option>
+              <option value="down">Down</option>
+            </select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="rule-window" className="text-xs text-muted-foreground">Within</Label>
+            <select
+              id="rule-window"
+              value={windowDays}
+              onChange={(e) => setWindowDays(Number(e.target.value))}
+              className={selectClassName}
+            >
+              <option value={1}>1 day</option>
+              <option value={7}>7 days</option>
+              <option value={30}>30 days</option>
+              <option value={90}>90 days</option>
+            </select>
+          </div>
+        </div>
+      )}
+
+      {conditionType === 'confidence-drop' && (
+        <div className="space-y-1">
+          <Label htmlFor="rule-confidence" className="text-xs text-muted-foreground">Drops below</Label>
+          <select
+            id="rule-confidence"
+            value={confidence}
+            onChange={(e) => setConfidence(e.target.value as 'high' | 'medium')}
+            className={selectClassName}
+          >
+            <option value="high">High confidence</option>
+            <option value="medium">Medium confidence</option>
+          </select>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" onClick={onCancel} className="flex-1">
+          Cancel
+        </Button>
+        <Button type="submit" disabled={!scope || !condition} className="flex-1">
+          Add Rule
+        </Button>
+      </div>
+    </form>
+  );
+};
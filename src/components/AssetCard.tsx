@@ -1,5 +1,14 @@
 import { Asset } from '@/types/asset';
-import { TrendingUp, TrendingDown, ExternalLink, Gamepad2 } from 'lucide-react';
+import { TrendingUp, TrendingDown, ExternalLink, Gamepad2, Layers } from 'lucide-react';
+import { formatValuedAgo, getValuationStaleness, ValuationStaleness } from '@/services/revaluation';
+import { getCostBasis, getUnrealizedGain } from '@/utils/costBasis';
+
+const stalenessColors: Record<ValuationStaleness, string> = {
+  fresh: 'bg-success',
+  aging: 'bg-amber-500',
+  stale: 'bg-destructive',
+  never: 'bg-muted-foreground',
+};
 
 interface AssetCardProps {
   asset: Asset;
@@ -8,8 +17,8 @@ interface AssetCardProps {
 }
 
 export const AssetCard = ({ asset, index, onClick }: AssetCardProps) => {
-  const gain = asset.currentValue - asset.purchasePrice;
-  const gainPercentage = ((gain / asset.purchasePrice) * 100);
+  const costBasis = getCostBasis(asset);
+  const { gain, percentage: gainPercentage } = getUnrealizedGain(asset);
   const isPositive = gain >= 0;
 
   const formatCurrency = (value: number) => {
@@ -28,6 +37,13 @@ export const AssetCard = ({ asset, index, onClick }: AssetCardProps) => {
 
   // Get condition badge text
   const getConditionBadge = () => {
+    const cardDetails = asset.tradingCardDetails;
+    if (cardDetails) {
+      return cardDetails.gradingCompany && cardDetails.gradingCompany !== 'raw' && cardDetails.grade
+        ? `${cardDetails.gradingCompany} ${cardDetails.grade}`
+        : 'RAW';
+    }
+
     const details = asset.videoGameDetails;
     if (!details) return null;
     
@@ -39,6 +55,10 @@ export const AssetCard = ({ asset, index, onClick }: AssetCardProps) => {
   };
 
   const conditionBadge = getConditionBadge();
+  const isGraded = [asset.videoGameDetails?.gradingCompany, asset.tradingCardDetails?.gradingCompany]
+    .some(company => company && company !== 'raw');
+  const subtitle = asset.videoGameDetails?.platform || asset.tradingCardDetails?.setName;
+  const staleness = getValuationStaleness(asset);
 
   return (
     <div 
@@ -57,14 +77,18 @@ export const AssetCard = ({ asset, index, onClick }: AssetCardProps) => {
             />
           ) : (
             <div className="w-full h-full flex items-center justify-center bg-gradient-to-br from-primary/20 to-secondary">
-              <Gamepad2 className="w-10 h-10 text-primary/60" />
+              {asset.category === 'trading-cards' ? (
+                <Layers className="w-10 h-10 text-primary/60" />
+              ) : (
+                <Gamepad2 className="w-10 h-10 text-primary/60" />
+              )}
             </div>
           )}
-          {/* Platform badge */}
-          {asset.videoGameDetails?.platform && (
+          {/* Platform / set badge */}
+          {subtitle && (
             <div className="absolute bottom-1.5 left-1.5 right-1.5 text-center">
               <span className="text-[10px] font-semibold bg-black/80 text-white px-2 py-0.5 rounded-md backdrop-blur-sm">
-                {asset.videoGameDetails.platform}
+                {subtitle}
               </span>
             </div>
           )}
@@ -82,7 +106,7 @@ export const AssetCard = ({ asset, index, onClick }: AssetCardProps) => {
           <div className="flex items-center gap-2 mb-2">
             {conditionBadge && (
               <span className={`text-[10px] font-semibold px-1.5 py-0.5 rounded ${
-                asset.videoGameDetails?.gradingCompany && asset.videoGameDetails.gradingCompany !== 'raw'
+                isGraded
                   ? 'bg-primary/20 text-primary'
                   : 'bg-muted text-muted-foreground'
               }`}>
@@ -100,7 +124,11 @@ export const AssetCard = ({ asset, index, onClick }: AssetCardProps) => {
                 {formatCurrency(asset.currentValue)}
               </p>
               <p className="text-xs text-muted-foreground">
-                Paid {formatCurrency(asset.purchasePrice)}
+                {costBasis > asset.purchasePrice ? 'Cost' : 'Paid'} {formatCurrency(costBasis)}
+              </p>
+              <p className="text-[10px] text-muted-foreground flex items-center gap-1 mt-0.5">
+                <span className={`w-1.5 h-1.5 rounded-full ${stalenessColors[staleness]}`} />
+                {formatValuedAgo(asset.lastValuedAt)}
               </p>
             </div>
 
@@ -1,6 +1,6 @@
 import { useState, useMemo } from 'react';
 import { PortfolioChart } from './PortfolioChart';
-import { Asset } from '@/types/asset';
+import { Asset, PriceSnapshot } from '@/types/asset';
 import {
   generatePortfolioHistory,
   calculatePeriodGain,
@@ -9,6 +9,7 @@ import {
 
 interface ChartSectionProps {
   assets: Asset[];
+  snapshots: PriceSnapshot[];
   portfolioStats: {
     totalValue: number;
     totalGain: number;
@@ -16,13 +17,13 @@ interface ChartSectionProps {
   };
 }
 
-export const ChartSection = ({ assets, portfolioStats }: ChartSectionProps) => {
+export const ChartSection = ({ assets, snapshots, portfolioStats }: ChartSectionProps) => {
   const [selectedPeriod, setSelectedPeriod] = useState<TimePeriod>('1M');
 
-  // Generate portfolio history from real assets
+  // Generate portfolio history from real assets and recorded prices
   const portfolioHistory = useMemo(() => {
-    return generatePortfolioHistory(assets);
-  }, [assets]);
+    return generatePortfolioHistory(assets, snapshots);
+  }, [assets, snapshots]);
 
   // Calculate gain for the selected period
   const periodStats = useMemo(() => {
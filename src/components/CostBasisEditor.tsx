@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Asset, CostEntryType, costEntryLabels } from '@/types/asset';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { createCostEntry, getCostBasis } from '@/utils/costBasis';
+
+interface CostBasisEditorProps {
+  asset: Asset;
+  onUpdate?: (asset: Asset) => void;
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 2 }).format(value);
+
+export const CostBasisEditor = ({ asset, onUpdate }: CostBasisEditorProps) => {
+  const [isAdding, setIsAdding] = useState(false);
+  const [type, setType] = useState<CostEntryType>('shipping');
+  const [amount, setAmount] = useState('');
+  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+  const [note, setNote] = useState('');
+
+  const costs = [...(asset.costs || [])].sort((a, b) => a.date.localeCompare(b.date));
+  const parsedAmount = parseFloat(amount);
+
+  const resetForm = () => {
+    setIsAdding(false);
+    setType('shipping');
+    setAmount('');
+    setDate(new Date().toISOString().split('T')[0]);
+    setNote('');
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!onUpdate || !(parsedAmount > 0)) return;
+
+    const entry = createCostEntry({ type, amount: parsedAmount, date, note: note.trim() || undefined });
+    onUpdate({ ...asset, costs: [...(asset.costs || []), entry] });
+    resetForm();
+  };
+
+  const handleRemove = (entryId: string) => {
+    if (!onUpdate) return;
+    const remaining = (asset.costs || []).filter(c => c.id !== entryId);
+    onUpdate({ ...asset, costs: remaining.length > 0 ? remaining : undefined });
+  };
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-semibold text-foreground">Cost Basis</h3>
+      <div className="rounded-lg bg-secondary/30 divide-y divide-border text-sm">
+        <div className="flex justify-between p-3">
+          <span className="text-muted-foreground">Purchase price</span>
+          <span className="text-foreground">{formatCurrency(asset.purchasePrice)}</span>
+        </div>
+        {costs.map(entry => (
+          <div key={entry.id} className="flex items-center justify-between gap-2 p-3">
+            <div className="min-w-0">
+              <p className="text-muted-foreground">{costEntryLabels[entry.type]}</p>
+              <p className="text-xs text-muted-foreground truncate">
+                {new Date(entry.date).toLocaleDateString()}
+                {entry.note && ` · ${entry.note}`}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="text-foreground">{formatCurrency(entry.amount)}</span>
+              {onUpdate && (
+                <button
+                  onClick={() => handleRemove(entry.id)}
+                  className="text-muted-foreground hover:text-destructive"
+                  aria-label={`Remove ${costEntryLabels[entry.type]} cost`}
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+        <div className="flex justify-between p-3 font-semibold">
+          <span className="text-foreground">Total cost basis</span>
+          <span className="text-foreground">{formatCurrency(getCostBasis(asset))}</span>
+        </div>
+      </div>
+
+      {onUpdate && (isAdding ? (
+        <form onSubmit={handleAdd} className="space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              value={type}
+              onChange={(e) => setType(e.target.value as CostEntryType)}
+              className="w-full h-10 px-3 rounded-md bg-secondary border border-border text-foreground text-sm focus:border-primary focus:outline-none"
+            >
+              {(Object.keys(costEntryLabels) as CostEntryType[]).map(t => (
+                <option key={t} value={t}>{costEntryLabels[t]}</option>
+              ))}
+            </select>
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="Amount"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className="bg-secondary border-border focus:border-primary"
+            />
+            <Input
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className="bg-secondary border-border focus:border-primary"
+            />
+            <Input
+              placeholder="Note (optional)"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              className="bg-secondary border-border focus:border-primary"
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" size="sm" onClick={resetForm} className="flex-1">
+              Cancel
+            </Button>
+            <Button type="submit" size="sm" disabled={!(parsedAmount > 0) || !date} className="flex-1">
+              Add Cost
+            </Button>
+          </div>
+        </form>
+      ) : (
+        <Button variant="outline" size="sm" onClick={() => setIsAdding(true)} className="w-full">
+          <Plus className="w-4 h-4 mr-1" />
+          Add Cost
+        </Button>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+import { useState, useEffect } from 'react';
+import { Mail } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { toast } from '@/hooks/use-toast';
+import { canSendDigest, loadDigestSettings, requestDigestConfirmation, saveDigestSettings } from '@/services/digestSettings';
+import { DigestFrequency, DigestSettings, digestFrequencyLabels } from '@/types/digest';
+
+interface DigestSettingsCardProps {
+  userId: string | null | undefined;
+  defaultEmail?: string | null;
+}
+
+export const DigestSettingsCard = ({ userId, defaultEmail }: DigestSettingsCardProps) => {
+  const [settings, setSettings] = useState<DigestSettings | null>(null);
+  const [saving, setSaving] = useState(false);
+  const available = canSendDigest(userId);
+
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+    loadDigestSettings(userId, defaultEmail || '').then(loaded => {
+      if (!cancelled) setSettings(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, defaultEmail]);
+
+  const update = (changes: Partial<DigestSettings>) => {
+    setSettings(prev => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const handleSave = async () => {
+    if (!userId || !settings) return;
+    setSaving(true);
+    const saved = await saveDigestSettings(userId, settings);
+    const confirmation = saved && settings.enabled ? await requestDigestConfirmation() : null;
+    setSaving(false);
+
+    if (!saved) {
+      toast({ title: 'Could not save digest settings', variant: 'destructive' });
+    } else if (!settings.enabled) {
+      toast({ title: 'Digest email turned off' });
+    } else if (confirmation === 'confirmed') {
+      toast({ title: 'Digest email turned on' });
+    } else if (confirmation) {
+      toast({ title: 'Confirm your address', description: `Open the link we sent to ${settings.email} to start receiving digests` });
+    } else {
+      toast({ title: 'Could not send the confirmation email', variant: 'destructive' });
+    }
+  };
+
+  const emailValid = /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(settings?.email || '');
+
+  return (
+    <div className="card-premium p-4 mb-6">
+      <h3 className="font-display font-semibold text-foreground mb-1 flex items-center gap-2">
+        <Mail className="w-4 h-4" />
+        Digest Email
+      </h3>
+      <p className="text-xs text-muted-foreground mb-4">
+        Top movers, price alerts and stale valuations in your inbox
+      </p>
+
+      {!available ? (
+        <p className="text-sm text-muted-foreground text-center py-2">
+          Sign in with cloud sync configured to receive digests
+        </p>
+      ) : !settings ? (
+        <p className="text-sm text-muted-foreground text-center py-2">Loading…</p>
+      ) : (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-foreground">Send me a digest</span>
+            <Switch checked={settings.enabled} onCheckedChange={(enabled) => update({ enabled })} />
+          </div>
+          <Input
+            type="email"
+            value={settings.email}
+            onChange={(e) => update({ email: e.target.value.trim() })}
+            placeholder="you@example.com"
+            disabled={!settings.enabled}
+          />
+          <select
+            value={settings.frequency}
+            onChange={(e) => update({ frequency: e.target.value as DigestFrequency })}
+            disabled={!settings.enabled}
+            className="w-full h-10 px-3 rounded-md bg-secondary border border-border text-foreground text-sm focus:border-primary focus:outline-none disabled:opacity-50"
+          >
+            {(Object.keys(digestFrequencyLabels) as DigestFrequency[]).map(frequency => (
+              <option key={frequency} value={frequency}>{digestFrequencyLabels[frequency]}</option>
+            ))}
+          </select>
+          {settings.lastSentAt && (
+            <p className="text-xs text-muted-foreground">
+              Last sent {new Date(settings.lastSentAt).toLocaleDateString()}
+            </p>
+          )}
+          <Button
+            variant="outline"
+            className="w-full"
+            disabled={saving || (settings.enabled && !emailValid)}
+            onClick={handleSave}
+          >
+            {saving ? 'Saving…' : 'Save Digest Settings'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
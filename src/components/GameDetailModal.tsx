@@ -1,5 +1,5 @@
-import { useState, useEffect } from 'react';
-import { Asset } from '@/types/asset';
+import { useState, useEffect, useMemo } from 'react';
+import { Asset, PriceSnapshot, SaleDetails } from '@/types/asset';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { 
@@ -16,34 +16,61 @@ import {
   Clock,
   RefreshCw,
   Loader2,
-  Trash2
+  Trash2,
+  Layers,
+  Hash,
+  Receipt,
+  Undo2
 } from 'lucide-react';
-import { searchPriceCharting } from '@/services/priceChartingApi';
-import { isPriceChartingConfigured } from '@/config/api';
+import { getLookupDetails, lookupPrice, PriceLookupResult } from '@/services/priceLookup';
+import { isAnyApiConfigured } from '@/config/api';
+import { buildGamePriceHistory, SnapshotInput } from '@/utils/priceHistory';
+import { PhotoGallery } from '@/components/PhotoGallery';
+import { SellGameForm } from '@/components/SellGameForm';
+import { CostBasisEditor } from '@/components/CostBasisEditor';
+import { LotAllocationPanel } from '@/components/LotAllocationPanel';
+import { ValuationBreakdown } from '@/components/ValuationBreakdown';
+import { getCostBasis } from '@/utils/costBasis';
+import { getNetProceeds, getRealizedGain } from '@/utils/sales';
 
 interface GameDetailModalProps {
   asset: Asset | null;
+  snapshots: PriceSnapshot[];
+  userId: string | null;
   isOpen: boolean;
   onClose: () => void;
   onDelete?: (assetId: string) => void;
+  onUpdate?: (asset: Asset) => void;
+  // Items bought in the same lot as this asset, itself included
+  lotItems?: Asset[];
+  onReallocateLot?: (items: Asset[]) => void;
+  onRecordSnapshot?: (gameId: string, result: SnapshotInput) => void;
 }
 
-interface PriceHistoryPoint {
-  date: string;
-  price: number;
-}
-
-export const GameDetailModal = ({ asset, isOpen, onClose, onDelete }: GameDetailModalProps) => {
-  const [priceHistory, setPriceHistory] = useState<PriceHistoryPoint[]>([]);
+export const GameDetailModal = ({
+  asset,
+  snapshots,
+  userId,
+  isOpen,
+  onClose,
+  onDelete,
+  onUpdate,
+  lotItems = [],
+  onReallocateLot,
+  onRecordSnapshot,
+}: GameDetailModalProps) => {
   const [isLoadingHistory, setIsLoadingHistory] = useState(false);
   const [currentMarketPrice, setCurrentMarketPrice] = useState<number | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
-  const [priceBreakdown, setPriceBreakdown] = useState<{
-    loose?: number;
-    cib?: number;
-    new?: number;
-    graded?: number;
-  } | null>(null);
+  const [showSellForm, setShowSellForm] = useState(false);
+  const [priceBreakdown, setPriceBreakdown] = useState<PriceLookupResult['priceBreakdown'] | null>(null);
+  const [lastLookup, setLastLookup] = useState<PriceLookupResult | null>(null);
+
+  // Chart only recorded prices for this game
+  const priceHistory = useMemo(
+    () => (asset ? buildGamePriceHistory(snapshots, asset.id) : []),
+    [snapshots, asset]
+  );
 
   const handleDelete = () => {
     if (asset && onDelete) {
@@ -53,34 +80,49 @@ export const GameDetailModal = ({ asset, isOpen, onClose, onDelete }: GameDetail
     }
   };
 
+  const handleSell = (sale: SaleDetails) => {
+    if (asset && onUpdate) {
+      onUpdate({ ...asset, sale });
+      setShowSellForm(false);
+    }
+  };
+
+  const handleUndoSale = () => {
+    if (asset && onUpdate) {
+      onUpdate({ ...asset, sale: undefined });
+    }
+  };
+
   useEffect(() => {
-    if (isOpen && asset) {
+    // Sold items keep their last value; no need to look them up again
+    if (isOpen && asset && !asset.sale) {
       fetchPriceData();
     }
   }, [isOpen, asset]);
 
+  useEffect(() => {
+    setShowSellForm(false);
+    setLastLookup(null);
+  }, [asset?.id, isOpen]);
+
   const fetchPriceData = async () => {
-    if (!asset || !isPriceChartingConfigured()) return;
+    if (!asset || !isAnyApiConfigured()) return;
 
     setIsLoadingHistory(true);
     try {
-      const result = await searchPriceCharting(
-        asset.name,
-        'video-games',
-        {
-          platform: asset.videoGameDetails?.platform,
-          conditionType: asset.videoGameDetails?.conditionType || 'cib',
-        }
-      );
-
-      if (result) {
-        setCurrentMarketPrice(result.estimatedValue);
-        setPriceBreakdown(result.priceBreakdown || null);
-        
-        // Generate 7-day price history based on current price
-        const history = generateWeeklyPriceHistory(result.estimatedValue);
-        setPriceHistory(history);
-      }
+      const result = await lookupPrice({
+        category: asset.category,
+        name: asset.name,
+        details: getLookupDetails(asset),
+        userId,
+      });
+
+      setCurrentMarketPrice(result.estimatedValue || null);
+      setPriceBreakdown(result.priceBreakdown || null);
+      setLastLookup(result);
+      
+      // Every successful lookup becomes a point in the price history
+      onRecordSnapshot?.(asset.id, result);
     } catch (error) {
       console.error('Failed to fetch price data:', error);
     } finally {
@@ -88,51 +130,19 @@ export const GameDetailModal = ({ asset, isOpen, onClose, onDelete }: GameDetail
     }
   };
 
-  // Generate 7-day price history for visualization
-  const generateWeeklyPriceHistory = (currentPrice: number): PriceHistoryPoint[] => {
-    const history: PriceHistoryPoint[] = [];
-    const volatility = 0.015; // 1.5% daily volatility (lower for weekly view)
-    
-    // Start from a price slightly different from current
-    let price = currentPrice * (0.95 + Math.random() * 0.05);
-
-    // Generate daily data points for the past 7 days
-    for (let i = 6; i >= 0; i--) {
-      const date = new Date();
-      date.setDate(date.getDate() - i);
-      
-      // Random walk toward current price
-      const targetDrift = (currentPrice - price) * 0.1; // Slight pull toward current
-      const randomChange = (Math.random() - 0.5) * volatility * price;
-      price = price + targetDrift + randomChange;
-      
-      // Keep price within reasonable bounds
-      price = Math.max(price, currentPrice * 0.9);
-      price = Math.min(price, currentPrice * 1.1);
-
-      history.push({
-        date: date.toISOString().split('T')[0],
-        price: Math.round(price * 100) / 100,
-      });
-    }
-
-    // Ensure last point is exactly the current price
-    if (history.length > 0) {
-      history[history.length - 1].price = currentPrice;
-    }
-
-    return history;
-  };
-
   if (!asset) return null;
 
-  const gain = asset.currentValue - asset.purchasePrice;
-  const gainPercentage = asset.purchasePrice > 0 
-    ? ((gain / asset.purchasePrice) * 100) 
+  const sale = asset.sale;
+  const costBasis = getCostBasis(asset);
+  // Once sold, the gain is what the sale actually brought in
+  const gain = sale ? getRealizedGain(asset) : asset.currentValue - costBasis;
+  const gainPercentage = costBasis > 0 
+    ? ((gain / costBasis) * 100) 
     : 0;
   const isPositive = gain >= 0;
 
   const details = asset.videoGameDetails;
+  const cardDetails = asset.tradingCardDetails;
 
   // Calculate chart dimensions
   const chartWidth = 320;
@@ -206,11 +216,11 @@ export const GameDetailModal = ({ asset, isOpen, onClose, onDelete }: GameDetail
             <X className="w-4 h-4 text-white" />
           </button>
           
-          {/* Platform Badge */}
-          {details?.platform && (
+          {/* Platform / Set Badge */}
+          {(details?.platform || cardDetails?.setName) && (
             <div className="absolute bottom-3 left-3">
               <span className="px-3 py-1.5 rounded-full bg-black/70 text-white text-sm font-medium backdrop-blur-sm">
-                {details.platform}
+                {details?.platform || cardDetails?.setName}
               </span>
             </div>
           )}
@@ -224,7 +234,7 @@ export const GameDetailModal = ({ asset, isOpen, onClose, onDelete }: GameDetail
             </h2>
             <div className="flex items-baseline gap-3">
               <span className="text-3xl font-display font-bold text-foreground">
-                ${asset.currentValue.toLocaleString()}
+                ${(sale ? sale.price : asset.currentValue).toLocaleString()}
               </span>
               <span className={`flex items-center gap-1 text-sm font-semibold ${
                 isPositive ? 'text-success' : 'text-destructive'
@@ -232,6 +242,11 @@ export const GameDetailModal = ({ asset, isOpen, onClose, onDelete }: GameDetail
                 {isPositive ? <TrendingUp className="w-4 h-4" /> : <TrendingDown className="w-4 h-4" />}
                 {isPositive ? '+' : ''}{gainPercentage.toFixed(1)}%
               </span>
+              {sale && (
+                <span className="px-2 py-0.5 rounded-full bg-muted text-muted-foreground text-xs font-medium">
+                  Sold
+                </span>
+              )}
             </div>
           </div>
 
@@ -240,7 +255,7 @@ export const GameDetailModal = ({ asset, isOpen, onClose, onDelete }: GameDetail
             <div className="flex items-center justify-between mb-3">
               <h3 className="text-sm font-semibold text-foreground flex items-center gap-2">
                 <TrendingUp className="w-4 h-4 text-primary" />
-                Price Trend (7 days)
+                Price History
               </h3>
               <button 
                 onClick={fetchPriceData}
@@ -260,7 +275,7 @@ export const GameDetailModal = ({ asset, isOpen, onClose, onDelete }: GameDetail
               <div className="h-[120px] flex items-center justify-center">
                 <Loader2 className="w-6 h-6 animate-spin text-primary" />
               </div>
-            ) : priceHistory.length > 0 ? (
+            ) : priceHistory.length > 1 ? (
               <svg width={chartWidth} height={chartHeight} className="w-full">
                 <defs>
                   <linearGradient id="areaGradient" x1="0" y1="0" x2="0" y2="1">
@@ -297,18 +312,30 @@ export const GameDetailModal = ({ asset, isOpen, onClose, onDelete }: GameDetail
                 )}
               </svg>
             ) : (
-              <div className="h-[120px] flex items-center justify-center text-muted-foreground text-sm">
-                No price history available
+              <div className="h-[120px] flex items-center justify-center text-muted-foreground text-sm text-center">
+                {priceHistory.length === 1
+                  ? `One price recorded on ${new Date(priceHistory[0].date).toLocaleDateString()}`
+                  : 'No price history recorded yet'}
               </div>
             )}
 
             {/* Price Range */}
-            {priceHistory.length > 0 && (
+            {priceHistory.length > 1 && (
               <div className="flex justify-between mt-2 text-xs text-muted-foreground">
                 <span>Low: ${Math.min(...priceHistory.map(p => p.price)).toLocaleString()}</span>
                 <span>High: ${Math.max(...priceHistory.map(p => p.price)).toLocaleString()}</span>
               </div>
             )}
+
+            {/* How the latest refresh was priced */}
+            {lastLookup && !isLoadingHistory && (
+              <div className="mt-3">
+                <ValuationBreakdown
+                  comparables={lastLookup.scoredComparables}
+                  configVersion={lastLookup.configVersion}
+                />
+              </div>
+            )}
           </div>
 
           {/* All Condition Prices */}
@@ -355,51 +382,104 @@ export const GameDetailModal = ({ asset, isOpen, onClose, onDelete }: GameDetail
             </div>
           )}
 
-          {/* Game Details */}
-          <div className="space-y-3">
-            <h3 className="text-sm font-semibold text-foreground">Game Details</h3>
-            <div className="grid grid-cols-2 gap-3">
-              {details?.platform && (
+          {/* Photos */}
+          <PhotoGallery asset={asset} userId={userId} onUpdate={onUpdate} />
+
+          {/* Card Details */}
+          {cardDetails && (
+            <div className="space-y-3">
+              <h3 className="text-sm font-semibold text-foreground">Card Details</h3>
+              <div className="grid grid-cols-2 gap-3">
                 <div className="flex items-center gap-2 p-3 rounded-lg bg-secondary/30">
-                  <Gamepad2 className="w-4 h-4 text-primary" />
+                  <Layers className="w-4 h-4 text-primary" />
                   <div>
-                    <p className="text-xs text-muted-foreground">Platform</p>
-                    <p className="text-sm font-medium text-foreground">{details.platform}</p>
+                    <p className="text-xs text-muted-foreground">Set</p>
+                    <p className="text-sm font-medium text-foreground">
+                      {cardDetails.setName}
+                      {cardDetails.year && ` (${cardDetails.year})`}
+                    </p>
                   </div>
                 </div>
-              )}
-              {details?.region && (
-                <div className="flex items-center gap-2 p-3 rounded-lg bg-secondary/30">
-                  <Globe className="w-4 h-4 text-primary" />
-                  <div>
-                    <p className="text-xs text-muted-foreground">Region</p>
-                    <p className="text-sm font-medium text-foreground">{details.region}</p>
+                {cardDetails.cardNumber && (
+                  <div className="flex items-center gap-2 p-3 rounded-lg bg-secondary/30">
+                    <Hash className="w-4 h-4 text-primary" />
+                    <div>
+                      <p className="text-xs text-muted-foreground">Card Number</p>
+                      <p className="text-sm font-medium text-foreground">{cardDetails.cardNumber}</p>
+                    </div>
                   </div>
-                </div>
-              )}
-              {details?.conditionType && (
-                <div className="flex items-center gap-2 p-3 rounded-lg bg-secondary/30">
-                  <Package className="w-4 h-4 text-primary" />
-                  <div>
-                    <p className="text-xs text-muted-foreground">Condition</p>
-                    <p className="text-sm font-medium text-foreground">{details.conditionType.toUpperCase()}</p>
+                )}
+                {cardDetails.variant && (
+                  <div className="flex items-center gap-2 p-3 rounded-lg bg-secondary/30">
+                    <Package className="w-4 h-4 text-primary" />
+                    <div>
+                      <p className="text-xs text-muted-foreground">Variant</p>
+                      <p className="text-sm font-medium text-foreground">{cardDetails.variant}</p>
+                    </div>
                   </div>
-                </div>
-              )}
-              {details?.gradingCompany && details.gradingCompany !== 'raw' && (
+                )}
                 <div className="flex items-center gap-2 p-3 rounded-lg bg-secondary/30">
                   <Shield className="w-4 h-4 text-primary" />
                   <div>
                     <p className="text-xs text-muted-foreground">Grading</p>
                     <p className="text-sm font-medium text-foreground">
-                      {details.gradingCompany} {details.grade}
-                      {details.sealRating && ` ${details.sealRating}`}
+                      {cardDetails.gradingCompany && cardDetails.gradingCompany !== 'raw'
+                        ? `${cardDetails.gradingCompany} ${cardDetails.grade ?? ''}`
+                        : 'Raw'}
                     </p>
                   </div>
                 </div>
-              )}
+              </div>
             </div>
-          </div>
+          )}
+
+          {/* Game Details */}
+          {details && (
+            <div className="space-y-3">
+              <h3 className="text-sm font-semibold text-foreground">Game Details</h3>
+              <div className="grid grid-cols-2 gap-3">
+                {details?.platform && (
+                  <div className="flex items-center gap-2 p-3 rounded-lg bg-secondary/30">
+                    <Gamepad2 className="w-4 h-4 text-primary" />
+                    <div>
+                      <p className="text-xs text-muted-foreground">Platform</p>
+                      <p className="text-sm font-medium text-foreground">{details.platform}</p>
+                    </div>
+                  </div>
+                )}
+                {details?.region && (
+                  <div className="flex items-center gap-2 p-3 rounded-lg bg-secondary/30">
+                    <Globe className="w-4 h-4 text-primary" />
+                    <div>
+                      <p className="text-xs text-muted-foreground">Region</p>
+                      <p className="text-sm font-medium text-foreground">{details.region}</p>
+                    </div>
+                  </div>
+                )}
+                {details?.conditionType && (
+                  <div className="flex items-center gap-2 p-3 rounded-lg bg-secondary/30">
+                    <Package className="w-4 h-4 text-primary" />
+                    <div>
+                      <p className="text-xs text-muted-foreground">Condition</p>
+                      <p className="text-sm font-medium text-foreground">{details.conditionType.toUpperCase()}</p>
+                    </div>
+                  </div>
+                )}
+                {details?.gradingCompany && details.gradingCompany !== 'raw' && (
+                  <div className="flex items-center gap-2 p-3 rounded-lg bg-secondary/30">
+                    <Shield className="w-4 h-4 text-primary" />
+                    <div>
+                      <p className="text-xs text-muted-foreground">Grading</p>
+                      <p className="text-sm font-medium text-foreground">
+                        {details.gradingCompany} {details.grade}
+                        {details.sealRating && ` ${details.sealRating}`}
+                      </p>
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
 
           {/* Purchase Details */}
           <div className="space-y-3">
@@ -440,13 +520,67 @@ export const GameDetailModal = ({ asset, isOpen, onClose, onDelete }: GameDetail
             </div>
           </div>
 
+          {/* Cost Basis */}
+          <CostBasisEditor asset={asset} onUpdate={onUpdate} />
+
+          {/* Lot Purchase */}
+          {asset.lot && (
+            <LotAllocationPanel asset={asset} items={lotItems} onReallocate={onReallocateLot} />
+          )}
+
+          {/* Sale Details */}
+          {sale && (
+            <div className="space-y-3">
+              <h3 className="text-sm font-semibold text-foreground">Sale Info</h3>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="flex items-center gap-2 p-3 rounded-lg bg-secondary/30">
+                  <DollarSign className="w-4 h-4 text-primary" />
+                  <div>
+                    <p className="text-xs text-muted-foreground">Sale Price</p>
+                    <p className="text-sm font-medium text-foreground">${sale.price.toLocaleString()}</p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 p-3 rounded-lg bg-secondary/30">
+                  <Calendar className="w-4 h-4 text-primary" />
+                  <div>
+                    <p className="text-xs text-muted-foreground">Sale Date</p>
+                    <p className="text-sm font-medium text-foreground">
+                      {new Date(sale.date).toLocaleDateString()}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 p-3 rounded-lg bg-secondary/30">
+                  <Receipt className="w-4 h-4 text-primary" />
+                  <div>
+                    <p className="text-xs text-muted-foreground">Fees + Shipping</p>
+                    <p className="text-sm font-medium text-foreground">
+                      ${(sale.fees + sale.shipping).toLocaleString()}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 p-3 rounded-lg bg-secondary/30">
+                  <Store className="w-4 h-4 text-primary" />
+                  <div>
+                    <p className="text-xs text-muted-foreground">Venue</p>
+                    <p className="text-sm font-medium text-foreground truncate max-w-[100px]">{sale.venue || '—'}</p>
+                  </div>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground text-center">
+                Net proceeds ${getNetProceeds(sale).toLocaleString()}
+              </p>
+            </div>
+          )}
+
           {/* Gain/Loss Summary */}
           <div className={`p-4 rounded-xl ${
             isPositive ? 'bg-success/10 border border-success/20' : 'bg-destructive/10 border border-destructive/20'
           }`}>
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-xs text-muted-foreground mb-1">Total {isPositive ? 'Gain' : 'Loss'}</p>
+                <p className="text-xs text-muted-foreground mb-1">
+                  {sale ? 'Realized' : 'Total'} {isPositive ? 'Gain' : 'Loss'}
+                </p>
                 <p className={`text-2xl font-display font-bold ${
                   isPositive ? 'text-success' : 'text-destructive'
                 }`}>
@@ -468,6 +602,23 @@ export const GameDetailModal = ({ asset, isOpen, onClose, onDelete }: GameDetail
             </div>
           </div>
 
+          {/* Sell / Undo Sale */}
+          {onUpdate && (
+            sale ? (
+              <Button variant="outline" onClick={handleUndoSale} className="w-full">
+                <Undo2 className="w-4 h-4 mr-2" />
+                Undo Sale
+              </Button>
+            ) : showSellForm ? (
+              <SellGameForm asset={asset} onSell={handleSell} onCancel={() => setShowSellForm(false)} />
+            ) : (
+              <Button variant="outline" onClick={() => setShowSellForm(true)} className="w-full">
+                <Receipt className="w-4 h-4 mr-2" />
+                Mark as Sold
+              </Button>
+            )
+          )}
+
           {/* Delete Button */}
           {onDelete && (
             <div className="pt-4 border-t border-border">
@@ -0,0 +1,322 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { AlertCircle, Check, ChevronLeft, ChevronRight, Copy, FileUp, Loader2, Upload } from 'lucide-react';
+import { Asset } from '@/types/asset';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { getLookupDetails, lookupPrice } from '@/services/priceLookup';
+import { applyValuation } from '@/services/revaluation';
+import { SnapshotInput } from '@/utils/priceHistory';
+import {
+  buildImportRows,
+  getMissingRequiredFields,
+  importFields,
+  parseImportFile,
+  suggestMapping,
+  ImportField,
+  ImportMapping,
+  ParsedImportFile,
+} from '@/utils/collectionImport';
+
+interface ImportCollectionModalProps {
+  isOpen: boolean;
+  userId: string | null;
+  existingGames: Asset[];
+  onClose: () => void;
+  onImport: (entries: Array<{ game: Asset; valuation?: SnapshotInput }>) => Promise<void>;
+}
+
+type Step = 'upload' | 'mapping' | 'preview' | 'importing';
+
+export const ImportCollectionModal = ({ isOpen, userId, existingGames, onClose, onImport }: ImportCollectionModalProps) => {
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [parsed, setParsed] = useState<ParsedImportFile | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping>({});
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [lookupPrices, setLookupPrices] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Reset when modal closes
+  useEffect(() => {
+    if (!isOpen) {
+      setTimeout(() => {
+        setStep('upload');
+        setFileName('');
+        setParsed(null);
+        setParseError(null);
+        setMapping({});
+        setSkipDuplicates(true);
+        setLookupPrices(false);
+        setProgress({ done: 0, total: 0 });
+      }, 200);
+    }
+  }, [isOpen]);
+
+  const rows = useMemo(
+    () => (parsed ? buildImportRows(parsed, mapping, existingGames) : []),
+    [parsed, mapping, existingGames]
+  );
+
+  const importable = rows.filter(r => r.asset && !(skipDuplicates && r.duplicate));
+  const invalidCount = rows.filter(r => r.errors.length > 0).length;
+  const duplicateCount = rows.filter(r => r.duplicate).length;
+  const missingFields = getMissingRequiredFields(mapping);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setParseError(null);
+    try {
+      const result = parseImportFile(file.name, await file.text());
+      if (result.rows.length === 0) {
+        setParseError('No rows found in this file');
+        return;
+      }
+      setFileName(file.name);
+      setParsed(result);
+      setMapping(suggestMapping(result.headers));
+      setStep('mapping');
+    } catch (error) {
+      console.error('Import parse error:', error);
+      setParseError('Could not read this file. Use a CSV or JSON export.');
+    } finally {
+      e.target.value = '';
+    }
+  };
+
+  const handleImport = async () => {
+    setStep('importing');
+    setProgress({ done: 0, total: importable.length });
+
+    const entries: Array<{ game: Asset; valuation?: SnapshotInput }> = [];
+    for (const row of importable) {
+      let game = row.asset!;
+      let valuation: SnapshotInput | undefined;
+
+      if (lookupPrices) {
+        try {
+          const result = await lookupPrice({
+            category: game.category,
+            name: game.name,
+            details: getLookupDetails(game),
+            userId,
+          });
+          if (result.estimatedValue > 0) {
+            game = applyValuation(game, result);
+            valuation = result;
+          }
+        } catch (error) {
+          console.error(`Price lookup failed for ${game.name}:`, error);
+        }
+      }
+
+      entries.push({ game, valuation });
+      setProgress(prev => ({ ...prev, done: prev.done + 1 }));
+    }
+
+    await onImport(entries);
+    onClose();
+  };
+
+  // Name as written in the file, for rows that failed validation
+  const getSourceName = (rowNumber: number) =>
+    mapping.name ? parsed?.rows[rowNumber - 2]?.[mapping.name] : undefined;
+
+  const updateMapping = (field: ImportField, header: string) => {
+    setMapping(prev => ({ ...prev, [field]: header || undefined }));
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="bg-card border-border max-w-md mx-4 max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-display text-xl text-foreground flex items-center gap-2">
+            <FileUp className="w-5 h-5 text-primary" />
+            {step === 'upload' && 'Import Collection'}
+            {step === 'mapping' && 'Match Columns'}
+            {step === 'preview' && 'Review Import'}
+            {step === 'importing' && 'Importing...'}
+          </DialogTitle>
+        </DialogHeader>
+
+        {/* Step 1: Upload */}
+        {step === 'upload' && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Import a spreadsheet (CSV) or a JSON export, such as a PriceCharting collection export.
+              You'll match its columns to collection fields next.
+            </p>
+
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.json,.txt,text/csv,application/json"
+              onChange={handleFile}
+              className="hidden"
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="w-full flex flex-col items-center gap-2 p-8 rounded-xl border-2 border-dashed border-border hover:border-primary/50 bg-secondary/30 transition-colors"
+            >
+              <Upload className="w-8 h-8 text-primary" />
+              <span className="font-medium text-foreground">Choose a file</span>
+              <span className="text-xs text-muted-foreground">CSV or JSON</span>
+            </button>
+
+            {parseError && (
+              <div className="p-3 rounded-lg bg-destructive/20 border border-destructive/30 flex items-start gap-2">
+                <AlertCircle className="w-5 h-5 text-destructive flex-shrink-0" />
+                <p className="text-sm text-destructive">{parseError}</p>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Step 2: Column mapping */}
+        {step === 'mapping' && parsed && (
+          <div className="space-y-4">
+            <p className="text-xs text-muted-foreground">
+              {fileName} · {parsed.rows.length} rows
+            </p>
+
+            <div className="space-y-2">
+              {importFields.map(definition => (
+                <div key={definition.field} className="grid grid-cols-2 gap-3 items-center">
+                  <Label className="text-sm text-muted-foreground">
+                    {definition.label}
+                    {definition.required && <span className="text-primary"> *</span>}
+                  </Label>
+                  <select
+                    value={mapping[definition.field] || ''}
+                    onChange={(e) => updateMapping(definition.field, e.target.value)}
+                    className="w-full h-9 px-2 rounded-md bg-secondary border border-border text-foreground text-sm focus:border-primary focus:outline-none"
+                  >
+                    <option value="">— Not imported —</option>
+                    {parsed.headers.map(h => (
+                      <option key={h} value={h}>{h}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex gap-3 pt-2">
+              <Button variant="outline" onClick={() => setStep('upload')} className="flex-1">
+                <ChevronLeft className="w-4 h-4 mr-1" />
+                Back
+              </Button>
+              <Button
+                onClick={() => setStep('preview')}
+                disabled={missingFields.length > 0}
+                className="flex-1 btn-premium"
+              >
+                Preview
+                <ChevronRight className="w-4 h-4 ml-1" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Step 3: Preview */}
+        {step === 'preview' && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-2 text-center">
+              <div className="p-2 rounded-lg bg-success/10">
+                <p className="text-lg font-bold text-success">{importable.length}</p>
+                <p className="text-[10px] text-muted-foreground">To import</p>
+              </div>
+              <div className="p-2 rounded-lg bg-destructive/10">
+                <p className="text-lg font-bold text-destructive">{invalidCount}</p>
+                <p className="text-[10px] text-muted-foreground">Invalid</p>
+              </div>
+              <div className="p-2 rounded-lg bg-amber-500/10">
+                <p className="text-lg font-bold text-amber-500">{duplicateCount}</p>
+                <p className="text-[10px] text-muted-foreground">Duplicates</p>
+              </div>
+            </div>
+
+            <div className="max-h-64 overflow-y-auto space-y-1.5 pr-1">
+              {rows.map(row => (
+                <div
+                  key={row.rowNumber}
+                  className={`p-2 rounded-lg text-xs ${
+                    row.errors.length > 0 ? 'bg-destructive/10' :
+                    row.duplicate ? 'bg-amber-500/10' :
+                    'bg-secondary/40'
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-foreground truncate">
+                      <span className="text-muted-foreground mr-1.5">#{row.rowNumber}</span>
+                      {row.asset?.name || getSourceName(row.rowNumber) || '—'}
+                    </span>
+                    {row.asset && (
+                      <span className="text-muted-foreground flex-shrink-0">
+                        ${row.asset.purchasePrice.toLocaleString()}
+                      </span>
+                    )}
+                  </div>
+                  {row.errors.length > 0 && (
+                    <p className="text-destructive mt-0.5">{row.errors.join(' · ')}</p>
+                  )}
+                  {row.duplicate && (
+                    <p className="text-amber-500 mt-0.5 flex items-center gap-1">
+                      <Copy className="w-3 h-3" />
+                      {row.duplicate === 'existing' ? 'Already in your collection' : 'Repeated earlier in this file'}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-3 border-t border-border pt-3">
+              <div className="flex items-center justify-between">
+                <Label className="text-sm text-foreground">Skip duplicates</Label>
+                <Switch checked={skipDuplicates} onCheckedChange={setSkipDuplicates} />
+              </div>
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label className="text-sm text-foreground">Look up market prices</Label>
+                  <p className="text-xs text-muted-foreground">Slower; uses your daily API budget</p>
+                </div>
+                <Switch checked={lookupPrices} onCheckedChange={setLookupPrices} />
+              </div>
+            </div>
+
+            <div className="flex gap-3 pt-2">
+              <Button variant="outline" onClick={() => setStep('mapping')} className="flex-1">
+                <ChevronLeft className="w-4 h-4 mr-1" />
+                Back
+              </Button>
+              <Button
+                onClick={handleImport}
+                disabled={importable.length === 0}
+                className="flex-1 btn-premium"
+              >
+                <Check className="w-4 h-4 mr-1" />
+                Import {importable.length}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Step 4: Importing */}
+        {step === 'importing' && (
+          <div className="flex flex-col items-center justify-center py-8 gap-3">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+            <p className="text-sm text-muted-foreground">
+              {lookupPrices
+                ? `Pricing ${progress.done} of ${progress.total}...`
+                : 'Saving to your collection...'}
+            </p>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
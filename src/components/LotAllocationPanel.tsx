@@ -0,0 +1,117 @@
+import { useState, useEffect } from 'react';
+import { Package } from 'lucide-react';
+import { Asset, LotAllocationMethod } from '@/types/asset';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { allocationMethodLabels, getUnallocatedAmount, reallocateLot } from '@/utils/lotAllocation';
+import { isSold } from '@/utils/sales';
+
+interface LotAllocationPanelProps {
+  asset: Asset;
+  // Every item in the asset's lot, the asset included
+  items: Asset[];
+  onReallocate?: (items: Asset[]) => void;
+}
+
+export const LotAllocationPanel = ({ asset, items, onReallocate }: LotAllocationPanelProps) => {
+  const lot = asset.lot;
+  const [method, setMethod] = useState<LotAllocationMethod>(lot?.method || 'market');
+  const [manualAmounts, setManualAmounts] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    setMethod(lot?.method || 'market');
+    setManualAmounts({});
+  }, [lot?.id, lot?.method]);
+
+  if (!lot) return null;
+
+  // Sold items keep their share, so only owned ones can be changed
+  const amounts = items.map(item => {
+    const entered = isSold(item) ? undefined : manualAmounts[item.id];
+    return entered === undefined ? item.purchasePrice : parseFloat(entered) || 0;
+  });
+  const preview = reallocateLot(items, method, method === 'manual' ? amounts : undefined);
+  const unallocated = method === 'manual' ? getUnallocatedAmount(lot.totalCost, amounts) : 0;
+  const changed = preview.filter((item, i) =>
+    item !== items[i] && (item.purchasePrice !== items[i].purchasePrice || method !== lot.method)
+  );
+
+  const handleApply = () => {
+    if (!onReallocate || unallocated !== 0) return;
+    onReallocate(changed);
+  };
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-semibold text-foreground flex items-center gap-2">
+        <Package className="w-4 h-4 text-primary" />
+        Lot: {lot.name}
+      </h3>
+      <p className="text-xs text-muted-foreground">
+        {items.length} items bought for ${lot.totalCost.toLocaleString()} · split {allocationMethodLabels[lot.method].toLowerCase()}
+      </p>
+
+      <div className="rounded-lg bg-secondary/30 divide-y divide-border text-sm">
+        {preview.map((item, i) => (
+          <div
+            key={item.id}
+            className={`flex items-center justify-between gap-2 p-3 ${item.id === asset.id ? 'bg-primary/10' : ''}`}
+          >
+            <span className="text-foreground truncate">
+              {item.name}
+              {isSold(item) && <span className="ml-1.5 text-xs text-muted-foreground">sold</span>}
+            </span>
+            {method === 'manual' && onReallocate && !isSold(item) ? (
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                value={manualAmounts[item.id] ?? String(items[i].purchasePrice)}
+                onChange={(e) => setManualAmounts(prev => ({ ...prev, [item.id]: e.target.value }))}
+                className="w-24 h-8 bg-secondary border-border focus:border-primary text-right"
+              />
+            ) : (
+              <span className="text-foreground flex-shrink-0">${item.purchasePrice.toLocaleString()}</span>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {onReallocate && (
+        <>
+          <div className="grid grid-cols-3 gap-2">
+            {(Object.keys(allocationMethodLabels) as LotAllocationMethod[]).map(m => (
+              <button
+                key={m}
+                onClick={() => setMethod(m)}
+                className={`p-2 rounded-lg text-xs font-medium border transition-colors ${
+                  method === m
+                    ? 'bg-primary/20 border-primary/50 text-foreground'
+                    : 'bg-secondary border-border/50 text-muted-foreground hover:text-foreground'
+                }`}
+              >
+                {allocationMethodLabels[m]}
+              </button>
+            ))}
+          </div>
+          {unallocated !== 0 && (
+            <p className="text-xs text-destructive">
+              {unallocated > 0
+                ? `$${unallocated.toLocaleString()} left to allocate`
+                : `$${Math.abs(unallocated).toLocaleString()} over the total paid`}
+            </p>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleApply}
+            disabled={changed.length === 0 || unallocated !== 0}
+            className="w-full"
+          >
+            Recalculate Allocation
+          </Button>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,182 @@
+import { useEffect, useRef, useState } from 'react';
+import { CloudOff, ImagePlus, Loader2, Star, Trash2, X } from 'lucide-react';
+import { Asset } from '@/types/asset';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useGamePhotos } from '@/hooks/useGamePhotos';
+import { createCoverThumbnail, GamePhoto, isPublicPhotoUrl } from '@/services/gamePhotos';
+
+interface PhotoGalleryProps {
+  asset: Asset;
+  userId: string | null;
+  onUpdate?: (asset: Asset) => void;
+}
+
+export const PhotoGallery = ({ asset, userId, onUpdate }: PhotoGalleryProps) => {
+  const { photos, loading, addPhotos, removePhoto, updateCaption } = useGamePhotos(asset.id, userId);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [caption, setCaption] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const migratedFor = useRef<string | null>(null);
+  const coverFixedFor = useRef<string | null>(null);
+
+  const selected = photos.find(p => p.id === selectedId) || null;
+
+  useEffect(() => {
+    setCaption(selected?.caption || '');
+  }, [selected?.id, selected?.caption]);
+
+  // Move photos from older versions (inline data URLs on the game) into the gallery
+  useEffect(() => {
+    if (!onUpdate || !asset.photos?.length || migratedFor.current === asset.id) return;
+    migratedFor.current = asset.id;
+
+    (async () => {
+      const loaded = await addPhotos(asset.photos!);
+      const imageUrl = asset.imageUrl.startsWith('data:') && loaded[0]
+        ? await createCoverThumbnail(loaded[0])
+        : asset.imageUrl;
+      onUpdate({ ...asset, photos: undefined, imageUrl });
+    })();
+  }, [asset, onUpdate, addPhotos]);
+
+  // Covers that link to the bucket's old public URL no longer load
+  useEffect(() => {
+    if (!onUpdate || !isPublicPhotoUrl(asset.imageUrl) || coverFixedFor.current === asset.id) return;
+    const cover = photos.find(p => p.storagePath && asset.imageUrl.includes(p.storagePath));
+    if (!cover) return;
+    coverFixedFor.current = asset.id;
+
+    createCoverThumbnail(cover)
+      .then(imageUrl => onUpdate({ ...asset, imageUrl }))
+      .catch(error => console.error('Error replacing cover:', error));
+  }, [asset, photos, onUpdate]);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setIsWorking(true);
+    try {
+      const hadPhotos = photos.length > 0;
+      const loaded = await addPhotos(files);
+      // First photo becomes the cover if the game has none
+      if (onUpdate && !hadPhotos && asset.imageUrl === '/placeholder.svg' && loaded[0]) {
+        onUpdate({ ...asset, imageUrl: await createCoverThumbnail(loaded[0]) });
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleSetCover = async (photo: GamePhoto) => {
+    if (!onUpdate) return;
+    onUpdate({ ...asset, imageUrl: await createCoverThumbnail(photo) });
+  };
+
+  const handleDelete = async (photo: GamePhoto) => {
+    setIsWorking(true);
+    try {
+      const wasCover = asset.imageUrl === photo.url;
+      const remaining = await removePhoto(photo);
+      setSelectedId(null);
+      if (onUpdate && wasCover) {
+        onUpdate({ ...asset, imageUrl: remaining[0] ? await createCoverThumbnail(remaining[0]) : '/placeholder.svg' });
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="bg-secondary/30 rounded-xl p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-foreground">Photos</h3>
+        {(loading || isWorking) && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+      </div>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*"
+        multiple
+        onChange={handleFiles}
+        className="hidden"
+        aria-hidden="true"
+      />
+
+      {selected && (
+        <div className="space-y-2">
+          <div className="relative aspect-[4/3] bg-black rounded-lg overflow-hidden">
+            <img src={selected.url} alt={selected.caption || asset.name} className="w-full h-full object-contain" />
+            <button
+              onClick={() => setSelectedId(null)}
+              className="absolute top-2 right-2 w-7 h-7 rounded-full bg-black/50 flex items-center justify-center hover:bg-black/70"
+              aria-label="Close photo"
+            >
+              <X className="w-4 h-4 text-white" />
+            </button>
+            {selected.location === 'device' && (
+              <span className="absolute bottom-2 left-2 flex items-center gap-1 px-2 py-0.5 rounded-full bg-black/60 text-white text-[10px]">
+                <CloudOff className="w-3 h-3" />
+                On this device
+              </span>
+            )}
+          </div>
+          <Input
+            value={caption}
+            onChange={(e) => setCaption(e.target.value)}
+            onBlur={() => caption !== (selected.caption || '') && updateCaption(selected, caption)}
+            placeholder="Add a caption"
+            className="bg-secondary border-border focus:border-primary text-sm"
+          />
+          <div className="flex gap-2">
+            {onUpdate && (
+              <Button size="sm" variant="outline" className="flex-1" onClick={() => handleSetCover(selected)}>
+                <Star className="w-4 h-4 mr-1" />
+                Set as cover
+              </Button>
+            )}
+            <Button
+              size="sm"
+              variant="outline"
+              className="flex-1 text-destructive hover:text-destructive"
+              disabled={isWorking}
+              onClick={() => handleDelete(selected)}
+            >
+              <Trash2 className="w-4 h-4 mr-1" />
+              Delete
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-4 gap-2">
+        {photos.map(photo => (
+          <button
+            key={photo.id}
+            onClick={() => setSelectedId(photo.id)}
+            className={`relative aspect-square rounded-lg overflow-hidden border ${
+              photo.id === selectedId ? 'border-primary' : 'border-border'
+            }`}
+          >
+            <img src={photo.url} alt={photo.caption || `Photo ${photo.position + 1}`} className="w-full h-full object-cover" />
+            {photo.location === 'device' && (
+              <CloudOff className="absolute top-1 right-1 w-3 h-3 text-white drop-shadow" />
+            )}
+          </button>
+        ))}
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isWorking}
+          className="aspect-square rounded-lg border border-dashed border-border hover:border-primary/50 flex items-center justify-center text-muted-foreground hover:text-primary transition-colors"
+          aria-label="Add photos"
+        >
+          <ImagePlus className="w-5 h-5" />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -4,9 +4,17 @@ interface PortfolioHeaderProps {
   totalValue: number;
   totalGain: number;
   gainPercentage: number;
+  unrealizedGain: number;
+  realizedGain: number;
 }
 
-export const PortfolioHeader = ({ totalValue, totalGain, gainPercentage }: PortfolioHeaderProps) => {
+export const PortfolioHeader = ({
+  totalValue,
+  totalGain,
+  gainPercentage,
+  unrealizedGain,
+  realizedGain,
+}: PortfolioHeaderProps) => {
   const isPositive = totalGain >= 0;
   
   const formatCurrency = (value: number) => {
@@ -18,6 +26,8 @@ export const PortfolioHeader = ({ totalValue, totalGain, gainPercentage }: Portf
     }).format(value);
   };
 
+  const formatGain = (value: number) => `${value >= 0 ? '+' : ''}${formatCurrency(value)}`;
+
   return (
     <div className="card-premium p-6 mb-6 animate-fade-in">
       <div className="flex items-center gap-3 mb-4">
@@ -48,6 +58,21 @@ export const PortfolioHeader = ({ totalValue, totalGain, gainPercentage }: Portf
           {isPositive ? '+' : ''}{formatCurrency(totalGain)} all time
         </span>
       </div>
+
+      <div className="flex items-center gap-4 mt-3 text-xs text-muted-foreground">
+        <span>
+          Unrealized{' '}
+          <span className={`font-semibold ${unrealizedGain >= 0 ? 'text-success' : 'text-destructive'}`}>
+            {formatGain(unrealizedGain)}
+          </span>
+        </span>
+        <span>
+          Realized{' '}
+          <span className={`font-semibold ${realizedGain >= 0 ? 'text-success' : 'text-destructive'}`}>
+            {formatGain(realizedGain)}
+          </span>
+        </span>
+      </div>
     </div>
   );
 };
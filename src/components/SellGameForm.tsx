@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import { Asset, SaleDetails } from '@/types/asset';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { getCostBasis } from '@/utils/costBasis';
+import { getNetProceeds } from '@/utils/sales';
+
+interface SellGameFormProps {
+  asset: Asset;
+  onSell: (sale: SaleDetails) => void;
+  onCancel: () => void;
+}
+
+export const SellGameForm = ({ asset, onSell, onCancel }: SellGameFormProps) => {
+  const [price, setPrice] = useState(String(asset.currentValue || ''));
+  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+  const [fees, setFees] = useState('');
+  const [shipping, setShipping] = useState('');
+  const [venue, setVenue] = useState('');
+
+  const sale: SaleDetails = {
+    price: parseFloat(price) || 0,
+    date,
+    fees: parseFloat(fees) || 0,
+    shipping: parseFloat(shipping) || 0,
+    venue: venue.trim(),
+  };
+  const net = getNetProceeds(sale);
+  const gain = net - getCostBasis(asset);
+  const isValid = sale.price > 0 && Boolean(date) && date >= asset.purchaseDate;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isValid) onSell(sale);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-secondary/30 rounded-xl p-4 space-y-3">
+      <h3 className="text-sm font-semibold text-foreground">Record Sale</h3>
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="sale-price" className="text-xs text-muted-foreground">
+            Sale Price <span className="text-primary">*</span>
+          </Label>
+          <Input
+            id="sale-price"
+            type="number"
+            min="0"
+            step="0.01"
+            value={price}
+            onChange={(e) => setPrice(e.target.value)}
+            className="bg-secondary border-border focus:border-primary"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="sale-date" className="text-xs text-muted-foreground">
+            Date <span className="text-primary">*</span>
+          </Label>
+          <Input
+            id="sale-date"
+            type="date"
+            min={asset.purchaseDate}
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className="bg-secondary border-border focus:border-primary"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="sale-fees" className="text-xs text-muted-foreground">Fees</Label>
+          <Input
+            id="sale-fees"
+            type="number"
+            min="0"
+            step="0.01"
+            placeholder="0"
+            value={fees}
+            onChange={(e) => setFees(e.target.value)}
+            className="bg-secondary border-border focus:border-primary"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="sale-shipping" className="text-xs text-muted-foreground">Shipping</Label>
+          <Input
+            id="sale-shipping"
+            type="number"
+            min="0"
+            step="0.01"
+            placeholder="0"
+            value={shipping}
+            onChange={(e) => setShipping(e.target.value)}
+            className="bg-secondary border-border focus:border-primary"
+          />
+        </div>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="sale-venue" className="text-xs text-muted-foreground">Venue</Label>
+        <Input
+          id="sale-venue"
+          placeholder="e.g., eBay, local game store"
+          value={venue}
+          onChange={(e) => setVenue(e.target.value)}
+          className="bg-secondary border-border focus:border-primary"
+        />
+      </div>
+
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>Net proceeds: ${net.toLocaleString()}</span>
+        <span className={gain >= 0 ? 'text-success' : 'text-destructive'}>
+          {gain >= 0 ? '+' : ''}${gain.toLocaleString()} realized
+        </span>
+      </div>
+
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" onClick={onCancel} className="flex-1">
+          Cancel
+        </Button>
+        <Button type="submit" disabled={!isValid} className="flex-1">
+          Mark as Sold
+        </Button>
+      </div>
+    </form>
+  );
+};
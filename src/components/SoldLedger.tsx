@@ -0,0 +1,60 @@
+import { Receipt } from 'lucide-react';
+import { Asset } from '@/types/asset';
+import { getNetProceeds, getRealizedGain, isSold } from '@/utils/sales';
+
+interface SoldLedgerProps {
+  assets: Asset[];
+  onSelect: (asset: Asset) => void;
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(value);
+
+export const SoldLedger = ({ assets, onSelect }: SoldLedgerProps) => {
+  // Most recent sale first
+  const sold = assets.filter(isSold).sort((a, b) => b.sale.date.localeCompare(a.sale.date));
+  if (sold.length === 0) return null;
+
+  const totalRealized = sold.reduce((sum, a) => sum + getRealizedGain(a), 0);
+
+  return (
+    <section className="mt-8">
+      <div className="flex items-center justify-between mb-4 px-1">
+        <h3 className="font-display font-semibold text-foreground flex items-center gap-2">
+          <Receipt className="w-4 h-4 text-primary" />
+          Sold
+        </h3>
+        <span className={`text-sm font-medium ${totalRealized >= 0 ? 'text-success' : 'text-destructive'}`}>
+          {totalRealized >= 0 ? '+' : ''}{formatCurrency(totalRealized)} realized
+        </span>
+      </div>
+
+      <div className="card-premium divide-y divide-border">
+        {sold.map(asset => {
+          const gain = getRealizedGain(asset);
+          return (
+            <button
+              key={asset.id}
+              onClick={() => onSelect(asset)}
+              className="w-full flex items-center justify-between gap-3 p-3 text-left hover:bg-secondary/30 transition-colors"
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-foreground truncate">{asset.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {new Date(asset.sale.date).toLocaleDateString()}
+                  {asset.sale.venue && ` · ${asset.sale.venue}`}
+                </p>
+              </div>
+              <div className="text-right flex-shrink-0">
+                <p className="text-sm font-medium text-foreground">{formatCurrency(getNetProceeds(asset.sale))}</p>
+                <p className={`text-xs font-medium ${gain >= 0 ? 'text-success' : 'text-destructive'}`}>
+                  {gain >= 0 ? '+' : ''}{formatCurrency(gain)}
+                </p>
+              </div>
+            </button>
+          );
+        })}
+      </div>
+    </section>
+  );
+};
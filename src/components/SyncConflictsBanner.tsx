@@ -0,0 +1,65 @@
+import { AlertTriangle, X } from 'lucide-react';
+import { SyncConflict } from '@/services/syncQueue';
+import { Button } from '@/components/ui/button';
+
+interface SyncConflictsBannerProps {
+  conflicts: SyncConflict[];
+  onResolve: (gameId: string, keep: 'local' | 'server') => void;
+  onDismiss: (gameId: string) => void;
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(value);
+
+export const SyncConflictsBanner = ({ conflicts, onResolve, onDismiss }: SyncConflictsBannerProps) => {
+  if (conflicts.length === 0) return null;
+
+  return (
+    <div className="mb-6 p-4 rounded-xl bg-amber-500/10 border border-amber-500/30 space-y-3 animate-fade-in">
+      <div className="flex items-center gap-2">
+        <AlertTriangle className="w-4 h-4 text-amber-500" />
+        <p className="text-sm font-medium text-foreground">
+          {conflicts.length} item{conflicts.length === 1 ? ' was' : 's were'} edited on another device
+        </p>
+      </div>
+
+      {conflicts.map(conflict => (
+        <div key={conflict.gameId} className="p-3 rounded-lg bg-card/60 space-y-2">
+          <div className="flex items-start justify-between gap-2">
+            <div className="min-w-0">
+              <p className="text-sm text-foreground truncate">{conflict.name}</p>
+              <p className="text-xs text-muted-foreground">
+                Kept the {conflict.kept === 'local' ? 'version from this device' : 'cloud version'} (most recent)
+              </p>
+            </div>
+            <button
+              onClick={() => onDismiss(conflict.gameId)}
+              className="text-muted-foreground hover:text-foreground"
+              aria-label="Dismiss"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2 text-xs">
+            <div className="text-muted-foreground">
+              This device: <span className="text-foreground">{formatCurrency(conflict.local.currentValue)}</span>
+            </div>
+            <div className="text-muted-foreground">
+              Cloud: <span className="text-foreground">{formatCurrency(conflict.server.currentValue)}</span>
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" className="flex-1" onClick={() => onResolve(conflict.gameId, 'local')}>
+              Keep mine
+            </Button>
+            <Button size="sm" variant="outline" className="flex-1" onClick={() => onResolve(conflict.gameId, 'server')}>
+              Use cloud
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
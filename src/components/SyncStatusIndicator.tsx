@@ -0,0 +1,31 @@
+import { Cloud, CloudAlert, CloudOff, CloudUpload, HardDrive, RefreshCw } from 'lucide-react';
+import { SyncStatus } from '@/services/syncQueue';
+
+interface SyncStatusIndicatorProps {
+  status: SyncStatus;
+  pendingCount: number;
+}
+
+const statusStyles: Record<SyncStatus, { icon: typeof Cloud; label: string; className: string }> = {
+  local: { icon: HardDrive, label: 'On this device', className: 'text-muted-foreground' },
+  synced: { icon: Cloud, label: 'Synced', className: 'text-success' },
+  syncing: { icon: RefreshCw, label: 'Syncing', className: 'text-primary' },
+  pending: { icon: CloudUpload, label: 'Pending', className: 'text-amber-500' },
+  offline: { icon: CloudOff, label: 'Offline', className: 'text-muted-foreground' },
+  error: { icon: CloudAlert, label: 'Retrying', className: 'text-destructive' },
+};
+
+export const SyncStatusIndicator = ({ status, pendingCount }: SyncStatusIndicatorProps) => {
+  const { icon: Icon, label, className } = statusStyles[status];
+  const showCount = pendingCount > 0 && status !== 'synced' && status !== 'local';
+
+  return (
+    <div
+      className={`flex items-center gap-1 text-[10px] ${className}`}
+      title={showCount ? `${pendingCount} change${pendingCount === 1 ? '' : 's'} waiting to sync` : label}
+    >
+      <Icon className={`w-3 h-3 ${status === 'syncing' ? 'animate-spin' : ''}`} />
+      <span>{label}{showCount && ` · ${pendingCount}`}</span>
+    </div>
+  );
+};
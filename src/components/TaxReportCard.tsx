@@ -0,0 +1,88 @@
+import { useState, useMemo, useEffect } from 'react';
+import { FileSpreadsheet, Landmark } from 'lucide-react';
+import { Asset } from '@/types/asset';
+import { Button } from '@/components/ui/button';
+import { downloadFile } from '@/utils/collectionExport';
+import { buildTaxReport, exportTaxReportCSV, getTaxYears } from '@/utils/taxReport';
+
+interface TaxReportCardProps {
+  games: Asset[];
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value);
+
+export const TaxReportCard = ({ games }: TaxReportCardProps) => {
+  const years = useMemo(() => getTaxYears(games), [games]);
+  const [year, setYear] = useState<number | null>(years[0] ?? null);
+
+  useEffect(() => {
+    if (year === null || !years.includes(year)) setYear(years[0] ?? null);
+  }, [years, year]);
+
+  const report = useMemo(() => (year !== null ? buildTaxReport(games, year) : null), [games, year]);
+
+  const handleDownload = () => {
+    if (!report) return;
+    downloadFile(`gil0-form-8949-${report.year}.csv`, exportTaxReportCSV(report), 'text/csv;charset=utf-8');
+  };
+
+  const gainClass = (value: number) => (value >= 0 ? 'text-success' : 'text-destructive');
+
+  return (
+    <div className="card-premium p-4 mb-6">
+      <h3 className="font-display font-semibold text-foreground mb-1 flex items-center gap-2">
+        <Landmark className="w-4 h-4" />
+        Tax Report
+      </h3>
+      <p className="text-xs text-muted-foreground mb-4">
+        Capital gains on sold items, ready for Form 8949
+      </p>
+
+      {!report ? (
+        <p className="text-sm text-muted-foreground text-center py-2">No sales recorded yet</p>
+      ) : (
+        <div className="space-y-3">
+          <select
+            value={report.year}
+            onChange={(e) => setYear(Number(e.target.value))}
+            className="w-full h-10 px-3 rounded-md bg-secondary border border-border text-foreground text-sm focus:border-primary focus:outline-none"
+          >
+            {years.map(y => <option key={y} value={y}>Tax year {y}</option>)}
+          </select>
+
+          <div className="space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">
+                Short term ({report.shortTerm.length} {report.shortTerm.length === 1 ? 'sale' : 'sales'})
+              </span>
+              <span className={`font-medium ${gainClass(report.shortTermTotals.gain)}`}>
+                {formatCurrency(report.shortTermTotals.gain)}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">
+                Long term ({report.longTerm.length} {report.longTerm.length === 1 ? 'sale' : 'sales'})
+              </span>
+              <span className={`font-medium ${gainClass(report.longTermTotals.gain)}`}>
+                {formatCurrency(report.longTermTotals.gain)}
+              </span>
+            </div>
+            <div className="flex justify-between pt-2 border-t border-border">
+              <span className="text-muted-foreground">Collectibles tax (up to 28%)</span>
+              <span className="font-medium text-foreground">{formatCurrency(report.estimatedCollectiblesTax)}</span>
+            </div>
+          </div>
+          <p className="text-[10px] text-muted-foreground">
+            Short-term gains are taxed as ordinary income. Estimates only, not tax advice.
+          </p>
+
+          <Button variant="outline" className="w-full justify-start" onClick={handleDownload}>
+            <FileSpreadsheet className="w-4 h-4 mr-2" />
+            Form 8949 CSV
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
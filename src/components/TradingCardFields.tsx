@@ -0,0 +1,119 @@
+import { TradingCardDetails } from '@/types/asset';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+interface TradingCardFieldsProps {
+  value: TradingCardDetails;
+  onChange: (value: TradingCardDetails) => void;
+}
+
+const cardGames: Array<{ value: TradingCardDetails['cardGame']; label: string }> = [
+  { value: 'pokemon', label: 'Pokémon' },
+  { value: 'magic', label: 'Magic: The Gathering' },
+  { value: 'yugioh', label: 'Yu-Gi-Oh!' },
+  { value: 'sports', label: 'Sports' },
+  { value: 'other', label: 'Other' },
+];
+
+const selectClassName = 'w-full h-10 px-3 rounded-md bg-secondary border border-border text-foreground text-sm focus:border-primary focus:outline-none';
+
+export const TradingCardFields = ({ value, onChange }: TradingCardFieldsProps) => {
+  const update = (changes: Partial<TradingCardDetails>) => onChange({ ...value, ...changes });
+
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label className="text-sm text-muted-foreground">Game</Label>
+          <select
+            value={value.cardGame}
+            onChange={(e) => update({ cardGame: e.target.value as TradingCardDetails['cardGame'] })}
+            className={selectClassName}
+          >
+            {cardGames.map(g => (
+              <option key={g.value} value={g.value}>{g.label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm text-muted-foreground">Year</Label>
+          <Input
+            type="number"
+            value={value.year ?? ''}
+            onChange={(e) => update({ year: e.target.value ? parseInt(e.target.value) : undefined })}
+            placeholder="e.g., 1999"
+            className="bg-secondary border-border focus:border-primary"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-sm text-muted-foreground">
+          Set <span className="text-primary">*</span>
+        </Label>
+        <Input
+          value={value.setName}
+          onChange={(e) => update({ setName: e.target.value })}
+          placeholder="e.g., Base Set"
+          className="bg-secondary border-border focus:border-primary"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label className="text-sm text-muted-foreground">Card Number</Label>
+          <Input
+            value={value.cardNumber ?? ''}
+            onChange={(e) => update({ cardNumber: e.target.value || undefined })}
+            placeholder="e.g., 4/102"
+            className="bg-secondary border-border focus:border-primary"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm text-muted-foreground">Variant</Label>
+          <Input
+            value={value.variant ?? ''}
+            onChange={(e) => update({ variant: e.target.value || undefined })}
+            placeholder="e.g., 1st Edition Holo"
+            className="bg-secondary border-border focus:border-primary"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label className="text-sm text-muted-foreground">Grading</Label>
+          <select
+            value={value.gradingCompany ?? 'raw'}
+            onChange={(e) => update({ gradingCompany: e.target.value as TradingCardDetails['gradingCompany'] })}
+            className={selectClassName}
+          >
+            <option value="raw">Ungraded</option>
+            <option value="PSA">PSA</option>
+            <option value="BGS">BGS</option>
+            <option value="CGC">CGC</option>
+            <option value="SGC">SGC</option>
+          </select>
+        </div>
+
+        {value.gradingCompany && value.gradingCompany !== 'raw' && (
+          <div className="space-y-2">
+            <Label className="text-sm text-muted-foreground">Grade</Label>
+            <Input
+              type="number"
+              step="0.5"
+              min="1"
+              max="10"
+              value={value.grade ?? ''}
+              onChange={(e) => update({ grade: e.target.value ? parseFloat(e.target.value) : undefined })}
+              placeholder="e.g., 9"
+              className="bg-secondary border-border focus:border-primary"
+            />
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import { ChevronDown, ListChecks } from 'lucide-react';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ComparableStatus, ExplainedComparable } from '@/services/valuationEngine';
+
+interface ValuationBreakdownProps {
+  comparables: ExplainedComparable[];
+  configVersion?: string;
+}
+
+const statusLabels: Record<ComparableStatus, string> = {
+  used: 'Used',
+  condition: 'Condition',
+  'low-similarity': 'Not similar',
+  outlier: 'Outlier',
+};
+
+const statusClasses: Record<ComparableStatus, string> = {
+  used: 'bg-success/20 text-success',
+  condition: 'bg-muted text-muted-foreground',
+  'low-similarity': 'bg-muted text-muted-foreground',
+  outlier: 'bg-amber-500/20 text-amber-400',
+};
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(value);
+
+/**
+ * Expandable "how we priced this" table: every comparable the valuation
+ * engine saw, how much it counted and why dropped ones were left out
+ */
+export const ValuationBreakdown = ({ comparables, configVersion }: ValuationBreakdownProps) => {
+  const [open, setOpen] = useState(false);
+
+  if (comparables.length === 0) return null;
+
+  const usedCount = comparables.filter(c => c.status === 'used').length;
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="pt-2 border-t border-border/50">
+      <CollapsibleTrigger className="w-full flex items-center justify-between text-xs text-muted-foreground hover:text-primary">
+        <span className="flex items-center gap-1.5">
+          <ListChecks className="w-3.5 h-3.5" />
+          How we priced this ({usedCount} of {comparables.length} sales used)
+        </span>
+        <ChevronDown className={`w-3.5 h-3.5 transition-transform ${open ? 'rotate-180' : ''}`} />
+      </CollapsibleTrigger>
+
+      <CollapsibleContent>
+        <div className="mt-2 max-h-64 overflow-y-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-muted-foreground text-left">
+                <th className="font-normal pb-1">Sale</th>
+                <th className="font-normal pb-1 text-right">Price</th>
+                <th className="font-normal pb-1 text-right" title="Similarity to your item">Match</th>
+                <th className="font-normal pb-1 text-right" title="Weight for how recent the sale is">Recency</th>
+                <th className="font-normal pb-1 text-right">Share</th>
+              </tr>
+            </thead>
+            <tbody>
+              {comparables.map((comp, idx) => (
+                <tr
+                  key={`${comp.url || comp.name}-${idx}`}
+                  className={`border-t border-border/30 align-top ${comp.status === 'used' ? '' : 'opacity-60'}`}
+                >
+                  <td className="py-1.5 pr-2">
+                    <p className="text-foreground/80 truncate max-w-[150px]" title={comp.name}>{comp.name}</p>
+                    <p className="text-[10px] text-muted-foreground">
+                      {new Date(comp.soldDate).toLocaleDateString()} · {comp.source}
+                    </p>
+                    <p className="text-[10px] text-muted-foreground flex items-center gap-1 mt-0.5">
+                      <span className={`px-1 rounded ${statusClasses[comp.status]}`}>{statusLabels[comp.status]}</span>
+                      {comp.status !== 'used' && (
+                        <span className="truncate max-w-[130px]" title={comp.reason}>{comp.reason}</span>
+                      )}
+                    </p>
+                  </td>
+                  <td className="py-1.5 text-right text-foreground">
+                    {formatCurrency(comp.adjustedPrice)}
+                    {Math.round(comp.adjustedPrice) !== Math.round(comp.soldPrice) && (
+                      <p className="text-[10px] text-muted-foreground" title="Rescaled to your item's grade">
+                        sold {formatCurrency(comp.soldPrice)}
+                      </p>
+                    )}
+                  </td>
+                  <td className="py-1.5 text-right text-muted-foreground">{comp.similarityScore}%</td>
+                  <td className="py-1.5 text-right text-muted-foreground">{Math.round(comp.timeWeight * 100)}%</td>
+                  <td className="py-1.5 text-right font-medium text-foreground">
+                    {comp.status === 'used' ? `${Math.round(comp.weightShare * 100)}%` : '-'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {configVersion && (
+          <p className="mt-2 text-[10px] text-muted-foreground">Valuation model {configVersion}</p>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
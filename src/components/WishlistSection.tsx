@@ -0,0 +1,317 @@
+import { useState, useEffect } from 'react';
+import { Heart, Loader2, Pencil, Plus, RefreshCw, ShoppingCart, Trash2 } from 'lucide-react';
+import { WishlistItem } from '@/types/wishlist';
+import { NewWishlistItem, UseWishlistReturn } from '@/hooks/useWishlist';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { getDealPrice } from '@/utils/wishlist';
+
+interface WishlistSectionProps {
+  wishlist: UseWishlistReturn;
+  // Prefills the add form, e.g. from a price lookup result
+  draft: NewWishlistItem | null;
+  onDraftUsed: () => void;
+  onBuy: (item: WishlistItem) => void;
+}
+
+// Common platforms for quick selection
+const platforms = [
+  'NES', 'SNES', 'N64', 'GameCube', 'Wii', 'Switch',
+  'PS1', 'PS2', 'PS3', 'PS4', 'PS5',
+  'Xbox', 'Xbox 360', 'Xbox One',
+  'Game Boy', 'GBA', 'DS', '3DS',
+];
+
+const conditionLabels: Record<WishlistItem['conditionType'], string> = {
+  loose: 'Loose',
+  cib: 'CIB',
+  sealed: 'Sealed',
+};
+
+const selectClassName =
+  'w-full h-10 px-3 rounded-md bg-secondary border border-border text-foreground text-sm focus:border-primary focus:outline-none';
+
+interface WishlistFormProps {
+  initial: NewWishlistItem | null;
+  submitLabel: string;
+  onSubmit: (item: NewWishlistItem) => void;
+  onCancel: () => void;
+}
+
+const WishlistForm = ({ initial, submitLabel, onSubmit, onCancel }: WishlistFormProps) => {
+  const [name, setName] = useState(initial?.name || '');
+  const [platform, setPlatform] = useState(initial?.platform || '');
+  const [conditionType, setConditionType] = useState<WishlistItem['conditionType']>(initial?.conditionType || 'cib');
+  const [maxPrice, setMaxPrice] = useState(initial?.maxPrice ? String(initial.maxPrice) : '');
+  const [notes, setNotes] = useState(initial?.notes || '');
+
+  const price = parseFloat(maxPrice) || 0;
+  const isValid = name.trim().length > 0 && platform.trim().length > 0 && price > 0;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+    onSubmit({
+      name: name.trim(),
+      platform: platform.trim(),
+      conditionType,
+      maxPrice: price,
+      notes: notes.trim() || undefined,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-secondary/30 rounded-xl p-4 space-y-3">
+      <div className="space-y-1">
+        <Label htmlFor="wish-name" className="text-xs text-muted-foreground">
+          Game <span className="text-primary">*</span>
+        </Label>
+        <Input
+          id="wish-name"
+          placeholder="e.g., EarthBound"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="bg-secondary border-border focus:border-primary"
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="wish-platform" className="text-xs text-muted-foreground">
+            Platform <span className="text-primary">*</span>
+          </Label>
+          <select
+            id="wish-platform"
+            value={platform}
+            onChange={(e) => setPlatform(e.target.value)}
+            className={selectClassName}
+          >
+            <option value="">Choose</option>
+            {[...new Set([...platforms, platform].filter(Boolean))].map(p => (
+              <option key={p} value={p}>{p}</option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="wish-condition" className="text-xs text-muted-foreground">Condition</Label>
+          <select
+            id="wish-condition"
+            value={conditionType}
+            onChange={(e) => setConditionType(e.target.value as WishlistItem['conditionType'])}
+            className={selectClassName}
+          >
+            {Object.entries(conditionLabels).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="wish-max" className="text-xs text-muted-foreground">
+          Buy Below <span className="text-primary">*</span>
+        </Label>
+        <Input
+          id="wish-max"
+          type="number"
+          min="0"
+          step="0.01"
+          placeholder="0.00"
+          value={maxPrice}
+          onChange={(e) => setMaxPrice(e.target.value)}
+          className="bg-secondary border-border focus:border-primary"
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="wish-notes" className="text-xs text-muted-foreground">Notes</Label>
+        <Input
+          id="wish-notes"
+          placeholder="e.g., needs the manual"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          className="bg-secondary border-border focus:border-primary"
+        />
+      </div>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" onClick={onCancel} className="flex-1">
+          Cancel
+        </Button>
+        <Button type="submit" disabled={!isValid} className="flex-1">
+          {submitLabel}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export const WishlistSection = ({ wishlist, draft, onDraftUsed, onBuy }: WishlistSectionProps) => {
+  const { items, loading, checkingIds } = wishlist;
+  const [isAdding, setIsAdding] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  // A draft from the lookup result opens the add form
+  useEffect(() => {
+    if (draft) {
+      setEditingId(null);
+      setIsAdding(true);
+    }
+  }, [draft]);
+
+  const closeForm = () => {
+    setIsAdding(false);
+    onDraftUsed();
+  };
+
+  return (
+    <div className="card-premium p-4 mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-display font-semibold text-foreground flex items-center gap-2">
+          <Heart className="w-4 h-4 text-primary" />
+          Wishlist
+        </h3>
+        <div className="flex gap-2">
+          {items.length > 0 && (
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => wishlist.checkAll()}
+              disabled={checkingIds.length > 0}
+              aria-label="Check wishlist prices"
+            >
+              <RefreshCw className={`w-4 h-4 ${checkingIds.length > 0 ? 'animate-spin' : ''}`} />
+            </Button>
+          )}
+          {!isAdding && (
+            <Button size="sm" variant="outline" onClick={() => setIsAdding(true)}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {isAdding && (
+        <div className="mb-3">
+          <WishlistForm
+            key={draft ? `${draft.name}-${draft.platform}` : 'new'}
+            initial={draft}
+            submitLabel="Add to Wishlist"
+            onSubmit={(item) => {
+              wishlist.addItem(item);
+              closeForm();
+            }}
+            onCancel={closeForm}
+          />
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : items.length === 0 ? (
+        !isAdding && (
+          <p className="text-sm text-muted-foreground text-center py-2">
+            Add games you want and get notified when they drop below your price
+          </p>
+        )
+      ) : (
+        <div className="space-y-2">
+          {items.map(item => {
+            if (item.id === editingId) {
+              return (
+                <WishlistForm
+                  key={item.id}
+                  initial={item}
+                  submitLabel="Save"
+                  onSubmit={(changes) => {
+                    wishlist.updateItem({ ...item, ...changes });
+                    setEditingId(null);
+                  }}
+                  onCancel={() => setEditingId(null)}
+                />
+              );
+            }
+
+            const dealPrice = getDealPrice(item);
+            const isChecking = checkingIds.includes(item.id);
+            const listing = item.lastCheck?.lowestListing;
+            return (
+              <div
+                key={item.id}
+                className={`p-3 rounded-lg ${dealPrice !== null ? 'bg-success/10 border border-success/40' : 'bg-secondary/50'}`}
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-foreground truncate">{item.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {item.platform} • {conditionLabels[item.conditionType]} • below ${item.maxPrice.toLocaleString()}
+                    </p>
+                  </div>
+                  <div className="text-right shrink-0">
+                    {isChecking ? (
+                      <Loader2 className="w-4 h-4 animate-spin text-muted-foreground ml-auto" />
+                    ) : item.lastCheck ? (
+                      <>
+                        <p className={`text-sm font-semibold ${dealPrice !== null ? 'text-success' : 'text-foreground'}`}>
+                          ${item.lastCheck.estimatedValue.toLocaleString()}
+                        </p>
+                        <p className="text-[10px] text-muted-foreground">market</p>
+                      </>
+                    ) : (
+                      <p className="text-xs text-muted-foreground">Not priced</p>
+                    )}
+                  </div>
+                </div>
+
+                {listing && (
+                  <p className="text-xs text-muted-foreground mt-2 truncate">
+                    Lowest eBay sale: ${listing.price.toLocaleString()}
+                    {listing.url ? (
+                      <>
+                        {' '}
+                        <a href={listing.url} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
+                          view
+                        </a>
+                      </>
+                    ) : null}
+                  </p>
+                )}
+                {item.notes && <p className="text-xs text-muted-foreground mt-1">{item.notes}</p>}
+
+                <div className="flex items-center justify-between mt-2">
+                  {dealPrice !== null ? (
+                    <span className="text-xs font-medium text-success">
+                      Deal at ${dealPrice.toLocaleString()}
+                    </span>
+                  ) : (
+                    <span />
+                  )}
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => setEditingId(item.id)}
+                      className="p-1 text-muted-foreground hover:text-foreground"
+                      aria-label="Edit wishlist item"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => wishlist.removeItem(item.id)}
+                      className="p-1 text-muted-foreground hover:text-destructive"
+                      aria-label="Remove from wishlist"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                    <Button size="sm" variant="outline" className="ml-1 h-7 text-xs" onClick={() => onBuy(item)}>
+                      <ShoppingCart className="w-3 h-3 mr-1" />
+                      Bought It
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -6,8 +6,9 @@
  * 1. Create a .env file in the project root
  * 2. Add your API keys:
  * 
- *    VITE_EBAY_APP_ID=your_ebay_app_id
+ *    VITE_EBAY_PROXY_URL=/api/ebay-sold
  *    VITE_PRICECHARTING_API_KEY=your_pricecharting_key
+ *    VITE_VAPID_PUBLIC_KEY=your_vapid_public_key
  * 
  * Getting API Keys:
  * 
@@ -16,27 +17,75 @@
  *   2. Sign in or create account
  *   3. Go to "Hi [Name]" > "Application Keys"
  *   4. Create a Production keyset
- *   5. Copy the "App ID (Client ID)"
+ *   5. Set the "App ID (Client ID)" and "Cert ID (Client Secret)" as
+ *      EBAY_CLIENT_ID and EBAY_CLIENT_SECRET in the Vercel project
+ *      environment - they are only used by api/ebay-sold.ts, never the browser
+ *   6. Set CLERK_JWT_KEY (see below) as well: the proxy only answers
+ *      signed-in users, so eBay prices need Clerk sign-in
  * 
  * PriceCharting API (free tier - 500 req/day):
  *   1. Go to https://www.pricecharting.com/api
  *   2. Sign up for API access
  *   3. Copy your API key
+ * 
+ * Web Push notifications for price alerts:
+ *   1. Generate a key pair with `npx web-push generate-vapid-keys`
+ *   2. Set the public key as VITE_VAPID_PUBLIC_KEY, and set VAPID_PUBLIC_KEY,
+ *      VAPID_PRIVATE_KEY, VAPID_SUBJECT, SUPABASE_URL and
+ *      SUPABASE_SERVICE_ROLE_KEY in the Vercel project environment for
+ *      api/push-alerts.ts
+ *   3. Set CLERK_JWT_KEY to the instance's PEM public key (Clerk dashboard,
+ *      API keys) so the sender can check who is asking
+ *
+ * Collection digest email (api/digest-cron.ts, run daily by Vercel cron):
+ *   1. Set MAIL_FROM, APP_URL, CRON_SECRET (required), CLERK_JWT_KEY,
+ *      SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY in the Vercel project
+ *      environment
+ *   2. Set MAIL_TRANSPORT=smtp with SMTP_HOST, SMTP_PORT, SMTP_USER and
+ *      SMTP_PASS, or MAIL_TRANSPORT=file to write .eml files to .mail/
+ *   3. Digests only go to addresses confirmed through the link that
+ *      api/digest-confirm.ts mails out
+ *
+ * Background revaluation (api/revalue-cron.ts, run daily by Vercel cron):
+ *   Set CRON_SECRET, SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY and
+ *   PRICECHARTING_API_KEY and/or EBAY_CLIENT_ID + EBAY_CLIENT_SECRET; with
+ *   the Web Push keys above, alerts it fires are pushed too
+ *
+ * Cloud sync with Clerk: add Clerk as a third-party auth provider in
+ * Supabase (Authentication > Third-party auth) so row-level security sees
+ * the Clerk user id the app sends with each request
+ *
+ * Valuation tuning: mark a row in `valuation_configs` active, or point
+ * VITE_VALUATION_CONFIG_URL at a JSON ValuationConfig
  */
 
 export const apiConfig = {
   ebay: {
-    appId: import.meta.env.VITE_EBAY_APP_ID || '',
-    baseUrl: 'https://api.ebay.com',
-    // For browse API we need OAuth - this is the sandbox for testing
-    sandboxUrl: 'https://api.sandbox.ebay.com',
+    // Serverless proxy that handles eBay OAuth (see api/ebay-sold.ts)
+    proxyUrl: import.meta.env.VITE_EBAY_PROXY_URL || '',
+  },
+  push: {
+    vapidPublicKey: import.meta.env.VITE_VAPID_PUBLIC_KEY || '',
+    // Serverless sender for fired alerts (see api/push-alerts.ts)
+    senderUrl: import.meta.env.VITE_PUSH_SENDER_URL || '/api/push-alerts',
+  },
+  digest: {
+    // Mails a confirmation link for the digest address (see api/digest-confirm.ts)
+    confirmUrl: import.meta.env.VITE_DIGEST_CONFIRM_URL || '/api/digest-confirm',
+  },
+  valuation: {
+    // Optional JSON valuation config (see services/valuationConfigLoader.ts)
+    configUrl: import.meta.env.VITE_VALUATION_CONFIG_URL || '',
   },
   priceCharting: {
     apiKey: import.meta.env.VITE_PRICECHARTING_API_KEY || '',
     baseUrl: 'https://www.pricecharting.com/api',
+    // Free tier allowance
+    dailyRequestLimit: 500,
   },
 };
 
-export const isEbayConfigured = () => Boolean(apiConfig.ebay.appId);
+export const isEbayConfigured = () => Boolean(apiConfig.ebay.proxyUrl);
 export const isPriceChartingConfigured = () => Boolean(apiConfig.priceCharting.apiKey);
+export const isPushConfigured = () => Boolean(apiConfig.push.vapidPublicKey);
 export const isAnyApiConfigured = () => isEbayConfigured() || isPriceChartingConfigured();
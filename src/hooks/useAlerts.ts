@@ -0,0 +1,115 @@
+/**
+ * useAlerts Hook
+ *
+ * Loads the user's alert rules and firing history, and runs the alert
+ * engine whenever new price snapshots are recorded or the rules change.
+ * Alerts that fire while the app is in the background are sent as push
+ * notifications.
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Asset, PriceSnapshot } from '@/types/asset';
+import { AlertCondition, AlertEvent, AlertRule, AlertRuleScope } from '@/types/alerts';
+import { evaluateAlertRules } from '@/services/alertEngine';
+import {
+  deleteAlertRule,
+  loadAlertEvents,
+  loadAlertRules,
+  markAlertEventsRead,
+  recordAlertEvents,
+  saveAlertRule,
+  MAX_ALERT_EVENTS,
+} from '@/services/alertStore';
+import { sendAlertPushes } from '@/services/pushNotifications';
+
+export interface UseAlertsReturn {
+  rules: AlertRule[];
+  events: AlertEvent[];
+  unreadCount: number;
+  loading: boolean;
+  addRule: (scope: AlertRuleScope, condition: AlertCondition) => Promise<void>;
+  setRuleEnabled: (ruleId: string, enabled: boolean) => Promise<void>;
+  removeRule: (ruleId: string) => Promise<void>;
+  markRead: (eventIds: string[]) => Promise<void>;
+}
+
+export function useAlerts(userId: string | null, games: Asset[], snapshots: PriceSnapshot[]): UseAlertsReturn {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [events, setEvents] = useState<AlertEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const eventsRef = useRef<AlertEvent[]>([]);
+
+  const commitEvents = useCallback((updated: AlertEvent[]) => {
+    eventsRef.current = updated;
+    setEvents(updated);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    Promise.all([loadAlertRules(userId), loadAlertEvents(userId)]).then(([loadedRules, loadedEvents]) => {
+      if (cancelled) return;
+      setRules(loadedRules);
+      commitEvents(loadedEvents);
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, commitEvents]);
+
+  // Fire rules against the latest snapshots
+  useEffect(() => {
+    if (loading) return;
+    const fired = evaluateAlertRules({ rules, games, snapshots, history: eventsRef.current });
+    if (fired.length === 0) return;
+
+    commitEvents([...fired, ...eventsRef.current].slice(0, MAX_ALERT_EVENTS));
+    recordAlertEvents(userId, fired).then(() => {
+      // The sender reads the recorded events, so push once they're stored
+      if (document.visibilityState === 'hidden') sendAlertPushes(userId, fired);
+    });
+  }, [loading, rules, games, snapshots, userId, commitEvents]);
+
+  const addRule = useCallback(async (scope: AlertRuleScope, condition: AlertCondition) => {
+    const rule: AlertRule = {
+      id: crypto.randomUUID(),
+      scope,
+      condition,
+      enabled: true,
+      createdAt: new Date().toISOString(),
+    };
+    setRules(prev => [...prev, rule]);
+    await saveAlertRule(userId, rule);
+  }, [userId]);
+
+  const setRuleEnabled = useCallback(async (ruleId: string, enabled: boolean) => {
+    const rule = rules.find(r => r.id === ruleId);
+    if (!rule) return;
+    const updated = { ...rule, enabled };
+    setRules(prev => prev.map(r => r.id === ruleId ? updated : r));
+    await saveAlertRule(userId, updated);
+  }, [rules, userId]);
+
+  const removeRule = useCallback(async (ruleId: string) => {
+    setRules(prev => prev.filter(r => r.id !== ruleId));
+    await deleteAlertRule(userId, ruleId);
+  }, [userId]);
+
+  const markRead = useCallback(async (eventIds: string[]) => {
+    const ids = new Set(eventIds);
+    commitEvents(eventsRef.current.map(e => ids.has(e.id) ? { ...e, read: true } : e));
+    await markAlertEventsRead(userId, eventIds);
+  }, [userId, commitEvents]);
+
+  return {
+    rules,
+    events,
+    unreadCount: events.filter(e => !e.read).length,
+    loading,
+    addRule,
+    setRuleEnabled,
+    removeRule,
+    markRead,
+  };
+}
@@ -0,0 +1,99 @@
+/**
+ * useGamePhotos Hook
+ *
+ * Loads a game's photo gallery (cloud and device photos in order) and
+ * wraps adding, captioning and deleting photos
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  addGamePhotos,
+  deleteGamePhoto,
+  listGamePhotos,
+  releasePhotoUrls,
+  updatePhotoCaption,
+  uploadDevicePhotos,
+  GamePhoto,
+} from '@/services/gamePhotos';
+
+interface UseGamePhotosReturn {
+  photos: GamePhoto[];
+  loading: boolean;
+  addPhotos: (sources: Array<Blob | string>) => Promise<GamePhoto[]>;
+  removePhoto: (photo: GamePhoto) => Promise<GamePhoto[]>;
+  updateCaption: (photo: GamePhoto, caption: string) => Promise<void>;
+}
+
+export function useGamePhotos(gameId: string | null, userId: string | null): UseGamePhotosReturn {
+  const [photos, setPhotos] = useState<GamePhoto[]>([]);
+  const [loading, setLoading] = useState(false);
+  const photosRef = useRef<GamePhoto[]>([]);
+
+  const replacePhotos = useCallback((next: GamePhoto[]) => {
+    releasePhotoUrls(photosRef.current);
+    photosRef.current = next;
+    setPhotos(next);
+  }, []);
+
+  const refresh = useCallback(async (): Promise<GamePhoto[]> => {
+    if (!gameId) {
+      replacePhotos([]);
+      return [];
+    }
+    const loaded = await listGamePhotos(gameId, userId);
+    replacePhotos(loaded);
+    return loaded;
+  }, [gameId, userId, replacePhotos]);
+
+  useEffect(() => {
+    if (!gameId) {
+      replacePhotos([]);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    // Retry uploads that didn't make it last time, then load
+    uploadDevicePhotos(gameId, userId)
+      .then(() => listGamePhotos(gameId, userId))
+      .then(loaded => {
+        if (cancelled) {
+          releasePhotoUrls(loaded);
+        } else {
+          replacePhotos(loaded);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [gameId, userId, replacePhotos]);
+
+  // Release object URLs when the gallery goes away
+  useEffect(() => () => releasePhotoUrls(photosRef.current), []);
+
+  const addPhotos = useCallback(async (sources: Array<Blob | string>) => {
+    if (!gameId) return photosRef.current;
+    const nextPosition = Math.max(-1, ...photosRef.current.map(p => p.position)) + 1;
+    await addGamePhotos(gameId, sources, userId, nextPosition);
+    return refresh();
+  }, [gameId, userId, refresh]);
+
+  const removePhoto = useCallback(async (photo: GamePhoto) => {
+    await deleteGamePhoto(photo, userId);
+    return refresh();
+  }, [userId, refresh]);
+
+  const updateCaption = useCallback(async (photo: GamePhoto, caption: string) => {
+    if (await updatePhotoCaption(photo, caption, userId)) {
+      const updated = photosRef.current.map(p => p.id === photo.id ? { ...p, caption: caption.trim() || undefined } : p);
+      photosRef.current = updated;
+      setPhotos(updated);
+    }
+  }, [userId]);
+
+  return { photos, loading, addPhotos, removePhoto, updateCaption };
+}
@@ -1,62 +1,85 @@
 /**
  * useGames Hook
  * 
- * Manages game data with Supabase cloud sync + localStorage fallback
+ * Manages game data with Supabase cloud sync + localStorage fallback.
+ * Writes are applied locally first and pushed through the offline outbox
+ * (see services/syncQueue), so nothing is lost while offline. Changes
+ * made on other devices arrive through a Supabase realtime subscription.
  */
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
 import { supabase, isSupabaseConfigured } from '@/lib/supabase';
-import { Asset } from '@/types/asset';
+import { Asset, PriceSnapshot } from '@/types/asset';
+import type { GameRow, PriceSnapshotRow } from '@/types/database';
+import { createPriceSnapshot, isRecordableResult, SnapshotInput } from '@/utils/priceHistory';
+import { createLocalGamesRepository, createSupabaseGamesRepository, gameRowToAsset } from '@/services/gamesRepository';
+import { addGamePhotos, deleteAllGamePhotos, uploadDevicePhotos } from '@/services/gamePhotos';
+import { rekeyDevicePhotos } from '@/services/photoStore';
+import {
+  createMutation,
+  createSnapshotMutation,
+  enqueueMutation,
+  getDueMutations,
+  isTempId,
+  loadConflicts,
+  loadOutbox,
+  markFailed,
+  mergeWithServer,
+  recoverOrphanedGames,
+  recoverUnsentSnapshots,
+  rekeyOutbox,
+  saveConflicts,
+  saveOutbox,
+  PendingMutation,
+  SyncConflict,
+  SyncStatus,
+} from '@/services/syncQueue';
 
 interface UseGamesReturn {
   games: Asset[];
+  snapshots: PriceSnapshot[];
   loading: boolean;
   error: string | null;
-  addGame: (game: Asset) => Promise<void>;
+  addGame: (game: Asset, valuation?: SnapshotInput, photos?: Array<Blob | string>) => Promise<void>;
+  addGames: (entries: Array<{ game: Asset; valuation?: SnapshotInput }>) => Promise<void>;
   updateGame: (game: Asset) => Promise<void>;
   deleteGame: (gameId: string) => Promise<void>;
+  recordSnapshot: (gameId: string, result: SnapshotInput) => Promise<void>;
   refreshGames: () => Promise<void>;
+  syncStatus: SyncStatus;
+  pendingCount: number;
+  conflicts: SyncConflict[];
+  resolveConflict: (gameId: string, keep: 'local' | 'server') => void;
+  dismissConflict: (gameId: string) => void;
 }
 
-// Convert database row to Asset
-function dbRowToAsset(row: any): Asset {
+// Convert price snapshot row to PriceSnapshot
+function dbRowToSnapshot(row: PriceSnapshotRow): PriceSnapshot {
   return {
     id: row.id,
-    name: row.name,
-    category: 'video-games',
-    imageUrl: row.image_url || '/placeholder.svg',
-    currentValue: parseFloat(row.current_value),
-    purchasePrice: parseFloat(row.purchase_price),
-    purchaseDate: row.purchase_date,
+    gameId: row.game_id,
+    value: Number(row.value),
     source: row.source,
-    lastUpdated: row.updated_at?.split('T')[0] || new Date().toISOString().split('T')[0],
-    videoGameDetails: {
-      platform: row.platform,
-      region: row.region || 'NTSC',
-      conditionType: row.condition_type || 'cib',
-      gradingCompany: row.grading_company || 'raw',
-      grade: row.grade ? parseFloat(row.grade) : undefined,
-      sealRating: row.seal_rating || undefined,
-    },
+    confidence: row.confidence as PriceSnapshot['confidence'],
+    confidenceScore: row.confidence_score || 0,
+    configVersion: row.config_version || undefined,
+    recordedAt: row.recorded_at,
   };
 }
 
-// Convert Asset to database row (omit id for inserts, Supabase generates UUID)
-function assetToDbRow(asset: Asset, userId: string) {
+// Convert PriceSnapshot to database row
+function snapshotToDbRow(snapshot: PriceSnapshot, userId: string) {
   return {
+    id: snapshot.id,
+    game_id: snapshot.gameId,
     user_id: userId,
-    name: asset.name,
-    platform: asset.videoGameDetails?.platform || '',
-    region: asset.videoGameDetails?.region || 'NTSC',
-    condition_type: asset.videoGameDetails?.conditionType || 'cib',
-    grading_company: asset.videoGameDetails?.gradingCompany || null,
-    grade: asset.videoGameDetails?.grade || null,
-    seal_rating: asset.videoGameDetails?.sealRating || null,
-    purchase_price: asset.purchasePrice,
-    current_value: asset.currentValue,
-    purchase_date: asset.purchaseDate,
-    source: asset.source,
-    image_url: asset.imageUrl || null,
+    value: snapshot.value,
+    source: snapshot.source,
+    confidence: snapshot.confidence,
+    confidence_score: snapshot.confidenceScore,
+    config_version: snapshot.configVersion || null,
+    recorded_at: snapshot.recordedAt,
   };
 }
 
@@ -65,8 +88,13 @@ function getStorageKey(userId: string | null): string {
   return userId ? `gil0-${userId}` : 'gil0-assets';
 }
 
+// Helper to get price snapshot storage key
+function getSnapshotStorageKey(userId: string | null): string {
+  return userId ? `gil0-snapshots-${userId}` : 'gil0-snapshots';
+}
+
 // Helper to load from localStorage
-function loadFromStorage(key: string): Asset[] {
+function loadFromStorage<T>(key: string): T[] {
   try {
     const stored = localStorage.getItem(key);
     if (stored) {
@@ -79,9 +107,9 @@ function loadFromStorage(key: string): Asset[] {
 }
 
 // Helper to save to localStorage
-function saveToStorage(key: string, games: Asset[]): void {
+function saveToStorage<T>(key: string, items: T[]): void {
   try {
-    localStorage.setItem(key, JSON.stringify(games));
+    localStorage.setItem(key, JSON.stringify(items));
   } catch (e) {
     console.error('Error saving to localStorage:', e);
   }
@@ -89,162 +117,555 @@ function saveToStorage(key: string, games: Asset[]): void {
 
 export function useGames(userId: string | null): UseGamesReturn {
   const storageKey = getStorageKey(userId);
+  const snapshotStorageKey = getSnapshotStorageKey(userId);
+  // Device copy of the collection, and the only store without Supabase
+  const localGames = useMemo(() => createLocalGamesRepository(storageKey), [storageKey]);
+  const repository = useMemo(
+    () => (userId && isSupabaseConfigured() && supabase ? createSupabaseGamesRepository(supabase, userId) : null),
+    [userId]
+  );
+  const canSync = repository !== null;
   
   // Initialize with localStorage data immediately
-  const [games, setGames] = useState<Asset[]>(() => loadFromStorage(storageKey));
+  const [games, setGames] = useState<Asset[]>(() => localGames.read());
+  const [snapshots, setSnapshots] = useState<PriceSnapshot[]>(() => loadFromStorage<PriceSnapshot>(snapshotStorageKey));
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [outbox, setOutboxState] = useState<PendingMutation[]>(() => (userId ? loadOutbox(userId) : []));
+  const [conflicts, setConflicts] = useState<SyncConflict[]>(() => (userId ? loadConflicts(userId) : []));
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
   const initialLoadDone = useRef(false);
+  const snapshotsRef = useRef(snapshots);
+  const outboxRef = useRef(outbox);
+  const flushing = useRef(false);
+  const retryTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Realtime changes that arrive mid-sync wait until our own writes settle
+  const heldChanges = useRef<RealtimePostgresChangesPayload<GameRow>[]>([]);
+
+  // Outbox lives in a ref so in-flight syncs always see the latest queue
+  const setOutbox = useCallback((updated: PendingMutation[]) => {
+    outboxRef.current = updated;
+    setOutboxState(updated);
+    if (userId) saveOutbox(userId, updated);
+  }, [userId]);
+
+  const commitSnapshots = useCallback((update: (prev: PriceSnapshot[]) => PriceSnapshot[]) => {
+    const updated = update(snapshotsRef.current);
+    snapshotsRef.current = updated;
+    saveToStorage(snapshotStorageKey, updated);
+    setSnapshots(updated);
+  }, [snapshotStorageKey]);
+
+  const addConflicts = useCallback((found: SyncConflict[]) => {
+    if (!userId || found.length === 0) return;
+    setConflicts(prev => {
+      const ids = new Set(found.map(c => c.gameId));
+      const updated = [...prev.filter(c => !ids.has(c.gameId)), ...found];
+      saveConflicts(userId, updated);
+      return updated;
+    });
+  }, [userId]);
+
+  // Store snapshots locally and queue them for Supabase; callers flush the
+  // outbox, after queueing the insert of any new game the snapshots belong to
+  const saveSnapshots = useCallback((newSnapshots: PriceSnapshot[]) => {
+    if (newSnapshots.length === 0) return;
+
+    commitSnapshots(prev => {
+      const ids = new Set(newSnapshots.map(s => s.id));
+      return [...prev.filter(s => !ids.has(s.id)), ...newSnapshots];
+    });
+
+    if (!canSync) return;
+    const byGame = new Map<string, PriceSnapshot[]>();
+    for (const snapshot of newSnapshots) {
+      byGame.set(snapshot.gameId, [...(byGame.get(snapshot.gameId) || []), snapshot]);
+    }
+    setOutbox(Array.from(byGame).reduce(
+      (queue, [gameId, snapshots]) => enqueueMutation(queue, createSnapshotMutation(gameId, snapshots)),
+      outboxRef.current
+    ));
+  }, [canSync, commitSnapshots, setOutbox]);
+
+  /**
+   * Apply game changes made in other sessions. Each change is merged with
+   * any pending local write for that game, so echoes of our own writes and
+   * edits made on both devices resolve the same way as a full fetch.
+   */
+  const applyRemoteChanges = useCallback((changes: RealtimePostgresChangesPayload<GameRow>[]) => {
+    const upserts = new Map<string, Asset>();
+    const deletes = new Set<string>();
+    for (const change of changes) {
+      if (change.eventType === 'DELETE') {
+        if (change.old.id) {
+          deletes.add(change.old.id);
+          upserts.delete(change.old.id);
+        }
+      } else {
+        upserts.set(change.new.id, gameRowToAsset(change.new));
+        deletes.delete(change.new.id);
+      }
+    }
+    if (upserts.size === 0 && deletes.size === 0) return;
+
+    const touched = new Set([...upserts.keys(), ...deletes]);
+    const pending = outboxRef.current.filter(m => touched.has(m.gameId));
+    const merged = mergeWithServer(Array.from(upserts.values()), pending.filter(m => m.type !== 'insert'));
+    const mergedById = new Map(merged.games.map(g => [g.id, g]));
+
+    setGames(prev => {
+      const known = new Set(prev.map(g => g.id));
+      const added = merged.games.filter(g => !known.has(g.id));
+      const updated = [
+        ...added,
+        ...prev
+          .filter(g => !deletes.has(g.id))
+          .map(g => mergedById.get(g.id) || g),
+      ];
+      localGames.replace(updated);
+      return updated;
+    });
+
+    if (deletes.size > 0) {
+      commitSnapshots(prev => prev.filter(s => !deletes.has(s.gameId)));
+    }
+
+    // Deleted elsewhere: nothing left to push for those games
+    setOutbox([
+      ...outboxRef.current.filter(m => !touched.has(m.gameId)),
+      ...merged.outbox.filter(m => !deletes.has(m.gameId)),
+    ]);
+    addConflicts(merged.conflicts);
+  }, [localGames, commitSnapshots, setOutbox, addConflicts]);
+
+  /**
+   * Photos taken before the game reached Supabase follow it there. The
+   * cover stays an inline thumbnail (the bucket is private). Failures leave
+   * the photos on the device; they never fail the insert itself.
+   */
+  const uploadPhotosFor = useCallback(async (tempId: string, realGame: Asset) => {
+    try {
+      await rekeyDevicePhotos(tempId, realGame.id);
+      await uploadDevicePhotos(realGame.id, userId);
+    } catch (err) {
+      console.error('Photo upload error:', err);
+    }
+  }, [userId]);
+
+  // Send one queued mutation to Supabase; throws if it should be retried
+  const pushMutation = useCallback(async (mutation: PendingMutation) => {
+    if (!repository) throw new Error('Not connected');
+
+    // Edits made while the request was in flight are folded into the
+    // same queue entry, so compare against what was actually sent
+    const current = () => outboxRef.current.find(m => m.id === mutation.id);
+    const others = () => outboxRef.current.filter(m => m.id !== mutation.id);
+
+    if (mutation.type === 'insert' && mutation.game) {
+      const realGame = await repository.insert(mutation.game);
+      const latest = current();
+      const editedSince = latest !== undefined && latest.game !== mutation.game;
+
+      if (!latest) {
+        // Deleted locally before the insert landed
+        setOutbox(enqueueMutation(others(), createMutation('delete', realGame.id)));
+      } else {
+        const followUp = editedSince
+          ? [{ ...latest, type: 'update' as const, baseUpdatedAt: realGame.updatedAt, attempts: 0, nextAttemptAt: 0 }]
+          : [];
+        setOutbox(rekeyOutbox([...others(), ...followUp], mutation.gameId, realGame.id));
+      }
+
+      setGames(prev => {
+        const updated = prev
+          .filter(g => g.id !== realGame.id)
+          .map(g => g.id === mutation.gameId ? (editedSince ? { ...g, id: realGame.id } : realGame) : g);
+        localGames.replace(updated);
+        return updated;
+      });
+
+      // Snapshots recorded against the temporary id; their queued uploads
+      // were re-keyed with the rest of the outbox
+      commitSnapshots(prev => prev.map(s => s.gameId === mutation.gameId ? { ...s, gameId: realGame.id } : s));
+
+      if (latest) await uploadPhotosFor(mutation.gameId, realGame);
+      return;
+    }
+
+    if (mutation.type === 'update' && mutation.game) {
+      const stored = await repository.update(mutation.game);
+      const latest = current();
+      if (latest && latest.game !== mutation.game) {
+        setOutbox(others().concat({ ...latest, baseUpdatedAt: stored?.updatedAt, attempts: 0, nextAttemptAt: 0 }));
+      } else {
+        setOutbox(others());
+        if (stored) {
+          setGames(prev => {
+            const updated = prev.map(g => g.id === mutation.gameId ? { ...g, updatedAt: stored.updatedAt } : g);
+            localGames.replace(updated);
+            return updated;
+          });
+        }
+      }
+      return;
+    }
+
+    // Stays queued until the game's insert re-keys it to the real id
+    if (mutation.type === 'snapshot' && isTempId(mutation.gameId)) return;
+
+    if (mutation.type === 'snapshot' && mutation.snapshots && userId && supabase) {
+      // Insert, skipping rows a retried request already stored
+      const { error: insertError } = await supabase
+        .from('price_snapshots')
+        .upsert(mutation.snapshots.map(s => snapshotToDbRow(s, userId)), { onConflict: 'id', ignoreDuplicates: true });
+      if (insertError) throw new Error(insertError.message);
+    }
+
+    if (mutation.type === 'delete') {
+      await repository.remove(mutation.gameId);
+    }
+    setOutbox(others());
+  }, [userId, repository, localGames, setOutbox, commitSnapshots, uploadPhotosFor]);
+
+  // Push everything that is due, then schedule a retry for what failed
+  const flushOutbox = useCallback(async () => {
+    if (!canSync || flushing.current || !navigator.onLine) return;
+
+    flushing.current = true;
+    setIsSyncing(true);
+    if (retryTimer.current) {
+      clearTimeout(retryTimer.current);
+      retryTimer.current = null;
+    }
+
+    try {
+      let due = getDueMutations(outboxRef.current);
+      while (due.length > 0) {
+        for (const mutation of due) {
+          try {
+            await pushMutation(mutation);
+          } catch (err) {
+            console.error(`Sync ${mutation.type} failed for ${mutation.gameId}:`, err);
+            const message = err instanceof Error ? err.message : 'Sync failed';
+            setOutbox(outboxRef.current.map(m => m.id === mutation.id ? markFailed(m, message) : m));
+          }
+        }
+        due = getDueMutations(outboxRef.current);
+      }
+    } finally {
+      flushing.current = false;
+      setIsSyncing(false);
+    }
+
+    const held = heldChanges.current;
+    heldChanges.current = [];
+    applyRemoteChanges(held);
+
+    const nextAttempt = Math.min(...outboxRef.current.map(m => m.nextAttemptAt));
+    if (Number.isFinite(nextAttempt)) {
+      retryTimer.current = setTimeout(() => {
+        retryTimer.current = null;
+        flushOutbox();
+      }, Math.max(nextAttempt - Date.now(), 0));
+    }
+  }, [canSync, pushMutation, setOutbox, applyRemoteChanges]);
+
+  const queueMutation = useCallback(async (mutation: PendingMutation) => {
+    if (!canSync) return;
+    setOutbox(enqueueMutation(outboxRef.current, mutation));
+    await flushOutbox();
+  }, [canSync, setOutbox, flushOutbox]);
 
   // Fetch games from Supabase or use localStorage
   const fetchGames = useCallback(async () => {
     // Always start with localStorage
-    const localData = loadFromStorage(storageKey);
+    const localData = localGames.read();
+    const localSnapshots = loadFromStorage<PriceSnapshot>(snapshotStorageKey);
     
     // If no Supabase, just use localStorage
-    if (!userId || !isSupabaseConfigured() || !supabase) {
+    if (!userId || !repository || !supabase) {
       setGames(localData);
+      commitSnapshots(() => localSnapshots);
       setLoading(false);
       return;
     }
 
+    // Games the snapshots below can belong to
+    let knownGames = localData;
     try {
       setLoading(true);
-      const { data, error: fetchError } = await supabase
-        .from('games')
-        .select('*')
-        .eq('user_id', userId)
-        .order('created_at', { ascending: false });
-
-      if (fetchError) {
+      try {
+        // Layer pending local writes over the server list instead of replacing them
+        const merged = mergeWithServer(
+          await repository.list(),
+          recoverOrphanedGames(localData, outboxRef.current)
+        );
+        setGames(merged.games);
+        localGames.replace(merged.games);
+        knownGames = merged.games;
+        setOutbox(merged.outbox);
+        addConflicts(merged.conflicts);
+        setError(null);
+      } catch (fetchError) {
         console.error('Supabase fetch error:', fetchError);
-        setError(fetchError.message);
+        setError(fetchError instanceof Error ? fetchError.message : 'Failed to load games');
         // Fallback to localStorage
         setGames(localData);
+      }
+
+      const { data: snapshotData, error: snapshotError } = await supabase
+        .from('price_snapshots')
+        .select('*')
+        .eq('user_id', userId)
+        .order('recorded_at', { ascending: true });
+
+      if (snapshotError) {
+        console.error('Supabase snapshot fetch error:', snapshotError);
+        commitSnapshots(() => localSnapshots);
       } else {
-        const assets = (data || []).map(dbRowToAsset);
-        setGames(assets);
-        // Sync to localStorage
-        saveToStorage(storageKey, assets);
-        setError(null);
+        // Snapshots the server doesn't have yet stay local until their upload
+        // succeeds, unless their game is gone
+        const remoteSnapshots = (snapshotData || []).map(dbRowToSnapshot);
+        const remoteIds = new Set(remoteSnapshots.map(s => s.id));
+        const gameIds = new Set(knownGames.map(g => g.id));
+        const unsent = localSnapshots.filter(s => !remoteIds.has(s.id) && gameIds.has(s.gameId));
+        commitSnapshots(() => [...remoteSnapshots, ...unsent]);
+        setOutbox(recoverUnsentSnapshots(unsent, outboxRef.current));
       }
     } catch (err) {
       console.error('Fetch error:', err);
       setGames(localData);
+      commitSnapshots(() => localSnapshots);
     } finally {
       setLoading(false);
     }
-  }, [userId, storageKey]);
+
+    flushOutbox();
+  }, [userId, repository, localGames, snapshotStorageKey, commitSnapshots, setOutbox, addConflicts, flushOutbox]);
 
   // Initial fetch when userId changes
   useEffect(() => {
     // Load from new storage key when userId changes
-    const localData = loadFromStorage(storageKey);
+    const localData = localGames.read();
     setGames(localData);
+    commitSnapshots(() => loadFromStorage<PriceSnapshot>(snapshotStorageKey));
+    setOutbox(userId ? loadOutbox(userId) : []);
+    setConflicts(userId ? loadConflicts(userId) : []);
     
     // Then try to fetch from Supabase
     fetchGames();
     initialLoadDone.current = true;
-  }, [userId, storageKey]);
+  }, [userId, localGames, snapshotStorageKey, commitSnapshots, setOutbox, fetchGames]);
+
+  // Retry as soon as the connection comes back
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      flushOutbox();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [flushOutbox]);
+
+  useEffect(() => () => {
+    if (retryTimer.current) clearTimeout(retryTimer.current);
+  }, [userId]);
+
+  // Live updates from the user's other devices
+  useEffect(() => {
+    if (!userId || !isSupabaseConfigured() || !supabase) return;
+    const client = supabase;
+    let connectedBefore = false;
+
+    const handleChange = (change: RealtimePostgresChangesPayload<GameRow>) => {
+      if (flushing.current) {
+        heldChanges.current.push(change);
+      } else {
+        applyRemoteChanges([change]);
+      }
+    };
+
+    const channel = client
+      .channel(`games-${userId}`)
+      .on<GameRow>(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'games', filter: `user_id=eq.${userId}` },
+        handleChange
+      )
+      .on<GameRow>(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'games', filter: `user_id=eq.${userId}` },
+        handleChange
+      )
+      // Delete payloads only carry the id and can't be filtered by user;
+      // ids not in this collection are simply ignored
+      .on<GameRow>(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'games' },
+        handleChange
+      )
+      .subscribe(status => {
+        if (status !== 'SUBSCRIBED') return;
+        // Catch up on anything missed while the connection was down
+        if (connectedBefore) fetchGames();
+        connectedBefore = true;
+      });
+
+    return () => {
+      client.removeChannel(channel);
+    };
+  }, [userId, applyRemoteChanges, fetchGames]);
+
+  // Record a lookupPrice result for a game
+  const recordSnapshot = useCallback(async (gameId: string, result: SnapshotInput) => {
+    if (!isRecordableResult(result)) return;
+    saveSnapshots([createPriceSnapshot(gameId, result)]);
+    await flushOutbox();
+  }, [saveSnapshots, flushOutbox]);
 
   // Add a game
-  const addGame = useCallback(async (game: Asset) => {
-    // Generate ID
-    const newGame = { ...game, id: `local-${Date.now()}` };
+  const addGame = useCallback(async (game: Asset, valuation?: SnapshotInput, photos: Array<Blob | string> = []) => {
+    // Temporary ID until the insert reaches Supabase
+    const newGame = { ...game, id: `local-${Date.now()}`, updatedAt: new Date().toISOString() };
+    const initialSnapshot = valuation && isRecordableResult(valuation)
+      ? createPriceSnapshot(newGame.id, valuation)
+      : null;
     
     // Update state and localStorage immediately
     setGames(prev => {
       const updated = [newGame, ...prev];
-      saveToStorage(storageKey, updated);
+      localGames.replace(updated);
       return updated;
     });
 
-    // If Supabase is configured, sync to cloud
-    if (userId && isSupabaseConfigured() && supabase) {
-      try {
-        const row = assetToDbRow(game, userId);
-        const { data, error: insertError } = await supabase
-          .from('games')
-          .insert(row)
-          .select()
-          .single();
-
-        if (insertError) {
-          console.error('Insert error:', insertError);
-          setError(insertError.message);
-        } else if (data) {
-          // Update with the real ID from Supabase
-          const realGame = dbRowToAsset(data);
-          setGames(prev => {
-            const updated = prev.map(g => g.id === newGame.id ? realGame : g);
-            saveToStorage(storageKey, updated);
-            return updated;
-          });
-        }
-      } catch (err) {
-        console.error('Add game error:', err);
-      }
+    // Kept on the device until the game has a real id to upload them under
+    try {
+      await addGamePhotos(newGame.id, photos, userId);
+    } catch (err) {
+      console.error('Save photos error:', err);
+    }
+
+    // The insert is queued first so the snapshot upload waits for it
+    if (canSync) setOutbox(enqueueMutation(outboxRef.current, createMutation('insert', newGame.id, newGame)));
+    if (initialSnapshot) saveSnapshots([initialSnapshot]);
+    await flushOutbox();
+  }, [userId, canSync, localGames, saveSnapshots, setOutbox, flushOutbox]);
+
+  // Add many games at once (collection import)
+  const addGames = useCallback(async (entries: Array<{ game: Asset; valuation?: SnapshotInput }>) => {
+    if (entries.length === 0) return;
+
+    const stamp = Date.now();
+    const updatedAt = new Date(stamp).toISOString();
+    const newGames = entries.map(({ game }, i) => ({ ...game, id: `local-${stamp}-${i}`, updatedAt }));
+    const initialSnapshots = entries.flatMap(({ valuation }, i) =>
+      valuation && isRecordableResult(valuation) ? [createPriceSnapshot(newGames[i].id, valuation)] : []
+    );
+
+    setGames(prev => {
+      const updated = [...newGames, ...prev];
+      localGames.replace(updated);
+      return updated;
+    });
+
+    if (canSync) {
+      setOutbox(newGames.reduce(
+        (queue, game) => enqueueMutation(queue, createMutation('insert', game.id, game)),
+        outboxRef.current
+      ));
     }
-  }, [userId, storageKey]);
+    saveSnapshots(initialSnapshots);
+    await flushOutbox();
+  }, [canSync, localGames, saveSnapshots, setOutbox, flushOutbox]);
 
   // Update a game
   const updateGame = useCallback(async (game: Asset) => {
+    // game.updatedAt is still the version this edit was made against
+    const edited = { ...game, updatedAt: new Date().toISOString() };
     setGames(prev => {
-      const updated = prev.map(g => g.id === game.id ? game : g);
-      saveToStorage(storageKey, updated);
+      const updated = prev.map(g => g.id === game.id ? edited : g);
+      localGames.replace(updated);
       return updated;
     });
 
-    if (userId && isSupabaseConfigured() && supabase) {
-      try {
-        const row = assetToDbRow(game, userId);
-        const { error: updateError } = await supabase
-          .from('games')
-          .update(row)
-          .eq('id', game.id)
-          .eq('user_id', userId);
-
-        if (updateError) {
-          console.error('Update error:', updateError);
-        }
-      } catch (err) {
-        console.error('Update game error:', err);
-      }
-    }
-  }, [userId, storageKey]);
+    await queueMutation(createMutation('update', game.id, edited, game.updatedAt));
+  }, [localGames, queueMutation]);
 
   // Delete a game
   const deleteGame = useCallback(async (gameId: string) => {
     setGames(prev => {
       const updated = prev.filter(g => g.id !== gameId);
-      saveToStorage(storageKey, updated);
+      localGames.replace(updated);
       return updated;
     });
 
-    if (userId && isSupabaseConfigured() && supabase) {
-      try {
-        const { error: deleteError } = await supabase
-          .from('games')
-          .delete()
-          .eq('id', gameId)
-          .eq('user_id', userId);
-
-        if (deleteError) {
-          console.error('Delete error:', deleteError);
-        }
-      } catch (err) {
-        console.error('Delete game error:', err);
-      }
+    // Snapshot and photo rows are removed by the ON DELETE CASCADE in Supabase
+    commitSnapshots(prev => prev.filter(s => s.gameId !== gameId));
+    deleteAllGamePhotos(gameId, userId);
+
+    await queueMutation(createMutation('delete', gameId));
+  }, [userId, localGames, commitSnapshots, queueMutation]);
+
+  const removeConflict = useCallback((gameId: string) => {
+    if (!userId) return;
+    setConflicts(prev => {
+      const updated = prev.filter(c => c.gameId !== gameId);
+      saveConflicts(userId, updated);
+      return updated;
+    });
+  }, [userId]);
+
+  // Override the automatic newest-wins choice for a conflict
+  const resolveConflict = useCallback((gameId: string, keep: 'local' | 'server') => {
+    const conflict = conflicts.find(c => c.gameId === gameId);
+    if (!conflict) return;
+
+    const chosen = keep === 'local'
+      ? { ...conflict.local, updatedAt: new Date().toISOString() }
+      : conflict.server;
+    setGames(prev => {
+      const updated = prev.map(g => g.id === gameId ? chosen : g);
+      localGames.replace(updated);
+      return updated;
+    });
+
+    if (keep === 'local') {
+      queueMutation(createMutation('update', gameId, chosen, conflict.server.updatedAt));
+    } else {
+      setOutbox(outboxRef.current.filter(m => !(m.gameId === gameId && m.type === 'update')));
     }
-  }, [userId, storageKey]);
+    removeConflict(gameId);
+  }, [conflicts, localGames, queueMutation, setOutbox, removeConflict]);
+
+  const syncStatus: SyncStatus = !canSync ? 'local'
+    : !isOnline ? 'offline'
+    : isSyncing ? 'syncing'
+    : outbox.some(m => m.attempts > 0) ? 'error'
+    : outbox.length > 0 ? 'pending'
+    : 'synced';
 
   return {
     games,
+    snapshots,
     loading,
     error,
     addGame,
+    addGames,
     updateGame,
     deleteGame,
+    recordSnapshot,
     refreshGames: fetchGames,
+    syncStatus,
+    pendingCount: outbox.length,
+    conflicts,
+    resolveConflict,
+    dismissConflict: removeConflict,
   };
 }
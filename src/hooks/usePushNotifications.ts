@@ -0,0 +1,61 @@
+/**
+ * usePushNotifications Hook
+ *
+ * Whether this browser receives price alert pushes, with actions to turn
+ * them on (asking for notification permission) and off.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  getPushSubscription,
+  isPushSupported,
+  subscribeToPush,
+  unsubscribeFromPush,
+} from '@/services/pushNotifications';
+
+export interface UsePushNotificationsReturn {
+  supported: boolean;
+  enabled: boolean;
+  // Notifications were blocked for this site in the browser settings
+  blocked: boolean;
+  busy: boolean;
+  enable: () => Promise<void>;
+  disable: () => Promise<void>;
+}
+
+export function usePushNotifications(userId: string | null): UsePushNotificationsReturn {
+  const supported = Boolean(userId) && isPushSupported();
+  const [enabled, setEnabled] = useState(false);
+  const [blocked, setBlocked] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!supported) return;
+    setBlocked(Notification.permission === 'denied');
+    getPushSubscription().then(subscription => setEnabled(Boolean(subscription)));
+  }, [supported]);
+
+  const enable = useCallback(async () => {
+    if (!userId) return;
+    setBusy(true);
+    try {
+      setEnabled(await subscribeToPush(userId));
+      setBlocked(Notification.permission === 'denied');
+    } finally {
+      setBusy(false);
+    }
+  }, [userId]);
+
+  const disable = useCallback(async () => {
+    if (!userId) return;
+    setBusy(true);
+    try {
+      await unsubscribeFromPush(userId);
+      setEnabled(false);
+    } finally {
+      setBusy(false);
+    }
+  }, [userId]);
+
+  return { supported, enabled, blocked, busy, enable, disable };
+}
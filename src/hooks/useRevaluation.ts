@@ -0,0 +1,128 @@
+/**
+ * useRevaluation Hook
+ * 
+ * Runs the collection revaluation job on a schedule: when the app opens,
+ * hourly while it stays open, and whenever the service worker's periodic
+ * sync asks for it. Each valued game gets a new current value, a
+ * "last valued" timestamp and a price snapshot.
+ *
+ * This job runs in the page, so it only covers the time the app is open
+ * (periodic sync wakes an open, possibly hidden, window). Synced
+ * collections are also revalued daily on the server by api/revalue-cron.ts,
+ * which records snapshots and fires alerts while the app is closed.
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Asset } from '@/types/asset';
+import type { PriceLookupResult } from '@/services/priceLookup';
+import { SnapshotInput } from '@/utils/priceHistory';
+import { isSold } from '@/utils/sales';
+import {
+  applyValuation,
+  getLastRevaluation,
+  isRevaluationDue,
+  revalueCollection,
+  setLastRevaluation,
+  RevaluationSummary,
+  REVALUATION_SYNC_TAG,
+} from '@/services/revaluation';
+
+const SCHEDULE_CHECK_INTERVAL_MS = 60 * 60 * 1000; // hourly
+
+interface UseRevaluationParams {
+  games: Asset[];
+  userId: string | null;
+  loading: boolean;
+  updateGame: (game: Asset) => Promise<void>;
+  recordSnapshot: (gameId: string, result: SnapshotInput) => Promise<void>;
+}
+
+export interface UseRevaluationReturn {
+  isRunning: boolean;
+  progress: { done: number; total: number } | null;
+  lastRunAt: Date | null;
+  // Optional callback sees each game before its new value is applied
+  runNow: (onValued?: (game: Asset, result: PriceLookupResult) => void) => Promise<RevaluationSummary | null>;
+}
+
+export function useRevaluation({
+  games,
+  userId,
+  loading,
+  updateGame,
+  recordSnapshot,
+}: UseRevaluationParams): UseRevaluationReturn {
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [lastRunAt, setLastRunAt] = useState<Date | null>(() => getLastRevaluation(userId));
+  const gamesRef = useRef(games);
+  const runningRef = useRef(false);
+
+  useEffect(() => {
+    gamesRef.current = games;
+  }, [games]);
+
+  useEffect(() => {
+    setLastRunAt(getLastRevaluation(userId));
+  }, [userId]);
+
+  const runNow = useCallback(async (onValued?: (game: Asset, result: PriceLookupResult) => void) => {
+    if (runningRef.current || gamesRef.current.length === 0) return null;
+
+    runningRef.current = true;
+    setIsRunning(true);
+    try {
+      const summary = await revalueCollection(gamesRef.current, {
+        userId,
+        onValued: async (game, result) => {
+          // A run takes minutes; apply the value to the game as it is now,
+          // keeping edits made meanwhile, and skip games sold or deleted
+          const latest = gamesRef.current.find(g => g.id === game.id);
+          if (!latest || isSold(latest)) return;
+
+          onValued?.(latest, result);
+          await recordSnapshot(latest.id, result);
+          await updateGame(applyValuation(latest, result));
+        },
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+
+      // A run cut short by quotas stays due, so the next check resumes it
+      if (!summary.stoppedForQuota) {
+        setLastRevaluation(userId);
+        setLastRunAt(getLastRevaluation(userId));
+      }
+      return summary;
+    } finally {
+      runningRef.current = false;
+      setIsRunning(false);
+      setProgress(null);
+    }
+  }, [userId, updateGame, recordSnapshot]);
+
+  // Run whenever a revaluation is due
+  useEffect(() => {
+    if (loading) return;
+
+    const runIfDue = () => {
+      if (isRevaluationDue(getLastRevaluation(userId))) {
+        runNow();
+      }
+    };
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === REVALUATION_SYNC_TAG) runIfDue();
+    };
+
+    runIfDue();
+    const interval = setInterval(runIfDue, SCHEDULE_CHECK_INTERVAL_MS);
+    navigator.serviceWorker?.addEventListener('message', handleMessage);
+
+    return () => {
+      clearInterval(interval);
+      navigator.serviceWorker?.removeEventListener('message', handleMessage);
+    };
+  }, [loading, userId, runNow]);
+
+  return { isRunning, progress, lastRunAt, runNow };
+}
@@ -0,0 +1,141 @@
+/**
+ * useWishlist Hook
+ *
+ * Loads the user's wishlist, prices wanted games through the same
+ * lookupPrice pipeline as the collection, and raises a notification when
+ * one can be bought at or below its target.
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { WishlistItem } from '@/types/wishlist';
+import { lookupPrice } from '@/services/priceLookup';
+import { deleteWishlistItem, loadWishlist, saveWishlistItem } from '@/services/wishlistStore';
+import { getDealPrice, getWishlistLookupParams, isCheckDue, isNewDeal, toWishlistCheck } from '@/utils/wishlist';
+import { toast } from '@/hooks/use-toast';
+
+export type NewWishlistItem = Pick<WishlistItem, 'name' | 'platform' | 'conditionType' | 'maxPrice' | 'notes'>;
+
+export interface UseWishlistReturn {
+  items: WishlistItem[];
+  loading: boolean;
+  // Ids of items with a price check in flight
+  checkingIds: string[];
+  addItem: (item: NewWishlistItem) => Promise<void>;
+  updateItem: (item: WishlistItem) => Promise<void>;
+  removeItem: (itemId: string) => Promise<void>;
+  checkItem: (itemId: string) => Promise<void>;
+  checkAll: () => Promise<void>;
+}
+
+const formatPrice = (value: number) => `$${value.toLocaleString()}`;
+
+export function useWishlist(userId: string | null): UseWishlistReturn {
+  const [items, setItems] = useState<WishlistItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [checkingIds, setCheckingIds] = useState<string[]>([]);
+  const itemsRef = useRef<WishlistItem[]>([]);
+
+  const commitItem = useCallback(async (item: WishlistItem) => {
+    const exists = itemsRef.current.some(i => i.id === item.id);
+    itemsRef.current = exists
+      ? itemsRef.current.map(i => i.id === item.id ? item : i)
+      : [item, ...itemsRef.current];
+    setItems(itemsRef.current);
+    await saveWishlistItem(userId, item);
+  }, [userId]);
+
+  // Look up the current market price and announce new deals
+  const runCheck = useCallback(async (item: WishlistItem) => {
+    setCheckingIds(prev => [...prev, item.id]);
+    try {
+      const result = await lookupPrice({ ...getWishlistLookupParams(item), userId });
+      if (result.source === 'none') return;
+
+      // The item may have been edited while the lookup ran
+      const current = itemsRef.current.find(i => i.id === item.id);
+      if (!current) return;
+
+      const checked: WishlistItem = { ...current, lastCheck: toWishlistCheck(result) };
+      const dealPrice = getDealPrice(checked);
+      if (isNewDeal(checked) && dealPrice !== null) {
+        toast({
+          title: `${checked.name} is under your target`,
+          description: `Available for ${formatPrice(dealPrice)} (target ${formatPrice(checked.maxPrice)})`,
+        });
+        checked.notifiedPrice = dealPrice;
+      } else if (dealPrice === null) {
+        // Back above target; the next drop is announced again
+        checked.notifiedPrice = undefined;
+      }
+      await commitItem(checked);
+    } catch (error) {
+      console.error(`Wishlist price check failed for ${item.name}:`, error);
+    } finally {
+      setCheckingIds(prev => prev.filter(id => id !== item.id));
+    }
+  }, [userId, commitItem]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    loadWishlist(userId).then(async (loaded) => {
+      if (cancelled) return;
+      itemsRef.current = loaded;
+      setItems(loaded);
+      setLoading(false);
+
+      // Refresh stale prices one at a time
+      for (const item of loaded.filter(i => isCheckDue(i))) {
+        if (cancelled) return;
+        await runCheck(item);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, runCheck]);
+
+  const addItem = useCallback(async (input: NewWishlistItem) => {
+    const item: WishlistItem = {
+      ...input,
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+    };
+    await commitItem(item);
+    await runCheck(item);
+  }, [commitItem, runCheck]);
+
+  const updateItem = useCallback(async (item: WishlistItem) => {
+    // A new target may turn the current price into a deal
+    await commitItem({ ...item, notifiedPrice: undefined });
+    await runCheck(item);
+  }, [commitItem, runCheck]);
+
+  const removeItem = useCallback(async (itemId: string) => {
+    itemsRef.current = itemsRef.current.filter(i => i.id !== itemId);
+    setItems(itemsRef.current);
+    await deleteWishlistItem(userId, itemId);
+  }, [userId]);
+
+  const checkItem = useCallback(async (itemId: string) => {
+    const item = itemsRef.current.find(i => i.id === itemId);
+    if (item) await runCheck(item);
+  }, [runCheck]);
+
+  const checkAll = useCallback(async () => {
+    for (const item of [...itemsRef.current]) {
+      await runCheck(item);
+    }
+  }, [runCheck]);
+
+  return {
+    items,
+    loading,
+    checkingIds,
+    addItem,
+    updateItem,
+    removeItem,
+    checkItem,
+    checkAll,
+  };
+}
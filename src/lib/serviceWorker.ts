@@ -0,0 +1,46 @@
+/**
+ * Service worker registration
+ *
+ * Registers public/sw.js and, where the browser supports it, a periodic
+ * background sync that asks an open app window to revalue the
+ * collection (while it is closed, api/revalue-cron.ts covers synced
+ * collections). The worker also
+ * shows price alert push notifications.
+ */
+
+import { REVALUATION_INTERVAL_MS, REVALUATION_SYNC_TAG } from '@/services/revaluation';
+
+// Posted by the worker when a price alert notification is tapped
+export const OPEN_GAME_MESSAGE = 'open-game';
+
+// Periodic Background Sync is not in the TypeScript DOM lib yet
+interface PeriodicSyncManager {
+  register: (tag: string, options: { minInterval: number }) => Promise<void>;
+}
+
+export async function registerServiceWorker(): Promise<ServiceWorkerRegistration | null> {
+  if (!('serviceWorker' in navigator)) return null;
+
+  try {
+    const registration = await navigator.serviceWorker.register('/sw.js');
+    await registerPeriodicRevaluation(registration);
+    return registration;
+  } catch (error) {
+    console.error('Service worker registration failed:', error);
+    return null;
+  }
+}
+
+async function registerPeriodicRevaluation(registration: ServiceWorkerRegistration): Promise<void> {
+  const periodicSync = (registration as ServiceWorkerRegistration & { periodicSync?: PeriodicSyncManager }).periodicSync;
+  if (!periodicSync) return;
+
+  try {
+    const status = await navigator.permissions.query({ name: 'periodic-background-sync' as PermissionName });
+    if (status.state !== 'granted') return;
+
+    await periodicSync.register(REVALUATION_SYNC_TAG, { minInterval: REVALUATION_INTERVAL_MS });
+  } catch (error) {
+    console.log('Periodic background sync unavailable:', error);
+  }
+}
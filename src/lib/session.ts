@@ -0,0 +1,32 @@
+/**
+ * Clerk Session Token
+ *
+ * The signed-in user's session token (a short-lived JWT) for requests the
+ * server has to attribute to a user: Supabase row-level security and the
+ * serverless functions under /api. Read from the Clerk instance that
+ * ClerkProvider puts on window, so plain services can use it too.
+ */
+
+type ClerkWindow = Window & {
+  Clerk?: { session?: { getToken(): Promise<string | null> } | null };
+};
+
+export const isClerkConfigured = () => Boolean(import.meta.env.VITE_CLERK_PUBLISHABLE_KEY);
+
+export async function getSessionToken(): Promise<string | null> {
+  if (typeof window === 'undefined') return null;
+  try {
+    return (await (window as ClerkWindow).Clerk?.session?.getToken()) ?? null;
+  } catch (error) {
+    console.error('Error getting session token:', error);
+    return null;
+  }
+}
+
+/**
+ * Authorization header for calls to the app's own serverless functions
+ */
+export async function getAuthHeaders(): Promise<Record<string, string>> {
+  const token = await getSessionToken();
+  return token ? { 'Authorization': `Bearer ${token}` } : {};
+}
@@ -1,5 +1,6 @@
 import { createClient } from '@supabase/supabase-js';
 import type { Database } from '@/types/database';
+import { getSessionToken, isClerkConfigured } from './session';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -8,8 +9,15 @@ if (!supabaseUrl || !supabaseAnonKey) {
   console.warn('Supabase credentials not found. Using localStorage fallback.');
 }
 
+// With Clerk, requests carry the Clerk session token so row-level security
+// can match rows to the signed-in user (see requesting_user_id() in the
+// schema); Supabase must trust Clerk as a third-party auth provider
 export const supabase = supabaseUrl && supabaseAnonKey 
-  ? createClient<Database>(supabaseUrl, supabaseAnonKey)
+  ? createClient<Database>(
+      supabaseUrl,
+      supabaseAnonKey,
+      isClerkConfigured() ? { accessToken: getSessionToken } : undefined
+    )
   : null;
 
 export const isSupabaseConfigured = () => !!supabase;
@@ -2,11 +2,19 @@ import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import { ClerkProvider } from '@clerk/clerk-react';
 import App from './App.tsx';
+import { registerServiceWorker } from './lib/serviceWorker';
+import { loadValuationConfig } from './services/valuationConfigLoader';
 import './index.css';
 
 // Get Clerk publishable key from environment
 const clerkPubKey = import.meta.env.VITE_CLERK_PUBLISHABLE_KEY;
 
+// Background revaluation runs through the service worker where supported
+registerServiceWorker();
+
+// Valuations use the cached (or built-in) config until the current one loads
+loadValuationConfig();
+
 // Render app with or without Clerk based on configuration
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
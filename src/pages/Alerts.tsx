@@ -1,140 +1,42 @@
 /**
  * Alerts Page
  * 
- * Shows price change notifications for user's games
+ * Manages price alert rules and shows the alerts they have fired
  */
 
-import { useState, useEffect } from 'react';
-import { Bell, TrendingUp, TrendingDown, RefreshCw, Settings, Loader2 } from 'lucide-react';
+import { useState } from 'react';
+import { Bell, BellRing, TrendingUp, TrendingDown, RefreshCw, Loader2, Plus, Trash2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
 import { Asset } from '@/types/asset';
-import { lookupPrice } from '@/services/priceLookup';
-
-interface PriceAlert {
-  id: string;
-  gameId: string;
-  gameName: string;
-  platform: string;
-  previousValue: number;
-  currentValue: number;
-  changePercent: number;
-  timestamp: Date;
-  read: boolean;
-}
+import { UseRevaluationReturn } from '@/hooks/useRevaluation';
+import { UseAlertsReturn } from '@/hooks/useAlerts';
+import { UsePushNotificationsReturn } from '@/hooks/usePushNotifications';
+import { AlertRuleForm } from '@/components/AlertRuleForm';
+import { describeCondition, describeScope } from '@/services/alertEngine';
 
 interface AlertsPageProps {
   games: Asset[];
-  onUpdateGame: (game: Asset) => void;
+  revaluation: UseRevaluationReturn;
+  alerts: UseAlertsReturn;
+  push: UsePushNotificationsReturn;
 }
 
-export const AlertsPage = ({ games, onUpdateGame }: AlertsPageProps) => {
-  const [alerts, setAlerts] = useState<PriceAlert[]>([]);
-  const [isChecking, setIsChecking] = useState(false);
-  const [lastChecked, setLastChecked] = useState<Date | null>(null);
-  const [alertSettings, setAlertSettings] = useState({
-    notifyIncrease: true,
-    notifyDecrease: true,
-    threshold: 5, // Minimum % change to alert
-  });
-
-  // Load alerts from localStorage
-  useEffect(() => {
-    const savedAlerts = localStorage.getItem('gil0-alerts');
-    if (savedAlerts) {
-      const parsed = JSON.parse(savedAlerts);
-      setAlerts(parsed.map((a: any) => ({ ...a, timestamp: new Date(a.timestamp) })));
-    }
-    
-    const lastCheck = localStorage.getItem('gil0-last-price-check');
-    if (lastCheck) {
-      setLastChecked(new Date(lastCheck));
-    }
-  }, []);
+export const AlertsPage = ({ games, revaluation, alerts, push }: AlertsPageProps) => {
+  const { isRunning: isChecking, progress, lastRunAt: lastChecked } = revaluation;
+  const { rules, events, unreadCount } = alerts;
+  const [isAddingRule, setIsAddingRule] = useState(false);
 
-  // Save alerts to localStorage
-  useEffect(() => {
-    localStorage.setItem('gil0-alerts', JSON.stringify(alerts));
-  }, [alerts]);
-
-  // Check prices for all games
+  // Revalue the whole collection now; rules fire on the new snapshots
   const checkPrices = async () => {
     if (games.length === 0) return;
-
-    setIsChecking(true);
-    const newAlerts: PriceAlert[] = [];
-
-    for (const game of games) {
-      try {
-        const priceData = await lookupPrice({
-          category: 'video-games',
-          name: game.name,
-          details: {
-            platform: game.videoGameDetails?.platform || '',
-            conditionType: game.videoGameDetails?.conditionType || 'cib',
-          },
-        });
-
-        const newValue = priceData.estimatedValue;
-        const oldValue = game.currentValue;
-        const changePercent = ((newValue - oldValue) / oldValue) * 100;
-
-        // Only alert if change exceeds threshold
-        if (Math.abs(changePercent) >= alertSettings.threshold) {
-          const isIncrease = changePercent > 0;
-          
-          if ((isIncrease && alertSettings.notifyIncrease) || 
-              (!isIncrease && alertSettings.notifyDecrease)) {
-            newAlerts.push({
-              id: `alert-${Date.now()}-${game.id}`,
-              gameId: game.id,
-              gameName: game.name,
-              platform: game.videoGameDetails?.platform || '',
-              previousValue: oldValue,
-              currentValue: newValue,
-              changePercent,
-              timestamp: new Date(),
-              read: false,
-            });
-          }
-        }
-
-        // Update game's current value
-        if (Math.abs(newValue - oldValue) > 0.5) {
-          onUpdateGame({
-            ...game,
-            currentValue: newValue,
-            lastUpdated: new Date().toISOString().split('T')[0],
-          });
-        }
-
-        // Add small delay between API calls
-        await new Promise(resolve => setTimeout(resolve, 300));
-      } catch (error) {
-        console.error(`Failed to check price for ${game.name}:`, error);
-      }
-    }
-
-    setAlerts(prev => [...newAlerts, ...prev].slice(0, 50)); // Keep last 50 alerts
-    setLastChecked(new Date());
-    localStorage.setItem('gil0-last-price-check', new Date().toISOString());
-    setIsChecking(false);
-  };
-
-  // Mark alert as read
-  const markAsRead = (alertId: string) => {
-    setAlerts(prev => prev.map(a => 
-      a.id === alertId ? { ...a, read: true } : a
-    ));
+    await revaluation.runNow();
   };
 
-  // Clear all alerts
-  const clearAlerts = () => {
-    setAlerts([]);
+  const markAllRead = () => {
+    alerts.markRead(events.filter(e => !e.read).map(e => e.id));
   };
 
-  const unreadCount = alerts.filter(a => !a.read).length;
-
   return (
     <div className="min-h-screen bg-background pb-24">
       <div className="container max-w-lg mx-auto px-4 py-6">
@@ -158,7 +60,7 @@ export const AlertsPage = ({ games, onUpdateGame }: AlertsPageProps) => {
 
         {/* Check Prices Button */}
         <div className="card-premium p-4 mb-6">
-          <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center justify-between">
             <div>
               <p className="font-medium text-foreground">Price Check</p>
               {lastChecked && (
@@ -167,6 +69,9 @@ export const AlertsPage = ({ games, onUpdateGame }: AlertsPageProps) => {
                   {lastChecked.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
                 </p>
               )}
+              <p className="text-xs text-muted-foreground">
+                Your collection is revalued automatically once a day while gil0 is open
+              </p>
             </div>
             <Button
               onClick={checkPrices}
@@ -176,7 +81,7 @@ export const AlertsPage = ({ games, onUpdateGame }: AlertsPageProps) => {
               {isChecking ? (
                 <>
                   <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                  Checking...
+                  {progress ? `${progress.done}/${progress.total}` : 'Checking...'}
                 </>
               ) : (
                 <>
@@ -187,105 +92,148 @@ export const AlertsPage = ({ games, onUpdateGame }: AlertsPageProps) => {
             </Button>
           </div>
 
-          {/* Settings */}
-          <div className="border-t border-border pt-4 space-y-3">
-            <div className="flex items-center justify-between">
-              <span className="text-sm text-muted-foreground">Alert on price increase</span>
+          {/* Push Notifications */}
+          {push.supported && (
+            <div className="border-t border-border pt-4 mt-4 flex items-center justify-between gap-3">
+              <div>
+                <p className="text-sm text-foreground flex items-center gap-2">
+                  <BellRing className="w-4 h-4" />
+                  Push notifications
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {push.blocked
+                    ? 'Notifications are blocked in your browser settings'
+                    : 'Get alerts on this device even when the app is closed'}
+                </p>
+              </div>
               <Switch
-                checked={alertSettings.notifyIncrease}
-                onCheckedChange={(checked) => 
-                  setAlertSettings(prev => ({ ...prev, notifyIncrease: checked }))
-                }
+                checked={push.enabled}
+                disabled={push.busy || (push.blocked && !push.enabled)}
+                onCheckedChange={(checked) => (checked ? push.enable() : push.disable())}
+                aria-label="Push notifications"
               />
             </div>
-            <div className="flex items-center justify-between">
-              <span className="text-sm text-muted-foreground">Alert on price decrease</span>
-              <Switch
-                checked={alertSettings.notifyDecrease}
-                onCheckedChange={(checked) => 
-                  setAlertSettings(prev => ({ ...prev, notifyDecrease: checked }))
-                }
+          )}
+        </div>
+
+        {/* Alert Rules */}
+        <div className="card-premium p-4 mb-6">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="font-display font-semibold text-foreground">Alert Rules</h3>
+            {!isAddingRule && (
+              <Button size="sm" variant="outline" onClick={() => setIsAddingRule(true)}>
+                <Plus className="w-4 h-4 mr-1" />
+                Add Rule
+              </Button>
+            )}
+          </div>
+
+          {isAddingRule && (
+            <div className="mb-3">
+              <AlertRuleForm
+                games={games}
+                onAdd={(scope, condition) => {
+                  alerts.addRule(scope, condition);
+                  setIsAddingRule(false);
+                }}
+                onCancel={() => setIsAddingRule(false)}
               />
             </div>
-            <div className="flex items-center justify-between">
-              <span className="text-sm text-muted-foreground">Minimum change threshold</span>
-              <select
-                value={alertSettings.threshold}
-                onChange={(e) => 
-                  setAlertSettings(prev => ({ ...prev, threshold: Number(e.target.value) }))
-                }
-                className="bg-secondary text-foreground text-sm rounded-lg px-2 py-1 border border-border"
-              >
-                <option value={1}>1%</option>
-                <option value={5}>5%</option>
-                <option value={10}>10%</option>
-                <option value={20}>20%</option>
-              </select>
+          )}
+
+          {rules.length > 0 ? (
+            <div className="space-y-2">
+              {rules.map(rule => (
+                <div key={rule.id} className="flex items-center justify-between gap-3 p-3 rounded-lg bg-secondary/50">
+                  <div className="min-w-0">
+                    <p className={`text-sm font-medium truncate ${rule.enabled ? 'text-foreground' : 'text-muted-foreground'}`}>
+                      {describeCondition(rule.condition)}
+                    </p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {describeScope(rule.scope, games)}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Switch
+                      checked={rule.enabled}
+                      onCheckedChange={(checked) => alerts.setRuleEnabled(rule.id, checked)}
+                      aria-label="Rule enabled"
+                    />
+                    <button
+                      onClick={() => alerts.removeRule(rule.id)}
+                      className="p-1 text-muted-foreground hover:text-destructive"
+                      aria-label="Delete rule"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
             </div>
-          </div>
+          ) : (
+            !isAddingRule && (
+              <p className="text-sm text-muted-foreground text-center py-2">
+                No rules yet. Add one to get alerted on price moves.
+              </p>
+            )
+          )}
+          <p className="text-[10px] text-muted-foreground mt-3">
+            Rules are checked against every new valuation
+          </p>
         </div>
 
         {/* Alerts List */}
-        {alerts.length > 0 ? (
+        {events.length > 0 ? (
           <div>
             <div className="flex items-center justify-between mb-3">
               <h3 className="font-display font-semibold text-foreground">Recent Alerts</h3>
-              <button
-                onClick={clearAlerts}
-                className="text-xs text-muted-foreground hover:text-foreground"
-              >
-                Clear All
-              </button>
+              {unreadCount > 0 && (
+                <button
+                  onClick={markAllRead}
+                  className="text-xs text-muted-foreground hover:text-foreground"
+                >
+                  Mark All Read
+                </button>
+              )}
             </div>
             <div className="space-y-2">
-              {alerts.map(alert => {
-                const isIncrease = alert.changePercent > 0;
+              {events.map(event => {
+                const firedAt = new Date(event.firedAt);
+                const isIncrease = event.previousValue === null || event.currentValue >= event.previousValue;
                 return (
                   <div
-                    key={alert.id}
-                    onClick={() => markAsRead(alert.id)}
+                    key={event.id}
+                    onClick={() => !event.read && alerts.markRead([event.id])}
                     className={`p-3 rounded-lg cursor-pointer transition-all ${
-                      alert.read 
+                      event.read 
                         ? 'bg-secondary/30' 
                         : 'bg-secondary/70 border border-primary/30'
                     }`}
                   >
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center gap-3">
-                        <div className={`p-2 rounded-lg ${
-                          isIncrease ? 'bg-success/20' : 'bg-destructive/20'
-                        }`}>
-                          {isIncrease ? (
-                            <TrendingUp className="w-4 h-4 text-success" />
-                          ) : (
-                            <TrendingDown className="w-4 h-4 text-destructive" />
-                          )}
-                        </div>
-                        <div>
-                          <p className={`text-sm font-medium ${
-                            alert.read ? 'text-muted-foreground' : 'text-foreground'
-                          }`}>
-                            {alert.gameName}
-                          </p>
-                          <p className="text-xs text-muted-foreground">
-                            {alert.platform}
-                          </p>
-                        </div>
+                    <div className="flex items-center gap-3">
+                      <div className={`p-2 rounded-lg ${
+                        isIncrease ? 'bg-success/20' : 'bg-destructive/20'
+                      }`}>
+                        {isIncrease ? (
+                          <TrendingUp className="w-4 h-4 text-success" />
+                        ) : (
+                          <TrendingDown className="w-4 h-4 text-destructive" />
+                        )}
                       </div>
-                      <div className="text-right">
-                        <p className={`text-sm font-semibold ${
-                          isIncrease ? 'text-success' : 'text-destructive'
+                      <div className="min-w-0">
+                        <p className={`text-sm font-medium truncate ${
+                          event.read ? 'text-muted-foreground' : 'text-foreground'
                         }`}>
-                          {isIncrease ? '+' : ''}{alert.changePercent.toFixed(1)}%
+                          {event.gameName}
                         </p>
                         <p className="text-xs text-muted-foreground">
-                          ${alert.previousValue} → ${alert.currentValue}
+                          {event.message}
                         </p>
                       </div>
                     </div>
                     <p className="text-xs text-muted-foreground mt-2">
-                      {alert.timestamp.toLocaleDateString()} at{' '}
-                      {alert.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                      {firedAt.toLocaleDateString()} at{' '}
+                      {firedAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
                     </p>
                   </div>
                 );
@@ -297,7 +245,7 @@ export const AlertsPage = ({ games, onUpdateGame }: AlertsPageProps) => {
             <Bell className="w-12 h-12 mx-auto mb-4 text-muted-foreground/30" />
             <p className="text-muted-foreground">No alerts yet</p>
             <p className="text-xs text-muted-foreground mt-1">
-              Click "Check Now" to scan for price changes
+              Alerts appear here when one of your rules fires
             </p>
           </div>
         )}
@@ -1,20 +1,36 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect } from 'react';
 import { useUser, UserButton } from '@clerk/clerk-react';
 import { PortfolioHeader } from '@/components/PortfolioHeader';
 import { AssetCard } from '@/components/AssetCard';
 import { AddAssetButton } from '@/components/AddAssetButton';
 import { AddAssetModal } from '@/components/AddAssetModal';
+import { ImportCollectionModal } from '@/components/ImportCollectionModal';
+import { AddLotModal } from '@/components/AddLotModal';
 import { GameDetailModal } from '@/components/GameDetailModal';
 import { SearchBar } from '@/components/SearchBar';
 import { MarketSources } from '@/components/MarketSources';
 import { BottomNav } from '@/components/BottomNav';
 import { ChartSection } from '@/components/ChartSection';
+import { SyncStatusIndicator } from '@/components/SyncStatusIndicator';
+import { SyncConflictsBanner } from '@/components/SyncConflictsBanner';
+import { SoldLedger } from '@/components/SoldLedger';
 import { useGames } from '@/hooks/useGames';
-import { Asset, AssetCategory } from '@/types/asset';
+import { useRevaluation } from '@/hooks/useRevaluation';
+import { useAlerts } from '@/hooks/useAlerts';
+import { useWishlist } from '@/hooks/useWishlist';
+import { usePushNotifications } from '@/hooks/usePushNotifications';
+import { OPEN_GAME_MESSAGE } from '@/lib/serviceWorker';
+import { Asset, AssetCategory, TradingCardDetails, VideoGameDetails } from '@/types/asset';
+import { WishlistItem } from '@/types/wishlist';
+import { SnapshotInput } from '@/utils/priceHistory';
+import { createThumbnailDataUrl } from '@/utils/imageResize';
+import { calculatePortfolioStats, isSold } from '@/utils/sales';
+import { getLotItems } from '@/utils/lotAllocation';
+import { getDealPrice } from '@/utils/wishlist';
 import { MarketPage } from './Market';
 import { AlertsPage } from './Alerts';
 import { ProfilePage } from './Profile';
-import { Loader2 } from 'lucide-react';
+import { Loader2, FileUp } from 'lucide-react';
 
 const isClerkConfigured = !!import.meta.env.VITE_CLERK_PUBLISHABLE_KEY;
 
@@ -24,27 +40,84 @@ const Index = () => {
   const userId = user?.id || null;
   
   // Use the new useGames hook for data persistence
-  const { games: assets, loading, addGame, updateGame, deleteGame } = useGames(userId);
+  const {
+    games: assets,
+    snapshots,
+    loading,
+    addGame,
+    addGames,
+    updateGame,
+    deleteGame,
+    recordSnapshot,
+    syncStatus,
+    pendingCount,
+    conflicts,
+    resolveConflict,
+    dismissConflict,
+  } = useGames(userId);
+
+  // Sold games stay in `assets` for history and the sold ledger
+  const ownedAssets = useMemo(() => assets.filter(a => !isSold(a)), [assets]);
+
+  // Keep collection values fresh in the background
+  const revaluation = useRevaluation({ games: ownedAssets, userId, loading, updateGame, recordSnapshot });
+  const alerts = useAlerts(userId, ownedAssets, snapshots);
+  const wishlist = useWishlist(userId);
+  const push = usePushNotifications(userId);
   
   const [searchQuery, setSearchQuery] = useState('');
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
-  const [selectedAsset, setSelectedAsset] = useState<Asset | null>(null);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+  const [isLotModalOpen, setIsLotModalOpen] = useState(false);
+  // Wanted game being converted into an owned one
+  const [wishlistPurchase, setWishlistPurchase] = useState<WishlistItem | null>(null);
+  const [selectedAssetId, setSelectedAssetId] = useState<string | null>(null);
   const [isDetailModalOpen, setIsDetailModalOpen] = useState(false);
   const [activeNav, setActiveNav] = useState<'portfolio' | 'market' | 'alerts' | 'profile'>('portfolio');
 
+  // Tapping a price alert notification opens that game's details
+  useEffect(() => {
+    const openGame = (gameId: string) => {
+      setActiveNav('portfolio');
+      setSelectedAssetId(gameId);
+      setIsDetailModalOpen(true);
+    };
+
+    // Set when the notification had to open a new window
+    const params = new URLSearchParams(window.location.search);
+    const gameId = params.get('game');
+    if (gameId) {
+      openGame(gameId);
+      window.history.replaceState(null, '', window.location.pathname);
+    }
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === OPEN_GAME_MESSAGE && event.data.gameId) openGame(event.data.gameId);
+    };
+    navigator.serviceWorker?.addEventListener('message', handleMessage);
+    return () => {
+      navigator.serviceWorker?.removeEventListener('message', handleMessage);
+    };
+  }, []);
+
+  // Looked up from state so the detail view always shows the latest version
+  const selectedAsset = assets.find(a => a.id === selectedAssetId) || null;
+  const selectedLotItems = selectedAsset?.lot ? getLotItems(assets, selectedAsset.lot.id) : [];
+
   const filteredAssets = useMemo(() => {
-    return assets.filter((asset) => {
+    return ownedAssets.filter((asset) => {
       return asset.name.toLowerCase().includes(searchQuery.toLowerCase());
     });
-  }, [assets, searchQuery]);
+  }, [ownedAssets, searchQuery]);
 
-  const portfolioStats = useMemo(() => {
-    const totalValue = assets.reduce((sum, a) => sum + a.currentValue, 0);
-    const totalCost = assets.reduce((sum, a) => sum + a.purchasePrice, 0);
-    const totalGain = totalValue - totalCost;
-    const gainPercentage = totalCost > 0 ? (totalGain / totalCost) * 100 : 0;
-    return { totalValue, totalGain, gainPercentage };
-  }, [assets]);
+  const portfolioStats = useMemo(() => calculatePortfolioStats(assets), [assets]);
+
+  const purchasePrefill = useMemo(() => wishlistPurchase && {
+    name: wishlistPurchase.name,
+    platform: wishlistPurchase.platform,
+    conditionType: wishlistPurchase.conditionType,
+    purchasePrice: getDealPrice(wishlistPurchase) ?? undefined,
+  }, [wishlistPurchase]);
 
   const handleAddAsset = async (newAsset: {
     name: string;
@@ -55,41 +128,85 @@ const Index = () => {
     photos?: string[];
     estimatedValue?: number;
     categoryDetails?: Record<string, unknown>;
+    valuation?: SnapshotInput;
   }) => {
     // Use estimated value from market data, or default to purchase price
     const currentValue = newAsset.estimatedValue || newAsset.purchasePrice;
     
+    // Photos go to the photo store; a captured cover is kept as a small inline thumbnail
+    const imageUrl = newAsset.imageUrl?.startsWith('data:')
+      ? await createThumbnailDataUrl(newAsset.imageUrl)
+      : newAsset.imageUrl;
+
     const asset: Asset = {
       id: Date.now().toString(),
       name: newAsset.name,
-      category: 'video-games',
-      imageUrl: newAsset.imageUrl || '/placeholder.svg',
-      photos: newAsset.photos,
+      category: newAsset.category,
+      imageUrl: imageUrl || '/placeholder.svg',
       currentValue,
       estimatedValue: newAsset.estimatedValue,
       purchasePrice: newAsset.purchasePrice,
       purchaseDate: new Date().toISOString().split('T')[0],
       source: newAsset.source,
       lastUpdated: new Date().toISOString().split('T')[0],
-      videoGameDetails: newAsset.categoryDetails as Asset['videoGameDetails'],
+      ...(newAsset.category === 'trading-cards'
+        ? { tradingCardDetails: newAsset.categoryDetails as unknown as TradingCardDetails }
+        : { videoGameDetails: newAsset.categoryDetails as unknown as VideoGameDetails }),
     };
     
-    await addGame(asset);
+    await addGame(asset, newAsset.valuation, newAsset.photos);
+    if (wishlistPurchase) {
+      await wishlist.removeItem(wishlistPurchase.id);
+    }
+  };
+
+  const handleBuyWishlistItem = (item: WishlistItem) => {
+    setWishlistPurchase(item);
+    setActiveNav('portfolio');
+    setIsAddModalOpen(true);
   };
 
   const handleUpdateGame = async (game: Asset) => {
     await updateGame(game);
   };
 
+  const handleReallocateLot = async (items: Asset[]) => {
+    for (const item of items) {
+      await updateGame(item);
+    }
+  };
+
   // Render content based on active tab
   const renderContent = () => {
     switch (activeNav) {
       case 'market':
-        return <MarketPage />;
+        return (
+          <MarketPage
+            userId={userId}
+            wishlist={wishlist}
+            onBuyWishlistItem={handleBuyWishlistItem}
+          />
+        );
       case 'alerts':
-        return <AlertsPage games={assets} onUpdateGame={handleUpdateGame} />;
+        return (
+          <AlertsPage
+            games={ownedAssets}
+            revaluation={revaluation}
+            alerts={alerts}
+            push={push}
+          />
+        );
       case 'profile':
-        return <ProfilePage totalGames={assets.length} totalValue={portfolioStats.totalValue} />;
+        return (
+          <ProfilePage
+            totalGames={ownedAssets.length}
+            totalValue={portfolioStats.totalValue}
+            games={assets}
+            snapshots={snapshots}
+            ownerName={user?.fullName}
+            ownerEmail={user?.primaryEmailAddress?.emailAddress}
+          />
+        );
       default:
         return renderPortfolio();
     }
@@ -118,6 +235,7 @@ const Index = () => {
                 <p className="text-muted-foreground text-xs">
                   {user ? `Welcome, ${user.firstName || 'Collector'}` : 'Track your collection'}
                 </p>
+                <SyncStatusIndicator status={syncStatus} pendingCount={pendingCount} />
               </div>
             </div>
             {isClerkConfigured && user ? (
@@ -135,6 +253,12 @@ const Index = () => {
             )}
           </header>
 
+          <SyncConflictsBanner
+            conflicts={conflicts}
+            onResolve={resolveConflict}
+            onDismiss={dismissConflict}
+          />
+
           {/* Portfolio Value - only show if we have assets */}
           {assets.length > 0 && (
             <>
@@ -142,11 +266,14 @@ const Index = () => {
                 totalValue={portfolioStats.totalValue}
                 totalGain={portfolioStats.totalGain}
                 gainPercentage={portfolioStats.gainPercentage}
+                unrealizedGain={portfolioStats.unrealizedGain}
+                realizedGain={portfolioStats.realizedGain}
               />
 
               {/* Charts Section */}
               <ChartSection 
                 assets={assets}
+                snapshots={snapshots}
                 portfolioStats={portfolioStats}
               />
             </>
@@ -163,7 +290,16 @@ const Index = () => {
               {/* Collection Stats */}
               <div className="flex items-center justify-between mb-4 px-1">
                 <h3 className="font-display font-semibold text-foreground">Your Collection</h3>
-                <span className="text-sm text-muted-foreground">{assets.length} games</span>
+                <div className="flex items-center gap-3">
+                  <button
+                    onClick={() => setIsImportModalOpen(true)}
+                    className="flex items-center gap-1 text-xs text-muted-foreground hover:text-primary transition-colors"
+                  >
+                    <FileUp className="w-3.5 h-3.5" />
+                    Import
+                  </button>
+                  <span className="text-sm text-muted-foreground">{ownedAssets.length} games</span>
+                </div>
               </div>
             </>
           )}
@@ -177,12 +313,12 @@ const Index = () => {
                   asset={asset} 
                   index={index} 
                   onClick={() => {
-                    setSelectedAsset(asset);
+                    setSelectedAssetId(asset.id);
                     setIsDetailModalOpen(true);
                   }}
                 />
               ))
-            ) : assets.length > 0 && searchQuery ? (
+            ) : ownedAssets.length > 0 && searchQuery ? (
               // No search results
               <div className="text-center py-12">
                 <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center mx-auto mb-4">
@@ -213,9 +349,24 @@ const Index = () => {
                 >
                   + Add Your First Game
                 </button>
+                <button
+                  onClick={() => setIsImportModalOpen(true)}
+                  className="block mx-auto mt-3 text-primary text-sm font-medium hover:underline"
+                >
+                  or import a spreadsheet
+                </button>
               </div>
             )}
           </div>
+
+          {/* Sold Ledger */}
+          <SoldLedger
+            assets={assets}
+            onSelect={(asset) => {
+              setSelectedAssetId(asset.id);
+              setIsDetailModalOpen(true);
+            }}
+          />
         </div>
 
         {/* Add Asset FAB - only show on portfolio tab */}
@@ -224,22 +375,54 @@ const Index = () => {
         {/* Add Asset Modal */}
         <AddAssetModal
           isOpen={isAddModalOpen}
-          onClose={() => setIsAddModalOpen(false)}
+          userId={userId}
+          onClose={() => {
+            setIsAddModalOpen(false);
+            setWishlistPurchase(null);
+          }}
           onAdd={handleAddAsset}
+          prefill={purchasePrefill}
+          onStartLot={() => {
+            setIsAddModalOpen(false);
+            setIsLotModalOpen(true);
+          }}
+        />
+
+        {/* Lot Purchase Modal */}
+        <AddLotModal
+          isOpen={isLotModalOpen}
+          userId={userId}
+          onClose={() => setIsLotModalOpen(false)}
+          onAdd={addGames}
+        />
+
+        {/* Import Collection Modal */}
+        <ImportCollectionModal
+          isOpen={isImportModalOpen}
+          userId={userId}
+          existingGames={assets}
+          onClose={() => setIsImportModalOpen(false)}
+          onImport={addGames}
         />
 
         {/* Game Detail Modal */}
         <GameDetailModal
           asset={selectedAsset}
+          onUpdate={handleUpdateGame}
+          lotItems={selectedLotItems}
+          onReallocateLot={handleReallocateLot}
+          snapshots={snapshots}
+          userId={userId}
           isOpen={isDetailModalOpen}
+          onRecordSnapshot={recordSnapshot}
           onClose={() => {
             setIsDetailModalOpen(false);
-            setSelectedAsset(null);
+            setSelectedAssetId(null);
           }}
           onDelete={async (assetId) => {
             await deleteGame(assetId);
             setIsDetailModalOpen(false);
-            setSelectedAsset(null);
+            setSelectedAssetId(null);
           }}
         />
       </div>
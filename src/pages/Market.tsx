@@ -5,11 +5,14 @@
  */
 
 import { useState, useRef, useEffect, useCallback } from 'react';
-import { Search, Camera, Loader2, TrendingUp, X, ScanBarcode, AlertCircle } from 'lucide-react';
+import { Search, Camera, Loader2, TrendingUp, X, ScanBarcode, AlertCircle, Heart } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
+import { WishlistSection } from '@/components/WishlistSection';
 import { lookupPrice } from '@/services/priceLookup';
-import { lookupByUPC } from '@/services/priceChartingApi';
+import { lookupByUPC } from '@/services/priceProviders';
+import { NewWishlistItem, UseWishlistReturn } from '@/hooks/useWishlist';
+import { WishlistItem } from '@/types/wishlist';
 import Quagga from '@ericblade/quagga2';
 
 interface PriceResult {
@@ -40,13 +43,21 @@ const conditionTypes = [
   { value: 'sealed', label: 'Sealed', icon: '🔒' },
 ];
 
-export const MarketPage = () => {
+interface MarketPageProps {
+  userId: string | null;
+  wishlist: UseWishlistReturn;
+  // Turns a wanted game into an owned one
+  onBuyWishlistItem: (item: WishlistItem) => void;
+}
+
+export const MarketPage = ({ userId, wishlist, onBuyWishlistItem }: MarketPageProps) => {
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedPlatform, setSelectedPlatform] = useState('');
   const [selectedCondition, setSelectedCondition] = useState('cib');
   const [isSearching, setIsSearching] = useState(false);
   const [result, setResult] = useState<PriceResult | null>(null);
   const [recentSearches, setRecentSearches] = useState<PriceResult[]>([]);
+  const [wishlistDraft, setWishlistDraft] = useState<NewWishlistItem | null>(null);
   
   // Scanner state
   const [showScanner, setShowScanner] = useState(false);
@@ -137,7 +148,7 @@ export const MarketPage = () => {
         // Look up the UPC
         setIsSearching(true);
         try {
-          const gameInfo = await lookupByUPC(code);
+          const gameInfo = await lookupByUPC(code, userId);
           
           if (gameInfo) {
             // Determine best price based on condition
@@ -185,7 +196,7 @@ export const MarketPage = () => {
     return () => {
       Quagga.offDetected(handleDetected);
     };
-  }, [isScanning, stopScanner]);
+  }, [isScanning, stopScanner, userId]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -211,6 +222,7 @@ export const MarketPage = () => {
           platform: selectedPlatform,
           conditionType: selectedCondition,
         },
+        userId,
       });
 
       const newResult: PriceResult = {
@@ -557,9 +569,32 @@ export const MarketPage = () => {
                 )}
               </>
             )}
+
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full mt-4"
+              onClick={() => setWishlistDraft({
+                name: result.name,
+                platform: result.platform,
+                conditionType: result.conditionType as WishlistItem['conditionType'],
+                maxPrice: Math.floor(result.estimatedValue),
+              })}
+            >
+              <Heart className="w-4 h-4 mr-2" />
+              Add to Wishlist
+            </Button>
           </div>
         )}
 
+        {/* Wishlist */}
+        <WishlistSection
+          wishlist={wishlist}
+          draft={wishlistDraft}
+          onDraftUsed={() => setWishlistDraft(null)}
+          onBuy={onBuyWishlistItem}
+        />
+
         {/* Recent Searches */}
         {recentSearches.length > 0 && (
           <div>
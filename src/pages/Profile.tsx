@@ -4,20 +4,64 @@
  * User profile and settings
  */
 
-import { User, LogOut, Settings, Shield, Database, ExternalLink, Moon, Sun } from 'lucide-react';
+import { User, LogOut, Settings, Shield, Database, ExternalLink, Moon, Sun, TrendingUp, Download, FileText, FileJson, FileSpreadsheet } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { TaxReportCard } from '@/components/TaxReportCard';
+import { DigestSettingsCard } from '@/components/DigestSettingsCard';
 import { useAuth, SignOutButton, UserProfile } from '@clerk/clerk-react';
 import { useState } from 'react';
 import { isSupabaseConfigured } from '@/lib/supabase';
+import { getPriceProviders, getProviderSettings, setProviderEnabled } from '@/services/priceProviders';
+import { getQuotaStatus } from '@/services/priceCache';
+import { Asset, PriceSnapshot } from '@/types/asset';
+import {
+  buildInsuranceReport,
+  downloadFile,
+  exportToCSV,
+  exportToJSON,
+  openPrintableReport,
+} from '@/utils/collectionExport';
+import { isSold } from '@/utils/sales';
 
 interface ProfilePageProps {
   totalGames: number;
   totalValue: number;
+  games: Asset[];
+  snapshots: PriceSnapshot[];
+  ownerName?: string | null;
+  ownerEmail?: string | null;
 }
 
-export const ProfilePage = ({ totalGames, totalValue }: ProfilePageProps) => {
+export const ProfilePage = ({ totalGames, totalValue, games, snapshots, ownerName, ownerEmail }: ProfilePageProps) => {
   const { isSignedIn, userId } = useAuth();
   const [showProfile, setShowProfile] = useState(false);
+  const [providerSettings, setProviderSettings] = useState(() => getProviderSettings(userId));
+
+  const toggleProvider = (providerId: string, enabled: boolean) => {
+    setProviderEnabled(userId, providerId, enabled);
+    setProviderSettings(getProviderSettings(userId));
+  };
+
+  const exportFileName = (extension: string) =>
+    `gil0-collection-${new Date().toISOString().split('T')[0]}.${extension}`;
+
+  const handleExportCSV = () => {
+    downloadFile(exportFileName('csv'), exportToCSV(games), 'text/csv;charset=utf-8');
+  };
+
+  const handleExportJSON = () => {
+    downloadFile(exportFileName('json'), exportToJSON(games, snapshots), 'application/json');
+  };
+
+  const handleInsuranceReport = () => {
+    // Only what's still owned needs insuring
+    const html = buildInsuranceReport(games.filter(g => !isSold(g)), { owner: ownerName || undefined, snapshots });
+    // Fall back to downloading the report when pop-ups are blocked
+    if (!openPrintableReport(html)) {
+      downloadFile(exportFileName('html'), html, 'text/html');
+    }
+  };
 
   return (
     <div className="min-h-screen bg-background pb-24">
@@ -120,6 +164,74 @@ export const ProfilePage = ({ totalGames, totalValue }: ProfilePageProps) => {
           </div>
         </div>
 
+        {/* Export */}
+        <div className="card-premium p-4 mb-6">
+          <h3 className="font-display font-semibold text-foreground mb-1 flex items-center gap-2">
+            <Download className="w-4 h-4" />
+            Export Collection
+          </h3>
+          <p className="text-xs text-muted-foreground mb-4">
+            Download a backup or a report for your insurer
+          </p>
+          <div className="space-y-2">
+            <Button variant="outline" className="w-full justify-start" disabled={games.length === 0} onClick={handleInsuranceReport}>
+              <FileText className="w-4 h-4 mr-2" />
+              Insurance Report (PDF)
+            </Button>
+            <div className="grid grid-cols-2 gap-2">
+              <Button variant="outline" className="justify-start" disabled={games.length === 0} onClick={handleExportCSV}>
+                <FileSpreadsheet className="w-4 h-4 mr-2" />
+                CSV
+              </Button>
+              <Button variant="outline" className="justify-start" disabled={games.length === 0} onClick={handleExportJSON}>
+                <FileJson className="w-4 h-4 mr-2" />
+                JSON Backup
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        {/* Tax Report */}
+        <TaxReportCard games={games} />
+
+        {/* Digest Email */}
+        <DigestSettingsCard userId={isSignedIn ? userId : null} defaultEmail={ownerEmail} />
+
+        {/* Price Sources */}
+        <div className="card-premium p-4 mb-6">
+          <h3 className="font-display font-semibold text-foreground mb-4 flex items-center gap-2">
+            <TrendingUp className="w-4 h-4" />
+            Price Sources
+          </h3>
+          <div className="space-y-3">
+            {getPriceProviders().map(provider => {
+              const quota = provider.rateLimit
+                ? getQuotaStatus(provider.id, provider.rateLimit.requestsPerDay)
+                : null;
+              return (
+                <div key={provider.id} className="flex items-center justify-between">
+                  <div>
+                    <span className="text-sm text-foreground">{provider.name}</span>
+                    {!provider.isConfigured() ? (
+                      <p className="text-xs text-muted-foreground">Not configured</p>
+                    ) : quota && (
+                      <p className={`text-xs ${quota.remaining > 0 ? 'text-muted-foreground' : 'text-destructive'}`}>
+                        {quota.remaining} of {quota.limit} requests left today
+                        {quota.remaining === 0 && ' · using cached prices'}
+                      </p>
+                    )}
+                  </div>
+                  <Switch
+                    checked={providerSettings[provider.id] ?? provider.enabledByDefault}
+                    disabled={!provider.isConfigured()}
+                    onCheckedChange={(checked) => toggleProvider(provider.id, checked)}
+                  />
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
         {/* About */}
         <div className="card-premium p-4">
           <h3 className="font-display font-semibold text-foreground mb-4">About gil0</h3>
@@ -0,0 +1,207 @@
+/**
+ * Alert Rule Engine
+ *
+ * Evaluates alert rules against the collection's recorded price snapshots.
+ * Pure and framework-free: give it rules, games, snapshots and the events
+ * already fired, and it returns the new events. Rules only look at
+ * valuations recorded after they were created, and each snapshot fires a
+ * rule at most once, so evaluating again after every revaluation is safe.
+ */
+
+import type { Asset, PriceSnapshot } from '@/types/asset';
+import type { AlertCondition, AlertEvent, AlertRule, AlertRuleScope } from '@/types/alerts';
+import { groupSnapshotsByGame } from '../utils/priceHistory';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const confidenceRank: Record<PriceSnapshot['confidence'], number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+};
+
+export interface AlertEvaluationInput {
+  rules: AlertRule[];
+  games: Asset[];
+  snapshots: PriceSnapshot[];
+  // Events fired before, for de-duplication and cooldowns
+  history: AlertEvent[];
+  now?: Date;
+}
+
+// ============================================
+// MATCHING
+// ============================================
+
+export function getGamePlatform(game: Asset): string {
+  return game.videoGameDetails?.platform || game.tradingCardDetails?.setName || '';
+}
+
+export function ruleMatchesGame(scope: AlertRuleScope, game: Asset): boolean {
+  switch (scope.type) {
+    case 'game':
+      return game.id === scope.gameId;
+    case 'platform':
+      return getGamePlatform(game) === scope.platform;
+    default:
+      return true;
+  }
+}
+
+// ============================================
+// DESCRIPTIONS
+// ============================================
+
+const formatPrice = (value: number) => `$${value.toLocaleString()}`;
+
+export function describeCondition(condition: AlertCondition): string {
+  switch (condition.type) {
+    case 'price-above':
+      return `Value rises to ${formatPrice(condition.target)} or more`;
+    case 'price-below':
+      return `Value falls to ${formatPrice(condition.target)} or less`;
+    case 'percent-change': {
+      const direction = condition.direction === 'up' ? 'Rises' : condition.direction === 'down' ? 'Falls' : 'Moves';
+      const window = condition.windowDays === 1 ? 'a day' : `${condition.windowDays} days`;
+      return `${direction} ${condition.percent}% within ${window}`;
+    }
+    case 'confidence-drop':
+      return `Valuation confidence drops below ${condition.below}`;
+  }
+}
+
+export function describeScope(scope: AlertRuleScope, games: Asset[]): string {
+  switch (scope.type) {
+    case 'game':
+      return games.find(g => g.id === scope.gameId)?.name || 'Removed game';
+    case 'platform':
+      return `All ${scope.platform}`;
+    default:
+      return 'Whole collection';
+  }
+}
+
+// ============================================
+// CONDITIONS
+// ============================================
+
+interface ConditionContext {
+  history: PriceSnapshot[];
+  latest: PriceSnapshot;
+  previous: PriceSnapshot | null;
+  // Whether this rule has fired for the game before
+  hasFired: boolean;
+  lastFiredAt: Date | null;
+  now: Date;
+}
+
+interface ConditionResult {
+  message: string;
+  previousValue: number | null;
+}
+
+function evaluateCondition(condition: AlertCondition, ctx: ConditionContext): ConditionResult | null {
+  const { latest, previous } = ctx;
+  const previousValue = previous?.value ?? null;
+
+  switch (condition.type) {
+    case 'price-above':
+    case 'price-below': {
+      const isAbove = condition.type === 'price-above';
+      const meets = (value: number) => (isAbove ? value >= condition.target : value <= condition.target);
+      // Fires on crossing the target, or the first time it's met
+      if (!meets(latest.value)) return null;
+      if (ctx.hasFired && previous && meets(previous.value)) return null;
+      return {
+        message: `${isAbove ? 'Reached' : 'Dropped to'} ${formatPrice(latest.value)} (target ${formatPrice(condition.target)})`,
+        previousValue,
+      };
+    }
+
+    case 'percent-change': {
+      const windowStart = new Date(latest.recordedAt).getTime() - condition.windowDays * DAY_MS;
+      if (ctx.lastFiredAt && ctx.lastFiredAt.getTime() > ctx.now.getTime() - condition.windowDays * DAY_MS) {
+        return null;
+      }
+
+      // Value at the start of the window, or the oldest one inside it
+      const before = ctx.history.filter(s => new Date(s.recordedAt).getTime() <= windowStart);
+      const baseline = before[before.length - 1] || ctx.history[0];
+      if (!baseline || baseline.id === latest.id || baseline.value <= 0) return null;
+
+      const change = ((latest.value - baseline.value) / baseline.value) * 100;
+      const inDirection = condition.direction === 'either'
+        || (condition.direction === 'up' ? change > 0 : change < 0);
+      if (!inDirection || Math.abs(change) < condition.percent) return null;
+
+      return {
+        message: `${change > 0 ? 'Up' : 'Down'} ${Math.abs(change).toFixed(1)}% to ${formatPrice(latest.value)}`,
+        previousValue: baseline.value,
+      };
+    }
+
+    case 'confidence-drop': {
+      const threshold = confidenceRank[condition.below];
+      if (!previous) return null;
+      if (confidenceRank[latest.confidence] >= threshold || confidenceRank[previous.confidence] < threshold) {
+        return null;
+      }
+      return {
+        message: `Valuation confidence fell from ${previous.confidence} to ${latest.confidence}`,
+        previousValue,
+      };
+    }
+  }
+}
+
+// ============================================
+// EVALUATION
+// ============================================
+
+export function evaluateAlertRules({ rules, games, snapshots, history, now = new Date() }: AlertEvaluationInput): AlertEvent[] {
+  const activeRules = rules.filter(r => r.enabled);
+  if (activeRules.length === 0) return [];
+
+  const snapshotsByGame = groupSnapshotsByGame(snapshots);
+  const firedKeys = new Set(history.map(e => `${e.ruleId}:${e.snapshotId}`));
+  const lastFired = new Map<string, Date>();
+  for (const event of history) {
+    const key = `${event.ruleId}:${event.gameId}`;
+    const firedAt = new Date(event.firedAt);
+    if (!lastFired.has(key) || lastFired.get(key)! < firedAt) lastFired.set(key, firedAt);
+  }
+
+  const events: AlertEvent[] = [];
+  for (const rule of activeRules) {
+    for (const game of games.filter(g => ruleMatchesGame(rule.scope, g))) {
+      const gameHistory = snapshotsByGame.get(game.id) || [];
+      const latest = gameHistory[gameHistory.length - 1];
+      if (!latest || latest.recordedAt < rule.createdAt || firedKeys.has(`${rule.id}:${latest.id}`)) continue;
+
+      const lastFiredAt = lastFired.get(`${rule.id}:${game.id}`) || null;
+      const result = evaluateCondition(rule.condition, {
+        history: gameHistory,
+        latest,
+        previous: gameHistory[gameHistory.length - 2] || null,
+        hasFired: lastFiredAt !== null,
+        lastFiredAt,
+        now,
+      });
+      if (!result) continue;
+
+      events.push({
+        id: crypto.randomUUID(),
+        ruleId: rule.id,
+        gameId: game.id,
+        gameName: game.name,
+        snapshotId: latest.id,
+        message: result.message,
+        previousValue: result.previousValue,
+        currentValue: latest.value,
+        firedAt: now.toISOString(),
+        read: false,
+      });
+    }
+  }
+  return events;
+}
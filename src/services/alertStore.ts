@@ -0,0 +1,220 @@
+/**
+ * Alert Store
+ *
+ * Persists alert rules and their firing history per user: in Supabase
+ * (`alert_rules`, `alert_events`) when cloud sync is configured, with a
+ * localStorage copy so alerts keep working offline and without an account.
+ */
+
+import { supabase, isSupabaseConfigured } from '@/lib/supabase';
+import type { AlertEventRow, AlertRuleRow, Json } from '@/types/database';
+import { AlertEvent, AlertRule } from '@/types/alerts';
+import { isTempId } from './syncQueue';
+
+// Firing history kept per user
+export const MAX_ALERT_EVENTS = 100;
+
+function getRulesKey(userId: string | null): string {
+  return userId ? `gil0-alert-rules-${userId}` : 'gil0-alert-rules';
+}
+
+function getEventsKey(userId: string | null): string {
+  return userId ? `gil0-alert-events-${userId}` : 'gil0-alert-events';
+}
+
+function readLocal<T>(key: string): T[] {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error loading alerts from localStorage:', error);
+    return [];
+  }
+}
+
+function writeLocal<T>(key: string, items: T[]): void {
+  try {
+    localStorage.setItem(key, JSON.stringify(items));
+  } catch (error) {
+    console.error('Error saving alerts to localStorage:', error);
+  }
+}
+
+function canUseCloud(userId: string | null): userId is string {
+  return Boolean(userId && isSupabaseConfigured() && supabase);
+}
+
+// ============================================
+// ROW MAPPING
+// ============================================
+
+function rowToRule(row: AlertRuleRow): AlertRule {
+  return {
+    id: row.id,
+    scope: row.scope as unknown as AlertRule['scope'],
+    condition: row.condition as unknown as AlertRule['condition'],
+    enabled: row.enabled,
+    createdAt: row.created_at,
+  };
+}
+
+function rowToEvent(row: AlertEventRow): AlertEvent {
+  return {
+    id: row.id,
+    ruleId: row.rule_id || '',
+    gameId: row.game_id,
+    gameName: row.game_name,
+    snapshotId: row.snapshot_id,
+    message: row.message,
+    previousValue: row.previous_value === null ? null : Number(row.previous_value),
+    currentValue: Number(row.current_value),
+    firedAt: row.fired_at,
+    read: row.read_at !== null,
+  };
+}
+
+// ============================================
+// RULES
+// ============================================
+
+export async function loadAlertRules(userId: string | null): Promise<AlertRule[]> {
+  const local = readLocal<AlertRule>(getRulesKey(userId));
+  if (!canUseCloud(userId)) return local;
+
+  try {
+    const { data, error } = await supabase!
+      .from('alert_rules')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error loading alert rules:', error);
+      return local;
+    }
+    const rules = (data || []).map(rowToRule);
+    writeLocal(getRulesKey(userId), rules);
+    return rules;
+  } catch (error) {
+    console.error('Error loading alert rules:', error);
+    return local;
+  }
+}
+
+export async function saveAlertRule(userId: string | null, rule: AlertRule): Promise<void> {
+  const key = getRulesKey(userId);
+  const rules = readLocal<AlertRule>(key);
+  const exists = rules.some(r => r.id === rule.id);
+  writeLocal(key, exists ? rules.map(r => r.id === rule.id ? rule : r) : [...rules, rule]);
+
+  if (!canUseCloud(userId)) return;
+  try {
+    const { error } = await supabase!.from('alert_rules').upsert({
+      id: rule.id,
+      user_id: userId,
+      scope: rule.scope as unknown as Json,
+      condition: rule.condition as unknown as Json,
+      enabled: rule.enabled,
+      created_at: rule.createdAt,
+    });
+    if (error) console.error('Error saving alert rule:', error);
+  } catch (error) {
+    console.error('Error saving alert rule:', error);
+  }
+}
+
+export async function deleteAlertRule(userId: string | null, ruleId: string): Promise<void> {
+  const key = getRulesKey(userId);
+  writeLocal(key, readLocal<AlertRule>(key).filter(r => r.id !== ruleId));
+
+  if (!canUseCloud(userId)) return;
+  try {
+    const { error } = await supabase!
+      .from('alert_rules')
+      .delete()
+      .eq('id', ruleId)
+      .eq('user_id', userId);
+    if (error) console.error('Error deleting alert rule:', error);
+  } catch (error) {
+    console.error('Error deleting alert rule:', error);
+  }
+}
+
+// ============================================
+// FIRING HISTORY
+// ============================================
+
+export async function loadAlertEvents(userId: string | null): Promise<AlertEvent[]> {
+  const local = readLocal<AlertEvent>(getEventsKey(userId));
+  if (!canUseCloud(userId)) return local;
+
+  try {
+    const { data, error } = await supabase!
+      .from('alert_events')
+      .select('*')
+      .eq('user_id', userId)
+      .order('fired_at', { ascending: false })
+      .limit(MAX_ALERT_EVENTS);
+
+    if (error) {
+      console.error('Error loading alert history:', error);
+      return local;
+    }
+    // Events for games that haven't synced yet only exist locally
+    const cloud = (data || []).map(rowToEvent);
+    const cloudIds = new Set(cloud.map(e => e.id));
+    const events = [...local.filter(e => isTempId(e.gameId) && !cloudIds.has(e.id)), ...cloud]
+      .sort((a, b) => b.firedAt.localeCompare(a.firedAt))
+      .slice(0, MAX_ALERT_EVENTS);
+    writeLocal(getEventsKey(userId), events);
+    return events;
+  } catch (error) {
+    console.error('Error loading alert history:', error);
+    return local;
+  }
+}
+
+export async function recordAlertEvents(userId: string | null, events: AlertEvent[]): Promise<void> {
+  if (events.length === 0) return;
+  const key = getEventsKey(userId);
+  writeLocal(key, [...events, ...readLocal<AlertEvent>(key)].slice(0, MAX_ALERT_EVENTS));
+
+  const syncable = events.filter(e => !isTempId(e.gameId));
+  if (!canUseCloud(userId) || syncable.length === 0) return;
+  try {
+    const { error } = await supabase!.from('alert_events').insert(syncable.map(e => ({
+      id: e.id,
+      user_id: userId,
+      rule_id: e.ruleId || null,
+      game_id: e.gameId,
+      game_name: e.gameName,
+      snapshot_id: e.snapshotId,
+      message: e.message,
+      previous_value: e.previousValue,
+      current_value: e.currentValue,
+      fired_at: e.firedAt,
+    })));
+    if (error) console.error('Error saving alert history:', error);
+  } catch (error) {
+    console.error('Error saving alert history:', error);
+  }
+}
+
+export async function markAlertEventsRead(userId: string | null, eventIds: string[]): Promise<void> {
+  if (eventIds.length === 0) return;
+  const key = getEventsKey(userId);
+  const ids = new Set(eventIds);
+  writeLocal(key, readLocal<AlertEvent>(key).map(e => ids.has(e.id) ? { ...e, read: true } : e));
+
+  if (!canUseCloud(userId)) return;
+  try {
+    const { error } = await supabase!
+      .from('alert_events')
+      .update({ read_at: new Date().toISOString() })
+      .in('id', eventIds)
+      .eq('user_id', userId);
+    if (error) console.error('Error updating alert history:', error);
+  } catch (error) {
+    console.error('Error updating alert history:', error);
+  }
+}
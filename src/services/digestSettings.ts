@@ -0,0 +1,129 @@
+/**
+ * Digest Settings
+ *
+ * Opt-in and frequency for the collection digest email. Stored in
+ * Supabase (`digest_settings`), where the scheduled sender reads them,
+ * with a localStorage copy so the Profile form loads instantly. Digests
+ * only go out once the address is confirmed through an emailed link.
+ */
+
+import { supabase, isSupabaseConfigured } from '@/lib/supabase';
+import { getAuthHeaders } from '@/lib/session';
+import { apiConfig } from '@/config/api';
+import type { DigestSettingsRow } from '@/types/database';
+import { DigestConfirmationStatus, DigestFrequency, DigestSettings } from '@/types/digest';
+
+const DEFAULT_SETTINGS: DigestSettings = {
+  enabled: false,
+  email: '',
+  frequency: 'weekly',
+};
+
+function getStorageKey(userId: string): string {
+  return `gil0-digest-${userId}`;
+}
+
+function readLocal(userId: string): DigestSettings | null {
+  try {
+    const stored = localStorage.getItem(getStorageKey(userId));
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Error loading digest settings from localStorage:', error);
+    return null;
+  }
+}
+
+function writeLocal(userId: string, settings: DigestSettings): void {
+  try {
+    localStorage.setItem(getStorageKey(userId), JSON.stringify(settings));
+  } catch (error) {
+    console.error('Error saving digest settings to localStorage:', error);
+  }
+}
+
+function rowToSettings(row: DigestSettingsRow): DigestSettings {
+  return {
+    enabled: row.enabled,
+    email: row.email,
+    frequency: row.frequency as DigestFrequency,
+    lastSentAt: row.last_sent_at || undefined,
+  };
+}
+
+// The digest is sent server-side, so it needs an account and cloud sync
+export function canSendDigest(userId: string | null | undefined): userId is string {
+  return Boolean(userId && isSupabaseConfigured() && supabase);
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+export async function loadDigestSettings(userId: string, defaultEmail = ''): Promise<DigestSettings> {
+  const local = readLocal(userId) || { ...DEFAULT_SETTINGS, email: defaultEmail };
+  if (!canSendDigest(userId)) return local;
+
+  try {
+    const { data, error } = await supabase!
+      .from('digest_settings')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading digest settings:', error);
+      return local;
+    }
+    if (!data) return local;
+    const settings = rowToSettings(data);
+    writeLocal(userId, settings);
+    return settings;
+  } catch (error) {
+    console.error('Error loading digest settings:', error);
+    return local;
+  }
+}
+
+export async function saveDigestSettings(userId: string, settings: DigestSettings): Promise<boolean> {
+  writeLocal(userId, settings);
+  if (!canSendDigest(userId)) return false;
+
+  try {
+    const { error } = await supabase!.from('digest_settings').upsert({
+      user_id: userId,
+      email: settings.email,
+      enabled: settings.enabled,
+      frequency: settings.frequency,
+    });
+    if (error) {
+      console.error('Error saving digest settings:', error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error('Error saving digest settings:', error);
+    return false;
+  }
+}
+
+/**
+ * Have a confirmation link mailed to the saved address, unless it is
+ * already confirmed. Null when the request failed.
+ */
+export async function requestDigestConfirmation(): Promise<DigestConfirmationStatus | null> {
+  try {
+    const response = await fetch(apiConfig.digest.confirmUrl, {
+      method: 'POST',
+      headers: await getAuthHeaders(),
+    });
+    if (!response.ok) {
+      console.error('Digest confirmation request failed, status:', response.status);
+      return null;
+    }
+    const { status } = (await response.json()) as { status: DigestConfirmationStatus };
+    return status;
+  } catch (error) {
+    console.error('Error requesting digest confirmation:', error);
+    return null;
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * eBay Sold Listing Search
+ *
+ * Builds the Marketplace Insights search for an item. Shared by the app
+ * (through the api/ebay-sold.ts proxy) and the scheduled revaluation, so
+ * both look for the same sales.
+ */
+
+import type { AssetCategory } from '@/types/asset';
+
+// eBay category IDs per asset category
+const EBAY_CATEGORIES: Record<AssetCategory, string[]> = {
+  // Video games, consoles, video game merchandise
+  'video-games': ['139973', '187', '1249'],
+  // CCG individual cards, sports trading card singles
+  'trading-cards': ['183454', '261328'],
+};
+
+function buildCardSearchQuery(
+  name: string,
+  details?: Record<string, unknown>
+): string {
+  const parts = [name];
+
+  if (details) {
+    if (details.setName) parts.push(String(details.setName));
+    if (details.cardNumber) parts.push(String(details.cardNumber));
+    if (details.variant) parts.push(String(details.variant));
+
+    // Graded cards are listed as "PSA 10", raw cards usually aren't tagged
+    if (details.gradingCompany && details.gradingCompany !== 'raw') {
+      parts.push(`${details.gradingCompany} ${details.grade ?? ''}`.trim());
+    }
+  }
+
+  return parts.join(' ');
+}
+
+function buildSearchQuery(
+  name: string, 
+  details?: Record<string, unknown>
+): string {
+  let query = name;
+  
+  if (details) {
+    // Add platform
+    if (details.platform) {
+      query += ` ${details.platform}`;
+    }
+    
+    // Add condition type keywords
+    if (details.conditionType === 'sealed') {
+      query += ' sealed';
+    } else if (details.conditionType === 'cib') {
+      query += ' complete CIB';
+    } else if (details.conditionType === 'loose') {
+      query += ' loose cart';
+    }
+    
+    // Add grading info
+    if (details.gradingCompany && details.gradingCompany !== 'raw') {
+      query += ` ${details.gradingCompany}`;
+      if (details.grade) {
+        query += ` ${details.grade}`;
+      }
+    }
+  }
+  
+  return query;
+}
+
+/**
+ * Query string for a sold-items search (q, category_ids, filter, limit)
+ */
+export function buildEbaySoldSearchParams(
+  name: string,
+  category: AssetCategory,
+  details?: Record<string, unknown>
+): URLSearchParams {
+  const query = category === 'trading-cards'
+    ? buildCardSearchQuery(name, details)
+    : buildSearchQuery(name, details);
+
+  return new URLSearchParams({
+    q: query,
+    category_ids: EBAY_CATEGORIES[category].join(','),
+    filter: 'conditionIds:{1000|1500|2000|2500|3000}',
+    limit: '50',
+  });
+}
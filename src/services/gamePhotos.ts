@@ -0,0 +1,314 @@
+/**
+ * Game Photos
+ *
+ * Upload pipeline for item photos: images are resized client-side, kept in
+ * the device photo store first, then uploaded to the Supabase Storage
+ * bucket with a `game_photos` row holding order and caption. Photos stay
+ * on the device (and are retried later) when the game isn't synced yet,
+ * the upload fails, or cloud sync isn't configured.
+ *
+ * The bucket is private: cloud photos are shown through short-lived
+ * signed URLs, and a game's cover is an inline thumbnail rather than a
+ * link to the file.
+ */
+
+import { supabase } from '@/lib/supabase';
+import type { GamePhotoRow } from '@/types/database';
+import { createThumbnailDataUrl, resizeImage, dataUrlToBlob } from '@/utils/imageResize';
+import { isTempId } from './syncQueue';
+import {
+  DevicePhoto,
+  deleteDevicePhotos,
+  getDevicePhotos,
+  putDevicePhotos,
+} from './photoStore';
+
+export const PHOTO_BUCKET = 'game-photos';
+// Galleries reload on open, so an hour is plenty
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+export interface GamePhoto {
+  id: string;
+  gameId: string;
+  // Signed URL for cloud photos, an object URL for device photos
+  url: string;
+  caption?: string;
+  position: number;
+  location: 'cloud' | 'device';
+  storagePath?: string;
+}
+
+function canUseCloud(gameId: string, userId: string | null): userId is string {
+  return Boolean(userId && supabase && !isTempId(gameId));
+}
+
+function toCloudPhoto(row: GamePhotoRow, url: string): GamePhoto {
+  return {
+    id: row.id,
+    gameId: row.game_id,
+    url,
+    caption: row.caption || undefined,
+    position: row.position,
+    location: 'cloud',
+    storagePath: row.storage_path,
+  };
+}
+
+function toDevicePhoto(photo: DevicePhoto): GamePhoto {
+  return {
+    id: photo.id,
+    gameId: photo.gameId,
+    url: URL.createObjectURL(photo.blob),
+    caption: photo.caption,
+    position: photo.position,
+    location: 'device',
+  };
+}
+
+/**
+ * Signed URLs for files in the private bucket, by storage path
+ */
+async function signPhotoUrls(paths: string[]): Promise<Map<string, string>> {
+  if (paths.length === 0) return new Map();
+  const { data, error } = await supabase!.storage.from(PHOTO_BUCKET).createSignedUrls(paths, SIGNED_URL_TTL_SECONDS);
+  if (error) throw new Error(error.message);
+  return new Map((data || []).flatMap(d => (d.path && d.signedUrl ? [[d.path, d.signedUrl] as [string, string]] : [])));
+}
+
+/**
+ * Small inline copy of a photo for the game's cover. Device photos only
+ * have object URLs and cloud photos only expiring signed URLs, so neither
+ * can be stored on the game as-is.
+ */
+export async function createCoverThumbnail(photo: GamePhoto): Promise<string> {
+  if (photo.location === 'cloud' && photo.storagePath) {
+    const { data, error } = await supabase!.storage.from(PHOTO_BUCKET).download(photo.storagePath);
+    if (error || !data) throw new Error(error?.message || 'Could not download photo');
+    return createThumbnailDataUrl(data);
+  }
+  return createThumbnailDataUrl(photo.url);
+}
+
+/**
+ * Covers saved before the bucket was private link to its public URL,
+ * which no longer loads
+ */
+export function isPublicPhotoUrl(url: string): boolean {
+  return url.includes(`/storage/v1/object/public/${PHOTO_BUCKET}/`);
+}
+
+/**
+ * Free the object URLs created for device photos
+ */
+export function releasePhotoUrls(photos: GamePhoto[]): void {
+  photos.filter(p => p.location === 'device').forEach(p => URL.revokeObjectURL(p.url));
+}
+
+// ============================================
+// READ
+// ============================================
+
+export async function listGamePhotos(gameId: string, userId: string | null): Promise<GamePhoto[]> {
+  const device = (await getDevicePhotos(gameId)).map(toDevicePhoto);
+  let cloud: GamePhoto[] = [];
+
+  if (canUseCloud(gameId, userId)) {
+    try {
+      const { data, error } = await supabase!
+        .from('game_photos')
+        .select('*')
+        .eq('game_id', gameId)
+        .eq('user_id', userId)
+        .order('position', { ascending: true });
+
+      if (error) {
+        console.error('Error loading photos:', error);
+      } else {
+        const rows = data || [];
+        const urls = await signPhotoUrls(rows.map(r => r.storage_path));
+        cloud = rows.map(row => toCloudPhoto(row, urls.get(row.storage_path) || ''));
+      }
+    } catch (error) {
+      console.error('Error loading photos:', error);
+    }
+  }
+
+  return [...cloud, ...device].sort((a, b) => a.position - b.position);
+}
+
+// ============================================
+// UPLOAD
+// ============================================
+
+async function uploadDevicePhoto(photo: DevicePhoto, userId: string): Promise<GamePhoto> {
+  const storagePath = `${userId}/${photo.gameId}/${photo.id}.jpg`;
+  const bucket = supabase!.storage.from(PHOTO_BUCKET);
+
+  const { error: uploadError } = await bucket.upload(storagePath, photo.blob, {
+    contentType: photo.blob.type || 'image/jpeg',
+    upsert: true,
+  });
+  if (uploadError) throw new Error(uploadError.message);
+
+  const { data, error } = await supabase!
+    .from('game_photos')
+    .insert({
+      id: photo.id,
+      game_id: photo.gameId,
+      user_id: userId,
+      storage_path: storagePath,
+      caption: photo.caption ?? null,
+      position: photo.position,
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    await bucket.remove([storagePath]);
+    throw new Error(error?.message || 'Could not save photo');
+  }
+  // Stored either way; the gallery signs it again when it next loads
+  const urls = await signPhotoUrls([storagePath]).catch(error => {
+    console.error('Error signing photo URL:', error);
+    return new Map<string, string>();
+  });
+  return toCloudPhoto(data, urls.get(storagePath) || '');
+}
+
+/**
+ * Upload every photo still held on the device for a game, in order.
+ * Stops at the first failure; the rest stay on the device for next time.
+ */
+export async function uploadDevicePhotos(gameId: string, userId: string | null): Promise<GamePhoto[]> {
+  if (!canUseCloud(gameId, userId) || !navigator.onLine) return [];
+
+  const uploaded: GamePhoto[] = [];
+  for (const photo of await getDevicePhotos(gameId)) {
+    try {
+      uploaded.push(await uploadDevicePhoto(photo, userId));
+      await deleteDevicePhotos([photo.id]);
+    } catch (error) {
+      console.error('Photo upload failed, keeping it on this device:', error);
+      break;
+    }
+  }
+  return uploaded;
+}
+
+/**
+ * Resize and store new photos for a game, appended after existing ones.
+ * Accepts image files/blobs or data URLs.
+ */
+export async function addGamePhotos(
+  gameId: string,
+  sources: Array<Blob | string>,
+  userId: string | null,
+  startPosition = 0
+): Promise<void> {
+  if (sources.length === 0) return;
+
+  const createdAt = new Date().toISOString();
+  const photos: DevicePhoto[] = [];
+  for (const [i, source] of sources.entries()) {
+    let blob: Blob;
+    try {
+      blob = await resizeImage(source);
+    } catch (error) {
+      // Keep the original rather than lose the photo
+      console.error('Image resize failed:', error);
+      blob = typeof source === 'string' ? dataUrlToBlob(source) : source;
+    }
+    photos.push({ id: crypto.randomUUID(), gameId, blob, position: startPosition + i, createdAt });
+  }
+
+  // Saved on the device first so nothing is lost if the upload fails
+  await putDevicePhotos(photos);
+  await uploadDevicePhotos(gameId, userId);
+}
+
+// ============================================
+// EDIT & DELETE
+// ============================================
+
+export async function updatePhotoCaption(photo: GamePhoto, caption: string, userId: string | null): Promise<boolean> {
+  const value = caption.trim() || undefined;
+
+  try {
+    if (photo.location === 'device') {
+      const stored = (await getDevicePhotos(photo.gameId)).find(p => p.id === photo.id);
+      if (!stored) return false;
+      await putDevicePhotos([{ ...stored, caption: value }]);
+      return true;
+    }
+
+    if (!canUseCloud(photo.gameId, userId)) return false;
+    const { error } = await supabase!
+      .from('game_photos')
+      .update({ caption: value ?? null })
+      .eq('id', photo.id)
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error updating caption:', error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error('Error updating caption:', error);
+    return false;
+  }
+}
+
+export async function deleteGamePhoto(photo: GamePhoto, userId: string | null): Promise<boolean> {
+  if (photo.location === 'device') {
+    await deleteDevicePhotos([photo.id]);
+    return true;
+  }
+
+  if (!canUseCloud(photo.gameId, userId)) return false;
+  try {
+    const { error } = await supabase!
+      .from('game_photos')
+      .delete()
+      .eq('id', photo.id)
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error deleting photo:', error);
+      return false;
+    }
+
+    if (photo.storagePath) {
+      const { error: removeError } = await supabase!.storage.from(PHOTO_BUCKET).remove([photo.storagePath]);
+      if (removeError) console.error('Error removing photo file:', removeError);
+    }
+    return true;
+  } catch (error) {
+    console.error('Error deleting photo:', error);
+    return false;
+  }
+}
+
+/**
+ * Remove all photos of a deleted game. The game_photos rows go with the
+ * game (ON DELETE CASCADE); the files in Storage have to be removed here.
+ */
+export async function deleteAllGamePhotos(gameId: string, userId: string | null): Promise<void> {
+  await deleteDevicePhotos((await getDevicePhotos(gameId)).map(p => p.id));
+  if (!canUseCloud(gameId, userId)) return;
+
+  try {
+    const bucket = supabase!.storage.from(PHOTO_BUCKET);
+    const folder = `${userId}/${gameId}`;
+    const { data, error } = await bucket.list(folder);
+    if (error) {
+      console.error('Error listing photo files:', error);
+      return;
+    }
+    if (data && data.length > 0) {
+      await bucket.remove(data.map(file => `${folder}/${file.name}`));
+    }
+  } catch (error) {
+    console.error('Error deleting photo files:', error);
+  }
+}
@@ -0,0 +1,318 @@
+/**
+ * Games Repository
+ *
+ * The single place where Assets are mapped to and from `games` rows.
+ * Every backend implements the same GamesRepository interface:
+ * - Supabase: rows in the `games` table
+ * - Memory: rows in an array (tests, and anything that needs a scratch store)
+ * - localStorage: Assets stored as-is on the device; useGames also keeps
+ *   its device cache (the only store without Supabase) through it
+ *
+ * Repository methods throw on failure so callers like the sync queue
+ * can decide whether to retry.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { Asset, AssetCategory, CostEntry, LotPurchase, TradingCardDetails, VideoGameDetails } from '@/types/asset';
+import type { Database, GameInsert, GameRow, GameUpdate, Json } from '@/types/database';
+
+export interface GamesRepository {
+  // Newest first
+  list(): Promise<Asset[]>;
+  // Returns the stored game with its permanent id
+  insert(asset: Asset): Promise<Asset>;
+  // Returned in the same order as the input
+  insertMany(assets: Asset[]): Promise<Asset[]>;
+  // Returns null if the game no longer exists
+  update(asset: Asset): Promise<Asset | null>;
+  remove(gameId: string): Promise<void>;
+}
+
+/**
+ * Row-level storage for the `games` table, scoped by user
+ */
+export interface GameTable {
+  select(userId: string): Promise<GameRow[]>;
+  insert(rows: GameInsert[]): Promise<GameRow[]>;
+  update(gameId: string, userId: string, changes: GameUpdate): Promise<GameRow | null>;
+  delete(gameId: string, userId: string): Promise<void>;
+}
+
+// ============================================
+// ROW MAPPING
+// ============================================
+
+const toOptionalNumber = (value: number | string | null | undefined) =>
+  value === null || value === undefined ? undefined : Number(value);
+
+export function gameRowToAsset(row: GameRow): Asset {
+  const category = (row.category || 'video-games') as AssetCategory;
+  const updatedAt = row.updated_at || row.created_at;
+
+  return {
+    id: row.id,
+    name: row.name,
+    category,
+    imageUrl: row.image_url || '/placeholder.svg',
+    photos: row.photos?.length ? row.photos : undefined,
+    currentValue: Number(row.current_value),
+    estimatedValue: toOptionalNumber(row.estimated_value),
+    purchasePrice: Number(row.purchase_price),
+    costs: Array.isArray(row.costs) && row.costs.length > 0
+      ? row.costs as unknown as CostEntry[]
+      : undefined,
+    lot: row.lot ? row.lot as unknown as LotPurchase : undefined,
+    purchaseDate: row.purchase_date,
+    source: row.source,
+    lastUpdated: updatedAt?.split('T')[0] || new Date().toISOString().split('T')[0],
+    updatedAt: updatedAt || undefined,
+    lastValuedAt: row.last_valued_at || undefined,
+    videoGameDetails: category === 'video-games' ? {
+      platform: row.platform,
+      region: (row.region || 'NTSC') as VideoGameDetails['region'],
+      conditionType: (row.condition_type || 'cib') as VideoGameDetails['conditionType'],
+      gradingCompany: (row.grading_company || 'raw') as VideoGameDetails['gradingCompany'],
+      grade: toOptionalNumber(row.grade),
+      sealRating: row.seal_rating || undefined,
+      boxCondition: (row.box_condition || undefined) as VideoGameDetails['boxCondition'],
+    } : undefined,
+    tradingCardDetails: category === 'trading-cards'
+      ? row.details as unknown as TradingCardDetails
+      : undefined,
+    sale: row.sale_date ? {
+      price: Number(row.sale_price ?? 0),
+      date: row.sale_date,
+      fees: Number(row.sale_fees ?? 0),
+      shipping: Number(row.sale_shipping ?? 0),
+      venue: row.sale_venue || '',
+    } : undefined,
+  };
+}
+
+/**
+ * Columns written for an Asset. The id is never written (Supabase
+ * generates it) and updated_at is maintained by the database trigger.
+ */
+export function assetToGameUpdate(asset: Asset): Omit<GameInsert, 'user_id'> {
+  const game = asset.videoGameDetails;
+  return {
+    name: asset.name,
+    category: asset.category,
+    platform: game?.platform || '',
+    region: game?.region || 'NTSC',
+    condition_type: game?.conditionType || 'cib',
+    grading_company: game?.gradingCompany || null,
+    grade: game?.grade ?? null,
+    seal_rating: game?.sealRating || null,
+    box_condition: game?.boxCondition || null,
+    details: (asset.tradingCardDetails ? { ...asset.tradingCardDetails } : {}) as Json,
+    purchase_price: asset.purchasePrice,
+    current_value: asset.currentValue,
+    estimated_value: asset.estimatedValue ?? null,
+    purchase_date: asset.purchaseDate,
+    source: asset.source,
+    image_url: asset.imageUrl || null,
+    photos: asset.photos || [],
+    costs: (asset.costs || []) as unknown as Json,
+    lot: (asset.lot ?? null) as unknown as Json,
+    last_valued_at: asset.lastValuedAt || null,
+    sale_price: asset.sale?.price ?? null,
+    sale_date: asset.sale?.date ?? null,
+    sale_fees: asset.sale?.fees ?? null,
+    sale_shipping: asset.sale?.shipping ?? null,
+    sale_venue: asset.sale?.venue ?? null,
+  };
+}
+
+export function assetToGameInsert(asset: Asset, userId: string): GameInsert {
+  return {
+    ...assetToGameUpdate(asset),
+    user_id: userId,
+    // Keeps the local edit time for games created offline
+    ...(asset.updatedAt ? { updated_at: asset.updatedAt } : {}),
+  };
+}
+
+// ============================================
+// ROW-BACKED REPOSITORY
+// ============================================
+
+export function createTableGamesRepository(table: GameTable, userId: string): GamesRepository {
+  const insertMany = async (assets: Asset[]) => {
+    if (assets.length === 0) return [];
+    const rows = await table.insert(assets.map(a => assetToGameInsert(a, userId)));
+    return rows.map(gameRowToAsset);
+  };
+
+  return {
+    list: async () => (await table.select(userId)).map(gameRowToAsset),
+    insert: async asset => (await insertMany([asset]))[0],
+    insertMany,
+    update: async asset => {
+      const row = await table.update(asset.id, userId, assetToGameUpdate(asset));
+      return row ? gameRowToAsset(row) : null;
+    },
+    remove: gameId => table.delete(gameId, userId),
+  };
+}
+
+export function createSupabaseGameTable(client: SupabaseClient<Database>): GameTable {
+  return {
+    async select(userId) {
+      const { data, error } = await client
+        .from('games')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+      if (error) throw new Error(error.message);
+      return data || [];
+    },
+    async insert(rows) {
+      // Rows come back in insert order
+      const { data, error } = await client.from('games').insert(rows).select();
+      if (error) throw new Error(error.message);
+      return data || [];
+    },
+    async update(gameId, userId, changes) {
+      const { data, error } = await client
+        .from('games')
+        .update(changes)
+        .eq('id', gameId)
+        .eq('user_id', userId)
+        .select()
+        .maybeSingle();
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    async delete(gameId, userId) {
+      const { error } = await client
+        .from('games')
+        .delete()
+        .eq('id', gameId)
+        .eq('user_id', userId);
+      if (error) throw new Error(error.message);
+    },
+  };
+}
+
+/**
+ * In-memory `games` table that fills in the same defaults as the database
+ */
+export function createMemoryGameTable(initialRows: GameRow[] = []): GameTable {
+  let rows = [...initialRows];
+
+  return {
+    async select(userId) {
+      return rows
+        .filter(r => r.user_id === userId)
+        .sort((a, b) => b.created_at.localeCompare(a.created_at));
+    },
+    async insert(inserts) {
+      const now = new Date().toISOString();
+      const created = inserts.map((insert): GameRow => ({
+        id: crypto.randomUUID(),
+        category: 'video-games',
+        platform: '',
+        region: 'NTSC',
+        condition_type: 'cib',
+        grading_company: null,
+        grade: null,
+        seal_rating: null,
+        box_condition: null,
+        details: {},
+        estimated_value: null,
+        purchase_date: now.split('T')[0],
+        image_url: null,
+        photos: [],
+        costs: [],
+        lot: null,
+        last_valued_at: null,
+        sale_price: null,
+        sale_date: null,
+        sale_fees: null,
+        sale_shipping: null,
+        sale_venue: null,
+        created_at: now,
+        updated_at: now,
+        ...insert,
+      }));
+      rows = [...created, ...rows];
+      return created;
+    },
+    async update(gameId, userId, changes) {
+      const existing = rows.find(r => r.id === gameId && r.user_id === userId);
+      if (!existing) return null;
+      const updated = { ...existing, ...changes, updated_at: new Date().toISOString() };
+      rows = rows.map(r => (r === existing ? updated : r));
+      return updated;
+    },
+    async delete(gameId, userId) {
+      rows = rows.filter(r => !(r.id === gameId && r.user_id === userId));
+    },
+  };
+}
+
+export function createSupabaseGamesRepository(client: SupabaseClient<Database>, userId: string): GamesRepository {
+  return createTableGamesRepository(createSupabaseGameTable(client), userId);
+}
+
+// ============================================
+// LOCALSTORAGE REPOSITORY
+// ============================================
+
+/**
+ * The whole stored list is also readable and replaceable synchronously,
+ * for callers that keep it in step with React state
+ */
+export interface LocalGamesRepository extends GamesRepository {
+  read(): Asset[];
+  // Logs rather than throws, so it is safe inside state updates
+  replace(assets: Asset[]): void;
+}
+
+export function createLocalGamesRepository(storageKey: string, storage: Storage = localStorage): LocalGamesRepository {
+  const read = (): Asset[] => {
+    try {
+      const stored = storage.getItem(storageKey);
+      return stored ? JSON.parse(stored) : [];
+    } catch (e) {
+      console.error('Error loading games from localStorage:', e);
+      return [];
+    }
+  };
+  const write = (assets: Asset[]) => storage.setItem(storageKey, JSON.stringify(assets));
+  const stamp = (asset: Asset, updatedAt = new Date().toISOString()): Asset =>
+    ({ ...asset, updatedAt, lastUpdated: updatedAt.split('T')[0] });
+
+  const insertMany = async (assets: Asset[]) => {
+    const batch = Date.now();
+    const created = assets.map((asset, i) => stamp(
+      { ...asset, id: `local-${batch}-${i}` },
+      asset.updatedAt
+    ));
+    write([...created, ...read()]);
+    return created;
+  };
+
+  return {
+    read,
+    replace: assets => {
+      try {
+        write(assets);
+      } catch (e) {
+        console.error('Error saving games to localStorage:', e);
+      }
+    },
+    list: async () => read(),
+    insert: async asset => (await insertMany([asset]))[0],
+    insertMany,
+    update: async asset => {
+      const assets = read();
+      if (!assets.some(a => a.id === asset.id)) return null;
+      const updated = stamp(asset);
+      write(assets.map(a => (a.id === asset.id ? updated : a)));
+      return updated;
+    },
+    remove: async gameId => write(read().filter(a => a.id !== gameId)),
+  };
+}
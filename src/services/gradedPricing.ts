@@ -0,0 +1,263 @@
+/**
+ * Graded Video Game Pricing
+ *
+ * Premium of a graded game over an ungraded sealed copy, modelled as
+ * grade x seal rating x grading company. Each factor starts from the
+ * valuation config's tables and is learned from graded sales when there
+ * are enough of them: log price = base + grade + seal + company effects,
+ * fitted with medians so a few odd listings don't move it.
+ */
+
+import { median } from '../utils/robustStatistics';
+import { getGradeMultiplier, getValuationConfig, ValuationConfig } from './valuationConfig';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface GradedSpec {
+  company: string;
+  grade: number;
+  sealRating?: string;
+}
+
+export type GradedFactor = 'grade' | 'seal' | 'company';
+
+export interface GradedSale {
+  // null for ungraded copies
+  spec: GradedSpec | null;
+  price: number;
+}
+
+export interface GradedPremiumModel {
+  // Learned log premium per level, relative to the factor's base level;
+  // levels missing here come from the table
+  effects: Record<GradedFactor, Record<string, number>>;
+  // Learned premium of a base-spec graded copy over an ungraded one
+  gradedBase: number | null;
+  // Factors learned from sales rather than the table
+  learned: GradedFactor[];
+  // Graded sales the model was fitted on
+  sampleSize: number;
+}
+
+const GAME_GRADERS = ['WATA', 'VGA', 'CGC'];
+const FACTORS: GradedFactor[] = ['grade', 'seal', 'company'];
+const FIT_ITERATIONS = 20;
+
+// ============================================
+// PARSING
+// ============================================
+
+/**
+ * "A+ Seal" -> "A+"; undefined when it isn't a seal rating
+ */
+export function normalizeSealRating(value?: string): string | undefined {
+  const match = value?.trim().toUpperCase().match(/^(A\+\+|A\+|B\+|C\+|A|B|C)(?![A-Z0-9+])/);
+  return match?.[1];
+}
+
+/**
+ * Find the grading company, grade and seal rating in a listing, e.g.
+ * "WATA 9.4 A+" or "VGA 85+ Gold" (VGA grades run to 100)
+ */
+export function parseGradedListing(text: string): GradedSpec | null {
+  const lower = text.toLowerCase();
+
+  for (const company of GAME_GRADERS) {
+    // Bare letter ratings need "seal" or punctuation after them, so the
+    // "a" in "... 9.4 a link to the past" isn't read as a rating
+    const pattern = new RegExp(
+      `\\b${company.toLowerCase()}\\s*(?:graded\\s*)?(\\d{1,3}(?:\\.\\d)?)\\+?` +
+      `(?:[\\s/]*(a\\+\\+|a\\+|b\\+|c\\+|[abc](?=\\s*(?:seal|$|[^\\w\\s]))))?`
+    );
+    const match = lower.match(pattern);
+    if (match) {
+      const grade = parseFloat(match[1]);
+      return {
+        company,
+        grade: grade > 10 ? grade / 10 : grade,
+        sealRating: match[2]?.toUpperCase(),
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Graded spec of a sale: parsed from the listing, or the typical graded
+ * copy for graded listings without a readable grade (including the
+ * PriceCharting graded average); null for ungraded copies
+ */
+export function getListingSpec(
+  listing: { name: string; condition?: string },
+  config: ValuationConfig = getValuationConfig()
+): GradedSpec | null {
+  const text = `${listing.name} ${listing.condition || ''}`;
+  const parsed = parseGradedListing(text);
+  if (parsed) return parsed;
+
+  const mentionsGrader = GAME_GRADERS.some(company => new RegExp(`\\b${company}\\b`, 'i').test(text));
+  if (mentionsGrader || /graded/i.test(listing.condition || '')) {
+    return { company: config.graded.baseCompany, grade: config.baseGrade };
+  }
+  return null;
+}
+
+export function formatGradedSpec(spec: GradedSpec): string {
+  return [spec.company, spec.grade, spec.sealRating].filter(Boolean).join(' ');
+}
+
+// ============================================
+// PREMIUM TABLE
+// ============================================
+
+function getLevel(spec: GradedSpec, factor: GradedFactor, config: ValuationConfig): string {
+  if (factor === 'grade') return String(spec.grade);
+  if (factor === 'seal') return normalizeSealRating(spec.sealRating) || config.graded.baseSealRating;
+  return spec.company.toUpperCase();
+}
+
+function getBaseLevel(factor: GradedFactor, config: ValuationConfig): string {
+  if (factor === 'grade') return String(config.baseGrade);
+  if (factor === 'seal') return config.graded.baseSealRating;
+  return config.graded.baseCompany.toUpperCase();
+}
+
+/**
+ * Table log premium of a level relative to the factor's base level;
+ * levels missing from the table count the same as the base
+ */
+function getTableEffect(factor: GradedFactor, level: string, config: ValuationConfig): number {
+  const { graded } = config;
+
+  if (factor === 'grade') {
+    return Math.log(getGradeMultiplier(parseFloat(level), config) / getGradeMultiplier(config.baseGrade, config));
+  }
+
+  const table = factor === 'seal'
+    ? graded.sealRatingMultipliers.map(r => ({ level: r.rating.toUpperCase(), multiplier: r.multiplier }))
+    : graded.companyMultipliers.map(c => ({ level: c.company.toUpperCase(), multiplier: c.multiplier }));
+  const multiplierOf = (key: string) => table.find(row => row.level === key)?.multiplier;
+  const multiplier = multiplierOf(level);
+  const base = multiplierOf(getBaseLevel(factor, config));
+
+  return multiplier && base ? Math.log(multiplier / base) : 0;
+}
+
+/**
+ * Premium over an ungraded sealed copy from the config tables alone
+ */
+export function getGradedPremium(spec: GradedSpec | null, config: ValuationConfig = getValuationConfig()): number {
+  return getModelPremium(createTableModel(), spec, config);
+}
+
+// ============================================
+// LEARNED MODEL
+// ============================================
+
+function createTableModel(): GradedPremiumModel {
+  return {
+    effects: { grade: {}, seal: {}, company: {} },
+    gradedBase: null,
+    learned: [],
+    sampleSize: 0,
+  };
+}
+
+function getEffect(model: GradedPremiumModel, spec: GradedSpec, factor: GradedFactor, config: ValuationConfig): number {
+  const level = getLevel(spec, factor, config);
+  return model.effects[factor][level] ?? getTableEffect(factor, level, config);
+}
+
+/**
+ * Premium over an ungraded sealed copy; 1 for ungraded copies
+ */
+export function getModelPremium(
+  model: GradedPremiumModel,
+  spec: GradedSpec | null,
+  config: ValuationConfig = getValuationConfig()
+): number {
+  if (!spec) return 1;
+
+  const gradedBase = model.gradedBase ?? getGradeMultiplier(config.baseGrade, config);
+  const effect = FACTORS.reduce((sum, factor) => sum + getEffect(model, spec, factor, config), 0);
+  return gradedBase * Math.exp(effect);
+}
+
+/**
+ * Learn premiums from sales. A factor is learned only when at least two of
+ * its levels have minLearnedComps sales each (one level alone can't be
+ * told apart from the base price); other levels keep the table values.
+ */
+export function fitGradedPremiums(
+  sales: GradedSale[],
+  config: ValuationConfig = getValuationConfig()
+): GradedPremiumModel {
+  const { minLearnedComps } = config.graded;
+  const model = createTableModel();
+  const graded = sales.filter((s): s is { spec: GradedSpec; price: number } => s.spec !== null && s.price > 0);
+  if (graded.length === 0) return model;
+
+  const countsByFactor = Object.fromEntries(FACTORS.map(factor => {
+    const counts = new Map<string, number>();
+    for (const sale of graded) {
+      const level = getLevel(sale.spec, factor, config);
+      counts.set(level, (counts.get(level) || 0) + 1);
+    }
+    return [factor, counts];
+  })) as Record<GradedFactor, Map<string, number>>;
+
+  const learnableLevels = (factor: GradedFactor) =>
+    [...countsByFactor[factor]].filter(([, count]) => count >= minLearnedComps).map(([level]) => level);
+  const learned = FACTORS.filter(factor => learnableLevels(factor).length >= 2);
+
+  const logPrice = (sale: GradedSale) => Math.log(sale.price);
+  const totalEffect = (spec: GradedSpec, except?: GradedFactor) =>
+    FACTORS.filter(f => f !== except).reduce((sum, f) => sum + getEffect(model, spec, f, config), 0);
+
+  // Backfitting: refit each learned factor's levels against the others in turn
+  let base = median(graded.map(s => logPrice(s) - totalEffect(s.spec)));
+  for (let iteration = 0; iteration < FIT_ITERATIONS; iteration++) {
+    for (const factor of learned) {
+      const baseLevel = getBaseLevel(factor, config);
+      for (const level of learnableLevels(factor)) {
+        if (level === baseLevel) continue;
+        const atLevel = graded.filter(s => getLevel(s.spec, factor, config) === level);
+        model.effects[factor][level] = median(atLevel.map(s => logPrice(s) - base - totalEffect(s.spec, factor)));
+      }
+    }
+    base = median(graded.map(s => logPrice(s) - totalEffect(s.spec)));
+  }
+
+  // The graded-over-ungraded premium needs ungraded sales too
+  const ungraded = sales.filter(s => s.spec === null && s.price > 0);
+  if (graded.length >= minLearnedComps && ungraded.length >= minLearnedComps) {
+    model.gradedBase = Math.exp(base - median(ungraded.map(logPrice)));
+  }
+
+  model.learned = learned;
+  model.sampleSize = graded.length;
+  return model;
+}
+
+/**
+ * Where the premium came from, e.g. "grade learned from 7 graded sales,
+ * seal rating and company from the premium table"
+ */
+export function describeGradedPremium(model: GradedPremiumModel): string {
+  const names: Record<GradedFactor, string> = { grade: 'grade', seal: 'seal rating', company: 'company' };
+  const join = (factors: GradedFactor[]) => {
+    const labels = factors.map(f => names[f]);
+    return labels.length > 1 ? `${labels.slice(0, -1).join(', ')} and ${labels[labels.length - 1]}` : labels[0];
+  };
+
+  const learned = model.learned;
+  const table = FACTORS.filter(f => !learned.includes(f));
+  if (learned.length === 0) return 'from the premium table';
+
+  const sales = `${model.sampleSize} graded ${model.sampleSize === 1 ? 'sale' : 'sales'}`;
+  return table.length > 0
+    ? `${join(learned)} learned from ${sales}, ${join(table)} from the premium table`
+    : `learned from ${sales}`;
+}
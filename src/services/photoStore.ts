@@ -0,0 +1,126 @@
+/**
+ * Device Photo Store
+ *
+ * IndexedDB blob store for photos that haven't reached Supabase Storage -
+ * taken offline, added to a game that isn't synced yet, or kept on the
+ * device because cloud sync isn't configured. Falls back to memory where
+ * IndexedDB is unavailable.
+ */
+
+const DB_NAME = 'gil0-photos';
+const DB_VERSION = 1;
+const STORE_NAME = 'photos';
+
+export interface DevicePhoto {
+  id: string;
+  gameId: string;
+  blob: Blob;
+  caption?: string;
+  position: number;
+  createdAt: string;
+}
+
+const memoryStore = new Map<string, DevicePhoto>();
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('gameId', 'gameId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error('Error opening photo store:', request.error);
+        resolve(null);
+      };
+    } catch (e) {
+      console.error('Error opening photo store:', e);
+      resolve(null);
+    }
+  });
+
+  return dbPromise;
+}
+
+export async function getDevicePhotos(gameId: string): Promise<DevicePhoto[]> {
+  const db = await openDatabase();
+  if (!db) {
+    return Array.from(memoryStore.values())
+      .filter(p => p.gameId === gameId)
+      .sort((a, b) => a.position - b.position);
+  }
+
+  return new Promise(resolve => {
+    const request = db
+      .transaction(STORE_NAME, 'readonly')
+      .objectStore(STORE_NAME)
+      .index('gameId')
+      .getAll(gameId);
+    request.onsuccess = () => {
+      const photos = (request.result as DevicePhoto[]).sort((a, b) => a.position - b.position);
+      resolve(photos);
+    };
+    request.onerror = () => {
+      console.error('Error reading photo store:', request.error);
+      resolve([]);
+    };
+  });
+}
+
+export async function putDevicePhotos(photos: DevicePhoto[]): Promise<void> {
+  if (photos.length === 0) return;
+
+  const db = await openDatabase();
+  if (!db) {
+    photos.forEach(p => memoryStore.set(p.id, p));
+    return;
+  }
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    photos.forEach(p => store.put(p));
+    transaction.oncomplete = () => resolve();
+    // Unlike the price cache, losing a photo matters - let the caller know
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function deleteDevicePhotos(photoIds: string[]): Promise<void> {
+  if (photoIds.length === 0) return;
+
+  const db = await openDatabase();
+  if (!db) {
+    photoIds.forEach(id => memoryStore.delete(id));
+    return;
+  }
+
+  return new Promise(resolve => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    photoIds.forEach(id => store.delete(id));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => {
+      console.error('Error deleting device photos:', transaction.error);
+      resolve();
+    };
+  });
+}
+
+/**
+ * Move photos saved against a temporary game id to the real one
+ */
+export async function rekeyDevicePhotos(fromGameId: string, toGameId: string): Promise<void> {
+  const photos = await getDevicePhotos(fromGameId);
+  await putDevicePhotos(photos.map(p => ({ ...p, gameId: toGameId })));
+}
@@ -0,0 +1,240 @@
+/**
+ * Price Response Cache & Request Budget
+ *
+ * Shared caching layer for market data requests:
+ * - Responses are cached with a TTL, keyed by normalized query/platform/condition
+ * - Entries persist in IndexedDB (in-memory only where IndexedDB is unavailable)
+ * - Identical in-flight requests share a single network call
+ * - A per-provider daily quota counter; once the budget is spent,
+ *   lookups degrade to whatever is cached, however old
+ */
+
+const DB_NAME = 'gil0-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'responses';
+
+export const DEFAULT_CACHE_TTL_MS = 12 * 60 * 60 * 1000; // 12 hours
+
+interface CacheEntry<T = unknown> {
+  key: string;
+  value: T;
+  storedAt: number;
+}
+
+export interface CacheKeyParts {
+  namespace: string;
+  query: string;
+  platform?: string;
+  condition?: string;
+}
+
+export interface CachedRequestOptions {
+  ttlMs?: number;
+  // Provider whose daily budget the fetcher draws from
+  providerId?: string;
+  dailyLimit?: number;
+}
+
+export interface QuotaStatus {
+  used: number;
+  limit: number;
+  remaining: number;
+  date: string;
+}
+
+// ============================================
+// CACHE KEYS
+// ============================================
+
+function normalize(value: string | undefined): string {
+  return (value || '').toLowerCase().trim().replace(/\s+/g, ' ');
+}
+
+export function buildCacheKey({ namespace, query, platform, condition }: CacheKeyParts): string {
+  return [namespace, normalize(query), normalize(platform), normalize(condition)].join('|');
+}
+
+// ============================================
+// STORAGE
+// ============================================
+
+const memoryCache = new Map<string, CacheEntry>();
+const inFlight = new Map<string, Promise<unknown>>();
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error('Error opening price cache:', request.error);
+        resolve(null);
+      };
+    } catch (e) {
+      console.error('Error opening price cache:', e);
+      resolve(null);
+    }
+  });
+
+  return dbPromise;
+}
+
+async function readEntry<T>(key: string): Promise<CacheEntry<T> | undefined> {
+  const cached = memoryCache.get(key) as CacheEntry<T> | undefined;
+  if (cached) return cached;
+
+  const db = await openDatabase();
+  if (!db) return undefined;
+
+  return new Promise(resolve => {
+    const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key);
+    request.onsuccess = () => {
+      const entry = request.result as CacheEntry<T> | undefined;
+      if (entry) memoryCache.set(key, entry);
+      resolve(entry);
+    };
+    request.onerror = () => resolve(undefined);
+  });
+}
+
+async function writeEntry<T>(entry: CacheEntry<T>): Promise<void> {
+  memoryCache.set(entry.key, entry);
+
+  const db = await openDatabase();
+  if (!db) return;
+
+  return new Promise(resolve => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).put(entry);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => {
+      console.error('Error writing price cache:', transaction.error);
+      resolve();
+    };
+  });
+}
+
+/**
+ * Drop every cached response
+ */
+export async function clearPriceCache(): Promise<void> {
+  memoryCache.clear();
+
+  const db = await openDatabase();
+  if (!db) return;
+
+  return new Promise(resolve => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).clear();
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => resolve();
+  });
+}
+
+// ============================================
+// DAILY QUOTA
+// ============================================
+
+function getQuotaKey(providerId: string): string {
+  return `gil0-quota-${providerId}`;
+}
+
+function today(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+export function getQuotaStatus(providerId: string, limit: number): QuotaStatus {
+  const date = today();
+  let used = 0;
+
+  try {
+    const stored = localStorage.getItem(getQuotaKey(providerId));
+    if (stored) {
+      const parsed = JSON.parse(stored) as { date: string; used: number };
+      // Counter resets every day
+      if (parsed.date === date) used = parsed.used;
+    }
+  } catch (e) {
+    console.error('Error loading request quota:', e);
+  }
+
+  return { used, limit, remaining: Math.max(limit - used, 0), date };
+}
+
+/**
+ * Count one request against the provider's daily budget.
+ * Returns false (and counts nothing) when the budget is spent.
+ */
+export function consumeQuota(providerId: string, limit: number): boolean {
+  const status = getQuotaStatus(providerId, limit);
+  if (status.remaining <= 0) return false;
+
+  try {
+    localStorage.setItem(
+      getQuotaKey(providerId),
+      JSON.stringify({ date: status.date, used: status.used + 1 })
+    );
+  } catch (e) {
+    console.error('Error saving request quota:', e);
+  }
+  return true;
+}
+
+// ============================================
+// CACHED REQUESTS
+// ============================================
+
+/**
+ * Return a fresh cached response, or run the fetcher and cache its result.
+ * Null results are never cached. When the provider's daily budget is
+ * exhausted, stale entries are served instead of calling the fetcher.
+ */
+export async function cachedRequest<T>(
+  key: string,
+  fetcher: () => Promise<T | null>,
+  options: CachedRequestOptions = {}
+): Promise<T | null> {
+  const { ttlMs = DEFAULT_CACHE_TTL_MS, providerId, dailyLimit } = options;
+
+  const entry = await readEntry<T>(key);
+  if (entry && Date.now() - entry.storedAt < ttlMs) {
+    return entry.value;
+  }
+
+  // Share a single network call between identical concurrent lookups
+  const pending = inFlight.get(key) as Promise<T | null> | undefined;
+  if (pending) return pending;
+
+  if (providerId && dailyLimit !== undefined && getQuotaStatus(providerId, dailyLimit).remaining <= 0) {
+    console.log(`Daily ${providerId} budget spent, using cached value`);
+    return entry ? entry.value : null;
+  }
+
+  const request = (async () => {
+    try {
+      const value = await fetcher();
+      if (value !== null && value !== undefined) {
+        await writeEntry({ key, value, storedAt: Date.now() });
+        return value;
+      }
+      // Fall back to an older answer rather than nothing
+      return entry ? entry.value : null;
+    } finally {
+      inFlight.delete(key);
+    }
+  })();
+
+  inFlight.set(key, request);
+  return request;
+}
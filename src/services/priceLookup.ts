@@ -1,24 +1,27 @@
 /**
- * Video Game Price Lookup Service
+ * Price Lookup Service
  * 
- * Uses real APIs:
- * - PriceCharting (primary - best for video games)
- * - eBay sold listings (secondary)
+ * Queries every enabled price provider from the registry
+ * (PriceCharting and eBay sold listings out of the box) and
+ * runs the combined comparables through the valuation engine.
  */
 
-import { MarketComparable } from '@/types/asset';
-import { isAnyApiConfigured, isPriceChartingConfigured } from '@/config/api';
-import { searchPriceCharting } from './priceChartingApi';
-import { searchEbaySoldListings } from './ebayApi';
-import { calculateValuation, AssetMetadata } from './valuationEngine';
+import { AssetCategory, MarketComparable } from '@/types/asset';
+import { ExplainedComparable } from './valuationEngine';
+import { getActiveProviders, PriceBreakdown } from './priceProviders';
+import { createEmptyLookupResult, valueComparables } from './priceValuation';
 
-interface PriceLookupParams {
-  category: 'video-games';
+export { getLookupDetails } from './priceValuation';
+
+export interface PriceLookupParams {
+  category: AssetCategory;
   name: string;
   details?: Record<string, unknown>;
+  // Used to resolve which providers the user has enabled
+  userId?: string | null;
 }
 
-interface PriceLookupResult {
+export interface PriceLookupResult {
   estimatedValue: number;
   confidence: 'high' | 'medium' | 'low';
   confidenceScore: number;
@@ -39,91 +42,53 @@ interface PriceLookupResult {
     reason: string;
   }>;
   methodology: string;
+  // ValuationConfig version behind the estimate
+  configVersion: string;
+  // How each comparable counted towards the estimate
+  scoredComparables: ExplainedComparable[];
   lastUpdated: string;
-  source: 'pricecharting' | 'ebay' | 'combined' | 'none';
+  // Contributing provider id, 'combined' when several contributed, or 'none'
+  source: string;
+  // Ids of every provider that returned comparables
+  providers: string[];
+  // Per-condition guide prices, when a price guide matched the game
+  priceBreakdown?: PriceBreakdown;
 }
 
 /**
  * Main price lookup function - uses real APIs only
  */
 export async function lookupPrice(params: PriceLookupParams): Promise<PriceLookupResult> {
-  const { name, details } = params;
+  const { category, name, details, userId } = params;
   
-  if (!isAnyApiConfigured()) {
-    return createEmptyResult('No API keys configured. Add PriceCharting API key to .env');
+  const activeProviders = getActiveProviders(category, userId);
+  if (activeProviders.length === 0) {
+    return createEmptyLookupResult('No price providers enabled. Add PriceCharting API key to .env');
   }
   
   const allComparables: MarketComparable[] = [];
-  let source: PriceLookupResult['source'] = 'none';
+  const contributors: string[] = [];
+  let priceBreakdown: PriceBreakdown | undefined;
   
-  // 1. Try PriceCharting (best for video games)
-  if (isPriceChartingConfigured()) {
+  // Ask each provider in priority order
+  for (const provider of activeProviders) {
     try {
-      const pcResult = await searchPriceCharting(name, 'video-games', details);
-      if (pcResult && pcResult.estimatedValue > 0) {
-        allComparables.push(...pcResult.comparables);
-        source = 'pricecharting';
+      const result = await provider.search({ name, category, details });
+      if (result && result.comparables.length > 0) {
+        allComparables.push(...result.comparables);
+        contributors.push(provider.id);
+        priceBreakdown = priceBreakdown || result.priceBreakdown;
       }
     } catch (error) {
-      console.error('PriceCharting lookup failed:', error);
-    }
-  }
-  
-  // 2. Try eBay for additional comparables
-  try {
-    const ebayResults = await searchEbaySoldListings(name, 'video-games', details);
-    if (ebayResults.length > 0) {
-      allComparables.push(...ebayResults);
-      if (source !== 'pricecharting') {
-        source = 'ebay';
-      } else {
-        source = 'combined';
-      }
+      console.error(`${provider.name} lookup failed:`, error);
     }
-  } catch (error) {
-    console.error('eBay lookup failed:', error);
   }
   
   if (allComparables.length === 0) {
-    return createEmptyResult('No pricing data found for this game');
+    return createEmptyLookupResult('No pricing data found for this item');
   }
-  
-  // Use valuation engine for accurate pricing
-  const metadata: AssetMetadata = {
-    category: 'video-games',
-    name,
-    ...details,
-  } as AssetMetadata;
-  
-  const valuation = calculateValuation(metadata, allComparables);
-  
-  return {
-    estimatedValue: valuation.estimatedValue,
-    confidence: valuation.confidence,
-    confidenceScore: valuation.confidenceScore,
-    comparables: allComparables.slice(0, 10),
-    priceRange: valuation.priceRange,
-    rollingAverage: valuation.rollingAverage,
-    adjustments: valuation.adjustments,
-    methodology: valuation.methodology,
-    lastUpdated: new Date().toISOString(),
-    source,
-  };
-}
 
-function createEmptyResult(message: string): PriceLookupResult {
-  return {
-    estimatedValue: 0,
-    confidence: 'low',
-    confidenceScore: 0,
-    comparables: [],
-    priceRange: { low: 0, median: 0, high: 0 },
-    rollingAverage: { days30: null, days90: null, days180: null },
-    adjustments: [],
-    methodology: message,
-    lastUpdated: new Date().toISOString(),
-    source: 'none',
-  };
+  return valueComparables({ category, name, details }, allComparables, contributors, priceBreakdown);
 }
 
 /**
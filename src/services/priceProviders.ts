@@ -0,0 +1,214 @@
+/**
+ * Price Provider Registry
+ *
+ * Every market data source (PriceCharting, eBay, auction houses, local
+ * price guides...) implements the PriceProvider interface and registers
+ * itself here. lookupPrice asks each enabled provider for comparables,
+ * so adding a new source never requires editing lookupPrice.
+ *
+ * Providers can be switched on or off per user - settings live in
+ * localStorage, keyed by user id.
+ */
+
+import { AssetCategory, MarketComparable } from '@/types/asset';
+import { apiConfig, isEbayConfigured, isPriceChartingConfigured } from '@/config/api';
+import { searchPriceCharting, lookupByUPC as lookupPriceChartingUPC } from './priceChartingApi';
+import { searchEbaySoldListings } from './ebayApi';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface PriceBreakdown {
+  loose?: number;
+  cib?: number;
+  new?: number;
+  graded?: number;
+}
+
+export interface ProviderCapabilities {
+  categories: AssetCategory[];
+  // Can search by name + details
+  search: boolean;
+  // Can identify an item from a UPC/EAN barcode
+  upcLookup: boolean;
+  // Returns real completed transactions rather than guide prices
+  soldListings: boolean;
+}
+
+export interface ProviderRateLimit {
+  requestsPerDay: number;
+}
+
+export interface ProviderSearchParams {
+  name: string;
+  category: AssetCategory;
+  details?: Record<string, unknown>;
+}
+
+export interface ProviderSearchResult {
+  comparables: MarketComparable[];
+  priceBreakdown?: PriceBreakdown;
+}
+
+export interface UPCLookupResult {
+  name: string;
+  platform: string;
+  prices: {
+    loose?: number;
+    cib?: number;
+    sealed?: number;
+  };
+}
+
+export interface PriceProvider {
+  id: string;
+  name: string;
+  // Lower numbers are queried first
+  priority: number;
+  capabilities: ProviderCapabilities;
+  rateLimit?: ProviderRateLimit;
+  enabledByDefault: boolean;
+  isConfigured: () => boolean;
+  search: (params: ProviderSearchParams) => Promise<ProviderSearchResult | null>;
+  lookupByUPC?: (upc: string) => Promise<UPCLookupResult | null>;
+}
+
+type ProviderSettings = Record<string, boolean>;
+
+// ============================================
+// REGISTRY
+// ============================================
+
+const providers = new Map<string, PriceProvider>();
+
+export function registerPriceProvider(provider: PriceProvider): void {
+  providers.set(provider.id, provider);
+}
+
+export function unregisterPriceProvider(providerId: string): void {
+  providers.delete(providerId);
+}
+
+export function getPriceProvider(providerId: string): PriceProvider | undefined {
+  return providers.get(providerId);
+}
+
+/**
+ * All registered providers, in query order
+ */
+export function getPriceProviders(): PriceProvider[] {
+  return Array.from(providers.values()).sort((a, b) => a.priority - b.priority);
+}
+
+// ============================================
+// PER-USER SETTINGS
+// ============================================
+
+function getSettingsKey(userId?: string | null): string {
+  return userId ? `gil0-providers-${userId}` : 'gil0-providers';
+}
+
+export function getProviderSettings(userId?: string | null): ProviderSettings {
+  try {
+    const stored = localStorage.getItem(getSettingsKey(userId));
+    if (stored) {
+      return JSON.parse(stored);
+    }
+  } catch (e) {
+    console.error('Error loading provider settings:', e);
+  }
+  return {};
+}
+
+export function setProviderEnabled(userId: string | null | undefined, providerId: string, enabled: boolean): void {
+  const settings = { ...getProviderSettings(userId), [providerId]: enabled };
+  try {
+    localStorage.setItem(getSettingsKey(userId), JSON.stringify(settings));
+  } catch (e) {
+    console.error('Error saving provider settings:', e);
+  }
+}
+
+export function isProviderEnabled(provider: PriceProvider, userId?: string | null): boolean {
+  const setting = getProviderSettings(userId)[provider.id];
+  return setting ?? provider.enabledByDefault;
+}
+
+/**
+ * Providers that are configured, enabled for the user and support the category
+ */
+export function getActiveProviders(
+  category: AssetCategory,
+  userId?: string | null,
+  capability: 'search' | 'upcLookup' = 'search'
+): PriceProvider[] {
+  return getPriceProviders().filter(p =>
+    p.capabilities[capability] &&
+    p.capabilities.categories.includes(category) &&
+    p.isConfigured() &&
+    isProviderEnabled(p, userId)
+  );
+}
+
+/**
+ * Look up a game by barcode using the first provider that recognises it
+ */
+export async function lookupByUPC(upc: string, userId?: string | null): Promise<UPCLookupResult | null> {
+  for (const provider of getActiveProviders('video-games', userId, 'upcLookup')) {
+    try {
+      const result = await provider.lookupByUPC?.(upc);
+      if (result) return result;
+    } catch (error) {
+      console.error(`${provider.name} UPC lookup failed:`, error);
+    }
+  }
+  return null;
+}
+
+// ============================================
+// BUILT-IN PROVIDERS
+// ============================================
+
+registerPriceProvider({
+  id: 'pricecharting',
+  name: 'PriceCharting',
+  priority: 10,
+  capabilities: {
+    categories: ['video-games'],
+    search: true,
+    upcLookup: true,
+    soldListings: false,
+  },
+  rateLimit: { requestsPerDay: apiConfig.priceCharting.dailyRequestLimit },
+  enabledByDefault: true,
+  isConfigured: isPriceChartingConfigured,
+  search: async ({ name, category, details }) => {
+    if (category !== 'video-games') return null;
+    const result = await searchPriceCharting(name, category, details);
+    if (!result || result.estimatedValue <= 0) return null;
+    return {
+      comparables: result.comparables,
+      priceBreakdown: result.priceBreakdown,
+    };
+  },
+  lookupByUPC: lookupPriceChartingUPC,
+});
+
+registerPriceProvider({
+  id: 'ebay',
+  name: 'eBay',
+  priority: 20,
+  capabilities: {
+    categories: ['video-games', 'trading-cards'],
+    search: true,
+    upcLookup: false,
+    soldListings: true,
+  },
+  enabledByDefault: true,
+  isConfigured: isEbayConfigured,
+  search: async ({ name, category, details }) => {
+    const comparables = await searchEbaySoldListings(name, category, details);
+    return comparables.length > 0 ? { comparables } : null;
+  },
+});
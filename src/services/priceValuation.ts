@@ -0,0 +1,95 @@
+/**
+ * Comparable Valuation
+ *
+ * Turns the comparables price providers returned into a lookup result
+ * through the valuation engine. Shared by lookupPrice in the app and the
+ * scheduled revaluation (api/_lib/serverPriceLookup.ts), so both value a
+ * game the same way.
+ */
+
+import type { Asset, AssetCategory, MarketComparable } from '@/types/asset';
+import type { PriceLookupResult } from './priceLookup';
+import type { PriceBreakdown } from './priceProviders';
+import { calculateValuation, AssetMetadata } from './valuationEngine';
+import { getValuationConfig, ValuationConfig } from './valuationConfig';
+
+export interface ComparableSubject {
+  category: AssetCategory;
+  name: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Lookup details for an item already in the collection
+ */
+export function getLookupDetails(asset: Asset): Record<string, unknown> {
+  if (asset.category === 'trading-cards') {
+    return { ...asset.tradingCardDetails };
+  }
+
+  const details = asset.videoGameDetails;
+  return {
+    platform: details?.platform || '',
+    region: details?.region,
+    conditionType: details?.conditionType || 'cib',
+    gradingCompany: details?.gradingCompany,
+    grade: details?.grade,
+    sealRating: details?.sealRating,
+  };
+}
+
+/**
+ * Value the combined comparables; contributors are the ids of the
+ * providers that returned them, in query order
+ */
+export function valueComparables(
+  { category, name, details }: ComparableSubject,
+  comparables: MarketComparable[],
+  contributors: string[],
+  priceBreakdown?: PriceBreakdown,
+  config: ValuationConfig = getValuationConfig()
+): PriceLookupResult {
+  // Use valuation engine for accurate pricing
+  const metadata: AssetMetadata = {
+    category,
+    name,
+    ...details,
+  } as AssetMetadata;
+
+  const valuation = calculateValuation(metadata, comparables, { config });
+
+  return {
+    estimatedValue: valuation.estimatedValue,
+    confidence: valuation.confidence,
+    confidenceScore: valuation.confidenceScore,
+    comparables: comparables.slice(0, 10),
+    priceRange: valuation.priceRange,
+    rollingAverage: valuation.rollingAverage,
+    adjustments: valuation.adjustments,
+    methodology: valuation.methodology,
+    configVersion: valuation.configVersion,
+    scoredComparables: valuation.scoredComparables,
+    lastUpdated: new Date().toISOString(),
+    source: contributors.length > 1 ? 'combined' : contributors[0],
+    providers: contributors,
+    priceBreakdown,
+  };
+}
+
+export function createEmptyLookupResult(message: string, config: ValuationConfig = getValuationConfig()): PriceLookupResult {
+  return {
+    estimatedValue: 0,
+    confidence: 'low',
+    confidenceScore: 0,
+    comparables: [],
+    priceRange: { low: 0, median: 0, high: 0 },
+    rollingAverage: { days30: null, days90: null, days180: null },
+    adjustments: [],
+    methodology: message,
+    configVersion: config.version,
+    scoredComparables: [],
+    lastUpdated: new Date().toISOString(),
+    source: 'none',
+    providers: [],
+  };
+}
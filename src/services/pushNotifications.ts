@@ -0,0 +1,124 @@
+/**
+ * Push Notifications
+ *
+ * Manages this browser's Web Push subscription for price alerts and asks
+ * the server-side sender (api/push-alerts.ts) to deliver fired alerts.
+ * Subscriptions are stored per user in Supabase so the sender can reach
+ * every device, which means push needs an account and cloud sync.
+ */
+
+import { supabase, isSupabaseConfigured } from '@/lib/supabase';
+import { getSessionToken } from '@/lib/session';
+import { apiConfig, isPushConfigured } from '@/config/api';
+import { AlertEvent } from '@/types/alerts';
+import { isTempId } from './syncQueue';
+
+export function isPushSupported(): boolean {
+  return isPushConfigured()
+    && isSupabaseConfigured()
+    && 'serviceWorker' in navigator
+    && 'PushManager' in window
+    && 'Notification' in window;
+}
+
+// The VAPID key as the byte array PushManager.subscribe expects
+function decodeVapidKey(base64Url: string): Uint8Array {
+  const base64 = (base64Url + '='.repeat((4 - (base64Url.length % 4)) % 4))
+    .replace(/-/g, '+')
+    .replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+}
+
+export async function getPushSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null;
+  try {
+    const registration = await navigator.serviceWorker.ready;
+    return await registration.pushManager.getSubscription();
+  } catch (error) {
+    console.error('Error reading push subscription:', error);
+    return null;
+  }
+}
+
+/**
+ * Ask for notification permission, subscribe this browser and store the
+ * subscription for the user. Returns false if the user declined.
+ */
+export async function subscribeToPush(userId: string): Promise<boolean> {
+  if (!isPushSupported() || !supabase) return false;
+
+  try {
+    const permission = await Notification.requestPermission();
+    if (permission !== 'granted') return false;
+
+    const registration = await navigator.serviceWorker.ready;
+    const subscription = await registration.pushManager.getSubscription()
+      || await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: decodeVapidKey(apiConfig.push.vapidPublicKey),
+      });
+
+    const { endpoint, keys } = subscription.toJSON();
+    if (!endpoint || !keys?.p256dh || !keys?.auth) return false;
+
+    const { error } = await supabase.from('push_subscriptions').upsert({
+      user_id: userId,
+      endpoint,
+      p256dh: keys.p256dh,
+      auth: keys.auth,
+      user_agent: navigator.userAgent,
+    }, { onConflict: 'endpoint' });
+    if (error) {
+      console.error('Error saving push subscription:', error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error('Error subscribing to push:', error);
+    return false;
+  }
+}
+
+export async function unsubscribeFromPush(userId: string): Promise<void> {
+  const subscription = await getPushSubscription();
+  if (!subscription) return;
+
+  try {
+    if (supabase) {
+      const { error } = await supabase
+        .from('push_subscriptions')
+        .delete()
+        .eq('endpoint', subscription.endpoint)
+        .eq('user_id', userId);
+      if (error) console.error('Error deleting push subscription:', error);
+    }
+    await subscription.unsubscribe();
+  } catch (error) {
+    console.error('Error unsubscribing from push:', error);
+  }
+}
+
+/**
+ * Have the server push recorded alert events to the user's devices. The
+ * sender only acts for the user whose Clerk session token comes with the
+ * request. Events for games that haven't synced yet aren't in the cloud
+ * to send.
+ */
+export async function sendAlertPushes(userId: string | null, events: AlertEvent[]): Promise<void> {
+  const ids = events.filter(e => !isTempId(e.gameId)).map(e => e.id);
+  if (!userId || ids.length === 0 || !isPushConfigured() || !isSupabaseConfigured()) return;
+
+  try {
+    const token = await getSessionToken();
+    if (!token) return;
+
+    const response = await fetch(apiConfig.push.senderUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
+      body: JSON.stringify({ userId, eventIds: ids }),
+    });
+    if (!response.ok) console.error('Push sender request failed, status:', response.status);
+  } catch (error) {
+    console.error('Error sending alert pushes:', error);
+  }
+}
@@ -0,0 +1,185 @@
+/**
+ * Collection Revaluation Job
+ *
+ * Re-prices every game still in the collection through lookupPrice; sold
+ * games keep the value they sold at and aren't looked up.
+ * Items are batched by platform or card set (so cached searches are reused)
+ * and the stalest games go first. The job stops early when a rate-limited
+ * provider's daily budget runs low, leaving requests for interactive use -
+ * the next run picks up where this one stopped.
+ */
+
+import { Asset, AssetCategory } from '@/types/asset';
+import { getLookupDetails, lookupPrice, PriceLookupResult } from './priceLookup';
+import { getActiveProviders } from './priceProviders';
+import { getQuotaStatus } from './priceCache';
+import { isSold } from '@/utils/sales';
+
+export const REVALUATION_INTERVAL_MS = 24 * 60 * 60 * 1000; // daily
+export const REVALUATION_SYNC_TAG = 'revalue-collection';
+
+// Requests per provider kept back for searches the user makes by hand
+const RESERVED_INTERACTIVE_REQUESTS = 50;
+const DELAY_BETWEEN_GAMES_MS = 300;
+const DELAY_BETWEEN_BATCHES_MS = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ValuationStaleness = 'fresh' | 'aging' | 'stale' | 'never';
+
+export interface RevaluationOptions {
+  userId: string | null;
+  onValued: (game: Asset, result: PriceLookupResult) => void | Promise<void>;
+  onProgress?: (done: number, total: number) => void;
+  // Checked between games so a run can be abandoned
+  shouldContinue?: () => boolean;
+}
+
+export interface RevaluationSummary {
+  valued: number;
+  failed: number;
+  remaining: number;
+  stoppedForQuota: boolean;
+}
+
+// ============================================
+// SCHEDULING
+// ============================================
+
+function getLastRunKey(userId: string | null): string {
+  return userId ? `gil0-last-revaluation-${userId}` : 'gil0-last-revaluation';
+}
+
+export function getLastRevaluation(userId: string | null): Date | null {
+  const stored = localStorage.getItem(getLastRunKey(userId));
+  return stored ? new Date(stored) : null;
+}
+
+export function setLastRevaluation(userId: string | null, date: Date = new Date()): void {
+  localStorage.setItem(getLastRunKey(userId), date.toISOString());
+}
+
+export function isRevaluationDue(lastRun: Date | null, now: Date = new Date()): boolean {
+  return !lastRun || now.getTime() - lastRun.getTime() >= REVALUATION_INTERVAL_MS;
+}
+
+// ============================================
+// STALENESS
+// ============================================
+
+export function getValuationStaleness(asset: Asset, now: Date = new Date()): ValuationStaleness {
+  if (!asset.lastValuedAt) return 'never';
+  const age = now.getTime() - new Date(asset.lastValuedAt).getTime();
+  if (age < 2 * DAY_MS) return 'fresh';
+  if (age < 7 * DAY_MS) return 'aging';
+  return 'stale';
+}
+
+export function formatValuedAgo(lastValuedAt: string | undefined, now: Date = new Date()): string {
+  if (!lastValuedAt) return 'Never valued';
+  const minutes = Math.floor((now.getTime() - new Date(lastValuedAt).getTime()) / 60000);
+  if (minutes < 60) return 'Valued just now';
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `Valued ${hours}h ago`;
+  return `Valued ${Math.floor(hours / 24)}d ago`;
+}
+
+/**
+ * Game with its value refreshed from a price lookup
+ */
+export function applyValuation(game: Asset, result: PriceLookupResult): Asset {
+  return {
+    ...game,
+    currentValue: result.estimatedValue,
+    lastValuedAt: result.lastUpdated,
+    lastUpdated: result.lastUpdated.split('T')[0],
+  };
+}
+
+// ============================================
+// BATCHING
+// ============================================
+
+/**
+ * Group games by platform (cards by set), stalest games first within
+ * each batch and batches ordered by their stalest game
+ */
+export function batchByPlatform(games: Asset[]): Asset[][] {
+  const valuedAt = (game: Asset) => game.lastValuedAt || '';
+  const groups = new Map<string, Asset[]>();
+
+  for (const game of games) {
+    const batchKey = `${game.category}:${game.videoGameDetails?.platform || game.tradingCardDetails?.setName || 'Other'}`;
+    const group = groups.get(batchKey) || [];
+    group.push(game);
+    groups.set(batchKey, group);
+  }
+
+  const batches = Array.from(groups.values()).map(group =>
+    group.sort((a, b) => valuedAt(a).localeCompare(valuedAt(b)))
+  );
+  return batches.sort((a, b) => valuedAt(a[0]).localeCompare(valuedAt(b[0])));
+}
+
+/**
+ * True while every rate-limited provider still has budget beyond the reserve
+ */
+export function hasRevaluationBudget(userId: string | null, category: AssetCategory = 'video-games'): boolean {
+  return getActiveProviders(category, userId)
+    .filter(p => p.rateLimit)
+    .every(p => getQuotaStatus(p.id, p.rateLimit!.requestsPerDay).remaining > RESERVED_INTERACTIVE_REQUESTS);
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// ============================================
+// JOB
+// ============================================
+
+export async function revalueCollection(
+  games: Asset[],
+  { userId, onValued, onProgress, shouldContinue = () => true }: RevaluationOptions
+): Promise<RevaluationSummary> {
+  const owned = games.filter(game => !isSold(game));
+  const batches = batchByPlatform(owned);
+  const summary: RevaluationSummary = { valued: 0, failed: 0, remaining: owned.length, stoppedForQuota: false };
+  let done = 0;
+
+  for (const [batchIndex, batch] of batches.entries()) {
+    if (batchIndex > 0) await delay(DELAY_BETWEEN_BATCHES_MS);
+
+    for (const game of batch) {
+      if (!shouldContinue()) return summary;
+      if (!hasRevaluationBudget(userId, game.category)) {
+        summary.stoppedForQuota = true;
+        return summary;
+      }
+
+      try {
+        const result = await lookupPrice({
+          category: game.category,
+          name: game.name,
+          details: getLookupDetails(game),
+          userId,
+        });
+
+        if (result.estimatedValue > 0) {
+          await onValued(game, result);
+          summary.valued++;
+        } else {
+          summary.failed++;
+        }
+      } catch (error) {
+        console.error(`Failed to revalue ${game.name}:`, error);
+        summary.failed++;
+      }
+
+      done++;
+      summary.remaining = owned.length - done;
+      onProgress?.(done, owned.length);
+      await delay(DELAY_BETWEEN_GAMES_MS);
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,302 @@
+/**
+ * Offline Sync Queue
+ *
+ * Persistent outbox of game mutations and price snapshots waiting to
+ * reach Supabase.
+ * Writes are applied to local state immediately and queued here; the
+ * queue is flushed in order, failed mutations retry with exponential
+ * backoff, and games created offline keep a temporary `local-` id until
+ * their insert succeeds.
+ *
+ * When the server list is fetched it is merged with pending local edits
+ * by updated_at instead of replacing them. Edits made on both sides are
+ * resolved newest-wins and reported as conflicts. Snapshots stay in the
+ * outbox (and in the local list) until their upload succeeds.
+ */
+
+import { Asset, PriceSnapshot } from '@/types/asset';
+
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 10 * 60 * 1000; // 10 minutes
+
+export type MutationType = 'insert' | 'update' | 'delete' | 'snapshot';
+
+export interface PendingMutation {
+  id: string;
+  type: MutationType;
+  gameId: string;
+  // Game as it should be stored (insert/update only)
+  game?: Asset;
+  // updated_at of the server copy the edit was made against
+  baseUpdatedAt?: string;
+  // Price snapshots to record for the game (snapshot only)
+  snapshots?: PriceSnapshot[];
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  createdAt: string;
+}
+
+export interface SyncConflict {
+  gameId: string;
+  name: string;
+  local: Asset;
+  server: Asset;
+  // Version kept automatically - the most recently updated one
+  kept: 'local' | 'server';
+  detectedAt: string;
+}
+
+export type SyncStatus = 'local' | 'synced' | 'syncing' | 'pending' | 'offline' | 'error';
+
+export interface MergeResult {
+  games: Asset[];
+  outbox: PendingMutation[];
+  conflicts: SyncConflict[];
+}
+
+// ============================================
+// STORAGE
+// ============================================
+
+function getOutboxKey(userId: string): string {
+  return `gil0-outbox-${userId}`;
+}
+
+function getConflictsKey(userId: string): string {
+  return `gil0-conflicts-${userId}`;
+}
+
+function load<T>(key: string): T[] {
+  try {
+    const stored = localStorage.getItem(key);
+    if (stored) return JSON.parse(stored);
+  } catch (e) {
+    console.error('Error loading sync state:', e);
+  }
+  return [];
+}
+
+function save<T>(key: string, items: T[]): void {
+  try {
+    localStorage.setItem(key, JSON.stringify(items));
+  } catch (e) {
+    console.error('Error saving sync state:', e);
+  }
+}
+
+export const loadOutbox = (userId: string) => load<PendingMutation>(getOutboxKey(userId));
+export const saveOutbox = (userId: string, outbox: PendingMutation[]) => save(getOutboxKey(userId), outbox);
+export const loadConflicts = (userId: string) => load<SyncConflict>(getConflictsKey(userId));
+export const saveConflicts = (userId: string, conflicts: SyncConflict[]) => save(getConflictsKey(userId), conflicts);
+
+// ============================================
+// QUEUE OPERATIONS
+// ============================================
+
+export function isTempId(gameId: string): boolean {
+  return gameId.startsWith('local-');
+}
+
+export function createMutation(
+  type: MutationType,
+  gameId: string,
+  game?: Asset,
+  baseUpdatedAt?: string
+): PendingMutation {
+  return {
+    id: crypto.randomUUID(),
+    type,
+    gameId,
+    game,
+    baseUpdatedAt,
+    attempts: 0,
+    nextAttemptAt: 0,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+export function createSnapshotMutation(gameId: string, snapshots: PriceSnapshot[]): PendingMutation {
+  return { ...createMutation('snapshot', gameId), snapshots };
+}
+
+/**
+ * Add a mutation, folding it into pending ones for the same game:
+ * edits to an unsent insert update the insert, repeated edits keep only
+ * the latest, and deleting an unsent game drops it from the queue entirely.
+ * Deleting a game also drops its unsent snapshots, which Supabase would
+ * remove with the game anyway.
+ */
+export function enqueueMutation(outbox: PendingMutation[], mutation: PendingMutation): PendingMutation[] {
+  const pending = outbox.filter(m => m.gameId === mutation.gameId);
+  const pendingInsert = pending.find(m => m.type === 'insert');
+  const pendingUpdate = pending.find(m => m.type === 'update');
+
+  if (mutation.type === 'update') {
+    if (pendingInsert || pendingUpdate) {
+      const target = (pendingInsert || pendingUpdate)!;
+      return outbox.map(m => m.id === target.id ? { ...m, game: mutation.game } : m);
+    }
+    return [...outbox, mutation];
+  }
+
+  if (mutation.type === 'delete') {
+    const others = outbox.filter(m => m.gameId !== mutation.gameId);
+    // Never reached the server, nothing to delete there
+    if (pendingInsert) return others;
+    return [...others, mutation];
+  }
+
+  return [...outbox, mutation];
+}
+
+/**
+ * Point queued mutations at the real id once an insert succeeds
+ */
+export function rekeyOutbox(outbox: PendingMutation[], tempId: string, realId: string): PendingMutation[] {
+  return outbox.map(m => m.gameId === tempId
+    ? {
+        ...m,
+        gameId: realId,
+        game: m.game ? { ...m.game, id: realId } : m.game,
+        snapshots: m.snapshots?.map(s => ({ ...s, gameId: realId })),
+      }
+    : m
+  );
+}
+
+export function getRetryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+}
+
+export function markFailed(mutation: PendingMutation, error: string, now: number = Date.now()): PendingMutation {
+  const attempts = mutation.attempts + 1;
+  return { ...mutation, attempts, lastError: error, nextAttemptAt: now + getRetryDelay(attempts) };
+}
+
+/**
+ * Mutations that may run now - in queue order, and never ahead of an
+ * earlier mutation for the same game that is still waiting to retry.
+ * Snapshots for a game that only has a temporary id wait for its insert
+ * to re-key them; they can't be uploaded yet and don't hold anything up.
+ */
+export function getDueMutations(outbox: PendingMutation[], now: number = Date.now()): PendingMutation[] {
+  const blocked = new Set<string>();
+  const due: PendingMutation[] = [];
+
+  for (const mutation of outbox) {
+    if (blocked.has(mutation.gameId)) continue;
+    if (mutation.type === 'snapshot' && isTempId(mutation.gameId)) continue;
+    if (mutation.nextAttemptAt > now) {
+      blocked.add(mutation.gameId);
+      continue;
+    }
+    due.push(mutation);
+    blocked.add(mutation.gameId);
+  }
+  return due;
+}
+
+/**
+ * Queue inserts for games that only exist locally with a temporary id
+ * but have nothing pending (written before the outbox existed, or whose
+ * queue entry was lost). Each insert goes ahead of anything already
+ * queued for its game, which can't run until the game has a real id.
+ */
+export function recoverOrphanedGames(localGames: Asset[], outbox: PendingMutation[]): PendingMutation[] {
+  const queued = new Set(outbox.filter(m => m.type === 'insert').map(m => m.gameId));
+  const orphaned = new Map(localGames
+    .filter(g => isTempId(g.id) && !queued.has(g.id))
+    .map(g => [g.id, createMutation('insert', g.id, g)]));
+  if (orphaned.size === 0) return outbox;
+
+  const recovered: PendingMutation[] = [];
+  for (const mutation of outbox) {
+    const insert = orphaned.get(mutation.gameId);
+    if (insert) {
+      recovered.push(insert);
+      orphaned.delete(mutation.gameId);
+    }
+    recovered.push(mutation);
+  }
+  return [...recovered, ...orphaned.values()];
+}
+
+/**
+ * Queue local snapshots the server doesn't have and nothing is uploading
+ * (recorded before snapshots were queued, or whose queue entry was lost)
+ */
+export function recoverUnsentSnapshots(unsent: PriceSnapshot[], outbox: PendingMutation[]): PendingMutation[] {
+  const queued = new Set(outbox.flatMap(m => m.snapshots?.map(s => s.id) ?? []));
+  const byGame = new Map<string, PriceSnapshot[]>();
+  for (const snapshot of unsent.filter(s => !queued.has(s.id))) {
+    byGame.set(snapshot.gameId, [...(byGame.get(snapshot.gameId) || []), snapshot]);
+  }
+  if (byGame.size === 0) return outbox;
+  return [...outbox, ...Array.from(byGame, ([gameId, snapshots]) => createSnapshotMutation(gameId, snapshots))];
+}
+
+// ============================================
+// MERGING
+// ============================================
+
+function timeOf(value?: string): number {
+  const time = value ? Date.parse(value) : NaN;
+  return isNaN(time) ? 0 : time;
+}
+
+/**
+ * Merge the server's games with pending local mutations.
+ * - Pending inserts and deletes are applied on top of the server list
+ * - A pending edit wins if the server copy hasn't changed since the edit
+ * - If both changed, the newer updated_at wins and a conflict is reported;
+ *   a losing local edit is dropped from the queue, a winning one re-based
+ */
+export function mergeWithServer(serverGames: Asset[], outbox: PendingMutation[]): MergeResult {
+  const conflicts: SyncConflict[] = [];
+  const droppedMutations = new Set<string>();
+  // Kept local edits are re-based so the same conflict isn't reported again
+  const rebased = new Map<string, string | undefined>();
+  const deleted = new Set(outbox.filter(m => m.type === 'delete').map(m => m.gameId));
+  const updates = new Map(outbox.filter(m => m.type === 'update').map(m => [m.gameId, m]));
+
+  const merged = serverGames
+    .filter(server => !deleted.has(server.id))
+    .map(server => {
+      const update = updates.get(server.id);
+      if (!update?.game) return server;
+
+      const local = update.game;
+      const serverChanged = timeOf(server.updatedAt) > timeOf(update.baseUpdatedAt);
+      if (!serverChanged) return local;
+
+      const kept = timeOf(local.updatedAt) >= timeOf(server.updatedAt) ? 'local' : 'server';
+      conflicts.push({
+        gameId: server.id,
+        name: server.name,
+        local,
+        server,
+        kept,
+        detectedAt: new Date().toISOString(),
+      });
+
+      if (kept === 'server') {
+        droppedMutations.add(update.id);
+        return server;
+      }
+      rebased.set(update.id, server.updatedAt);
+      return local;
+    });
+
+  const pendingInserts = outbox
+    .filter(m => m.type === 'insert' && m.game)
+    .map(m => m.game!);
+
+  return {
+    games: [...pendingInserts, ...merged],
+    outbox: outbox
+      .filter(m => !droppedMutations.has(m.id))
+      .map(m => rebased.has(m.id) ? { ...m, baseUpdatedAt: rebased.get(m.id) } : m),
+    conflicts,
+  };
+}
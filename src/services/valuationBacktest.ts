@@ -0,0 +1,211 @@
+/**
+ * Valuation Backtesting
+ *
+ * Replays historical sold comparables through the valuation engine: each
+ * actual sale is held out in turn and predicted from the sales before it,
+ * as if the lookup had run the day it sold. The errors are summarised
+ * overall and per condition and platform, so tuning changes to the engine
+ * can be compared with numbers instead of by eye.
+ */
+
+import { MarketComparable } from '@/types/asset';
+import { AssetMetadata, calculateValuation, ValuationOptions, ValuationResult } from './valuationEngine';
+import { getValuationConfig, ValuationConfig } from './valuationConfig';
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * One asset and its sales history, all in the asset's condition
+ */
+export interface BacktestCase {
+  metadata: AssetMetadata;
+  sales: MarketComparable[];
+}
+
+export interface BacktestOptions {
+  // Sales needed before the held-out one to attempt a prediction
+  minPriorComps?: number;
+  // Only comps sold this many days before the held-out sale are used
+  lookbackDays?: number;
+  // Config under test, defaults to the active one
+  config?: ValuationConfig;
+  // The valuation under test
+  valuate?: (metadata: AssetMetadata, comparables: MarketComparable[], options: ValuationOptions) => ValuationResult;
+}
+
+export interface BacktestPrediction {
+  name: string;
+  condition: string;
+  platform: string;
+  soldDate: string;
+  actual: number;
+  predicted: number;
+  // (predicted - actual) / actual
+  error: number;
+  withinRange: boolean;
+  comparablesUsed: number;
+  confidence: ValuationResult['confidence'];
+}
+
+export interface BacktestMetrics {
+  count: number;
+  // Mean absolute percentage error
+  mape: number;
+  // Mean signed percentage error; positive means overvaluing
+  bias: number;
+  // Share of sales inside the predicted low-high price range
+  coverage: number;
+}
+
+export interface BacktestReport {
+  configVersion: string;
+  overall: BacktestMetrics;
+  byCondition: Record<string, BacktestMetrics>;
+  byPlatform: Record<string, BacktestMetrics>;
+  predictions: BacktestPrediction[];
+  // Sales without enough history, or the engine found no usable comps
+  skipped: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// GROUPING
+// ============================================
+
+function getConditionKey(metadata: AssetMetadata): string {
+  if (metadata.gradingCompany && metadata.gradingCompany !== 'raw' && metadata.grade !== undefined) {
+    return `${metadata.gradingCompany} ${metadata.grade}`;
+  }
+  if (metadata.category === 'video-games') {
+    return metadata.conditionType?.toUpperCase() || 'Unknown';
+  }
+  return 'RAW';
+}
+
+function getPlatformKey(metadata: AssetMetadata): string {
+  const platform = metadata.category === 'video-games' ? metadata.platform : metadata.cardGame;
+  return platform || 'Unknown';
+}
+
+// ============================================
+// METRICS
+// ============================================
+
+export function summarizePredictions(predictions: BacktestPrediction[]): BacktestMetrics {
+  const count = predictions.length;
+  if (count === 0) return { count: 0, mape: 0, bias: 0, coverage: 0 };
+
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / count;
+  return {
+    count,
+    mape: mean(predictions.map(p => Math.abs(p.error))) * 100,
+    bias: mean(predictions.map(p => p.error)) * 100,
+    coverage: (predictions.filter(p => p.withinRange).length / count) * 100,
+  };
+}
+
+function summarizeBy(
+  predictions: BacktestPrediction[],
+  key: (prediction: BacktestPrediction) => string
+): Record<string, BacktestMetrics> {
+  const groups = new Map<string, BacktestPrediction[]>();
+  for (const prediction of predictions) {
+    const group = groups.get(key(prediction)) || [];
+    group.push(prediction);
+    groups.set(key(prediction), group);
+  }
+
+  const summary: Record<string, BacktestMetrics> = {};
+  for (const [name, group] of [...groups].sort(([a], [b]) => a.localeCompare(b))) {
+    summary[name] = summarizePredictions(group);
+  }
+  return summary;
+}
+
+// ============================================
+// BACKTEST
+// ============================================
+
+export function runValuationBacktest(cases: BacktestCase[], options: BacktestOptions = {}): BacktestReport {
+  const {
+    minPriorComps = 3,
+    lookbackDays = 365,
+    config = getValuationConfig(),
+    valuate = calculateValuation,
+  } = options;
+  const predictions: BacktestPrediction[] = [];
+  let skipped = 0;
+
+  for (const { metadata, sales } of cases) {
+    const ordered = [...sales].sort((a, b) => a.soldDate.localeCompare(b.soldDate));
+
+    for (const sale of ordered) {
+      const soldAt = new Date(sale.soldDate);
+      const windowStart = soldAt.getTime() - lookbackDays * DAY_MS;
+      // Strictly earlier sales only; a same-day sale wasn't known yet either
+      const prior = ordered.filter(comp => {
+        const time = new Date(comp.soldDate).getTime();
+        return time < soldAt.getTime() && time >= windowStart;
+      });
+      if (prior.length < minPriorComps) {
+        skipped++;
+        continue;
+      }
+
+      const result = valuate(metadata, prior, { asOf: soldAt, config });
+      if (result.estimatedValue <= 0) {
+        skipped++;
+        continue;
+      }
+
+      predictions.push({
+        name: metadata.name,
+        condition: getConditionKey(metadata),
+        platform: getPlatformKey(metadata),
+        soldDate: sale.soldDate,
+        actual: sale.soldPrice,
+        predicted: result.estimatedValue,
+        error: (result.estimatedValue - sale.soldPrice) / sale.soldPrice,
+        withinRange: sale.soldPrice >= result.priceRange.low && sale.soldPrice <= result.priceRange.high,
+        comparablesUsed: result.comparablesUsed,
+        confidence: result.confidence,
+      });
+    }
+  }
+
+  return {
+    configVersion: config.version,
+    overall: summarizePredictions(predictions),
+    byCondition: summarizeBy(predictions, p => p.condition),
+    byPlatform: summarizeBy(predictions, p => p.platform),
+    predictions,
+    skipped,
+  };
+}
+
+/**
+ * Plain text table of a report, for logging while tuning
+ */
+export function formatBacktestReport(report: BacktestReport): string {
+  const line = (label: string, m: BacktestMetrics) =>
+    `${label.padEnd(16)}${String(m.count).padStart(6)}${m.mape.toFixed(1).padStart(9)}%` +
+    `${((m.bias >= 0 ? '+' : '') + m.bias.toFixed(1)).padStart(9)}%${m.coverage.toFixed(0).padStart(10)}%`;
+
+  return [
+    `Valuation config ${report.configVersion}`,
+    '',
+    `${''.padEnd(16)}${'n'.padStart(6)}${'MAPE'.padStart(10)}${'bias'.padStart(10)}${'coverage'.padStart(11)}`,
+    line('Overall', report.overall),
+    '',
+    'By condition',
+    ...Object.entries(report.byCondition).map(([name, m]) => line(`  ${name}`, m)),
+    '',
+    'By platform',
+    ...Object.entries(report.byPlatform).map(([name, m]) => line(`  ${name}`, m)),
+    '',
+    `${report.skipped} sales skipped (not enough prior comps)`,
+  ].join('\n');
+}
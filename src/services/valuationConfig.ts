@@ -0,0 +1,325 @@
+/**
+ * Valuation Configuration
+ *
+ * The tunable numbers behind valuations (time decay, confidence
+ * thresholds, graded premiums, similarity and outlier cutoffs, and the
+ * estimator used) as one
+ * versioned object. The valuation engine and the PriceCharting graded
+ * estimate both read it, and every valuation records the version used so
+ * past values can be reproduced after a retune.
+ *
+ * The active config comes from Supabase (`valuation_configs`, the row
+ * marked active) or a JSON file at VITE_VALUATION_CONFIG_URL, falling
+ * back to the last one loaded and then to the built-in default. Loading
+ * in the app lives in valuationConfigLoader.ts; this module has no
+ * browser-only imports so the scheduled revaluation can use it too.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/database';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ConfidenceThreshold {
+  minComparables: number;
+  minAvgSimilarity: number;
+}
+
+// classic: weighted mean, mean/std outliers, quartile range
+// robust: Huber or median-of-means, MAD outliers, bootstrap range and
+//   shrinkage toward the PriceCharting guide
+// auto: robust when market sales are thin
+export type ValuationEstimator = 'classic' | 'robust' | 'auto';
+
+export interface RobustEstimatorConfig {
+  location: 'huber' | 'median-of-means';
+  // Huber tuning constant, in robust standard deviations
+  huberK: number;
+  // Sales this many robust standard deviations from the median are outliers
+  outlierMads: number;
+  bootstrapSamples: number;
+  // Share of sales the price range should contain (0.5 matches the quartiles)
+  intervalCoverage: number;
+  // How many sales the PriceCharting guide price counts as when shrinking
+  guideWeight: number;
+  // Relative uncertainty of a lone price, the guide or a single sale
+  thinSpread: number;
+  // 'auto' uses the robust estimator below this many market sales
+  autoBelowComps: number;
+}
+
+// Graded video game premiums beyond the grade ladder; learned from graded
+// sales where there are enough, these are the fallback
+export interface GradedPremiumConfig {
+  // Company a typical graded sale is assumed to be from
+  baseCompany: string;
+  // Value relative to the same grade from the base company
+  companyMultipliers: Array<{ company: string; multiplier: number }>;
+  // Seal rating a typical graded sealed sale is assumed to have
+  baseSealRating: string;
+  // Value relative to the base seal rating at the same grade
+  sealRatingMultipliers: Array<{ rating: string; multiplier: number }>;
+  // Sales needed at each of two levels (grades, seal ratings, companies)
+  // before that factor is learned instead of read from the table
+  minLearnedComps: number;
+}
+
+export interface ValuationConfig {
+  // Bump whenever any number changes
+  version: string;
+  // Weight of a sale by age, interpolated between brackets
+  timeDecay: Array<{ days: number; weight: number }>;
+  confidenceThresholds: {
+    high: ConfidenceThreshold;
+    medium: ConfidenceThreshold;
+  };
+  // Value of a graded game relative to an ungraded sealed copy
+  gradeMultipliers: Array<{ grade: number; multiplier: number }>;
+  // Grade a typical graded sale is assumed to be, used as the baseline
+  baseGrade: number;
+  graded: GradedPremiumConfig;
+  // Comparables scoring below this (0-100) are ignored
+  minSimilarity: number;
+  // Prices this many standard deviations from the mean are outliers
+  outlierStdDevs: number;
+  estimator: ValuationEstimator;
+  robust: RobustEstimatorConfig;
+}
+
+export const DEFAULT_VALUATION_CONFIG: ValuationConfig = {
+  version: '2024-02',
+  timeDecay: [
+    { days: 0, weight: 1.0 },
+    { days: 7, weight: 0.95 },
+    { days: 14, weight: 0.90 },
+    { days: 30, weight: 0.85 },
+    { days: 60, weight: 0.70 },
+    { days: 90, weight: 0.55 },
+    { days: 180, weight: 0.35 },
+    { days: 365, weight: 0.15 },
+  ],
+  confidenceThresholds: {
+    high: { minComparables: 5, minAvgSimilarity: 70 },
+    medium: { minComparables: 3, minAvgSimilarity: 50 },
+  },
+  // WATA/VGA graded games
+  gradeMultipliers: [
+    { grade: 10, multiplier: 8.0 },
+    { grade: 9.8, multiplier: 5.0 },
+    { grade: 9.6, multiplier: 3.0 },
+    { grade: 9.4, multiplier: 2.0 },
+    { grade: 9.2, multiplier: 1.6 },
+    { grade: 9.0, multiplier: 1.3 },
+    { grade: 8.5, multiplier: 1.1 },
+    { grade: 8.0, multiplier: 1.0 },
+    { grade: 7.5, multiplier: 0.8 },
+    { grade: 7.0, multiplier: 0.6 },
+    { grade: 6.0, multiplier: 0.4 },
+    { grade: 5.0, multiplier: 0.3 },
+  ],
+  baseGrade: 8.5,
+  graded: {
+    baseCompany: 'WATA',
+    companyMultipliers: [
+      { company: 'WATA', multiplier: 1.0 },
+      { company: 'VGA', multiplier: 0.85 },
+      { company: 'CGC', multiplier: 0.8 },
+    ],
+    baseSealRating: 'A',
+    sealRatingMultipliers: [
+      { rating: 'A++', multiplier: 1.6 },
+      { rating: 'A+', multiplier: 1.25 },
+      { rating: 'A', multiplier: 1.0 },
+      { rating: 'B+', multiplier: 0.85 },
+      { rating: 'B', multiplier: 0.75 },
+      { rating: 'C', multiplier: 0.6 },
+    ],
+    minLearnedComps: 3,
+  },
+  minSimilarity: 20,
+  outlierStdDevs: 2,
+  estimator: 'classic',
+  robust: {
+    location: 'huber',
+    huberK: 1.345,
+    outlierMads: 3,
+    bootstrapSamples: 400,
+    intervalCoverage: 0.5,
+    guideWeight: 2,
+    thinSpread: 0.15,
+    autoBelowComps: 5,
+  },
+};
+
+const STORAGE_KEY = 'gil0-valuation-config';
+
+// Every config seen this session, by version
+const knownConfigs = new Map<string, ValuationConfig>([
+  [DEFAULT_VALUATION_CONFIG.version, DEFAULT_VALUATION_CONFIG],
+]);
+let activeConfig: ValuationConfig = readCached() || DEFAULT_VALUATION_CONFIG;
+knownConfigs.set(activeConfig.version, activeConfig);
+
+// ============================================
+// PARSING
+// ============================================
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const estimators: ValuationEstimator[] = ['classic', 'robust', 'auto'];
+
+function parseRobustConfig(value: unknown): RobustEstimatorConfig | null {
+  const robust = { ...DEFAULT_VALUATION_CONFIG.robust, ...(value as Partial<RobustEstimatorConfig>) };
+  const valid =
+    (robust.location === 'huber' || robust.location === 'median-of-means') &&
+    [robust.huberK, robust.outlierMads, robust.bootstrapSamples, robust.intervalCoverage,
+      robust.guideWeight, robust.thinSpread, robust.autoBelowComps].every(isNumber);
+  return valid ? robust : null;
+}
+
+function parseGradedConfig(value: unknown): GradedPremiumConfig | null {
+  const graded = { ...DEFAULT_VALUATION_CONFIG.graded, ...(value as Partial<GradedPremiumConfig>) };
+  const valid =
+    typeof graded.baseCompany === 'string' && typeof graded.baseSealRating === 'string' &&
+    Array.isArray(graded.companyMultipliers) &&
+    graded.companyMultipliers.every(c => typeof c?.company === 'string' && isNumber(c?.multiplier)) &&
+    Array.isArray(graded.sealRatingMultipliers) &&
+    graded.sealRatingMultipliers.every(r => typeof r?.rating === 'string' && isNumber(r?.multiplier)) &&
+    isNumber(graded.minLearnedComps);
+  return valid ? graded : null;
+}
+
+function isThreshold(value: unknown): value is ConfidenceThreshold {
+  const threshold = value as ConfidenceThreshold | undefined;
+  return !!threshold && isNumber(threshold.minComparables) && isNumber(threshold.minAvgSimilarity);
+}
+
+/**
+ * Validate a config loaded from JSON; null when anything is missing.
+ * Configs saved before the estimator settings existed are classic, and
+ * ones without graded premiums use the default table.
+ */
+export function parseValuationConfig(value: unknown): ValuationConfig | null {
+  const config = value as Partial<ValuationConfig> | null;
+  if (!config || typeof config !== 'object') return null;
+
+  const valid =
+    typeof config.version === 'string' && config.version.length > 0 &&
+    Array.isArray(config.timeDecay) && config.timeDecay.length > 0 &&
+    config.timeDecay.every(b => isNumber(b?.days) && isNumber(b?.weight)) &&
+    isThreshold(config.confidenceThresholds?.high) &&
+    isThreshold(config.confidenceThresholds?.medium) &&
+    Array.isArray(config.gradeMultipliers) && config.gradeMultipliers.length > 0 &&
+    config.gradeMultipliers.every(g => isNumber(g?.grade) && isNumber(g?.multiplier)) &&
+    isNumber(config.baseGrade) &&
+    isNumber(config.minSimilarity) &&
+    isNumber(config.outlierStdDevs) &&
+    (config.estimator === undefined || estimators.includes(config.estimator));
+  const robust = parseRobustConfig(config.robust);
+  const graded = parseGradedConfig(config.graded);
+  if (!valid || !robust || !graded) return null;
+
+  const checked = config as ValuationConfig;
+  return {
+    version: checked.version,
+    timeDecay: [...checked.timeDecay].sort((a, b) => a.days - b.days),
+    confidenceThresholds: {
+      high: { ...checked.confidenceThresholds.high },
+      medium: { ...checked.confidenceThresholds.medium },
+    },
+    gradeMultipliers: [...checked.gradeMultipliers].sort((a, b) => b.grade - a.grade),
+    baseGrade: checked.baseGrade,
+    graded: {
+      ...graded,
+      companyMultipliers: graded.companyMultipliers.map(c => ({ ...c })),
+      sealRatingMultipliers: graded.sealRatingMultipliers.map(r => ({ ...r })),
+    },
+    minSimilarity: checked.minSimilarity,
+    outlierStdDevs: checked.outlierStdDevs,
+    estimator: checked.estimator || 'classic',
+    robust,
+  };
+}
+
+// ============================================
+// GRADES
+// ============================================
+
+/**
+ * Multiplier for the highest grade bracket at or below the grade
+ */
+export function getGradeMultiplier(grade: number, config: ValuationConfig = activeConfig): number {
+  const brackets = [...config.gradeMultipliers].sort((a, b) => b.grade - a.grade);
+  const bracket = brackets.find(b => grade >= b.grade);
+  return (bracket || brackets[brackets.length - 1]).multiplier;
+}
+
+// ============================================
+// ACTIVE CONFIG
+// ============================================
+
+function readCached(): ValuationConfig | null {
+  try {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+    return stored ? parseValuationConfig(JSON.parse(stored)) : null;
+  } catch (error) {
+    console.error('Error loading valuation config from localStorage:', error);
+    return null;
+  }
+}
+
+function writeCached(config: ValuationConfig): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+  } catch (error) {
+    console.error('Error saving valuation config to localStorage:', error);
+  }
+}
+
+export function getValuationConfig(): ValuationConfig {
+  return activeConfig;
+}
+
+export function setValuationConfig(config: ValuationConfig): void {
+  activeConfig = config;
+  rememberValuationConfig(config);
+  writeCached(config);
+}
+
+/**
+ * Remember a config so its version can be reproduced later
+ */
+export function rememberValuationConfig(config: ValuationConfig): void {
+  knownConfigs.set(config.version, config);
+}
+
+export function getKnownValuationConfig(version: string): ValuationConfig | undefined {
+  return knownConfigs.get(version);
+}
+
+/**
+ * The active config stored in Supabase, or a specific version of it
+ */
+export async function fetchValuationConfig(
+  client: SupabaseClient<Database>,
+  version?: string
+): Promise<ValuationConfig | null> {
+  try {
+    const query = client.from('valuation_configs').select('config');
+    const { data, error } = await (version
+      ? query.eq('version', version)
+      : query.eq('active', true).order('created_at', { ascending: false })
+    ).limit(1).maybeSingle();
+
+    if (error) {
+      console.error('Error loading valuation config:', error);
+      return null;
+    }
+    return data ? parseValuationConfig(data.config) : null;
+  } catch (error) {
+    console.error('Error loading valuation config:', error);
+    return null;
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Valuation Config Loader
+ *
+ * Loads the active ValuationConfig in the app: the Supabase row marked
+ * active, or the JSON file at VITE_VALUATION_CONFIG_URL.
+ */
+
+import { apiConfig } from '@/config/api';
+import { supabase, isSupabaseConfigured } from '@/lib/supabase';
+import {
+  fetchValuationConfig,
+  getKnownValuationConfig,
+  getValuationConfig,
+  parseValuationConfig,
+  rememberValuationConfig,
+  setValuationConfig,
+  ValuationConfig,
+} from './valuationConfig';
+
+async function fetchFromSupabase(version?: string): Promise<ValuationConfig | null> {
+  if (!isSupabaseConfigured() || !supabase) return null;
+  return fetchValuationConfig(supabase, version);
+}
+
+async function fetchFromUrl(url: string): Promise<ValuationConfig | null> {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      console.error('Error loading valuation config:', response.status);
+      return null;
+    }
+    return parseValuationConfig(await response.json());
+  } catch (error) {
+    console.error('Error loading valuation config:', error);
+    return null;
+  }
+}
+
+/**
+ * Load and activate the current config; keeps the active one on failure
+ */
+export async function loadValuationConfig(): Promise<ValuationConfig> {
+  const configUrl = apiConfig.valuation.configUrl;
+  const loaded = (await fetchFromSupabase()) || (configUrl ? await fetchFromUrl(configUrl) : null);
+  if (loaded) setValuationConfig(loaded);
+  return getValuationConfig();
+}
+
+/**
+ * A specific config version, to reproduce a past valuation
+ */
+export async function getValuationConfigVersion(version: string): Promise<ValuationConfig | null> {
+  const known = getKnownValuationConfig(version);
+  if (known) return known;
+
+  const loaded = await fetchFromSupabase(version);
+  if (loaded) rememberValuationConfig(loaded);
+  return loaded;
+}
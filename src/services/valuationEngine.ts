@@ -1,23 +1,47 @@
 /**
- * Video Game Valuation Engine
+ * Collectible Valuation Engine
  * 
  * Calculates accurate values using:
  * 1. Weighted comparable matching (similarity scoring)
  * 2. Time-decay rolling average (recent sales weighted more)
- * 3. Condition-based adjustments (sealed, CIB, loose, graded)
- * 4. Statistical analysis (median, std deviation, outlier removal)
+ * 3. Condition-based filtering (sealed, CIB, loose) and graded premiums
+ *    by grade, seal rating and grading company
+ * 4. Statistical analysis (median, std deviation, outlier removal), or a
+ *    robust mode for thin or noisy sales (Huber / median-of-means,
+ *    bootstrap price range, shrinkage toward the PriceCharting guide)
+ * 
+ * Category-specific steps (condition filtering, attribute scoring and
+ * grade adjustments) live in per-category strategies.
  */
 
-import { MarketComparable } from '@/types/asset';
+import type { AssetCategory, MarketComparable } from '@/types/asset';
+import {
+  bootstrap,
+  createRandom,
+  huberLocation,
+  median,
+  medianOfMeans,
+  quantile,
+  robustScale,
+  seedFromValues,
+} from '../utils/robustStatistics';
+import {
+  describeGradedPremium,
+  fitGradedPremiums,
+  formatGradedSpec,
+  getListingSpec,
+  getModelPremium,
+  GradedSpec,
+} from './gradedPricing';
+import { getValuationConfig, ValuationConfig, ValuationEstimator } from './valuationConfig';
 
 // ============================================
 // TYPES
 // ============================================
 
-export interface AssetMetadata {
+export interface VideoGameMetadata {
   category: 'video-games';
   name: string;
-  // Video game fields
   platform?: string;
   region?: string;
   conditionType?: 'sealed' | 'cib' | 'loose';
@@ -26,6 +50,20 @@ export interface AssetMetadata {
   sealRating?: string;
 }
 
+export interface TradingCardMetadata {
+  category: 'trading-cards';
+  name: string;
+  cardGame?: string;
+  setName?: string;
+  cardNumber?: string;
+  year?: number;
+  variant?: string;
+  gradingCompany?: string;
+  grade?: number;
+}
+
+export type AssetMetadata = VideoGameMetadata | TradingCardMetadata;
+
 export interface ValuationResult {
   estimatedValue: number;
   confidence: 'high' | 'medium' | 'low';
@@ -43,6 +81,12 @@ export interface ValuationResult {
   comparablesUsed: number;
   adjustments: PriceAdjustment[];
   methodology: string;
+  // ValuationConfig version the value was calculated with
+  configVersion: string;
+  // Estimator actually used ('auto' resolves to one of these)
+  estimator: Exclude<ValuationEstimator, 'auto'>;
+  // Every comparable considered, with how much it counted or why it was dropped
+  scoredComparables: ExplainedComparable[];
 }
 
 export interface ScoredComparable extends MarketComparable {
@@ -52,48 +96,59 @@ export interface ScoredComparable extends MarketComparable {
   adjustedPrice: number;
 }
 
+// Why a comparable was or wasn't part of the estimate
+export type ComparableStatus = 'used' | 'condition' | 'low-similarity' | 'outlier';
+
+export interface ExplainedComparable extends ScoredComparable {
+  status: ComparableStatus;
+  // Fraction of the weighted average this sale accounts for, 0 unless used
+  weightShare: number;
+  reason: string;
+}
+
 export interface PriceAdjustment {
   type: string;
   factor: number;
   reason: string;
 }
 
-// ============================================
-// CONFIGURATION
-// ============================================
-
-const TIME_DECAY_CONFIG = {
-  0: 1.0,
-  7: 0.95,
-  14: 0.90,
-  30: 0.85,
-  60: 0.70,
-  90: 0.55,
-  180: 0.35,
-  365: 0.15,
-};
+export interface ValuationOptions {
+  // Value as of this date instead of now (time decay and rolling averages
+  // are measured from it), e.g. when replaying historical sales
+  asOf?: Date;
+  // Defaults to the active config
+  config?: ValuationConfig;
+  // Overrides the config's estimator
+  estimator?: ValuationEstimator;
+}
 
-const CONFIDENCE_THRESHOLDS = {
-  high: { minComparables: 5, minAvgSimilarity: 70 },
-  medium: { minComparables: 3, minAvgSimilarity: 50 },
-  low: { minComparables: 1, minAvgSimilarity: 0 },
-};
+// A value, its price range and how much each comparable counted
+interface Estimate {
+  value: number;
+  priceRange: ValuationResult['priceRange'];
+  shares: Map<ScoredComparable, number>;
+  adjustments: PriceAdjustment[];
+  // Methodology wording, e.g. "using time-weighted rolling average"
+  description: string;
+}
 
-// Grade multipliers for WATA/VGA graded games
-const GRADE_MULTIPLIERS: Record<number, number> = {
-  10: 8.0,
-  9.8: 5.0,
-  9.6: 3.0,
-  9.4: 2.0,
-  9.2: 1.6,
-  9.0: 1.3,
-  8.5: 1.1,
-  8.0: 1.0,
-  7.5: 0.8,
-  7.0: 0.6,
-  6.0: 0.4,
-  5.0: 0.3,
-};
+/**
+ * Category-specific valuation steps
+ */
+interface ValuationStrategy<M extends AssetMetadata> {
+  // Keep only sales in the same condition/grade bucket as the asset
+  filterComparables: (comparables: MarketComparable[], metadata: M) => MarketComparable[];
+  // How well a comparable matches the asset's attributes, 0-1
+  scoreAttributes: (comparable: MarketComparable, metadata: M) => number;
+  // What each sale would have sold for as the asset, e.g. at its grade
+  priceComparables: (
+    comparables: MarketComparable[],
+    metadata: M,
+    config: ValuationConfig
+  ) => { prices: number[]; adjustments: PriceAdjustment[] };
+  // Short label for the condition bucket, e.g. "CIB" or "PSA 10"
+  conditionLabel: (metadata: M) => string | undefined;
+}
 
 // ============================================
 // MAIN VALUATION FUNCTION
@@ -101,50 +156,93 @@ const GRADE_MULTIPLIERS: Record<number, number> = {
 
 export function calculateValuation(
   metadata: AssetMetadata,
-  comparables: MarketComparable[]
+  comparables: MarketComparable[],
+  options: ValuationOptions = {}
 ): ValuationResult {
+  const now = options.asOf || new Date();
+  const config = options.config || getValuationConfig();
+
   if (comparables.length === 0) {
-    return createEmptyResult('No comparable sales data available');
+    return createEmptyValuation('No comparable sales data available', config.version);
   }
 
-  // Step 0: Pre-filter by condition type to ensure apples-to-apples comparison
-  const conditionFilteredComparables = filterByConditionType(comparables, metadata.conditionType);
+  const strategy = getStrategy(metadata);
+  const conditionLabel = strategy.conditionLabel(metadata);
+
+  // Step 0: Price and score every comparable, so the ones dropped below can be explained too
+  const pricing = strategy.priceComparables(comparables, metadata, config);
+  const scoredComparables = comparables.map((comp, i) =>
+    scoreComparable(comp, pricing.prices[i], metadata, strategy, now, config)
+  );
+  // Dropped comparables and why, filled in by the steps below
+  const explained = new Map<ScoredComparable, Pick<ExplainedComparable, 'status' | 'reason'>>();
+  let shares = new Map<ScoredComparable, number>();
+  const explain = () => explainComparables(scoredComparables, explained, shares);
+  const createEmptyResult = (reason: string) =>
+    createEmptyValuation(reason, config.version, explain());
+
+  // Step 1: Pre-filter by condition to ensure apples-to-apples comparison
+  const conditionMatches = new Set(strategy.filterComparables(comparables, metadata));
+  const conditionFilteredComparables = scoredComparables.filter((_, i) => {
+    if (conditionMatches.has(comparables[i])) return true;
+    explained.set(scoredComparables[i], {
+      status: 'condition',
+      reason: conditionLabel ? `Not a ${conditionLabel} sale` : 'Different condition',
+    });
+    return false;
+  });
   
   if (conditionFilteredComparables.length === 0) {
-    return createEmptyResult(`No ${metadata.conditionType?.toUpperCase() || 'matching'} condition sales found`);
+    return createEmptyResult(`No ${conditionLabel || 'matching'} condition sales found`);
   }
 
-  // Step 1: Score each comparable for similarity
-  const scoredComparables = conditionFilteredComparables.map(comp => 
-    scoreComparable(comp, metadata)
-  );
-
   // Step 2: Filter out very low similarity matches
-  const relevantComparables = scoredComparables.filter(c => c.similarityScore >= 20);
+  const relevantComparables = conditionFilteredComparables.filter(c => {
+    if (c.similarityScore >= config.minSimilarity) return true;
+    explained.set(c, {
+      status: 'low-similarity',
+      reason: `${c.similarityScore}% similar, below the ${config.minSimilarity}% cutoff`,
+    });
+    return false;
+  });
   
   if (relevantComparables.length === 0) {
     return createEmptyResult('No sufficiently similar comparables found');
   }
 
-  // Step 3: Remove statistical outliers
-  const withoutOutliers = removeOutliers(relevantComparables);
-
-  // Step 4: Calculate weighted rolling averages
-  const rollingAverages = calculateRollingAverages(withoutOutliers);
+  // Step 3: Pick the estimator
+  const estimator = resolveEstimator(options.estimator || config.estimator, relevantComparables, config);
+
+  // Step 4: Remove statistical outliers (the robust estimator never drops guide prices)
+  const outlierBounds = estimator === 'robust'
+    ? getRobustOutlierBounds(relevantComparables.filter(c => !isGuidePrice(c)), config.robust.outlierMads)
+    : getOutlierBounds(relevantComparables, config.outlierStdDevs);
+  const withoutOutliers = relevantComparables.filter(c => {
+    if (!outlierBounds || (estimator === 'robust' && isGuidePrice(c)) ||
+        (c.adjustedPrice >= outlierBounds.low && c.adjustedPrice <= outlierBounds.high)) {
+      return true;
+    }
+    explained.set(c, {
+      status: 'outlier',
+      reason: `Outside the typical $${Math.round(outlierBounds.low).toLocaleString()}-$${Math.round(outlierBounds.high).toLocaleString()} range`,
+    });
+    return false;
+  });
 
-  // Step 5: Calculate final weighted average
-  const { weightedAverage, adjustments } = calculateWeightedAverage(
-    withoutOutliers,
-    metadata
-  );
+  // Step 5: Calculate weighted rolling averages
+  const rollingAverages = calculateRollingAverages(withoutOutliers, now);
 
-  // Step 6: Calculate price range
-  const priceRange = calculatePriceRange(withoutOutliers);
+  // Step 6: Estimate the value and price range
+  const estimate = estimator === 'robust'
+    ? calculateRobustEstimate(withoutOutliers, config)
+    : calculateClassicEstimate(withoutOutliers);
+  shares = estimate.shares;
+  const adjustments = [...pricing.adjustments, ...estimate.adjustments];
 
   // Step 7: Determine confidence
   const { confidence, confidenceScore } = calculateConfidence(
     withoutOutliers,
-    relevantComparables.length
+    config
   );
 
   // Step 8: Build methodology explanation
@@ -152,21 +250,55 @@ export function calculateValuation(
     withoutOutliers.length,
     conditionFilteredComparables.length,
     adjustments,
-    metadata.conditionType
+    estimate.description,
+    conditionLabel
   );
 
   return {
-    estimatedValue: Math.round(weightedAverage),
+    estimatedValue: Math.round(estimate.value),
     confidence,
     confidenceScore,
-    priceRange,
+    priceRange: estimate.priceRange,
     rollingAverage: rollingAverages,
     comparablesUsed: withoutOutliers.length,
     adjustments,
     methodology,
+    configVersion: config.version,
+    estimator,
+    scoredComparables: explain(),
   };
 }
 
+// ============================================
+// CATEGORY STRATEGIES
+// ============================================
+
+const videoGameStrategy: ValuationStrategy<VideoGameMetadata> = {
+  filterComparables: (comparables, metadata) => filterByConditionType(comparables, metadata.conditionType),
+  scoreAttributes: scoreVideoGameAttributes,
+  priceComparables: priceGameComparables,
+  conditionLabel: metadata => metadata.conditionType?.toUpperCase(),
+};
+
+const tradingCardStrategy: ValuationStrategy<TradingCardMetadata> = {
+  filterComparables: filterByCardGrade,
+  scoreAttributes: scoreTradingCardAttributes,
+  // Sales are already filtered to the exact grade, so no grade adjustment
+  priceComparables: comparables => ({ prices: comparables.map(c => c.soldPrice), adjustments: [] }),
+  conditionLabel: metadata => isGradedCard(metadata)
+    ? `${metadata.gradingCompany} ${metadata.grade}`
+    : 'RAW',
+};
+
+const strategies: { [C in AssetCategory]: ValuationStrategy<Extract<AssetMetadata, { category: C }>> } = {
+  'video-games': videoGameStrategy,
+  'trading-cards': tradingCardStrategy,
+};
+
+function getStrategy<M extends AssetMetadata>(metadata: M): ValuationStrategy<M> {
+  return strategies[metadata.category] as unknown as ValuationStrategy<M>;
+}
+
 // ============================================
 // CONDITION TYPE FILTERING
 // ============================================
@@ -244,9 +376,13 @@ function filterByConditionType(
 // SIMILARITY SCORING
 // ============================================
 
-function scoreComparable(
+function scoreComparable<M extends AssetMetadata>(
   comparable: MarketComparable,
-  target: AssetMetadata
+  adjustedPrice: number,
+  target: M,
+  strategy: ValuationStrategy<M>,
+  now: Date,
+  config: ValuationConfig
 ): ScoredComparable {
   let similarityScore = 0;
   let maxScore = 0;
@@ -258,12 +394,12 @@ function scoreComparable(
   maxScore += 40;
   similarityScore += scoreNameSimilarity(compName, targetName) * 40;
 
-  // Video game specific matching (60 points max)
+  // Category specific matching (60 points max)
   maxScore += 60;
-  similarityScore += scoreVideoGameAttributes(comparable, target) * 60;
+  similarityScore += strategy.scoreAttributes(comparable, target) * 60;
 
   const normalizedScore = Math.round((similarityScore / maxScore) * 100);
-  const timeWeight = calculateTimeWeight(comparable.soldDate);
+  const timeWeight = calculateTimeWeight(comparable.soldDate, now, config.timeDecay);
   const finalWeight = (normalizedScore / 100) * timeWeight;
 
   return {
@@ -271,7 +407,7 @@ function scoreComparable(
     similarityScore: normalizedScore,
     timeWeight,
     finalWeight,
-    adjustedPrice: comparable.soldPrice,
+    adjustedPrice,
   };
 }
 
@@ -300,7 +436,7 @@ function scoreNameSimilarity(compName: string, targetName: string): number {
 
 function scoreVideoGameAttributes(
   comparable: MarketComparable,
-  target: AssetMetadata
+  target: VideoGameMetadata
 ): number {
   const compName = comparable.name.toLowerCase();
   const compCondition = comparable.condition?.toLowerCase() || '';
@@ -360,18 +496,171 @@ function scoreVideoGameAttributes(
   return factors > 0 ? score / factors : 0.5;
 }
 
+// ============================================
+// GRADED VIDEO GAMES
+// ============================================
+
+function getGameSpec(metadata: VideoGameMetadata, config: ValuationConfig): GradedSpec | null {
+  if (!metadata.gradingCompany || metadata.gradingCompany === 'raw') return null;
+  return {
+    company: metadata.gradingCompany,
+    grade: metadata.grade ?? config.baseGrade,
+    sealRating: metadata.sealRating,
+  };
+}
+
+/**
+ * Rescale every sale to the asset's grade, seal rating and grading
+ * company (or to ungraded for raw games), with premiums learned from the
+ * graded sales in the asset's condition where there are enough
+ */
+function priceGameComparables(
+  comparables: MarketComparable[],
+  metadata: VideoGameMetadata,
+  config: ValuationConfig
+): { prices: number[]; adjustments: PriceAdjustment[] } {
+  const target = getGameSpec(metadata, config);
+  const specs = comparables.map(c => getListingSpec(c, config));
+  if (!target && specs.every(spec => spec === null)) {
+    return { prices: comparables.map(c => c.soldPrice), adjustments: [] };
+  }
+
+  // Learn only from real sales in the asset's condition, not guide prices
+  const conditionMatches = new Set(filterByConditionType(comparables, metadata.conditionType));
+  const model = fitGradedPremiums(
+    comparables.flatMap((c, i) =>
+      conditionMatches.has(c) && !isGuidePrice(c) ? [{ spec: specs[i], price: c.soldPrice }] : []
+    ),
+    config
+  );
+
+  const targetPremium = getModelPremium(model, target, config);
+  const prices = comparables.map((c, i) => c.soldPrice * targetPremium / getModelPremium(model, specs[i], config));
+  if (!target) return { prices, adjustments: [] };
+
+  // Reported against a typical graded sale, the baseline PriceCharting's graded price stands for
+  const typical = { company: config.graded.baseCompany, grade: config.baseGrade };
+  return {
+    prices,
+    adjustments: [{
+      type: 'grade',
+      factor: targetPremium / getModelPremium(model, typical, config),
+      reason: `${formatGradedSpec(target)} premium over a typical ${formatGradedSpec(typical)} graded copy (${describeGradedPremium(model)})`,
+    }],
+  };
+}
+
+// ============================================
+// TRADING CARDS
+// ============================================
+
+const CARD_GRADER_ALIASES: Record<string, string[]> = {
+  PSA: ['psa'],
+  BGS: ['bgs', 'beckett'],
+  CGC: ['cgc'],
+  SGC: ['sgc'],
+};
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function isGradedCard(metadata: TradingCardMetadata): boolean {
+  return !!metadata.gradingCompany && metadata.gradingCompany !== 'raw' && metadata.grade !== undefined;
+}
+
+/**
+ * Find the grading company and grade mentioned in a listing, e.g. "PSA 10" or "Beckett 9.5"
+ */
+function parseCardGrade(text: string): { company: string; grade: number } | null {
+  for (const [company, aliases] of Object.entries(CARD_GRADER_ALIASES)) {
+    for (const alias of aliases) {
+      const match = text.match(new RegExp(`\\b${alias}\\s*(?:gem\\s*(?:mint|mt)\\s*)?(\\d{1,2}(?:\\.5)?)\\b`));
+      if (match) {
+        return { company, grade: parseFloat(match[1]) };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Raw cards are only compared to raw sales, graded cards only to sales
+ * from the same grading company at the same grade.
+ */
+function filterByCardGrade(
+  comparables: MarketComparable[],
+  metadata: TradingCardMetadata
+): MarketComparable[] {
+  const graded = isGradedCard(metadata);
+
+  return comparables.filter(comp => {
+    const listingGrade = parseCardGrade(`${comp.name} ${comp.condition || ''}`.toLowerCase());
+    if (!graded) return listingGrade === null;
+    return listingGrade !== null &&
+      listingGrade.company === metadata.gradingCompany &&
+      listingGrade.grade === metadata.grade;
+  });
+}
+
+function scoreTradingCardAttributes(
+  comparable: MarketComparable,
+  target: TradingCardMetadata
+): number {
+  const compName = comparable.name.toLowerCase();
+  let score = 0;
+  let factors = 0;
+
+  // Card number is the most reliable identifier ("4/102", "#4")
+  if (target.cardNumber) {
+    factors += 3;
+    const number = target.cardNumber.toLowerCase().replace(/^#/, '');
+    const base = escapeRegExp(number.split('/')[0]);
+    if (compName.includes(number)) {
+      score += 3;
+    } else if (new RegExp(`(#|\\b)${base}(/|\\b)`).test(compName)) {
+      score += 2;
+    }
+  }
+
+  // Set name
+  if (target.setName) {
+    factors += 3;
+    score += scoreNameSimilarity(compName, target.setName.toLowerCase()) * 3;
+  }
+
+  // Variant (1st Edition, Holo, Refractor...)
+  if (target.variant) {
+    factors += 2;
+    if (compName.includes(target.variant.toLowerCase())) {
+      score += 2;
+    }
+  }
+
+  // Year of release
+  if (target.year) {
+    factors += 1;
+    if (compName.includes(String(target.year))) {
+      score += 1;
+    }
+  }
+
+  return factors > 0 ? score / factors : 0.5;
+}
+
 // ============================================
 // TIME WEIGHTING
 // ============================================
 
-function calculateTimeWeight(soldDateStr: string): number {
+function calculateTimeWeight(
+  soldDateStr: string,
+  now: Date,
+  timeDecay: ValuationConfig['timeDecay']
+): number {
   const soldDate = new Date(soldDateStr);
-  const now = new Date();
   const daysDiff = Math.floor((now.getTime() - soldDate.getTime()) / (1000 * 60 * 60 * 24));
 
-  const brackets = Object.entries(TIME_DECAY_CONFIG)
-    .map(([days, weight]) => ({ days: parseInt(days), weight }))
-    .sort((a, b) => a.days - b.days);
+  const brackets = [...timeDecay].sort((a, b) => a.days - b.days);
 
   for (let i = brackets.length - 1; i >= 0; i--) {
     if (daysDiff >= brackets[i].days) {
@@ -392,8 +681,15 @@ function calculateTimeWeight(soldDateStr: string): number {
 // STATISTICAL ANALYSIS
 // ============================================
 
-function removeOutliers(comparables: ScoredComparable[]): ScoredComparable[] {
-  if (comparables.length < 4) return comparables;
+/**
+ * Prices outside these bounds are outliers; null when there are too few
+ * sales to tell
+ */
+function getOutlierBounds(
+  comparables: ScoredComparable[],
+  stdDevs: number
+): { low: number; high: number } | null {
+  if (comparables.length < 4) return null;
 
   const prices = comparables.map(c => c.adjustedPrice);
   const mean = prices.reduce((a, b) => a + b, 0) / prices.length;
@@ -401,19 +697,13 @@ function removeOutliers(comparables: ScoredComparable[]): ScoredComparable[] {
     prices.reduce((sum, p) => sum + Math.pow(p - mean, 2), 0) / prices.length
   );
 
-  const lowerBound = mean - 2 * stdDev;
-  const upperBound = mean + 2 * stdDev;
-
-  return comparables.filter(c => 
-    c.adjustedPrice >= lowerBound && c.adjustedPrice <= upperBound
-  );
+  return { low: mean - stdDevs * stdDev, high: mean + stdDevs * stdDev };
 }
 
 function calculateRollingAverages(
-  comparables: ScoredComparable[]
+  comparables: ScoredComparable[],
+  now: Date
 ): ValuationResult['rollingAverage'] {
-  const now = new Date();
-  
   const filterByDays = (days: number) => {
     const cutoff = new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
     return comparables.filter(c => new Date(c.soldDate) >= cutoff);
@@ -433,49 +723,22 @@ function calculateRollingAverages(
   };
 }
 
-function calculateWeightedAverage(
-  comparables: ScoredComparable[],
-  metadata: AssetMetadata
-): { weightedAverage: number; adjustments: PriceAdjustment[] } {
-  const adjustments: PriceAdjustment[] = [];
-
-  // Calculate base weighted average
+/**
+ * Classic estimator: similarity and time weighted average, quartile range
+ */
+function calculateClassicEstimate(comparables: ScoredComparable[]): Estimate {
   const totalWeight = comparables.reduce((sum, c) => sum + c.finalWeight, 0);
-  let weightedAverage = totalWeight > 0
-    ? comparables.reduce((sum, c) => sum + c.adjustedPrice * c.finalWeight, 0) / totalWeight
-    : comparables.reduce((sum, c) => sum + c.adjustedPrice, 0) / comparables.length;
-
-  // Apply grade adjustment if graded
-  // Since PriceCharting's graded prices are averages, adjust based on specific grade
-  if (metadata.grade !== undefined && metadata.gradingCompany && metadata.gradingCompany !== 'raw') {
-    const gradeMultiplier = getGradeMultiplier(metadata.grade);
-    const baseGradeMultiplier = getGradeMultiplier(8.5); // Assume average graded sale is ~8.5
-    
-    if (gradeMultiplier !== baseGradeMultiplier) {
-      const adjustment = gradeMultiplier / baseGradeMultiplier;
-      weightedAverage *= adjustment;
-      adjustments.push({
-        type: 'grade',
-        factor: adjustment,
-        reason: `Adjusted for ${metadata.gradingCompany} ${metadata.grade} grade`,
-      });
-    }
-  }
+  const shareOf = (c: ScoredComparable) =>
+    totalWeight > 0 ? c.finalWeight / totalWeight : 1 / comparables.length;
+  const shares = new Map(comparables.map(c => [c, shareOf(c)]));
 
-  // Note: We no longer apply condition adjustments here because we pre-filter
-  // comparables by condition type. This ensures apples-to-apples comparison.
-
-  return { weightedAverage, adjustments };
-}
-
-function getGradeMultiplier(grade: number): number {
-  const grades = Object.keys(GRADE_MULTIPLIERS).map(Number).sort((a, b) => b - a);
-  for (const g of grades) {
-    if (grade >= g) {
-      return GRADE_MULTIPLIERS[g];
-    }
-  }
-  return GRADE_MULTIPLIERS[5.0];
+  return {
+    value: comparables.reduce((sum, c) => sum + c.adjustedPrice * shareOf(c), 0),
+    priceRange: calculatePriceRange(comparables),
+    shares,
+    adjustments: [],
+    description: 'using time-weighted rolling average',
+  };
 }
 
 function calculatePriceRange(comparables: ScoredComparable[]): ValuationResult['priceRange'] {
@@ -493,14 +756,133 @@ function calculatePriceRange(comparables: ScoredComparable[]): ValuationResult['
   };
 }
 
+// ============================================
+// ROBUST ESTIMATOR
+// ============================================
+
+// Sources that publish a guide price rather than individual sales
+const GUIDE_SOURCES = ['PriceCharting'];
+
+function isGuidePrice(comparable: MarketComparable): boolean {
+  return GUIDE_SOURCES.includes(comparable.source);
+}
+
+function resolveEstimator(
+  estimator: ValuationEstimator,
+  comparables: ScoredComparable[],
+  config: ValuationConfig
+): Exclude<ValuationEstimator, 'auto'> {
+  if (estimator !== 'auto') return estimator;
+  const marketCount = comparables.filter(c => !isGuidePrice(c)).length;
+  return marketCount < config.robust.autoBelowComps ? 'robust' : 'classic';
+}
+
+/**
+ * Median +/- k robust standard deviations; null with too few sales or no spread
+ */
+function getRobustOutlierBounds(
+  comparables: ScoredComparable[],
+  mads: number
+): { low: number; high: number } | null {
+  if (comparables.length < 3) return null;
+
+  const prices = comparables.map(c => c.adjustedPrice);
+  const center = median(prices);
+  const scale = robustScale(prices, center);
+  if (scale === 0) return null;
+
+  return { low: center - mads * scale, high: center + mads * scale };
+}
+
+/**
+ * Robust estimator: Huber or median-of-means location of the market
+ * sales, shrunk toward the guide price by credibility n / (n + k) when a
+ * guide is available, with a bootstrap price range
+ */
+function calculateRobustEstimate(comparables: ScoredComparable[], config: ValuationConfig): Estimate {
+  const settings = config.robust;
+  const guides = comparables.filter(isGuidePrice);
+  const market = comparables.filter(c => !isGuidePrice(c));
+  const guidePrice = guides.length > 0 ? median(guides.map(c => c.adjustedPrice)) : null;
+
+  const weighted = (items: ScoredComparable[]) =>
+    items.map(c => ({ value: c.adjustedPrice, weight: c.finalWeight }));
+  const locate = (items: ScoredComparable[]) => settings.location === 'huber'
+    ? huberLocation(weighted(items), settings.huberK).location
+    : medianOfMeans(weighted(items));
+
+  // How much the market sales are trusted over the guide
+  const credibility = guidePrice === null ? 1 : market.length / (market.length + settings.guideWeight);
+  const marketValue = market.length > 0 ? locate(market) : 0;
+  const value = credibility * marketValue + (1 - credibility) * (guidePrice ?? 0);
+
+  // Share of the estimate: Huber weights (or time/similarity weights) scaled by credibility
+  const shares = new Map<ScoredComparable, number>();
+  if (market.length > 0) {
+    const marketWeights = settings.location === 'huber'
+      ? huberLocation(weighted(market), settings.huberK).weights
+      : market.map(c => c.finalWeight);
+    const total = marketWeights.reduce((sum, w) => sum + w, 0);
+    market.forEach((c, idx) =>
+      shares.set(c, credibility * (total > 0 ? marketWeights[idx] / total : 1 / market.length))
+    );
+  }
+  guides.forEach(c => shares.set(c, (1 - credibility) / guides.length));
+
+  // Bootstrap a new sale: a resampled center plus a resampled deviation.
+  // Lone prices get thinSpread of relative uncertainty instead.
+  const random = createRandom(seedFromValues(comparables.map(c => c.adjustedPrice)));
+  const jitter = () => settings.thinSpread * (2 * random() - 1);
+  const residuals = market.map(c => c.adjustedPrice - marketValue);
+  const thin = market.length < 3;
+  const marketDraws = market.length > 0
+    ? bootstrap(market, sample => {
+        const residual = residuals[Math.floor(random() * residuals.length)];
+        return locate(sample) + residual + (thin ? marketValue * jitter() : 0);
+      }, settings.bootstrapSamples, random)
+    : [];
+  const draws = Array.from({ length: settings.bootstrapSamples }, (_, idx) =>
+    credibility * (marketDraws[idx] ?? 0) + (1 - credibility) * (guidePrice ?? 0) * (1 + jitter())
+  );
+  const tail = (1 - settings.intervalCoverage) / 2;
+
+  const adjustments: PriceAdjustment[] = [];
+  if (guidePrice !== null && market.length > 0) {
+    adjustments.push({
+      type: 'shrinkage',
+      factor: marketValue > 0 ? value / marketValue : 1,
+      reason: `Blended ${Math.round((1 - credibility) * 100)}% toward the $${Math.round(guidePrice).toLocaleString()} price guide (${market.length} market ${market.length === 1 ? 'sale' : 'sales'})`,
+    });
+  }
+
+  const location = settings.location === 'huber' ? 'Huber-weighted' : 'median-of-means';
+  const range = `bootstrap ${Math.round(settings.intervalCoverage * 100)}% range`;
+  const description = market.length === 0
+    ? `using the robust estimator (price guide only, ${range})`
+    : `using the robust estimator (${location}, ${range}${guidePrice !== null ? ', shrunk toward the price guide' : ''})`;
+
+  return {
+    value,
+    priceRange: {
+      low: Math.round(quantile(draws, tail)),
+      median: Math.round(quantile(draws, 0.5)),
+      high: Math.round(quantile(draws, 1 - tail)),
+    },
+    shares,
+    adjustments,
+    description,
+  };
+}
+
 // ============================================
 // CONFIDENCE CALCULATION
 // ============================================
 
 function calculateConfidence(
   comparables: ScoredComparable[],
-  totalFound: number
+  config: ValuationConfig
 ): { confidence: 'high' | 'medium' | 'low'; confidenceScore: number } {
+  const thresholds = config.confidenceThresholds;
   const avgSimilarity = comparables.reduce((sum, c) => sum + c.similarityScore, 0) / comparables.length;
   const count = comparables.length;
 
@@ -512,11 +894,11 @@ function calculateConfidence(
 
   let confidence: 'high' | 'medium' | 'low' = 'low';
   
-  if (count >= CONFIDENCE_THRESHOLDS.high.minComparables && 
-      avgSimilarity >= CONFIDENCE_THRESHOLDS.high.minAvgSimilarity) {
+  if (count >= thresholds.high.minComparables && 
+      avgSimilarity >= thresholds.high.minAvgSimilarity) {
     confidence = 'high';
-  } else if (count >= CONFIDENCE_THRESHOLDS.medium.minComparables && 
-             avgSimilarity >= CONFIDENCE_THRESHOLDS.medium.minAvgSimilarity) {
+  } else if (count >= thresholds.medium.minComparables && 
+             avgSimilarity >= thresholds.medium.minAvgSimilarity) {
     confidence = 'medium';
   }
 
@@ -531,12 +913,13 @@ function buildMethodology(
   usedCount: number,
   totalCount: number,
   adjustments: PriceAdjustment[],
-  conditionType?: string
+  estimateDescription: string,
+  conditionLabel?: string
 ): string {
   const parts: string[] = [];
   
-  if (conditionType) {
-    parts.push(`Based on ${usedCount} ${conditionType.toUpperCase()} sales`);
+  if (conditionLabel) {
+    parts.push(`Based on ${usedCount} ${conditionLabel.toUpperCase()} sales`);
   } else {
     parts.push(`Based on ${usedCount} comparable sales`);
   }
@@ -550,12 +933,43 @@ function buildMethodology(
     parts.push(`with ${adjNames} adjustments applied`);
   }
 
-  parts.push('using time-weighted rolling average');
+  parts.push(estimateDescription);
 
   return parts.join(' ');
 }
 
-function createEmptyResult(reason: string): ValuationResult {
+/**
+ * Comparables used in the estimate first, by the share they account for,
+ * then the dropped ones with the reason
+ */
+function explainComparables(
+  scored: ScoredComparable[],
+  dropped: Map<ScoredComparable, Pick<ExplainedComparable, 'status' | 'reason'>>,
+  shares: Map<ScoredComparable, number>
+): ExplainedComparable[] {
+  const usedExplained = [...shares]
+    .map(([c, weightShare]) => {
+      return {
+        ...c,
+        status: 'used' as const,
+        weightShare,
+        reason: `${Math.round(weightShare * 100)}% of the estimate (${c.similarityScore}% similar, ${Math.round(c.timeWeight * 100)}% recency weight)`,
+      };
+    })
+    .sort((a, b) => b.weightShare - a.weightShare);
+
+  const droppedExplained = scored
+    .filter(c => dropped.has(c))
+    .map(c => ({ ...c, ...dropped.get(c)!, weightShare: 0 }));
+
+  return [...usedExplained, ...droppedExplained];
+}
+
+function createEmptyValuation(
+  reason: string,
+  configVersion: string,
+  scoredComparables: ExplainedComparable[] = []
+): ValuationResult {
   return {
     estimatedValue: 0,
     confidence: 'low',
@@ -565,5 +979,8 @@ function createEmptyResult(reason: string): ValuationResult {
     comparablesUsed: 0,
     adjustments: [],
     methodology: reason,
+    configVersion,
+    estimator: 'classic',
+    scoredComparables,
   };
 }
@@ -0,0 +1,124 @@
+/**
+ * Wishlist Store
+ *
+ * Persists the games a user wants to buy: in Supabase (`wishlist_items`)
+ * when cloud sync is configured, with a localStorage copy so the list
+ * works offline and without an account.
+ */
+
+import { supabase, isSupabaseConfigured } from '@/lib/supabase';
+import type { Json, WishlistItemRow } from '@/types/database';
+import { WishlistItem, WishlistPriceCheck } from '@/types/wishlist';
+
+function getStorageKey(userId: string | null): string {
+  return userId ? `gil0-wishlist-${userId}` : 'gil0-wishlist';
+}
+
+function readLocal(userId: string | null): WishlistItem[] {
+  try {
+    const stored = localStorage.getItem(getStorageKey(userId));
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error loading wishlist from localStorage:', error);
+    return [];
+  }
+}
+
+function writeLocal(userId: string | null, items: WishlistItem[]): void {
+  try {
+    localStorage.setItem(getStorageKey(userId), JSON.stringify(items));
+  } catch (error) {
+    console.error('Error saving wishlist to localStorage:', error);
+  }
+}
+
+function canUseCloud(userId: string | null): userId is string {
+  return Boolean(userId && isSupabaseConfigured() && supabase);
+}
+
+// ============================================
+// ROW MAPPING
+// ============================================
+
+function rowToItem(row: WishlistItemRow): WishlistItem {
+  return {
+    id: row.id,
+    name: row.name,
+    platform: row.platform,
+    conditionType: row.condition_type as WishlistItem['conditionType'],
+    maxPrice: Number(row.max_price),
+    notes: row.notes || undefined,
+    lastCheck: (row.last_check as unknown as WishlistPriceCheck | null) || undefined,
+    notifiedPrice: row.notified_price === null ? undefined : Number(row.notified_price),
+    createdAt: row.created_at,
+  };
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+export async function loadWishlist(userId: string | null): Promise<WishlistItem[]> {
+  const local = readLocal(userId);
+  if (!canUseCloud(userId)) return local;
+
+  try {
+    const { data, error } = await supabase!
+      .from('wishlist_items')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error loading wishlist:', error);
+      return local;
+    }
+    const items = (data || []).map(rowToItem);
+    writeLocal(userId, items);
+    return items;
+  } catch (error) {
+    console.error('Error loading wishlist:', error);
+    return local;
+  }
+}
+
+export async function saveWishlistItem(userId: string | null, item: WishlistItem): Promise<void> {
+  const items = readLocal(userId);
+  const exists = items.some(i => i.id === item.id);
+  writeLocal(userId, exists ? items.map(i => i.id === item.id ? item : i) : [item, ...items]);
+
+  if (!canUseCloud(userId)) return;
+  try {
+    const { error } = await supabase!.from('wishlist_items').upsert({
+      id: item.id,
+      user_id: userId,
+      name: item.name,
+      platform: item.platform,
+      condition_type: item.conditionType,
+      max_price: item.maxPrice,
+      notes: item.notes || null,
+      last_check: (item.lastCheck as unknown as Json) || null,
+      notified_price: item.notifiedPrice ?? null,
+      created_at: item.createdAt,
+    });
+    if (error) console.error('Error saving wishlist item:', error);
+  } catch (error) {
+    console.error('Error saving wishlist item:', error);
+  }
+}
+
+export async function deleteWishlistItem(userId: string | null, itemId: string): Promise<void> {
+  writeLocal(userId, readLocal(userId).filter(i => i.id !== itemId));
+
+  if (!canUseCloud(userId)) return;
+  try {
+    const { error } = await supabase!
+      .from('wishlist_items')
+      .delete()
+      .eq('id', itemId)
+      .eq('user_id', userId);
+    if (error) console.error('Error deleting wishlist item:', error);
+  } catch (error) {
+    console.error('Error deleting wishlist item:', error);
+  }
+}
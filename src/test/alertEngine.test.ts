@@ -0,0 +1,147 @@
+import { describe, it, expect } from "vitest";
+import { Asset, PriceSnapshot } from "@/types/asset";
+import { AlertCondition, AlertEvent, AlertRule } from "@/types/alerts";
+import { evaluateAlertRules } from "@/services/alertEngine";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const start = Date.UTC(2024, 4, 1);
+const day = (n: number) => new Date(start + n * DAY_MS).toISOString();
+
+const game: Asset = {
+  id: "g1",
+  name: "EarthBound",
+  category: "video-games",
+  imageUrl: "/placeholder.svg",
+  currentValue: 300,
+  purchasePrice: 150,
+  purchaseDate: "2023-01-01",
+  source: "eBay",
+  lastUpdated: "2024-05-01",
+  videoGameDetails: { platform: "SNES", region: "NTSC", conditionType: "cib", gradingCompany: "raw" },
+};
+
+function snapshot(id: string, recordedDay: number, value: number, confidence: PriceSnapshot["confidence"] = "high"): PriceSnapshot {
+  return { id, gameId: game.id, value, source: "pricecharting", confidence, confidenceScore: 80, recordedAt: day(recordedDay) };
+}
+
+function rule(condition: AlertCondition, createdDay = -30): AlertRule {
+  return { id: "rule-1", scope: { type: "collection" }, condition, enabled: true, createdAt: day(createdDay) };
+}
+
+function fired(snapshotId: string, firedDay: number): AlertEvent {
+  return {
+    id: `event-${snapshotId}`,
+    ruleId: "rule-1",
+    gameId: game.id,
+    gameName: game.name,
+    snapshotId,
+    message: "",
+    previousValue: null,
+    currentValue: 0,
+    firedAt: day(firedDay),
+    read: true,
+  };
+}
+
+function evaluate(condition: AlertCondition, snapshots: PriceSnapshot[], history: AlertEvent[] = [], nowDay = 20) {
+  return evaluateAlertRules({ rules: [rule(condition)], games: [game], snapshots, history, now: new Date(day(nowDay)) });
+}
+
+describe("price targets", () => {
+  const above: AlertCondition = { type: "price-above", target: 400 };
+
+  it("fires when the value crosses the target", () => {
+    const events = evaluate(above, [snapshot("s1", 1, 300), snapshot("s2", 2, 450)]);
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ ruleId: "rule-1", snapshotId: "s2", previousValue: 300, currentValue: 450 });
+  });
+
+  it("fires the first time the target is met even without a crossing", () => {
+    expect(evaluate(above, [snapshot("s1", 1, 450), snapshot("s2", 2, 500)])).toHaveLength(1);
+  });
+
+  it("does not re-fire while the value stays past the target", () => {
+    expect(evaluate(above, [snapshot("s1", 1, 300), snapshot("s2", 2, 450)], [fired("s2", 2)])).toEqual([]);
+    expect(evaluate(above, [snapshot("s1", 1, 300), snapshot("s2", 2, 450), snapshot("s3", 3, 500)], [fired("s2", 2)])).toEqual([]);
+  });
+
+  it("fires again after falling back and crossing once more", () => {
+    const snapshots = [snapshot("s1", 1, 300), snapshot("s2", 2, 450), snapshot("s3", 3, 350), snapshot("s4", 4, 420)];
+
+    expect(evaluate(above, snapshots, [fired("s2", 2)]).map(e => e.snapshotId)).toEqual(["s4"]);
+  });
+
+  it("fires downwards for price-below", () => {
+    const below: AlertCondition = { type: "price-below", target: 200 };
+
+    expect(evaluate(below, [snapshot("s1", 1, 300), snapshot("s2", 2, 250)])).toEqual([]);
+    expect(evaluate(below, [snapshot("s1", 1, 300), snapshot("s2", 2, 180)])).toHaveLength(1);
+  });
+
+  it("ignores valuations recorded before the rule existed", () => {
+    const events = evaluateAlertRules({
+      rules: [rule(above, 5)],
+      games: [game],
+      snapshots: [snapshot("s1", 1, 300), snapshot("s2", 2, 450)],
+      history: [],
+      now: new Date(day(20)),
+    });
+
+    expect(events).toEqual([]);
+  });
+});
+
+describe("percent change", () => {
+  const risesWithinWeek: AlertCondition = { type: "percent-change", percent: 20, direction: "up", windowDays: 7 };
+
+  it("measures against the value at the start of the window", () => {
+    const events = evaluate(risesWithinWeek, [snapshot("s1", 0, 100), snapshot("s2", 5, 110), snapshot("s3", 10, 130)]);
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ snapshotId: "s3", previousValue: 100, message: "Up 30.0% to $130" });
+  });
+
+  it("ignores movement from before the window", () => {
+    expect(evaluate(risesWithinWeek, [snapshot("s1", 0, 100), snapshot("s2", 5, 125), snapshot("s3", 14, 130)])).toEqual([]);
+  });
+
+  it("falls back to the oldest value inside the window", () => {
+    const events = evaluate(risesWithinWeek, [snapshot("s1", 8, 100), snapshot("s2", 10, 125)]);
+
+    expect(events.map(e => e.previousValue)).toEqual([100]);
+  });
+
+  it("only fires in the watched direction", () => {
+    const falling = [snapshot("s1", 0, 130), snapshot("s2", 10, 100)];
+
+    expect(evaluate(risesWithinWeek, falling)).toEqual([]);
+    expect(evaluate({ ...risesWithinWeek, direction: "either" }, falling)).toHaveLength(1);
+  });
+
+  it("waits a window after firing before firing again", () => {
+    const snapshots = [snapshot("s1", 0, 100), snapshot("s2", 10, 130), snapshot("s3", 12, 170)];
+
+    expect(evaluate(risesWithinWeek, snapshots, [fired("s2", 10)], 12)).toEqual([]);
+    expect(evaluate(risesWithinWeek, snapshots, [fired("s2", 10)], 18).map(e => e.snapshotId)).toEqual(["s3"]);
+  });
+});
+
+describe("confidence drop", () => {
+  const belowHigh: AlertCondition = { type: "confidence-drop", below: "high" };
+
+  it("fires when confidence falls below the level", () => {
+    const events = evaluate(belowHigh, [snapshot("s1", 1, 300, "high"), snapshot("s2", 2, 300, "medium")]);
+
+    expect(events).toHaveLength(1);
+    expect(events[0].message).toBe("Valuation confidence fell from high to medium");
+  });
+
+  it("does not fire while confidence was already below the level", () => {
+    expect(evaluate(belowHigh, [snapshot("s1", 1, 300, "medium"), snapshot("s2", 2, 300, "low")])).toEqual([]);
+  });
+
+  it("needs a previous valuation to compare with", () => {
+    expect(evaluate(belowHigh, [snapshot("s1", 1, 300, "low")])).toEqual([]);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { deliverAlertPushes } from "../../api/_lib/alertPushes";
+import { sendWebPush } from "../../api/_lib/webPush";
+
+vi.mock("../../api/_lib/webPush", () => ({ sendWebPush: vi.fn() }));
+
+type Row = Record<string, unknown>;
+
+// Just enough of the Supabase query builder for the push sender: filters,
+// updates and deletes against in-memory tables
+function createFakeSupabase(tables: Record<string, Row[]>) {
+  const from = (table: string) => {
+    const filters: Array<(row: Row) => boolean> = [];
+    let operation: "select" | "update" | "delete" = "select";
+    let changes: Row = {};
+
+    const builder = {
+      select: () => builder,
+      update: (values: Row) => {
+        operation = "update";
+        changes = values;
+        return builder;
+      },
+      delete: () => {
+        operation = "delete";
+        return builder;
+      },
+      eq: (column: string, value: unknown) => (filters.push(row => row[column] === value), builder),
+      is: (column: string, value: unknown) => (filters.push(row => row[column] === value), builder),
+      in: (column: string, values: unknown[]) => (filters.push(row => values.includes(row[column])), builder),
+      gte: (column: string, value: string) => (filters.push(row => String(row[column]) >= value), builder),
+      then: (resolve: (result: { data: Row[]; error: null }) => unknown) => {
+        const rows = tables[table].filter(row => filters.every(matches => matches(row)));
+        if (operation === "update") rows.forEach(row => Object.assign(row, changes));
+        if (operation === "delete") tables[table] = tables[table].filter(row => !rows.includes(row));
+        return Promise.resolve({ data: rows, error: null }).then(resolve);
+      },
+    };
+    return builder;
+  };
+  return { from } as unknown as Parameters<typeof deliverAlertPushes>[0];
+}
+
+const vapid = { subject: "mailto:test@example.com", publicKey: "public", privateKey: "private" };
+const now = new Date("2024-05-01T12:00:00.000Z");
+
+function event(id: string, firedAt = "2024-05-01T11:00:00.000Z"): Row {
+  return { id, user_id: "user_1", game_id: "game-1", game_name: "Chrono Trigger", message: "Rose above $400", fired_at: firedAt, pushed_at: null };
+}
+
+function subscription(id: string): Row {
+  return { id, user_id: "user_1", endpoint: `https://push.example.com/${id}`, p256dh: "key", auth: "secret" };
+}
+
+describe("deliverAlertPushes", () => {
+  beforeEach(() => {
+    vi.mocked(sendWebPush).mockReset();
+  });
+
+  it("marks only events that reached a device", async () => {
+    const tables = { alert_events: [event("e1"), event("e2")], push_subscriptions: [subscription("s1"), subscription("s2")] };
+    vi.mocked(sendWebPush).mockImplementation(async (target, payload) => {
+      const ok = target.endpoint.endsWith("s2") && JSON.parse(payload).tag === "e1";
+      return { status: ok ? 201 : 500, ok, gone: false };
+    });
+
+    const result = await deliverAlertPushes(createFakeSupabase(tables), "user_1", vapid, ["e1", "e2"], now);
+
+    expect(result).toEqual({ sent: 1, removed: 0, pending: 1 });
+    expect(tables.alert_events.map(e => [e.id, e.pushed_at])).toEqual([
+      ["e1", now.toISOString()],
+      ["e2", null],
+    ]);
+  });
+
+  it("retries recent events left pending by an earlier run", async () => {
+    const tables = {
+      alert_events: [event("old", "2024-04-29T12:00:00.000Z"), event("earlier"), event("new")],
+      push_subscriptions: [subscription("s1")],
+    };
+    vi.mocked(sendWebPush).mockResolvedValue({ status: 201, ok: true, gone: false });
+
+    const result = await deliverAlertPushes(createFakeSupabase(tables), "user_1", vapid, ["new"], now);
+
+    expect(result.sent).toBe(2);
+    expect(tables.alert_events.filter(e => e.pushed_at).map(e => e.id)).toEqual(["earlier", "new"]);
+  });
+
+  it("drops expired subscriptions without marking the event", async () => {
+    const tables = { alert_events: [event("e1")], push_subscriptions: [subscription("s1")] };
+    vi.mocked(sendWebPush).mockResolvedValue({ status: 410, ok: false, gone: true });
+
+    const result = await deliverAlertPushes(createFakeSupabase(tables), "user_1", vapid, ["e1"], now);
+
+    expect(result).toEqual({ sent: 0, removed: 1, pending: 1 });
+    expect(tables.push_subscriptions).toEqual([]);
+    expect(tables.alert_events[0].pushed_at).toBeNull();
+  });
+});
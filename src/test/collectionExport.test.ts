@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { Asset } from "@/types/asset";
+import { escapeCSV, exportToCSV } from "@/utils/collectionExport";
+import { buildImportRows, parseCSV, suggestMapping } from "@/utils/collectionImport";
+
+const awkwardGame: Asset = {
+  id: "g1",
+  name: 'Pokémon "Blue", Player\'s Choice',
+  category: "video-games",
+  imageUrl: "data:image/png;base64,AAAA",
+  currentValue: 120.5,
+  purchasePrice: 45,
+  purchaseDate: "2023-03-15",
+  source: "Garage sale,\nMain St.",
+  lastUpdated: "2024-05-01",
+  videoGameDetails: { platform: "Game Boy", region: "PAL", conditionType: "loose", gradingCompany: "raw" },
+};
+
+const gradedCard: Asset = {
+  id: "c1",
+  name: "Charizard",
+  category: "trading-cards",
+  imageUrl: "https://example.com/charizard.jpg",
+  currentValue: 5000,
+  purchasePrice: 1200,
+  purchaseDate: "2022-11-02",
+  source: "eBay",
+  lastUpdated: "2024-05-01",
+  tradingCardDetails: { cardGame: "pokemon", setName: "Base Set", cardNumber: "4/102", gradingCompany: "PSA", grade: 9 },
+};
+
+describe("escapeCSV", () => {
+  it("quotes only values that need it and doubles quotes", () => {
+    expect(escapeCSV("Chrono Trigger")).toBe("Chrono Trigger");
+    expect(escapeCSV(12.5)).toBe("12.5");
+    expect(escapeCSV(undefined)).toBe("");
+    expect(escapeCSV("a,b")).toBe('"a,b"');
+    expect(escapeCSV('say "hi"')).toBe('"say ""hi"""');
+    expect(escapeCSV("line\nbreak")).toBe('"line\nbreak"');
+  });
+});
+
+describe("exportToCSV", () => {
+  it("parses back to the values written", () => {
+    const file = parseCSV(exportToCSV([awkwardGame, gradedCard]));
+
+    expect(file.rows).toHaveLength(2);
+    expect(file.rows[0]).toMatchObject({
+      Name: awkwardGame.name,
+      Source: awkwardGame.source,
+      "Purchase Price": "45",
+      "Current Value": "120.5",
+      "Grading Company": "",
+      // Inline photos are left out of the spreadsheet
+      "Image URL": "",
+    });
+    expect(file.rows[1]).toMatchObject({ Set: "Base Set", "Card Number": "4/102", "Grading Company": "PSA", Grade: "9" });
+  });
+
+  it("re-imports as the same games", () => {
+    const file = parseCSV(exportToCSV([awkwardGame, gradedCard]));
+    const rows = buildImportRows(file, suggestMapping(file.headers), []);
+
+    expect(rows.map(r => r.errors)).toEqual([[], []]);
+    expect(rows[0].asset).toMatchObject({
+      name: awkwardGame.name,
+      category: "video-games",
+      purchasePrice: 45,
+      currentValue: 120.5,
+      purchaseDate: "2023-03-15",
+      source: awkwardGame.source,
+      videoGameDetails: awkwardGame.videoGameDetails,
+    });
+    expect(rows[1].asset).toMatchObject({
+      name: "Charizard",
+      category: "trading-cards",
+      imageUrl: gradedCard.imageUrl,
+      tradingCardDetails: { setName: "Base Set", cardNumber: "4/102", gradingCompany: "PSA", grade: 9 },
+    });
+  });
+});
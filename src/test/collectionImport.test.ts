@@ -0,0 +1,119 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { Asset } from "@/types/asset";
+import { buildImportRows, getMissingRequiredFields, parseCSV, suggestMapping } from "@/utils/collectionImport";
+
+const existing: Asset = {
+  id: "g1",
+  name: "Chrono Trigger",
+  category: "video-games",
+  imageUrl: "/placeholder.svg",
+  currentValue: 300,
+  purchasePrice: 150,
+  purchaseDate: "2023-01-01",
+  source: "eBay",
+  lastUpdated: "2023-01-01",
+  videoGameDetails: { platform: "SNES", region: "NTSC", conditionType: "cib", gradingCompany: "raw" },
+};
+
+describe("suggestMapping", () => {
+  it("maps PriceCharting export headers onto fields", () => {
+    const mapping = suggestMapping(["product-name", "console-name", "condition-string", "price-paid", "date-entered"]);
+
+    expect(mapping).toEqual({
+      name: "product-name",
+      platform: "console-name",
+      conditionType: "condition-string",
+      purchasePrice: "price-paid",
+      purchaseDate: "date-entered",
+    });
+    expect(getMissingRequiredFields(mapping)).toEqual([]);
+  });
+
+  it("matches headers case-insensitively and uses each column once", () => {
+    const mapping = suggestMapping(["Card_Name", "Set", "Card #", "Grader", "Grade", "Cost", "Value"]);
+
+    expect(mapping).toEqual({
+      name: "Card_Name",
+      setName: "Set",
+      cardNumber: "Card #",
+      gradingCompany: "Grader",
+      grade: "Grade",
+      purchasePrice: "Cost",
+      currentValue: "Value",
+    });
+  });
+
+  it("reports required fields no column feeds", () => {
+    expect(getMissingRequiredFields(suggestMapping(["Title", "Console"])).map(f => f.field)).toEqual(["purchasePrice"]);
+  });
+});
+
+describe("buildImportRows", () => {
+  const importCSV = (csv: string) => {
+    const file = parseCSV(csv);
+    return buildImportRows(file, suggestMapping(file.headers), [existing]);
+  };
+
+  const timeZone = process.env.TZ;
+  afterEach(() => {
+    if (timeZone === undefined) delete process.env.TZ;
+    else process.env.TZ = timeZone;
+  });
+
+  it("keeps ISO and US-style dates on the day written west of UTC", () => {
+    // UTC midnight is still the previous day here
+    process.env.TZ = "America/Los_Angeles";
+    const rows = importCSV([
+      "Title,Console,Paid,Date",
+      "EarthBound,SNES,$250.00,2023-03-15",
+      "Super Metroid,SNES,80,03/15/2023",
+      "Zelda,NES,40,2024-01-01",
+    ].join("\n"));
+
+    expect(rows.map(r => r.asset?.purchaseDate)).toEqual(["2023-03-15", "2023-03-15", "2024-01-01"]);
+  });
+
+  it("rejects impossible dates instead of rolling them over", () => {
+    const [row] = importCSV("Title,Console,Paid,Date\nEarthBound,SNES,250,2023-02-30");
+
+    expect(row.asset).toBeNull();
+    expect(row.errors).toEqual(['Invalid purchase date "2023-02-30"']);
+  });
+
+  it("normalizes amounts, conditions and regions", () => {
+    const [row] = importCSV('Title,Console,Condition,Region,Paid,Value\nEarthBound,SNES,Loose cart,PAL,"$1,250.50",€1400');
+
+    expect(row.errors).toEqual([]);
+    expect(row.asset).toMatchObject({
+      purchasePrice: 1250.5,
+      currentValue: 1400,
+      videoGameDetails: { platform: "SNES", region: "PAL", conditionType: "loose", gradingCompany: "raw" },
+    });
+  });
+
+  it("validates rows and numbers them from the header", () => {
+    const rows = importCSV([
+      "Title,Console,Paid,Grader",
+      ",SNES,10,",
+      "Mega Man X,SNES,abc,",
+      "Contra,NES,30,PSA",
+    ].join("\n"));
+
+    expect(rows.map(r => [r.rowNumber, r.errors])).toEqual([
+      [2, ["Missing name"]],
+      [3, ['Invalid purchase price "abc"']],
+      [4, ['Unknown grading company "PSA"']],
+    ]);
+  });
+
+  it("flags duplicates of the collection and of earlier rows", () => {
+    const rows = importCSV([
+      "Title,Console,Paid",
+      "Chrono Trigger,SNES,120",
+      "Secret of Mana,SNES,60",
+      "secret of  mana,SNES,65",
+    ].join("\n"));
+
+    expect(rows.map(r => r.duplicate)).toEqual(["existing", null, "file"]);
+  });
+});
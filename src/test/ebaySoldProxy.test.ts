@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { generateKeyPairSync, sign } from "node:crypto";
+import { GET } from "../../api/ebay-sold";
+import { searchSoldItems } from "../../api/_lib/ebaySold";
+
+vi.mock("../../api/_lib/ebaySold", () => ({
+  getEbayCredentials: () => ({ clientId: "id", clientSecret: "secret" }),
+  searchSoldItems: vi.fn(),
+}));
+
+const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+
+function sessionToken(): string {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+  const claims = { sub: "user_1", exp: Math.floor(Date.now() / 1000) + 60 };
+  const unsigned = `${encode({ alg: "RS256", typ: "JWT" })}.${encode(claims)}`;
+  return `${unsigned}.${sign("sha256", Buffer.from(unsigned), privateKey).toString("base64url")}`;
+}
+
+function request(query: string, signedIn = true): Request {
+  return new Request(`http://localhost/api/ebay-sold?${query}`, {
+    headers: signedIn ? { authorization: `Bearer ${sessionToken()}` } : {},
+  });
+}
+
+// Parameters the proxy passed on to eBay
+const forwarded = () => Object.fromEntries(vi.mocked(searchSoldItems).mock.calls[0][0]);
+
+describe("GET /api/ebay-sold", () => {
+  beforeEach(() => {
+    vi.stubEnv("CLERK_JWT_KEY", publicKey.export({ type: "spki", format: "pem" }).toString());
+    vi.mocked(searchSoldItems).mockReset().mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("refuses callers without a session", async () => {
+    const response = await GET(request("q=EarthBound", false));
+
+    expect(response.status).toBe(401);
+    expect(searchSoldItems).not.toHaveBeenCalled();
+  });
+
+  it("refuses to run without the Clerk key", async () => {
+    vi.stubEnv("CLERK_JWT_KEY", "");
+
+    expect((await GET(request("q=EarthBound"))).status).toBe(503);
+  });
+
+  it("passes the app's search through for signed-in users", async () => {
+    const response = await GET(request("q=EarthBound+SNES&category_ids=139973,187&filter=conditionIds:{1000|3000}&limit=20"));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Cache-Control")).toContain("private");
+    expect(forwarded()).toEqual({
+      q: "EarthBound SNES",
+      limit: "20",
+      category_ids: "139973,187",
+      filter: "conditionIds:{1000|3000}",
+    });
+  });
+
+  it("clamps the limit", async () => {
+    await GET(request("q=EarthBound&limit=10000"));
+    expect(forwarded().limit).toBe("50");
+
+    vi.mocked(searchSoldItems).mockClear();
+    await GET(request("q=EarthBound&limit=0"));
+    expect(forwarded().limit).toBe("1");
+
+    vi.mocked(searchSoldItems).mockClear();
+    await GET(request("q=EarthBound&limit=lots"));
+    expect(forwarded().limit).toBe("50");
+  });
+
+  it("rejects filters and categories the app never sends", async () => {
+    expect((await GET(request("q=EarthBound&filter=price:[0..1],sellers:{someone}"))).status).toBe(400);
+    expect((await GET(request("q=EarthBound&category_ids=1;2"))).status).toBe(400);
+    expect(searchSoldItems).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,902 @@
+import { BacktestCase } from "@/services/valuationBacktest";
+
+/**
+ * Sold listings recorded through 2024, one case per asset and condition.
+ * Replayed by the valuation backtest; add cases rather than editing
+ * prices so results stay comparable across tuning changes.
+ */
+export const soldComparables: BacktestCase[] = [
+  {
+    metadata: {
+      category: "video-games",
+      name: "EarthBound",
+      platform: "SNES",
+      region: "NTSC",
+      conditionType: "cib"
+    },
+    sales: [
+      {
+        name: "EarthBound Super Nintendo SNES Complete w/ Box Manual",
+        soldPrice: 383.58,
+        soldDate: "2024-01-04",
+        source: "eBay",
+        condition: "Used"
+      },
+      {
+        name: "EarthBound SNES CIB Complete in Box",
+        soldPrice: 324.94,
+        soldDate: "2024-03-27",
+        source: "eBay",
+        condition: "Used"
+      },
+      {
+        name: "EarthBound SNES CIB Complete in Box",
+        soldPrice: 358.16,
+        soldDate: "2024-04-05",
+        source: "eBay",
+        condition: "Used"
+      },
+      {
+        name: "Earthbound SNES complete CIB NTSC USA",
+        soldPrice: 373.6,
+        soldDate: "2024-04-22",
+        source: "eBay",
+        condition: "Used"
+      },
+      {
+        name: "Earthbound SNES complete CIB NTSC USA",
+        soldPrice: 455.15,
+        soldDate: "2024-05-02",
+        source: "eBay",
+        condition: "Used"
+      },
+      {
+        name: "EarthBound Super Nintendo SNES Complete w/ Box Manual",
+        soldPrice: 366.02,
+        soldDate: "2024-05-26",
+        source: "eBay",
+        condition: "Used"
+      },
+      {
+        name: "EarthBound Super Nintendo SNES Complete w/ Box Manual",
+        soldPrice: 337.37,
+        soldDate: "2024-08-04",
+        source: "eBay",
+        condition: "Used"
+      },
+      {
+        name: "Earthbound SNES complete CIB NTSC USA",
+        soldPrice: 344.79,
+        soldDate: "2024-09-02",
+        source: "eBay",
+        condition: "Used"
+      },
+      {
+        name: "EarthBound Super Nintendo SNES Complete w/ Box Manual",
+        soldPrice: 331.67,
+        soldDate: "2024-09-04",
+        source: "eBay",
+        condition: "Used"
+      },
+      {
+        name: "EarthBound SNES CIB Complete in Box",
+        soldPrice: 356.02,
+        soldDate: "2024-09-17",
+        source: "eBay",
+        condition: "Used"
+      },
+      {
+        name: "EarthBound SNES CIB Complete in Box",
+        soldPrice: 401.09,
+        soldDate: "2024-09-21",
+        source: "eBay",
+        condition: "Used"
+      },
+      {
+        name: "EarthBound SNES CIB Complete in Box",
+        soldPrice: 424.11,
+        soldDate: "2024-09-29",
+        source: "eBay",
+        condition: "Used"
+      },
+      {
+        name: "EarthBound Super Nintendo SNES Complete w/ Box Manual",
+        soldPrice: 317.68,
+        soldDate: "2024-11-23",
+        source: "eBay",
+        condition: "Used"
+      },
+      {
+        name: "EarthBound Super Nintendo SNES Complete w/ Box Manual",
+        soldPrice: 395.44,
+        soldDate: "2024-12-21",
+        source: "eBay",
+        condition: "Used"
+      }
+    ]
+  },
+  {
+    metadata: {
+      category: "video-games",
+      name: "Chrono Trigger",
+      platform: "SNES",
+      region: "NTSC",
+      conditionType: "loose"
+    },
+    sales: [
+      {
+        name: "Chrono Trigger SNES Loose Cart Only",
+        soldPrice: 50.67,
+        soldDate: "2024-01-22",
+        source: "eBay",
+        condition: "Pre-owned"
+      },
+      {
+        name: "Chrono Trigger Super Nintendo SNES cartridge only authentic",
+        soldPrice: 64.1,
+        soldDate: "2024-02-08",
+        source: "eBay",
+        condition: "Pre-owned"
+      },
+      {
+        name: "Chrono Trigger Super Nintendo SNES cartridge only authentic",
+        soldPrice: 73.95,
+        soldDate: "2024-02-10",
+        source: "eBay",
+        condition: "Pre-owned"
+      },
+      {
+        name: "Chrono Trigger Super Nintendo SNES cartridge only authentic",
+        soldPrice: 56.56,
+        soldDate: "2024-03-05",
+        source: "eBay",
+        condition: "Pre-owned"
+      },
+      {
+        name: "Chrono Trigger Super Nintendo SNES cartridge only authentic",
+        soldPrice: 58.24,
+        soldDate: "2024-03-20",
+        source: "eBay",
+        condition: "Pre-owned"
+      },
+      {
+        name: "Chrono Trigger Super Nintendo SNES cartridge only authentic",
+        soldPrice: 68.16,
+        soldDate: "2024-04-07",
+        source: "eBay",
+        condition: "Pre-owned"
+      },
+      {
+        name: "Chrono Trigger SNES Loose Cart Only",
+        soldPrice: 69.28,
+        soldDate: "2024-04-13",
+        source: "eBay",
+        condition: "Pre-owned"
+      },
+      {
+        name: "Chrono Trigger SNES Loose Cart Only",
+        soldPrice: 62.9,
+        soldDate: "2024-04-18",
+        source: "eBay",
+        condition: "Pre-owned"
+      },
+      {
+        name: "Chrono Trigger Super Nintendo SNES cartridge only authentic",
+        soldPrice: 68.68,
+        soldDate: "2024-05-02",
+        source: "eBay",
+        condition: "Pre-owned"
+      },
+      {
+        name: "Chrono Trigger SNES Loose Cart Only",
+        soldPrice: 73.13,
+        soldDate: "2024-08-30",
+        source: "eBay",
+        condition: "Pre-owned"
+      },
+      {
+        name: "Chrono Trigger SNES game only tested",
+        soldPrice: 56.45,
+        soldDate: "2024-09-07",
+        source: "eBay",
+        condition: "Pre-owned"
+      },
+      {
+        name: "Chrono Trigger SNES game only tested",
+        soldPrice: 65.46,
+        soldDate: "2024-10-15",
+        source: "eBay",
+        condition: "Pre-owned"
+      },
+      {
+        name: "Chrono Trigger SNES game only tested",
+        soldPrice: 66.7,
+        soldDate: "2024-10-26",
+        source: "eBay",
+        condition: "Pre-owned"
+      },
+      {
+        name: "Chrono Trigger SNES game only tested",
+        soldPrice: 74.41,
+        soldDate: "2024-12-04",
+        source: "eBay",
+        condition: "Pre-owned"
+      },
+      {
+        name: "Chrono Trigger SNES game only tested",
+        soldPrice: 73.02,
+        soldDate: "2024-12-08",
+        source: "eBay",
+        condition: "Pre-owned"
+      },
+      {
+        name: "Chrono Trigger Super Nintendo SNES cartridge only authentic",
+        soldPrice: 72.0,
+        soldDate: "2024-12-12",
+        source: "eBay",
+        condition: "Pre-owned"
+      }
+    ]
+  },
+  {
+    metadata: {
+      category: "video-games",
+      name: "Super Mario 64",
+      platform: "N64",
+      conditionType: "sealed"
+    },
+    sales: [
+      {
+        name: "Super Mario 64 N64 brand new sealed",
+        soldPrice: 679.95,
+        soldDate: "2024-02-05",
+        source: "eBay",
+        condition: "New"
+      },
+      {
+        name: "Super Mario 64 N64 brand new sealed",
+        soldPrice: 1106.7,
+        soldDate: "2024-02-24",
+        source: "eBay",
+        condition: "New"
+      },
+      {
+        name: "Super Mario 64 Nintendo 64 N64 New Sealed H-seam",
+        soldPrice: 1309.25,
+        soldDate: "2024-03-29",
+        source: "eBay",
+        condition: "New"
+      },
+      {
+        name: "Super Mario 64 N64 Factory Sealed",
+        soldPrice: 607.62,
+        soldDate: "2024-04-01",
+        source: "eBay",
+        condition: "New"
+      },
+      {
+        name: "Super Mario 64 Nintendo 64 N64 New Sealed H-seam",
+        soldPrice: 1179.03,
+        soldDate: "2024-05-07",
+        source: "eBay",
+        condition: "New"
+      },
+      {
+        name: "Super Mario 64 Nintendo 64 N64 New Sealed H-seam",
+        soldPrice: 861.35,
+        soldDate: "2024-06-07",
+        source: "eBay",
+        condition: "New"
+      },
+      {
+        name: "Super Mario 64 N64 Factory Sealed",
+        soldPrice: 627.54,
+        soldDate: "2024-06-21",
+        source: "eBay",
+        condition: "New"
+      },
+      {
+        name: "Super Mario 64 N64 Factory Sealed",
+        soldPrice: 921.48,
+        soldDate: "2024-06-28",
+        source: "eBay",
+        condition: "New"
+      },
+      {
+        name: "Super Mario 64 Nintendo 64 N64 New Sealed H-seam",
+        soldPrice: 739.06,
+        soldDate: "2024-08-09",
+        source: "eBay",
+        condition: "New"
+      },
+      {
+        name: "Super Mario 64 N64 brand new sealed",
+        soldPrice: 886.42,
+        soldDate: "2024-11-03",
+        source: "eBay",
+        condition: "New"
+      }
+    ]
+  },
+  {
+    metadata: {
+      category: "video-games",
+      name: "Pokemon Emerald",
+      platform: "GBA",
+      region: "NTSC",
+      conditionType: "loose"
+    },
+    sales: [
+      {
+        name: "Pokemon Emerald Game Boy Advance GBA loose",
+        soldPrice: 117.42,
+        soldDate: "2024-01-20",
+        source: "eBay",
+        condition: "Pre-owned"
+      },
+      {
+        name: "Pokemon Emerald Game Boy Advance GBA loose",
+        soldPrice: 67.98,
+        soldDate: "2024-01-29",
+        source: "eBay",
+        condition: "Pre-owned"
+      },
+      {
+        name: "Pokemon Emerald Game Boy Advance GBA loose",
+        soldPrice: 79.83,
+        soldDate: "2024-02-01",
+        source: "eBay",
+        condition: "Pre-owned"
+      },
+      {
+        name: "Pokemon Emerald Game Boy Advance GBA loose",
+        soldPrice: 90.8,
+        soldDate: "2024-02-07",
+        source: "eBay",
+        condition: "Pre-owned"
+      },
+      {
+        name: "Pokemon Emerald GBA Loose Cart Only Authentic",
+        soldPrice: 104.36,
+        soldDate: "2024-03-30",
+        source: "eBay",
+        condition: "Pre-owned"
+      },
+      {
+        name: "Pokemon Emerald Version GBA cartridge only",
+        soldPrice: 85.81,
+        soldDate: "2024-05-09",
+        source: "eBay",
+        condition: "Pre-owned"
+      },
+      {
+        name: "Pokemon Emerald Game Boy Advance GBA loose",
+        soldPrice: 101.57,
+        soldDate: "2024-05-14",
+        source: "eBay",
+        condition: "Pre-owned"
+      },
+      {
+        name: "Pokemon Emerald Version GBA cartridge only",
+        soldPrice: 68.39,
+        soldDate: "2024-05-29",
+        source: "eBay",
+        condition: "Pre-owned"
+      },
+      {
+        name: "Pokemon Emerald Version GBA cartridge only",
+        soldPrice: 66.23,
+        soldDate: "2024-05-30",
+        source: "eBay",
+        condition: "Pre-owned"
+      },
+      {
+        name: "Pokemon Emerald Version GBA cartridge only",
+        soldPrice: 98.71,
+        soldDate: "2024-06-24",
+        source: "eBay",
+        condition: "Pre-owned"
+      },
+      {
+        name: "Pokemon Emerald GBA Loose Cart Only Authentic",
+        soldPrice: 108.9,
+        soldDate: "2024-07-22",
+        source: "eBay",
+        condition: "Pre-owned"
+      },
+      {
+        name: "Pokemon Emerald Game Boy Advance GBA loose",
+        soldPrice: 111.84,
+        soldDate: "2024-08-04",
+        source: "eBay",
+        condition: "Pre-owned"
+      },
+      {
+        name: "Pokemon Emerald Game Boy Advance GBA loose",
+        soldPrice: 120.61,
+        soldDate: "2024-09-06",
+        source: "eBay",
+        condition: "Pre-owned"
+      },
+      {
+        name: "Pokemon Emerald GBA Loose Cart Only Authentic",
+        soldPrice: 105.08,
+        soldDate: "2024-11-28",
+        source: "eBay",
+        condition: "Pre-owned"
+      },
+      {
+        name: "Pokemon Emerald GBA Loose Cart Only Authentic",
+        soldPrice: 102.85,
+        soldDate: "2024-12-05",
+        source: "eBay",
+        condition: "Pre-owned"
+      }
+    ]
+  },
+  {
+    metadata: {
+      category: "video-games",
+      name: "Metroid Prime",
+      platform: "GameCube",
+      conditionType: "cib"
+    },
+    sales: [
+      {
+        name: "Metroid Prime Nintendo GameCube complete with manual",
+        soldPrice: 49.64,
+        soldDate: "2024-01-15",
+        source: "eBay",
+        condition: "Used"
+      },
+      {
+        name: "Metroid Prime GameCube CIB Complete",
+        soldPrice: 43.86,
+        soldDate: "2024-02-20",
+        source: "eBay",
+        condition: "Used"
+      },
+      {
+        name: "Metroid Prime GameCube Complete in Box",
+        soldPrice: 40.58,
+        soldDate: "2024-03-11",
+        source: "eBay",
+        condition: "Used"
+      },
+      {
+        name: "Metroid Prime Nintendo GameCube complete with manual",
+        soldPrice: 41.91,
+        soldDate: "2024-03-13",
+        source: "eBay",
+        condition: "Used"
+      },
+      {
+        name: "Metroid Prime Nintendo GameCube complete with manual",
+        soldPrice: 48.33,
+        soldDate: "2024-03-15",
+        source: "eBay",
+        condition: "Used"
+      },
+      {
+        name: "Metroid Prime GameCube CIB Complete",
+        soldPrice: 38.12,
+        soldDate: "2024-04-07",
+        source: "eBay",
+        condition: "Used"
+      },
+      {
+        name: "Metroid Prime GameCube CIB Complete",
+        soldPrice: 42.28,
+        soldDate: "2024-05-13",
+        source: "eBay",
+        condition: "Used"
+      },
+      {
+        name: "Metroid Prime GameCube Complete in Box",
+        soldPrice: 43.53,
+        soldDate: "2024-07-24",
+        source: "eBay",
+        condition: "Used"
+      },
+      {
+        name: "Metroid Prime GameCube Complete in Box",
+        soldPrice: 46.54,
+        soldDate: "2024-07-28",
+        source: "eBay",
+        condition: "Used"
+      },
+      {
+        name: "Metroid Prime GameCube Complete in Box",
+        soldPrice: 39.15,
+        soldDate: "2024-08-05",
+        source: "eBay",
+        condition: "Used"
+      },
+      {
+        name: "Metroid Prime GameCube Complete in Box",
+        soldPrice: 39.24,
+        soldDate: "2024-10-28",
+        source: "eBay",
+        condition: "Used"
+      },
+      {
+        name: "Metroid Prime GameCube CIB Complete",
+        soldPrice: 46.58,
+        soldDate: "2024-11-26",
+        source: "eBay",
+        condition: "Used"
+      },
+      {
+        name: "Metroid Prime Nintendo GameCube complete with manual",
+        soldPrice: 31.93,
+        soldDate: "2024-12-17",
+        source: "eBay",
+        condition: "Used"
+      }
+    ]
+  },
+  {
+    metadata: {
+      category: "video-games",
+      name: "Panzer Dragoon Saga",
+      platform: "Saturn",
+      region: "NTSC",
+      conditionType: "cib"
+    },
+    sales: [
+      {
+        name: "Panzer Dragoon Saga Sega Saturn CIB Complete",
+        soldPrice: 428.3,
+        soldDate: "2024-02-04",
+        source: "eBay",
+        condition: "Used"
+      },
+      {
+        name: "Panzer Dragoon Saga Saturn complete with manual all discs",
+        soldPrice: 457.59,
+        soldDate: "2024-04-01",
+        source: "eBay",
+        condition: "Used"
+      },
+      {
+        name: "Panzer Dragoon Saga Saturn complete with manual all discs",
+        soldPrice: 650.2,
+        soldDate: "2024-05-01",
+        source: "eBay",
+        condition: "Used"
+      },
+      {
+        name: "Panzer Dragoon Saga Sega Saturn Complete in Box USA",
+        soldPrice: 694.85,
+        soldDate: "2024-05-11",
+        source: "eBay",
+        condition: "Used"
+      },
+      {
+        name: "Panzer Dragoon Saga Sega Saturn Complete in Box USA",
+        soldPrice: 598.29,
+        soldDate: "2024-07-24",
+        source: "eBay",
+        condition: "Used"
+      },
+      {
+        name: "Panzer Dragoon Saga Sega Saturn CIB Complete",
+        soldPrice: 449.46,
+        soldDate: "2024-08-27",
+        source: "eBay",
+        condition: "Used"
+      },
+      {
+        name: "Panzer Dragoon Saga Sega Saturn Complete in Box USA",
+        soldPrice: 525.96,
+        soldDate: "2024-10-19",
+        source: "eBay",
+        condition: "Used"
+      },
+      {
+        name: "Panzer Dragoon Saga Sega Saturn Complete in Box USA",
+        soldPrice: 550.01,
+        soldDate: "2024-12-24",
+        source: "eBay",
+        condition: "Used"
+      }
+    ]
+  },
+  {
+    metadata: {
+      category: "video-games",
+      name: "Castlevania Symphony of the Night",
+      platform: "PS1",
+      conditionType: "cib"
+    },
+    sales: [
+      {
+        name: "Castlevania Symphony of the Night PlayStation PS1 complete w/ manual",
+        soldPrice: 116.4,
+        soldDate: "2024-02-04",
+        source: "eBay",
+        condition: "Used"
+      },
+      {
+        name: "Castlevania Symphony of the Night PS1 CIB Complete",
+        soldPrice: 106.59,
+        soldDate: "2024-04-09",
+        source: "eBay",
+        condition: "Used"
+      },
+      {
+        name: "Castlevania Symphony of the Night PS1 Black Label Complete",
+        soldPrice: 112.95,
+        soldDate: "2024-04-15",
+        source: "eBay",
+        condition: "Used"
+      },
+      {
+        name: "Castlevania Symphony of the Night PlayStation PS1 complete w/ manual",
+        soldPrice: 81.89,
+        soldDate: "2024-05-31",
+        source: "eBay",
+        condition: "Used"
+      },
+      {
+        name: "Castlevania Symphony of the Night PS1 Black Label Complete",
+        soldPrice: 60.66,
+        soldDate: "2024-06-09",
+        source: "eBay",
+        condition: "Used"
+      },
+      {
+        name: "Castlevania Symphony of the Night PS1 Black Label Complete",
+        soldPrice: 98.04,
+        soldDate: "2024-06-16",
+        source: "eBay",
+        condition: "Used"
+      },
+      {
+        name: "Castlevania Symphony of the Night PS1 Black Label Complete",
+        soldPrice: 94.35,
+        soldDate: "2024-06-17",
+        source: "eBay",
+        condition: "Used"
+      },
+      {
+        name: "Castlevania Symphony of the Night PlayStation PS1 complete w/ manual",
+        soldPrice: 82.38,
+        soldDate: "2024-07-02",
+        source: "eBay",
+        condition: "Used"
+      },
+      {
+        name: "Castlevania Symphony of the Night PS1 CIB Complete",
+        soldPrice: 106.32,
+        soldDate: "2024-09-23",
+        source: "eBay",
+        condition: "Used"
+      },
+      {
+        name: "Castlevania Symphony of the Night PS1 CIB Complete",
+        soldPrice: 97.64,
+        soldDate: "2024-09-28",
+        source: "eBay",
+        condition: "Used"
+      },
+      {
+        name: "Castlevania Symphony of the Night PlayStation PS1 complete w/ manual",
+        soldPrice: 99.99,
+        soldDate: "2024-10-16",
+        source: "eBay",
+        condition: "Used"
+      },
+      {
+        name: "Castlevania Symphony of the Night PS1 Black Label Complete",
+        soldPrice: 99.18,
+        soldDate: "2024-11-13",
+        source: "eBay",
+        condition: "Used"
+      },
+      {
+        name: "Castlevania Symphony of the Night PlayStation PS1 complete w/ manual",
+        soldPrice: 89.14,
+        soldDate: "2024-11-17",
+        source: "eBay",
+        condition: "Used"
+      },
+      {
+        name: "Castlevania Symphony of the Night PlayStation PS1 complete w/ manual",
+        soldPrice: 95.41,
+        soldDate: "2024-12-26",
+        source: "eBay",
+        condition: "Used"
+      }
+    ]
+  },
+  {
+    metadata: {
+      category: "trading-cards",
+      name: "Charizard",
+      cardGame: "Pokemon",
+      setName: "Base Set",
+      cardNumber: "4/102",
+      year: 1999,
+      variant: "Holo",
+      gradingCompany: "PSA",
+      grade: 9
+    },
+    sales: [
+      {
+        name: "Charizard 4/102 Base Set Holo 1999 Pokemon PSA 9",
+        soldPrice: 1113.16,
+        soldDate: "2024-01-22",
+        source: "eBay",
+        condition: "Graded"
+      },
+      {
+        name: "1999 Pokemon Base Set Charizard Holo 4/102 PSA 9 MINT",
+        soldPrice: 1492.93,
+        soldDate: "2024-02-15",
+        source: "eBay",
+        condition: "Graded"
+      },
+      {
+        name: "Charizard Holo Base Set 4/102 PSA 9 Pokemon",
+        soldPrice: 1236.2,
+        soldDate: "2024-03-31",
+        source: "eBay",
+        condition: "Graded"
+      },
+      {
+        name: "Charizard Holo Base Set 4/102 PSA 9 Pokemon",
+        soldPrice: 1243.87,
+        soldDate: "2024-04-28",
+        source: "eBay",
+        condition: "Graded"
+      },
+      {
+        name: "Charizard Holo Base Set 4/102 PSA 9 Pokemon",
+        soldPrice: 1745.02,
+        soldDate: "2024-05-03",
+        source: "eBay",
+        condition: "Graded"
+      },
+      {
+        name: "1999 Pokemon Base Set Charizard Holo 4/102 PSA 9 MINT",
+        soldPrice: 1270.45,
+        soldDate: "2024-06-18",
+        source: "eBay",
+        condition: "Graded"
+      },
+      {
+        name: "1999 Pokemon Base Set Charizard Holo 4/102 PSA 9 MINT",
+        soldPrice: 1583.61,
+        soldDate: "2024-07-18",
+        source: "eBay",
+        condition: "Graded"
+      },
+      {
+        name: "1999 Pokemon Base Set Charizard Holo 4/102 PSA 9 MINT",
+        soldPrice: 2098.15,
+        soldDate: "2024-07-25",
+        source: "eBay",
+        condition: "Graded"
+      },
+      {
+        name: "Charizard Holo Base Set 4/102 PSA 9 Pokemon",
+        soldPrice: 1262.14,
+        soldDate: "2024-09-04",
+        source: "eBay",
+        condition: "Graded"
+      },
+      {
+        name: "Charizard 4/102 Base Set Holo 1999 Pokemon PSA 9",
+        soldPrice: 1305.1,
+        soldDate: "2024-09-08",
+        source: "eBay",
+        condition: "Graded"
+      },
+      {
+        name: "1999 Pokemon Base Set Charizard Holo 4/102 PSA 9 MINT",
+        soldPrice: 1736.09,
+        soldDate: "2024-11-21",
+        source: "eBay",
+        condition: "Graded"
+      },
+      {
+        name: "Charizard Holo Base Set 4/102 PSA 9 Pokemon",
+        soldPrice: 1798.6,
+        soldDate: "2024-12-03",
+        source: "eBay",
+        condition: "Graded"
+      }
+    ]
+  },
+  {
+    metadata: {
+      category: "trading-cards",
+      name: "Blastoise",
+      cardGame: "Pokemon",
+      setName: "Base Set",
+      cardNumber: "2/102",
+      year: 1999,
+      variant: "Holo"
+    },
+    sales: [
+      {
+        name: "Pokemon Blastoise Holo Base Set 2/102 unlimited",
+        soldPrice: 134.46,
+        soldDate: "2024-02-12",
+        source: "eBay",
+        condition: "Ungraded"
+      },
+      {
+        name: "Blastoise 2/102 Base Set Holo 1999 Pokemon",
+        soldPrice: 119.17,
+        soldDate: "2024-02-18",
+        source: "eBay",
+        condition: "Ungraded"
+      },
+      {
+        name: "1999 Pokemon Base Set Blastoise 2/102 Holo Rare",
+        soldPrice: 109.97,
+        soldDate: "2024-02-27",
+        source: "eBay",
+        condition: "Ungraded"
+      },
+      {
+        name: "1999 Pokemon Base Set Blastoise 2/102 Holo Rare",
+        soldPrice: 99.14,
+        soldDate: "2024-03-17",
+        source: "eBay",
+        condition: "Ungraded"
+      },
+      {
+        name: "Blastoise 2/102 Base Set Holo 1999 Pokemon",
+        soldPrice: 123.72,
+        soldDate: "2024-04-01",
+        source: "eBay",
+        condition: "Ungraded"
+      },
+      {
+        name: "Pokemon Blastoise Holo Base Set 2/102 unlimited",
+        soldPrice: 129.2,
+        soldDate: "2024-06-05",
+        source: "eBay",
+        condition: "Ungraded"
+      },
+      {
+        name: "Blastoise 2/102 Base Set Holo 1999 Pokemon",
+        soldPrice: 62.45,
+        soldDate: "2024-07-13",
+        source: "eBay",
+        condition: "Ungraded"
+      },
+      {
+        name: "1999 Pokemon Base Set Blastoise 2/102 Holo Rare",
+        soldPrice: 114.68,
+        soldDate: "2024-08-26",
+        source: "eBay",
+        condition: "Ungraded"
+      },
+      {
+        name: "1999 Pokemon Base Set Blastoise 2/102 Holo Rare",
+        soldPrice: 102.31,
+        soldDate: "2024-09-26",
+        source: "eBay",
+        condition: "Ungraded"
+      },
+      {
+        name: "Pokemon Blastoise Holo Base Set 2/102 unlimited",
+        soldPrice: 119.22,
+        soldDate: "2024-10-12",
+        source: "eBay",
+        condition: "Ungraded"
+      },
+      {
+        name: "Pokemon Blastoise Holo Base Set 2/102 unlimited",
+        soldPrice: 117.04,
+        soldDate: "2024-11-15",
+        source: "eBay",
+        condition: "Ungraded"
+      }
+    ]
+  }
+];
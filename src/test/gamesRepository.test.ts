@@ -0,0 +1,217 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { Asset } from "@/types/asset";
+import type { GameRow } from "@/types/database";
+import {
+  createLocalGamesRepository,
+  createMemoryGameTable,
+  createTableGamesRepository,
+  gameRowToAsset,
+  GamesRepository,
+} from "@/services/gamesRepository";
+
+const videoGame: Asset = {
+  id: "local-1",
+  name: "Chrono Trigger",
+  category: "video-games",
+  imageUrl: "https://example.com/chrono.jpg",
+  photos: ["https://example.com/front.jpg", "https://example.com/back.jpg"],
+  currentValue: 450,
+  estimatedValue: 470,
+  purchasePrice: 300,
+  purchaseDate: "2023-04-02",
+  costs: [
+    { id: "cost-1", type: "shipping", amount: 18.5, date: "2023-04-02" },
+    { id: "cost-2", type: "grading", amount: 150, date: "2023-06-15", note: "WATA submission" },
+  ],
+  source: "eBay",
+  lastUpdated: "2024-05-01",
+  updatedAt: "2024-05-01T12:00:00.000Z",
+  lastValuedAt: "2024-04-30T08:00:00.000Z",
+  videoGameDetails: {
+    platform: "SNES",
+    region: "NTSC",
+    conditionType: "sealed",
+    gradingCompany: "WATA",
+    grade: 9.4,
+    sealRating: "A+",
+    boxCondition: "near-mint",
+  },
+};
+
+const tradingCard: Asset = {
+  id: "local-2",
+  name: "Charizard",
+  category: "trading-cards",
+  imageUrl: "https://example.com/charizard.jpg",
+  currentValue: 1200,
+  purchasePrice: 800,
+  purchaseDate: "2022-11-20",
+  lot: { id: "lot-1", name: "Binder from a card show", totalCost: 2400, method: "market" },
+  source: "Card show",
+  lastUpdated: "2024-05-02",
+  updatedAt: "2024-05-02T09:30:00.000Z",
+  tradingCardDetails: {
+    cardGame: "pokemon",
+    setName: "Base Set",
+    cardNumber: "4/102",
+    year: 1999,
+    variant: "Holo",
+    language: "English",
+    gradingCompany: "PSA",
+    grade: 9,
+  },
+};
+
+const backends: Array<[string, () => GamesRepository]> = [
+  ["memory table", () => createTableGamesRepository(createMemoryGameTable(), "user-1")],
+  ["localStorage", () => createLocalGamesRepository("gil0-test-games")],
+];
+
+describe.each(backends)("GamesRepository (%s)", (_name, createRepository) => {
+  let repository: GamesRepository;
+
+  beforeEach(() => {
+    localStorage.clear();
+    repository = createRepository();
+  });
+
+  it("round-trips every video game field", async () => {
+    const stored = await repository.insert(videoGame);
+    expect(stored.id).not.toBe(videoGame.id);
+    expect(stored).toEqual({ ...videoGame, id: stored.id });
+    expect(await repository.list()).toEqual([stored]);
+  });
+
+  it("round-trips every trading card field", async () => {
+    const stored = await repository.insert(tradingCard);
+    expect(stored).toEqual({ ...tradingCard, id: stored.id });
+    expect((await repository.list())[0].videoGameDetails).toBeUndefined();
+  });
+
+  it("round-trips a sale", async () => {
+    const sale = { price: 650, date: "2024-06-10", fees: 84.5, shipping: 12, venue: "eBay" };
+    const stored = await repository.insert({ ...videoGame, sale });
+    expect((await repository.list())[0].sale).toEqual(sale);
+
+    await repository.update({ ...stored, sale: undefined });
+    expect((await repository.list())[0].sale).toBeUndefined();
+  });
+
+  it("inserts many games in input order", async () => {
+    const stored = await repository.insertMany([videoGame, tradingCard]);
+    expect(stored.map(a => a.name)).toEqual(["Chrono Trigger", "Charizard"]);
+    expect(new Set(stored.map(a => a.id)).size).toBe(2);
+  });
+
+  it("updates a game and stamps a new updatedAt", async () => {
+    const stored = await repository.insert(videoGame);
+    const updated = await repository.update({ ...stored, currentValue: 500, photos: undefined });
+
+    expect(updated).not.toBeNull();
+    expect(updated!.currentValue).toBe(500);
+    expect(updated!.updatedAt).not.toBe(videoGame.updatedAt);
+
+    const [listed] = await repository.list();
+    expect(listed.currentValue).toBe(500);
+    expect(listed.photos).toBeUndefined();
+    expect(listed.videoGameDetails).toEqual(videoGame.videoGameDetails);
+  });
+
+  it("returns null when updating a game that doesn't exist", async () => {
+    expect(await repository.update({ ...videoGame, id: "missing" })).toBeNull();
+  });
+
+  it("removes a game", async () => {
+    const [first, second] = await repository.insertMany([videoGame, tradingCard]);
+    await repository.remove(first.id);
+    expect((await repository.list()).map(a => a.id)).toEqual([second.id]);
+  });
+});
+
+describe("createTableGamesRepository", () => {
+  it("only sees the user's own games", async () => {
+    const table = createMemoryGameTable();
+    await createTableGamesRepository(table, "user-1").insert(videoGame);
+    const other = createTableGamesRepository(table, "user-2");
+
+    expect(await other.list()).toEqual([]);
+    expect(await other.update({ ...videoGame })).toBeNull();
+  });
+});
+
+describe("gameRowToAsset", () => {
+  const row: GameRow = {
+    id: "game-1",
+    user_id: "user-1",
+    name: "EarthBound",
+    category: "",
+    platform: "SNES",
+    region: "",
+    condition_type: "",
+    grading_company: null,
+    grade: "0" as unknown as number,
+    seal_rating: null,
+    box_condition: null,
+    details: {},
+    purchase_price: "120.50" as unknown as number,
+    current_value: "300" as unknown as number,
+    estimated_value: null,
+    purchase_date: "2021-06-01",
+    source: "Garage sale",
+    image_url: null,
+    photos: [],
+    costs: [],
+    lot: null,
+    last_valued_at: null,
+    sale_price: null,
+    sale_date: null,
+    sale_fees: null,
+    sale_shipping: null,
+    sale_venue: null,
+    created_at: "2021-06-01T10:00:00.000Z",
+    updated_at: "2024-01-15T10:00:00.000Z",
+  };
+
+  it("applies defaults for legacy and empty columns", () => {
+    const asset = gameRowToAsset(row);
+    expect(asset.category).toBe("video-games");
+    expect(asset.imageUrl).toBe("/placeholder.svg");
+    expect(asset.photos).toBeUndefined();
+    expect(asset.costs).toBeUndefined();
+    expect(asset.estimatedValue).toBeUndefined();
+    expect(asset.lastUpdated).toBe("2024-01-15");
+    expect(asset.videoGameDetails).toMatchObject({ region: "NTSC", conditionType: "cib", gradingCompany: "raw" });
+  });
+
+  it("parses numeric columns returned as strings and keeps a zero grade", () => {
+    const asset = gameRowToAsset(row);
+    expect(asset.purchasePrice).toBe(120.5);
+    expect(asset.currentValue).toBe(300);
+    expect(asset.videoGameDetails?.grade).toBe(0);
+  });
+});
+
+describe("createLocalGamesRepository device cache", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("shares the stored list between the cache and the repository methods", async () => {
+    const repository = createLocalGamesRepository("gil0-test-games");
+    repository.replace([videoGame, tradingCard]);
+
+    expect(repository.read()).toEqual([videoGame, tradingCard]);
+    expect(await repository.list()).toEqual([videoGame, tradingCard]);
+
+    await repository.remove(videoGame.id);
+    expect(createLocalGamesRepository("gil0-test-games").read()).toEqual([tradingCard]);
+  });
+
+  it("logs instead of throwing when the list can't be saved", () => {
+    const full = { ...localStorage, setItem: () => { throw new Error("QuotaExceededError"); } } as Storage;
+    const repository = createLocalGamesRepository("gil0-test-games", full);
+    const logged = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(() => repository.replace([videoGame])).not.toThrow();
+    expect(logged).toHaveBeenCalled();
+    logged.mockRestore();
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import { MarketComparable } from "@/types/asset";
+import { calculateValuation, VideoGameMetadata } from "@/services/valuationEngine";
+import {
+  fitGradedPremiums,
+  getGradedPremium,
+  getListingSpec,
+  getModelPremium,
+  GradedSale,
+  parseGradedListing,
+} from "@/services/gradedPricing";
+import { DEFAULT_VALUATION_CONFIG, getGradeMultiplier } from "@/services/valuationConfig";
+
+const config = DEFAULT_VALUATION_CONFIG;
+
+function graded(company: string, grade: number, sealRating: string, price: number): GradedSale {
+  return { spec: { company, grade, sealRating }, price };
+}
+
+function listing(name: string, soldPrice: number, soldDate = "2024-02-20"): MarketComparable {
+  return { name, soldPrice, soldDate, source: "eBay", condition: "New" };
+}
+
+const superMetroid: VideoGameMetadata = {
+  category: "video-games",
+  name: "Super Metroid",
+  platform: "SNES",
+  conditionType: "sealed",
+  gradingCompany: "WATA",
+  grade: 9.4,
+  sealRating: "A+",
+};
+
+describe("parseGradedListing", () => {
+  it("reads the company, grade and seal rating", () => {
+    expect(parseGradedListing("Super Metroid SNES WATA 9.4 A+ Sealed")).toEqual({ company: "WATA", grade: 9.4, sealRating: "A+" });
+    expect(parseGradedListing("Super Metroid WATA 9.6/A++")).toEqual({ company: "WATA", grade: 9.6, sealRating: "A++" });
+    expect(parseGradedListing("Super Metroid CGC 9.8 A seal")).toEqual({ company: "CGC", grade: 9.8, sealRating: "A" });
+  });
+
+  it("scales VGA grades and ignores words that look like ratings", () => {
+    expect(parseGradedListing("Zelda VGA 85+ Gold")).toEqual({ company: "VGA", grade: 8.5, sealRating: undefined });
+    expect(parseGradedListing("Zelda WATA 9.4 a link to the past")?.sealRating).toBeUndefined();
+    expect(parseGradedListing("Zelda A Link to the Past Factory Sealed")).toBeNull();
+  });
+
+  it("treats graded listings without a readable grade as a typical graded copy", () => {
+    expect(getListingSpec({ name: "Super Metroid WATA Graded Sealed" }, config))
+      .toEqual({ company: config.graded.baseCompany, grade: config.baseGrade });
+    expect(getListingSpec({ name: "Super Metroid (Graded)", condition: "Graded" }, config))
+      .toEqual({ company: config.graded.baseCompany, grade: config.baseGrade });
+    expect(getListingSpec({ name: "Super Metroid (Sealed - base for graded estimate)", condition: "New/Sealed" }, config))
+      .toBeNull();
+  });
+});
+
+describe("getGradedPremium", () => {
+  it("multiplies the grade ladder by seal rating and company premiums", () => {
+    const wata = getGradedPremium({ company: "WATA", grade: 9.4, sealRating: "A" }, config);
+
+    expect(wata).toBeCloseTo(getGradeMultiplier(9.4, config));
+    expect(getGradedPremium({ company: "WATA", grade: 9.4, sealRating: "A++" }, config)).toBeCloseTo(wata * 1.6);
+    expect(getGradedPremium({ company: "VGA", grade: 9.4, sealRating: "A" }, config)).toBeCloseTo(wata * 0.85);
+    expect(getGradedPremium(null, config)).toBe(1);
+  });
+});
+
+describe("fitGradedPremiums", () => {
+  it("learns company and seal premiums from graded sales", () => {
+    const sales = [
+      graded("WATA", 9.4, "A", 1000), graded("WATA", 9.4, "A", 1040), graded("WATA", 9.4, "A", 980),
+      graded("CGC", 9.4, "A", 500), graded("CGC", 9.4, "A", 520), graded("CGC", 9.4, "A", 490),
+      graded("WATA", 9.4, "A++", 3000), graded("WATA", 9.4, "A++", 2900), graded("WATA", 9.4, "A++", 3100),
+    ];
+
+    const model = fitGradedPremiums(sales, config);
+    const premium = (company: string, sealRating: string) =>
+      getModelPremium(model, { company, grade: 9.4, sealRating }, config);
+
+    expect(model.learned).toEqual(["seal", "company"]);
+    expect(premium("CGC", "A") / premium("WATA", "A")).toBeCloseTo(0.5, 1);
+    expect(premium("WATA", "A++") / premium("WATA", "A")).toBeCloseTo(3, 1);
+    // No sales at this rating, so it keeps the table value
+    expect(premium("WATA", "B") / premium("WATA", "A")).toBeCloseTo(0.75);
+  });
+
+  it("keeps the table when no factor has two levels with enough sales", () => {
+    const model = fitGradedPremiums([graded("WATA", 9.4, "A+", 1000), graded("VGA", 8.5, "", 400)], config);
+
+    expect(model.learned).toEqual([]);
+    expect(getModelPremium(model, { company: "VGA", grade: 9.8 }, config))
+      .toBeCloseTo(getGradedPremium({ company: "VGA", grade: 9.8 }, config));
+  });
+});
+
+describe("calculateValuation graded video games", () => {
+  const asOf = new Date("2024-03-01");
+
+  it("rescales sales of other grades to the asset's spec and explains the premium", () => {
+    const comparables = [
+      listing("Super Metroid SNES WATA 9.4 A+ Sealed", 1200),
+      listing("Super Metroid SNES WATA 9.4 A+ Sealed", 1250, "2024-02-22"),
+      listing("Super Metroid SNES WATA 9.8 A++ Sealed", 4000, "2024-02-24"),
+    ];
+
+    const result = calculateValuation(superMetroid, comparables, { asOf, config });
+    const rescaled = result.scoredComparables.find(c => c.soldPrice === 4000);
+    const gradeAdjustment = result.adjustments.find(a => a.type === "grade");
+
+    expect(rescaled?.adjustedPrice).toBeCloseTo(
+      4000 * getGradedPremium({ company: "WATA", grade: 9.4, sealRating: "A+" }, config) /
+        getGradedPremium({ company: "WATA", grade: 9.8, sealRating: "A++" }, config)
+    );
+    expect(result.estimatedValue).toBeGreaterThan(1000);
+    expect(result.estimatedValue).toBeLessThan(1500);
+    expect(gradeAdjustment?.reason).toContain("WATA 9.4 A+");
+    expect(gradeAdjustment?.factor).toBeCloseTo(
+      getGradedPremium({ company: "WATA", grade: 9.4, sealRating: "A+" }, config) /
+        getGradedPremium({ company: "WATA", grade: config.baseGrade }, config)
+    );
+  });
+
+  it("leaves ungraded sales of ungraded games alone", () => {
+    const comparables = [listing("Super Metroid SNES Factory Sealed", 300), listing("Super Metroid SNES New Sealed", 320)];
+
+    const result = calculateValuation({ ...superMetroid, gradingCompany: "raw" }, comparables, { asOf, config });
+
+    expect(result.scoredComparables.every(c => c.adjustedPrice === c.soldPrice)).toBe(true);
+    expect(result.adjustments.some(a => a.type === "grade")).toBe(false);
+  });
+});
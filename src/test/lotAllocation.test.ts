@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { Asset, LotPurchase } from "@/types/asset";
+import { allocateLotCost, reallocateLot } from "@/utils/lotAllocation";
+
+const lot: LotPurchase = { id: "lot-1", name: "Garage sale box", totalCost: 100, method: "market" };
+
+function item(id: string, purchasePrice: number, marketValue?: number, currentValue = 0): Asset {
+  return {
+    id,
+    name: `Game ${id}`,
+    category: "video-games",
+    imageUrl: "/placeholder.svg",
+    currentValue,
+    purchasePrice,
+    purchaseDate: "2024-01-06",
+    source: "Garage sale",
+    lastUpdated: "2024-01-06",
+    lot: { ...lot, marketValue },
+  };
+}
+
+const sold = (asset: Asset): Asset => ({
+  ...asset,
+  sale: { price: 80, date: "2024-03-01", fees: 0, shipping: 0, venue: "eBay" },
+});
+
+const sum = (values: number[]) => Math.round(values.reduce((total, v) => total + v, 0) * 100) / 100;
+
+describe("allocateLotCost", () => {
+  it("splits to the cent and always adds up to the total", () => {
+    expect(allocateLotCost(100, [1, 1, 1], "even")).toEqual([33.34, 33.33, 33.33]);
+    expect(sum(allocateLotCost(99.99, [37, 12.5, 50.49, 3], "market"))).toBe(99.99);
+  });
+
+  it("counts items without a market value as an average item", () => {
+    expect(allocateLotCost(90, [40, 0, 20], "market")).toEqual([40, 30, 20]);
+    expect(allocateLotCost(90, [0, 0, 0], "market")).toEqual([30, 30, 30]);
+  });
+
+  it("keeps manual amounts as entered", () => {
+    expect(allocateLotCost(100, [60, 25.5, -5], "manual")).toEqual([60, 25.5, 0]);
+  });
+});
+
+describe("reallocateLot", () => {
+  it("weights by market value at purchase, not today's value", () => {
+    const items = [item("a", 50, 300, 900), item("b", 50, 100, 100)];
+
+    expect(reallocateLot(items, "market").map(a => a.purchasePrice)).toEqual([75, 25]);
+  });
+
+  it("leaves sold items alone and splits the rest over owned ones", () => {
+    const soldItem = sold(item("a", 60, 300));
+    const items = [soldItem, item("b", 20, 100), item("c", 20, 300)];
+
+    const result = reallocateLot(items, "even");
+
+    expect(result[0]).toBe(soldItem);
+    expect(result.slice(1).map(a => a.purchasePrice)).toEqual([20, 20]);
+    expect(result.slice(1).map(a => a.lot?.marketValue)).toEqual([100, 300]);
+    expect(reallocateLot(items, "market").slice(1).map(a => a.purchasePrice)).toEqual([10, 30]);
+  });
+
+  it("ignores manual amounts entered for sold items", () => {
+    const items = [sold(item("a", 60)), item("b", 20), item("c", 20)];
+
+    const result = reallocateLot(items, "manual", [0, 15, 25]);
+
+    expect(result.map(a => a.purchasePrice)).toEqual([60, 15, 25]);
+    expect(result[1].lot?.method).toBe("manual");
+  });
+});
@@ -0,0 +1,306 @@
+import { describe, it, expect, afterEach, beforeEach, vi } from "vitest";
+import { mkdtemp, readdir, readFile, rm } from "node:fs/promises";
+import net from "node:net";
+import os from "node:os";
+import path from "node:path";
+import { Asset } from "@/types/asset";
+import { buildCollectionDigest, renderDigestEmail } from "@/utils/collectionDigest";
+import {
+  buildMimeMessage,
+  createFileTransport,
+  createSmtpTransport,
+  MailMessage,
+  parseMailbox,
+} from "../../api/_lib/mailTransport";
+
+const message: MailMessage = {
+  from: "gil0 <digest@gil0.app>",
+  to: "collector@example.com",
+  subject: "Your collection this week: +$30.00 (+10.0%)",
+  html: "<p>Héllo</p>",
+  text: "Héllo",
+};
+
+// Decoded text and html parts of a multipart/alternative message
+function readParts(eml: string): Record<string, string> {
+  const boundary = eml.match(/boundary="([^"]+)"/)?.[1];
+  const parts = eml.split(`--${boundary}`).slice(1, -1);
+  return Object.fromEntries(parts.map(part => {
+    const [headers, body] = part.split("\r\n\r\n");
+    const type = headers.match(/Content-Type: text\/(\w+)/)?.[1] || "";
+    return [type, Buffer.from(body.replace(/\r\n/g, ""), "base64").toString("utf8")];
+  }));
+}
+
+// ============================================
+// LOCAL SMTP SERVER STAND-IN
+// Answers just enough of the protocol to take one message, and records
+// every command the client sent.
+// ============================================
+
+interface StandInOptions {
+  starttls?: boolean;
+  // Hang up instead of answering EHLO
+  closeOnHello?: boolean;
+}
+
+async function createSmtpStandIn({ starttls = false, closeOnHello = false }: StandInOptions = {}) {
+  const commands: string[] = [];
+  const messages: string[] = [];
+
+  const server = net.createServer(socket => {
+    let buffer = "";
+    let data: string[] | null = null;
+    socket.write("220 localhost ready\r\n");
+
+    socket.on("data", chunk => {
+      buffer += chunk.toString("utf8");
+      let newline: number;
+      while ((newline = buffer.indexOf("\r\n")) >= 0) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+
+        if (data) {
+          if (line === ".") {
+            messages.push(data.join("\r\n"));
+            data = null;
+            socket.write("250 queued\r\n");
+          } else {
+            data.push(line);
+          }
+          continue;
+        }
+
+        commands.push(line);
+        const verb = line.split(" ")[0].toUpperCase();
+        if (verb === "EHLO") {
+          if (closeOnHello) {
+            socket.end();
+            return;
+          }
+          socket.write(`250-localhost\r\n${starttls ? "250-STARTTLS\r\n" : ""}250 AUTH PLAIN\r\n`);
+        } else if (verb === "AUTH") {
+          socket.write("235 authenticated\r\n");
+        } else if (verb === "DATA") {
+          data = [];
+          socket.write("354 go ahead\r\n");
+        } else if (verb === "QUIT") {
+          socket.end("221 bye\r\n");
+        } else {
+          socket.write("250 ok\r\n");
+        }
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as net.AddressInfo;
+
+  return {
+    port,
+    commands,
+    messages,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+}
+
+describe("buildMimeMessage", () => {
+  it("encodes non-ASCII headers and both body parts", () => {
+    const eml = buildMimeMessage({ ...message, subject: "Café collection" }, new Date("2024-05-31T12:00:00Z"));
+
+    expect(eml).toContain("Subject: =?UTF-8?B?");
+    expect(eml).toContain("Date: Fri, 31 May 2024 12:00:00 GMT");
+    expect(eml).toMatch(/Message-ID: <[^>]+@gil0\.app>/);
+    expect(readParts(eml)).toEqual({ plain: "Héllo", html: "<p>Héllo</p>" });
+  });
+
+  it("wraps long bodies at 76 characters", () => {
+    const eml = buildMimeMessage({ ...message, text: "x".repeat(500) });
+
+    const bodyLines = eml.split("\r\n").filter(line => /^[A-Za-z0-9+/=]+$/.test(line));
+
+    expect(bodyLines.length).toBeGreaterThan(1);
+    expect(bodyLines.every(line => line.length <= 76)).toBe(true);
+    expect(readParts(eml).plain).toBe("x".repeat(500));
+  });
+});
+
+describe("parseMailbox", () => {
+  it("accepts bare and named addresses", () => {
+    expect(parseMailbox("collector@example.com")).toBe("collector@example.com");
+    expect(parseMailbox("gil0 <digest@gil0.app>")).toBe("digest@gil0.app");
+  });
+
+  it("rejects line breaks and anything that isn't a plain address", () => {
+    expect(() => parseMailbox("collector@example.com\r\nBcc: everyone@example.com")).toThrow(/Invalid email address/);
+    expect(() => parseMailbox("a@example.com>\r\nRCPT TO:<b@example.com")).toThrow(/Invalid email address/);
+    expect(() => parseMailbox("not an address")).toThrow(/Invalid email address/);
+    expect(() => buildMimeMessage({ ...message, to: "x@example.com\nSubject: hi" })).toThrow(/Invalid email address/);
+  });
+});
+
+describe("createFileTransport", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(os.tmpdir(), "gil0-mail-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("writes each message as an .eml file named for the recipient", async () => {
+    await createFileTransport(directory).send(message);
+
+    const files = await readdir(directory);
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatch(/-collector@example\.com\.eml$/);
+
+    const eml = await readFile(path.join(directory, files[0]), "utf8");
+    expect(eml).toContain("To: collector@example.com");
+    expect(readParts(eml).plain).toBe("Héllo");
+  });
+});
+
+describe("createSmtpTransport", () => {
+  it("delivers a message over a plain connection without credentials", async () => {
+    const server = await createSmtpStandIn();
+    try {
+      await createSmtpTransport({ host: "127.0.0.1", port: server.port, secure: false }).send(message);
+
+      expect(server.commands).toEqual([
+        "EHLO gil0",
+        "MAIL FROM:<digest@gil0.app>",
+        "RCPT TO:<collector@example.com>",
+        "DATA",
+        "QUIT",
+      ]);
+      expect(readParts(server.messages[0]).html).toBe("<p>Héllo</p>");
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("refuses to send credentials when the server doesn't offer STARTTLS", async () => {
+    const server = await createSmtpStandIn({ starttls: false });
+    try {
+      const transport = createSmtpTransport({
+        host: "127.0.0.1",
+        port: server.port,
+        secure: false,
+        user: "gil0",
+        pass: "secret",
+      });
+
+      await expect(transport.send(message)).rejects.toThrow(/cleartext/);
+      expect(server.commands.some(command => command.startsWith("AUTH"))).toBe(false);
+      expect(server.messages).toEqual([]);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("checks the recipient before connecting", async () => {
+    const server = await createSmtpStandIn();
+    try {
+      const transport = createSmtpTransport({ host: "127.0.0.1", port: server.port, secure: false });
+
+      await expect(transport.send({ ...message, to: "a@example.com>\r\nDATA" })).rejects.toThrow(/Invalid email address/);
+      expect(server.commands).toEqual([]);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("fails straight away when the server hangs up", async () => {
+    const server = await createSmtpStandIn({ closeOnHello: true });
+    try {
+      const transport = createSmtpTransport({ host: "127.0.0.1", port: server.port, secure: false });
+
+      await expect(transport.send(message)).rejects.toThrow(/closed/);
+    } finally {
+      await server.close();
+    }
+  });
+});
+
+// ============================================
+// DIGEST EMAIL
+// ============================================
+
+function game(id: string, name: string, purchasePrice: number, currentValue: number, extra: Partial<Asset> = {}): Asset {
+  return {
+    id,
+    name,
+    category: "video-games",
+    imageUrl: "/placeholder.svg",
+    currentValue,
+    purchasePrice,
+    purchaseDate: "2024-01-01",
+    source: "eBay",
+    lastUpdated: "2024-05-30",
+    ...extra,
+  };
+}
+
+describe("collection digest email", () => {
+  const now = new Date("2024-05-31T12:00:00.000Z");
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(now);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const digest = () => buildCollectionDigest({
+    games: [
+      game("a", "Chrono Trigger", 100, 150, { lastValuedAt: "2024-05-30T08:00:00.000Z" }),
+      game("b", "Zelda <Gold>", 200, 180),
+      game("c", "EarthBound", 50, 300, { sale: { price: 300, date: "2024-04-01", fees: 0, shipping: 0, venue: "eBay" } }),
+    ],
+    snapshots: [],
+    alerts: [
+      { gameName: "Chrono Trigger", message: "Rose above $140", firedAt: "2024-05-29T09:00:00.000Z" },
+      { gameName: "EarthBound", message: "Rose above $250", firedAt: "2024-05-01T09:00:00.000Z" },
+    ],
+    frequency: "weekly",
+    now,
+  });
+
+  it("sums the period and picks movers, alerts and stale valuations", () => {
+    const result = digest();
+
+    expect(result.itemCount).toBe(2);
+    expect(result.portfolio).toEqual({ startValue: 300, endValue: 330, gain: 30, gainPercentage: 10 });
+    expect(result.topGainers.map(m => m.name)).toEqual(["Chrono Trigger"]);
+    expect(result.topLosers.map(m => [m.name, m.change])).toEqual([["Zelda <Gold>", -20]]);
+    expect(result.alerts.map(a => a.message)).toEqual(["Rose above $140"]);
+    expect(result.staleValuations).toEqual([{ gameId: "b", name: "Zelda <Gold>", lastValuedAt: null }]);
+  });
+
+  it("renders escaped html and a plain text part that the file sink stores", async () => {
+    const email = renderDigestEmail(digest(), { appUrl: "https://gil0.app" });
+
+    expect(email.subject).toBe("Your collection this week: +$30.00 (+10.0%)");
+    expect(email.html).toContain("Zelda &lt;Gold&gt;");
+    expect(email.html).not.toContain("Zelda <Gold>");
+    expect(email.text).toContain("- Zelda <Gold>: -$20.00 (-10.0%)");
+    expect(email.text).toContain("Valuations to refresh\n- Zelda <Gold>");
+
+    vi.useRealTimers();
+    const directory = await mkdtemp(path.join(os.tmpdir(), "gil0-mail-"));
+    try {
+      await createFileTransport(directory).send({ from: message.from, to: message.to, ...email });
+      const [file] = await readdir(directory);
+      const parts = readParts(await readFile(path.join(directory, file), "utf8"));
+
+      expect(parts).toEqual({ plain: email.text, html: email.html });
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
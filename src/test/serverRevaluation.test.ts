@@ -0,0 +1,222 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { Asset } from "@/types/asset";
+import type { GameRow } from "@/types/database";
+import type { PriceLookupResult } from "@/services/priceLookup";
+import { createEmptyLookupResult } from "@/services/priceValuation";
+import { revalueStoredCollections } from "../../api/_lib/serverRevaluation";
+import { sendWebPush } from "../../api/_lib/webPush";
+
+vi.mock("../../api/_lib/webPush", () => ({ sendWebPush: vi.fn() }));
+
+type Row = Record<string, unknown>;
+
+// Just enough of the Supabase query builder for the revaluation job:
+// filters, ordering and limits, updates and inserts against in-memory tables
+function createFakeSupabase(tables: Record<string, Row[]>) {
+  const from = (table: string) => {
+    const filters: Array<(row: Row) => boolean> = [];
+    let operation: "select" | "update" | "insert" | "delete" = "select";
+    let changes: Row = {};
+    let inserted: Row[] = [];
+    let orderBy: { column: string; ascending: boolean } | null = null;
+    let limit = Infinity;
+
+    const builder = {
+      select: () => builder,
+      update: (values: Row) => {
+        operation = "update";
+        changes = values;
+        return builder;
+      },
+      insert: (values: Row | Row[]) => {
+        operation = "insert";
+        inserted = Array.isArray(values) ? values : [values];
+        return builder;
+      },
+      delete: () => {
+        operation = "delete";
+        return builder;
+      },
+      eq: (column: string, value: unknown) => (filters.push(row => row[column] === value), builder),
+      is: (column: string, value: unknown) => (filters.push(row => (row[column] ?? null) === value), builder),
+      in: (column: string, values: unknown[]) => (filters.push(row => values.includes(row[column])), builder),
+      lt: (column: string, value: string) => (filters.push(row => row[column] !== null && String(row[column]) < value), builder),
+      gte: (column: string, value: string) => (filters.push(row => String(row[column]) >= value), builder),
+      order: (column: string, { ascending }: { ascending: boolean }) => ((orderBy = { column, ascending }), builder),
+      limit: (count: number) => ((limit = count), builder),
+      then: (resolve: (result: { data: Row[]; error: null }) => unknown) => {
+        if (operation === "insert") {
+          tables[table].push(...inserted);
+          return Promise.resolve({ data: inserted, error: null }).then(resolve);
+        }
+        let rows = tables[table].filter(row => filters.every(matches => matches(row)));
+        if (orderBy) {
+          const { column, ascending } = orderBy;
+          rows = [...rows].sort((a, b) => String(a[column]).localeCompare(String(b[column])) * (ascending ? 1 : -1));
+        }
+        rows = rows.slice(0, limit);
+        if (operation === "update") rows.forEach(row => Object.assign(row, changes));
+        if (operation === "delete") tables[table] = tables[table].filter(row => !rows.includes(row));
+        return Promise.resolve({ data: rows, error: null }).then(resolve);
+      },
+    };
+    return builder;
+  };
+  return { from } as unknown as Parameters<typeof revalueStoredCollections>[0];
+}
+
+const now = new Date("2024-05-10T06:00:00.000Z");
+
+function gameRow(id: string, lastValuedAt: string | null, extra: Partial<GameRow> = {}): GameRow {
+  return {
+    id,
+    user_id: "user_1",
+    name: `Game ${id}`,
+    category: "video-games",
+    platform: "SNES",
+    region: "NTSC",
+    condition_type: "cib",
+    grading_company: null,
+    grade: null,
+    seal_rating: null,
+    box_condition: null,
+    details: {},
+    purchase_price: 100,
+    current_value: 300,
+    estimated_value: null,
+    purchase_date: "2024-01-01",
+    source: "eBay",
+    image_url: null,
+    photos: [],
+    costs: [],
+    lot: null,
+    sale_price: null,
+    sale_date: null,
+    sale_fees: null,
+    sale_shipping: null,
+    sale_venue: null,
+    last_valued_at: lastValuedAt,
+    created_at: "2024-01-01T00:00:00.000Z",
+    updated_at: "2024-01-01T00:00:00.000Z",
+    ...extra,
+  };
+}
+
+function priced(value: number): PriceLookupResult {
+  return {
+    ...createEmptyLookupResult("Test valuation"),
+    estimatedValue: value,
+    confidence: "high",
+    confidenceScore: 80,
+    source: "pricecharting",
+    providers: ["pricecharting"],
+    lastUpdated: now.toISOString(),
+  };
+}
+
+function emptyTables(games: GameRow[]): Record<string, Row[]> {
+  return { games: games as unknown as Row[], price_snapshots: [], alert_rules: [], alert_events: [], push_subscriptions: [] };
+}
+
+describe("revalueStoredCollections", () => {
+  beforeEach(() => {
+    vi.mocked(sendWebPush).mockReset();
+  });
+
+  it("values owned games that are due, never-valued and stalest first", async () => {
+    const tables = emptyTables([
+      gameRow("fresh", "2024-05-09T20:00:00.000Z"),
+      gameRow("stale", "2024-05-01T06:00:00.000Z"),
+      gameRow("staler", "2024-04-20T06:00:00.000Z"),
+      gameRow("never", null),
+      gameRow("sold", null, { sale_date: "2024-05-01", sale_price: 500 }),
+    ]);
+    const lookup = vi.fn(async (_game: Asset) => priced(450));
+
+    const summary = await revalueStoredCollections(createFakeSupabase(tables), {
+      lookup,
+      shouldContinue: () => true,
+      vapid: null,
+      maxGames: 10,
+      delayMs: 0,
+      now,
+    });
+
+    expect(lookup.mock.calls.map(([game]) => game.id)).toEqual(["never", "staler", "stale"]);
+    expect(summary).toEqual({ valued: 3, failed: 0, remaining: 0, alerts: 0, pushed: 0 });
+    expect(tables.games.filter(g => g.current_value === 450).map(g => g.id)).toEqual(["stale", "staler", "never"]);
+    expect(tables.price_snapshots.map(s => [s.game_id, s.user_id, s.value, s.source])).toEqual([
+      ["never", "user_1", 450, "pricecharting"],
+      ["staler", "user_1", 450, "pricecharting"],
+      ["stale", "user_1", 450, "pricecharting"],
+    ]);
+  });
+
+  it("records nothing for a lookup that found no price", async () => {
+    const tables = emptyTables([gameRow("a", null)]);
+
+    const summary = await revalueStoredCollections(createFakeSupabase(tables), {
+      lookup: async () => createEmptyLookupResult("No pricing data found for this item"),
+      shouldContinue: () => true,
+      vapid: null,
+      maxGames: 10,
+      delayMs: 0,
+      now,
+    });
+
+    expect(summary.failed).toBe(1);
+    expect(tables.games[0].last_valued_at).toBeNull();
+    expect(tables.price_snapshots).toEqual([]);
+  });
+
+  it("stops when the budget runs out and leaves the rest for the next run", async () => {
+    const tables = emptyTables([gameRow("a", null), gameRow("b", null), gameRow("c", null)]);
+    let lookups = 0;
+
+    const summary = await revalueStoredCollections(createFakeSupabase(tables), {
+      lookup: async () => (lookups++, priced(450)),
+      shouldContinue: () => lookups < 2,
+      vapid: null,
+      maxGames: 10,
+      delayMs: 0,
+      now,
+    });
+
+    expect(summary).toMatchObject({ valued: 2, remaining: 1 });
+    expect(tables.games.map(g => g.last_valued_at)).toEqual([now.toISOString(), now.toISOString(), null]);
+  });
+
+  it("fires the owner's alert rules on the new snapshots and pushes them", async () => {
+    const tables = emptyTables([gameRow("a", "2024-05-01T06:00:00.000Z")]);
+    tables.price_snapshots.push({
+      id: "s0", game_id: "a", user_id: "user_1", value: 300, source: "pricecharting",
+      confidence: "high", confidence_score: 80, config_version: null, recorded_at: "2024-05-01T06:00:00.000Z",
+    });
+    tables.alert_rules.push({
+      id: "rule-1", user_id: "user_1", enabled: true, created_at: "2024-04-01T00:00:00.000Z",
+      scope: { type: "collection" }, condition: { type: "price-above", target: 400 },
+    });
+    tables.push_subscriptions.push({ id: "sub-1", user_id: "user_1", endpoint: "https://push.example.com/1", p256dh: "key", auth: "secret" });
+    vi.mocked(sendWebPush).mockResolvedValue({ status: 201, ok: true, gone: false });
+
+    const summary = await revalueStoredCollections(createFakeSupabase(tables), {
+      lookup: async () => priced(450),
+      shouldContinue: () => true,
+      vapid: { subject: "mailto:test@example.com", publicKey: "public", privateKey: "private" },
+      maxGames: 10,
+      delayMs: 0,
+      now,
+    });
+
+    expect(summary).toMatchObject({ valued: 1, alerts: 1, pushed: 1 });
+    expect(tables.alert_events).toHaveLength(1);
+    expect(tables.alert_events[0]).toMatchObject({
+      rule_id: "rule-1",
+      game_id: "a",
+      previous_value: 300,
+      current_value: 450,
+      snapshot_id: tables.price_snapshots[1].id,
+      pushed_at: now.toISOString(),
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { generateKeyPairSync, sign } from "node:crypto";
+import { getRequestUserId, verifySessionToken } from "../../api/_lib/sessionToken";
+
+const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+const publicKeyPem = publicKey.export({ type: "spki", format: "pem" }).toString();
+const now = Date.parse("2024-05-01T12:00:00.000Z");
+const nowS = now / 1000;
+
+function createToken(claims: Record<string, unknown>, alg = "RS256"): string {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+  const unsigned = `${encode({ alg, typ: "JWT" })}.${encode(claims)}`;
+  return `${unsigned}.${sign("sha256", Buffer.from(unsigned), privateKey).toString("base64url")}`;
+}
+
+describe("verifySessionToken", () => {
+  it("returns the user of a valid token", () => {
+    const token = createToken({ sub: "user_1", exp: nowS + 60, nbf: nowS - 10 });
+
+    expect(verifySessionToken(token, publicKeyPem, now)).toBe("user_1");
+  });
+
+  it("rejects expired, not yet valid and tampered tokens", () => {
+    const valid = createToken({ sub: "user_1", exp: nowS + 60 });
+    const [header, , signature] = valid.split(".");
+    const forgedClaims = Buffer.from(JSON.stringify({ sub: "user_2", exp: nowS + 60 })).toString("base64url");
+
+    expect(verifySessionToken(createToken({ sub: "user_1", exp: nowS - 60 }), publicKeyPem, now)).toBeNull();
+    expect(verifySessionToken(createToken({ sub: "user_1", exp: nowS + 120, nbf: nowS + 60 }), publicKeyPem, now)).toBeNull();
+    expect(verifySessionToken(`${header}.${forgedClaims}.${signature}`, publicKeyPem, now)).toBeNull();
+    expect(verifySessionToken(createToken({ sub: "user_1", exp: nowS + 60 }, "none"), publicKeyPem, now)).toBeNull();
+  });
+
+  it("rejects tokens signed by another key", () => {
+    const other = generateKeyPairSync("rsa", { modulusLength: 2048 }).publicKey.export({ type: "spki", format: "pem" }).toString();
+
+    expect(verifySessionToken(createToken({ sub: "user_1", exp: nowS + 60 }), other, now)).toBeNull();
+  });
+});
+
+describe("getRequestUserId", () => {
+  it("reads the bearer token", () => {
+    const token = createToken({ sub: "user_1", exp: Math.floor(Date.now() / 1000) + 60 });
+    const request = (authorization?: string) =>
+      new Request("http://localhost/api/push-alerts", { method: "POST", headers: authorization ? { authorization } : {} });
+
+    expect(getRequestUserId(request(`Bearer ${token}`), publicKeyPem)).toBe("user_1");
+    expect(getRequestUserId(request(), publicKeyPem)).toBeNull();
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect } from "vitest";
+import { Asset, PriceSnapshot } from "@/types/asset";
+import {
+  createMutation,
+  createSnapshotMutation,
+  enqueueMutation,
+  getDueMutations,
+  mergeWithServer,
+  recoverOrphanedGames,
+  recoverUnsentSnapshots,
+  rekeyOutbox,
+} from "@/services/syncQueue";
+
+const game = { id: "local-1", name: "Chrono Trigger", category: "video-games" } as Asset;
+
+function snapshot(id: string, gameId: string): PriceSnapshot {
+  return { id, gameId, value: 450, source: "eBay", confidence: "high", confidenceScore: 80, recordedAt: "2024-05-01T12:00:00.000Z" };
+}
+
+describe("snapshot mutations", () => {
+  it("wait for their game's insert and follow it to the real id", () => {
+    let outbox = enqueueMutation([], createMutation("insert", game.id, game));
+    outbox = enqueueMutation(outbox, createSnapshotMutation(game.id, [snapshot("s1", game.id)]));
+
+    expect(getDueMutations(outbox).map(m => m.type)).toEqual(["insert"]);
+
+    const rekeyed = rekeyOutbox(outbox.slice(1), game.id, "game-1");
+    expect(rekeyed[0].gameId).toBe("game-1");
+    expect(rekeyed[0].snapshots?.[0].gameId).toBe("game-1");
+  });
+
+  it("are dropped with their game", () => {
+    let outbox = enqueueMutation([], createSnapshotMutation("game-1", [snapshot("s1", "game-1")]));
+    outbox = enqueueMutation(outbox, createMutation("delete", "game-1"));
+
+    expect(outbox.map(m => m.type)).toEqual(["delete"]);
+  });
+
+  it("don't stop an unsent game's insert being recovered", () => {
+    const outbox = [createSnapshotMutation(game.id, [snapshot("s1", game.id)])];
+    const recovered = recoverOrphanedGames([game], outbox);
+
+    expect(recovered.map(m => m.type)).toEqual(["insert", "snapshot"]);
+    expect(getDueMutations(recovered).map(m => m.type)).toEqual(["insert"]);
+  });
+
+  it("are never uploaded while their game has a temporary id", () => {
+    const outbox = [
+      createSnapshotMutation(game.id, [snapshot("s1", game.id)]),
+      createMutation("update", "game-2", { ...game, id: "game-2" }),
+    ];
+
+    expect(getDueMutations(outbox).map(m => m.gameId)).toEqual(["game-2"]);
+  });
+
+  it("are queued again for local snapshots nothing is uploading", () => {
+    const outbox = [createSnapshotMutation("game-1", [snapshot("s1", "game-1")])];
+    const recovered = recoverUnsentSnapshots(
+      [snapshot("s1", "game-1"), snapshot("s2", "game-1"), snapshot("s3", "game-2")],
+      outbox
+    );
+
+    expect(recovered.slice(1).map(m => [m.gameId, m.snapshots?.map(s => s.id)])).toEqual([
+      ["game-1", ["s2"]],
+      ["game-2", ["s3"]],
+    ]);
+    expect(recoverUnsentSnapshots([snapshot("s1", "game-1")], outbox)).toBe(outbox);
+  });
+});
+
+// ============================================
+// MERGING
+// ============================================
+
+function serverGame(updatedAt: string, extra: Partial<Asset> = {}): Asset {
+  return { id: "game-1", name: "Chrono Trigger", category: "video-games", currentValue: 400, updatedAt, ...extra } as Asset;
+}
+
+describe("mergeWithServer", () => {
+  const base = "2024-05-01T12:00:00.000Z";
+
+  it("keeps a local edit when the server copy hasn't changed", () => {
+    const local = serverGame("2024-05-02T12:00:00.000Z", { currentValue: 450 });
+    const outbox = [createMutation("update", "game-1", local, base)];
+
+    const result = mergeWithServer([serverGame(base)], outbox);
+
+    expect(result.games).toEqual([local]);
+    expect(result.outbox).toEqual(outbox);
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it("keeps a newer local edit over a server change and re-bases it", () => {
+    const local = serverGame("2024-05-03T12:00:00.000Z", { currentValue: 450 });
+    const server = serverGame("2024-05-02T12:00:00.000Z", { currentValue: 380 });
+    const outbox = [createMutation("update", "game-1", local, base)];
+
+    const result = mergeWithServer([server], outbox);
+
+    expect(result.games).toEqual([local]);
+    expect(result.outbox.map(m => [m.id, m.baseUpdatedAt])).toEqual([[outbox[0].id, server.updatedAt]]);
+    expect(result.conflicts.map(c => [c.gameId, c.kept])).toEqual([["game-1", "local"]]);
+
+    // Merging again against the same server copy is no longer a conflict
+    expect(mergeWithServer([server], result.outbox).conflicts).toEqual([]);
+  });
+
+  it("takes a newer server copy and drops the local edit", () => {
+    const local = serverGame("2024-05-02T12:00:00.000Z", { currentValue: 450 });
+    const server = serverGame("2024-05-03T12:00:00.000Z", { currentValue: 380 });
+    const outbox = [createMutation("update", "game-1", local, base)];
+
+    const result = mergeWithServer([server], outbox);
+
+    expect(result.games).toEqual([server]);
+    expect(result.outbox).toEqual([]);
+    expect(result.conflicts.map(c => [c.gameId, c.kept, c.local, c.server])).toEqual([["game-1", "server", local, server]]);
+  });
+
+  it("lays pending inserts and deletes over the server list", () => {
+    const other = serverGame(base, { id: "game-2", name: "EarthBound" });
+    const outbox = [createMutation("insert", game.id, game), createMutation("delete", "game-1")];
+
+    const result = mergeWithServer([serverGame(base), other], outbox);
+
+    expect(result.games.map(g => g.id)).toEqual([game.id, "game-2"]);
+    expect(result.outbox).toEqual(outbox);
+    expect(result.conflicts).toEqual([]);
+  });
+});
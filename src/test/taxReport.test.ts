@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import { Asset, SaleDetails } from "@/types/asset";
+import { buildTaxReport, exportTaxReportCSV, getHoldingPeriod, getTaxYears } from "@/utils/taxReport";
+
+function soldGame(id: string, purchaseDate: string, sale: Partial<SaleDetails>, extra: Partial<Asset> = {}): Asset {
+  return {
+    id,
+    name: `Game ${id}`,
+    category: "video-games",
+    imageUrl: "/placeholder.svg",
+    currentValue: 0,
+    purchasePrice: 100,
+    purchaseDate,
+    source: "eBay",
+    lastUpdated: purchaseDate,
+    videoGameDetails: { platform: "SNES", region: "NTSC", conditionType: "cib", gradingCompany: "raw" },
+    sale: { price: 200, date: "2024-06-01", fees: 0, shipping: 0, venue: "eBay", ...sale },
+    ...extra,
+  };
+}
+
+describe("getHoldingPeriod", () => {
+  it("is long term only after the first anniversary", () => {
+    expect(getHoldingPeriod("2023-03-15", "2024-03-15")).toBe("short");
+    expect(getHoldingPeriod("2023-03-15", "2024-03-16")).toBe("long");
+    expect(getHoldingPeriod("2023-12-31", "2024-12-31")).toBe("short");
+    expect(getHoldingPeriod("2023-12-31", "2025-01-01")).toBe("long");
+  });
+
+  it("puts a Feb 29 acquisition's anniversary on Feb 28", () => {
+    expect(getHoldingPeriod("2024-02-29", "2025-02-28")).toBe("short");
+    expect(getHoldingPeriod("2024-02-29", "2025-03-01")).toBe("long");
+  });
+
+  it("keeps Feb 28 acquisitions anniversaried on Feb 28", () => {
+    expect(getHoldingPeriod("2023-02-28", "2024-02-28")).toBe("short");
+    expect(getHoldingPeriod("2023-02-28", "2024-02-29")).toBe("long");
+  });
+});
+
+describe("buildTaxReport", () => {
+  const lotItem = soldGame("lot", "2022-01-10", { price: 90, date: "2024-02-01" }, {
+    purchasePrice: 33.34,
+    lot: { id: "lot-1", name: "Garage sale box", totalCost: 100, method: "even" },
+  });
+  const withCosts = soldGame("costs", "2024-01-05", { price: 250, date: "2024-06-01", fees: 32.5, shipping: 12 }, {
+    costs: [
+      { id: "c1", type: "shipping", amount: 15, date: "2024-01-05" },
+      { id: "c2", type: "grading", amount: 40.1, date: "2024-02-01" },
+    ],
+  });
+  const otherYear = soldGame("2023", "2022-01-01", { date: "2023-12-31" });
+  const owned: Asset = { ...soldGame("owned", "2022-01-01", {}), sale: undefined };
+
+  const assets = [withCosts, otherYear, lotItem, owned];
+
+  it("only reports sales from the tax year", () => {
+    expect(getTaxYears(assets)).toEqual([2024, 2023]);
+    expect(buildTaxReport(assets, 2023).longTerm.map(l => l.assetId)).toEqual(["2023"]);
+    expect(buildTaxReport(assets, 2022)).toMatchObject({ shortTerm: [], longTerm: [] });
+  });
+
+  it("counts the lot share and cost entries in the basis, and selling costs as an adjustment", () => {
+    const report = buildTaxReport(assets, 2024);
+
+    expect(report.longTerm).toEqual([expect.objectContaining({
+      assetId: "lot",
+      description: "Game lot (SNES)",
+      costBasis: 33.34,
+      gain: 56.66,
+    })]);
+    expect(report.shortTerm).toEqual([expect.objectContaining({
+      assetId: "costs",
+      proceeds: 250,
+      costBasis: 155.1,
+      adjustment: -44.5,
+      gain: 50.4,
+    })]);
+    expect(report.estimatedCollectiblesTax).toBe(15.86);
+  });
+
+  it("exports Form 8949 rows with MM/DD/YYYY dates and selling expense codes", () => {
+    const rows = exportTaxReportCSV(buildTaxReport(assets, 2024)).split("\r\n");
+
+    expect(rows).toEqual([
+      expect.stringMatching(/^Part,/),
+      "I,Game costs (SNES),01/05/2024,06/01/2024,250.00,155.10,E,-44.50,50.40",
+      "I,Totals,,,250.00,155.10,,-44.50,50.40",
+      "II,Game lot (SNES),01/10/2022,02/01/2024,90.00,33.34,,,56.66",
+      "II,Totals,,,90.00,33.34,,,56.66",
+    ]);
+  });
+});
@@ -0,0 +1,294 @@
+import { describe, it, expect } from "vitest";
+import { MarketComparable } from "@/types/asset";
+import { AssetMetadata, calculateValuation, ValuationOptions, ValuationResult } from "@/services/valuationEngine";
+import { BacktestCase, formatBacktestReport, runValuationBacktest } from "@/services/valuationBacktest";
+import { DEFAULT_VALUATION_CONFIG, parseValuationConfig } from "@/services/valuationConfig";
+import { soldComparables } from "./fixtures/soldComparables";
+
+// Set BACKTEST_REPORT=1 to print the fixture report while tuning the engine
+const printReport = Boolean(process.env.BACKTEST_REPORT);
+
+const totalSales = soldComparables.reduce((sum, c) => sum + c.sales.length, 0);
+
+function sale(soldDate: string, soldPrice: number): MarketComparable {
+  return { name: "Chrono Trigger SNES Loose Cart Only", soldPrice, soldDate, source: "eBay", condition: "Pre-owned" };
+}
+
+function fixedValuation(estimatedValue: number, low: number, high: number): ValuationResult {
+  return {
+    estimatedValue,
+    confidence: "medium",
+    confidenceScore: 60,
+    priceRange: { low, median: estimatedValue, high },
+    rollingAverage: { days30: null, days90: null, days180: null },
+    comparablesUsed: 3,
+    adjustments: [],
+    methodology: "fixed",
+    configVersion: "fixed",
+    estimator: "classic",
+    scoredComparables: [],
+  };
+}
+
+const chronoTrigger: BacktestCase = {
+  metadata: { category: "video-games", name: "Chrono Trigger", platform: "SNES", conditionType: "loose" },
+  sales: [
+    sale("2024-01-10", 60),
+    sale("2024-01-20", 62),
+    sale("2024-02-01", 58),
+    sale("2024-02-15", 50),
+    sale("2024-03-01", 80),
+  ],
+};
+
+describe("runValuationBacktest", () => {
+  it("predicts each held-out sale only from sales before it", () => {
+    const calls: Array<{ comparables: MarketComparable[]; options: ValuationOptions }> = [];
+    const valuate = (metadata: AssetMetadata, comparables: MarketComparable[], options: ValuationOptions) => {
+      calls.push({ comparables, options });
+      return calculateValuation(metadata, comparables, options);
+    };
+
+    const report = runValuationBacktest(soldComparables, { valuate });
+
+    expect(report.predictions.length + report.skipped).toBe(totalSales);
+    expect(calls.length).toBeGreaterThan(0);
+    for (const { comparables, options } of calls) {
+      expect(options.asOf).toBeInstanceOf(Date);
+      for (const comp of comparables) {
+        expect(new Date(comp.soldDate).getTime()).toBeLessThan(options.asOf!.getTime());
+      }
+    }
+  });
+
+  it("computes MAPE, bias and price range coverage", () => {
+    // Predicts 55 in a 50-60 range for every sale after the third
+    const report = runValuationBacktest([chronoTrigger], { valuate: () => fixedValuation(55, 50, 60) });
+
+    expect(report.skipped).toBe(3);
+    expect(report.predictions.map(p => p.actual)).toEqual([50, 80]);
+    // Errors are +10% and -31.25%
+    expect(report.overall.count).toBe(2);
+    expect(report.overall.mape).toBeCloseTo(20.625);
+    expect(report.overall.bias).toBeCloseTo(-10.625);
+    expect(report.overall.coverage).toBe(50);
+  });
+
+  it("skips sales without enough history in the lookback window", () => {
+    const valuate = () => fixedValuation(55, 50, 60);
+
+    expect(runValuationBacktest([chronoTrigger], { valuate, minPriorComps: 2 }).predictions).toHaveLength(3);
+    // Only the February 1st sale has two sales in the 25 days before it
+    const windowed = runValuationBacktest([chronoTrigger], { valuate, minPriorComps: 2, lookbackDays: 25 });
+    expect(windowed.predictions.map(p => p.soldDate)).toEqual(["2024-02-01"]);
+  });
+
+  it("skips sales the engine can't value", () => {
+    const report = runValuationBacktest([chronoTrigger], { valuate: () => fixedValuation(0, 0, 0) });
+
+    expect(report.predictions).toHaveLength(0);
+    expect(report.skipped).toBe(5);
+    expect(report.overall).toEqual({ count: 0, mape: 0, bias: 0, coverage: 0 });
+  });
+
+  it("breaks the metrics down by condition and platform", () => {
+    const report = runValuationBacktest(soldComparables);
+
+    expect(Object.keys(report.byCondition)).toEqual(["CIB", "LOOSE", "PSA 9", "RAW", "SEALED"]);
+    expect(Object.keys(report.byPlatform)).toEqual(
+      expect.arrayContaining(["SNES", "N64", "GBA", "GameCube", "Saturn", "PS1", "Pokemon"])
+    );
+    const sumCounts = (groups: Record<string, { count: number }>) =>
+      Object.values(groups).reduce((sum, m) => sum + m.count, 0);
+    expect(sumCounts(report.byCondition)).toBe(report.overall.count);
+    expect(sumCounts(report.byPlatform)).toBe(report.overall.count);
+    expect(formatBacktestReport(report)).toContain("PSA 9");
+  });
+});
+
+describe("calculateValuation against the fixture dataset", () => {
+  // Recorded when the harness was added (MAPE 14.3%, bias +2.8%, coverage
+  // 49%); tighten these as tuning improves the numbers
+  it("stays within the recorded accuracy", () => {
+    const report = runValuationBacktest(soldComparables);
+    if (printReport) console.info(formatBacktestReport(report));
+
+    expect(report.overall.count).toBeGreaterThanOrEqual(80);
+    expect(report.overall.mape).toBeLessThan(16);
+    expect(Math.abs(report.overall.bias)).toBeLessThan(5);
+    // The price range is the interquartile range of comps, so about half
+    // of actual sales should land inside it
+    expect(report.overall.coverage).toBeGreaterThan(40);
+    expect(report.overall.coverage).toBeLessThan(65);
+  });
+
+  it("records the config version and scores tuned configs", () => {
+    const strictConfig = { ...DEFAULT_VALUATION_CONFIG, version: "test-strict", minSimilarity: 101 };
+
+    const baseline = runValuationBacktest(soldComparables);
+    const strict = runValuationBacktest(soldComparables, { config: strictConfig });
+
+    expect(baseline.configVersion).toBe(DEFAULT_VALUATION_CONFIG.version);
+    expect(baseline.predictions.length).toBeGreaterThan(0);
+    // Nothing clears a similarity cutoff above 100
+    expect(strict.configVersion).toBe("test-strict");
+    expect(strict.predictions).toHaveLength(0);
+  });
+
+  it("measures time decay from the asOf date", () => {
+    const metadata = chronoTrigger.metadata;
+    const asOf = new Date("2024-03-10");
+
+    const historical = calculateValuation(metadata, chronoTrigger.sales, { asOf });
+    const today = calculateValuation(metadata, chronoTrigger.sales);
+
+    expect(historical.rollingAverage.days30).not.toBeNull();
+    expect(today.rollingAverage.days30).toBeNull();
+    expect(historical.confidenceScore).toBeGreaterThan(today.confidenceScore);
+  });
+});
+
+describe("parseValuationConfig", () => {
+  it("accepts a config round-tripped through JSON", () => {
+    const parsed = parseValuationConfig(JSON.parse(JSON.stringify(DEFAULT_VALUATION_CONFIG)));
+
+    expect(parsed).toEqual(DEFAULT_VALUATION_CONFIG);
+  });
+
+  it("rejects configs with missing or invalid values", () => {
+    const { version: _version, ...unversioned } = DEFAULT_VALUATION_CONFIG;
+
+    expect(parseValuationConfig(unversioned)).toBeNull();
+    expect(parseValuationConfig({ ...DEFAULT_VALUATION_CONFIG, minSimilarity: "20" })).toBeNull();
+    expect(parseValuationConfig({ ...DEFAULT_VALUATION_CONFIG, gradeMultipliers: [] })).toBeNull();
+    expect(parseValuationConfig(null)).toBeNull();
+  });
+});
+
+describe("calculateValuation comparable explanations", () => {
+  it("explains every comparable, used or dropped", () => {
+    const comparables: MarketComparable[] = [
+      sale("2024-02-20", 60),
+      sale("2024-02-22", 62),
+      sale("2024-02-25", 61),
+      sale("2024-02-26", 59),
+      sale("2024-02-27", 63),
+      sale("2024-02-28", 60),
+      sale("2024-02-29", 400),
+      { name: "Chrono Trigger SNES Factory Sealed", soldPrice: 900, soldDate: "2024-02-21", source: "eBay", condition: "New" },
+      { name: "Super Metroid Strategy Guide", soldPrice: 40, soldDate: "2024-02-23", source: "eBay", condition: "Pre-owned" },
+    ];
+
+    const result = calculateValuation(chronoTrigger.metadata, comparables, { asOf: new Date("2024-03-01") });
+    const statusOf = (price: number) => result.scoredComparables.find(c => c.soldPrice === price)?.status;
+
+    expect(result.scoredComparables).toHaveLength(comparables.length);
+    expect(statusOf(900)).toBe("condition");
+    expect(statusOf(40)).toBe("low-similarity");
+    expect(statusOf(400)).toBe("outlier");
+    expect(result.scoredComparables.filter(c => c.status === "used")).toHaveLength(result.comparablesUsed);
+
+    const used = result.scoredComparables.filter(c => c.status === "used");
+    expect(used.reduce((sum, c) => sum + c.weightShare, 0)).toBeCloseTo(1);
+    for (const dropped of result.scoredComparables.filter(c => c.status !== "used")) {
+      expect(dropped.weightShare).toBe(0);
+      expect(dropped.reason).not.toBe("");
+    }
+  });
+});
+
+describe("calculateValuation robust estimator", () => {
+  const robustConfig = { ...DEFAULT_VALUATION_CONFIG, version: "test-robust", estimator: "robust" as const };
+  const asOf = new Date("2024-03-01");
+
+  function guide(soldPrice: number): MarketComparable {
+    return { name: "Chrono Trigger (SNES)", soldPrice, soldDate: "2024-03-01", source: "PriceCharting", condition: "loose" };
+  }
+
+  // Recorded when the estimator was added (MAPE 14.9%, bias +2.6%,
+  // coverage 53%); the fixture has plenty of comps, so it should roughly
+  // match the classic estimator rather than beat it
+  it("stays within the recorded accuracy on the fixture dataset", () => {
+    const report = runValuationBacktest(soldComparables, { config: robustConfig });
+    if (printReport) console.info(formatBacktestReport(report));
+
+    expect(report.overall.count).toBeGreaterThanOrEqual(80);
+    expect(report.overall.mape).toBeLessThan(16);
+    expect(Math.abs(report.overall.bias)).toBeLessThan(5);
+    expect(report.overall.coverage).toBeGreaterThan(40);
+    expect(report.overall.coverage).toBeLessThan(65);
+  });
+
+  it("reports the estimator in the result and methodology", () => {
+    const classic = calculateValuation(chronoTrigger.metadata, chronoTrigger.sales, { asOf });
+    const robust = calculateValuation(chronoTrigger.metadata, chronoTrigger.sales, { asOf, config: robustConfig });
+    const overridden = calculateValuation(chronoTrigger.metadata, chronoTrigger.sales, { asOf, estimator: "robust" });
+
+    expect(classic.estimator).toBe("classic");
+    expect(classic.methodology).toContain("time-weighted rolling average");
+    expect(robust.estimator).toBe("robust");
+    expect(robust.methodology).toContain("robust estimator");
+    expect(overridden.estimator).toBe("robust");
+  });
+
+  it("picks the robust estimator in auto mode only when market sales are thin", () => {
+    const autoConfig = { ...DEFAULT_VALUATION_CONFIG, estimator: "auto" as const };
+    const thin = chronoTrigger.sales.slice(0, 2);
+
+    expect(calculateValuation(chronoTrigger.metadata, thin, { asOf, config: autoConfig }).estimator).toBe("robust");
+    expect(calculateValuation(chronoTrigger.metadata, chronoTrigger.sales, { asOf, config: autoConfig }).estimator).toBe("classic");
+  });
+
+  it("shrinks few sales toward the guide price, less as sales accumulate", () => {
+    const one = calculateValuation(chronoTrigger.metadata, [sale("2024-02-20", 100), guide(60)], { asOf, config: robustConfig });
+    const many = calculateValuation(
+      chronoTrigger.metadata,
+      [sale("2024-02-20", 100), sale("2024-02-21", 98), sale("2024-02-22", 102), sale("2024-02-23", 101),
+        sale("2024-02-24", 99), sale("2024-02-25", 100), guide(60)],
+      { asOf, config: robustConfig }
+    );
+
+    // One sale counts 1 / (1 + 2) against the guide
+    expect(one.estimatedValue).toBeCloseTo(60 + (100 - 60) / 3, 0);
+    expect(many.estimatedValue).toBeGreaterThan(one.estimatedValue);
+    expect(many.estimatedValue).toBeLessThan(100);
+    expect(one.adjustments.some(a => a.type === "shrinkage")).toBe(true);
+
+    const guideShare = one.scoredComparables.find(c => c.source === "PriceCharting")?.weightShare;
+    expect(guideShare).toBeCloseTo(2 / 3);
+  });
+
+  it("keeps a wild sale from dragging the value and never drops the guide", () => {
+    const comparables = [
+      sale("2024-02-20", 60),
+      sale("2024-02-22", 62),
+      sale("2024-02-25", 58),
+      sale("2024-02-27", 61),
+      sale("2024-02-28", 500),
+      guide(300),
+    ];
+
+    const result = calculateValuation(chronoTrigger.metadata, comparables, { asOf, config: robustConfig });
+    const statusOf = (price: number) => result.scoredComparables.find(c => c.soldPrice === price)?.status;
+
+    expect(statusOf(500)).toBe("outlier");
+    expect(statusOf(300)).toBe("used");
+  });
+
+  it("gives a deterministic bootstrap price range around the value", () => {
+    const first = calculateValuation(chronoTrigger.metadata, chronoTrigger.sales, { asOf, config: robustConfig });
+    const second = calculateValuation(chronoTrigger.metadata, chronoTrigger.sales, { asOf, config: robustConfig });
+
+    expect(second.priceRange).toEqual(first.priceRange);
+    expect(first.priceRange.low).toBeLessThan(first.estimatedValue);
+    expect(first.priceRange.high).toBeGreaterThan(first.estimatedValue);
+  });
+
+  it("still prices from a guide price alone", () => {
+    const result = calculateValuation(chronoTrigger.metadata, [guide(60)], { asOf, config: robustConfig });
+
+    expect(result.estimatedValue).toBe(60);
+    expect(result.priceRange.low).toBeLessThan(60);
+    expect(result.priceRange.high).toBeGreaterThan(60);
+  });
+});
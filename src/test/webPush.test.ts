@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { createDecipheriv, createECDH, createHmac, createPublicKey, randomBytes, verify } from "node:crypto";
+import { MAX_PAYLOAD_BYTES, sendWebPush, VapidDetails, WebPushSubscription } from "../../api/_lib/webPush";
+
+// ============================================
+// LOCAL PUSH SERVICE STAND-IN
+// Plays the browser and push service: holds the subscription's private
+// key, checks the VAPID header and decrypts what the sender posted.
+// ============================================
+
+interface ReceivedPush {
+  endpoint: string;
+  headers: Record<string, string>;
+  body: Buffer;
+}
+
+function hkdf(salt: Buffer, ikm: Buffer, info: Buffer, length: number): Buffer {
+  const prk = createHmac("sha256", salt).update(ikm).digest();
+  return createHmac("sha256", prk).update(Buffer.concat([info, Buffer.from([1])])).digest().subarray(0, length);
+}
+
+function createPushStandIn(status = 201) {
+  const browserKeys = createECDH("prime256v1");
+  const browserPublicKey = browserKeys.generateKeys();
+  const authSecret = randomBytes(16);
+  const received: ReceivedPush[] = [];
+
+  const subscription: WebPushSubscription = {
+    endpoint: "http://localhost:9999/push/device-1",
+    keys: {
+      p256dh: browserPublicKey.toString("base64url"),
+      auth: authSecret.toString("base64url"),
+    },
+  };
+
+  const fetchImpl = (async (url: string, init: RequestInit) => {
+    received.push({
+      endpoint: url,
+      headers: init.headers as Record<string, string>,
+      body: Buffer.from(init.body as Uint8Array),
+    });
+    return new Response(null, { status });
+  }) as unknown as typeof fetch;
+
+  const decrypt = (body: Buffer): string => {
+    const salt = body.subarray(0, 16);
+    const keyLength = body[20];
+    const serverPublicKey = body.subarray(21, 21 + keyLength);
+    const ciphertext = body.subarray(21 + keyLength);
+
+    const sharedSecret = browserKeys.computeSecret(serverPublicKey);
+    const keyInfo = Buffer.concat([Buffer.from("WebPush: info\0"), browserPublicKey, serverPublicKey]);
+    const ikm = hkdf(authSecret, sharedSecret, keyInfo, 32);
+    const contentKey = hkdf(salt, ikm, Buffer.from("Content-Encoding: aes128gcm\0"), 16);
+    const nonce = hkdf(salt, ikm, Buffer.from("Content-Encoding: nonce\0"), 12);
+
+    const decipher = createDecipheriv("aes-128-gcm", contentKey, nonce);
+    decipher.setAuthTag(ciphertext.subarray(ciphertext.length - 16));
+    const record = Buffer.concat([decipher.update(ciphertext.subarray(0, ciphertext.length - 16)), decipher.final()]);
+    // Strip the last-record delimiter
+    expect(record[record.length - 1]).toBe(2);
+    return record.subarray(0, record.length - 1).toString();
+  };
+
+  return { subscription, fetchImpl, received, decrypt };
+}
+
+function createVapidDetails(): VapidDetails {
+  const keys = createECDH("prime256v1");
+  keys.generateKeys();
+  return {
+    subject: "mailto:alerts@example.com",
+    publicKey: keys.getPublicKey().toString("base64url"),
+    privateKey: keys.getPrivateKey().toString("base64url"),
+  };
+}
+
+function verifyVapidHeader(authorization: string, vapid: VapidDetails) {
+  const match = authorization.match(/^vapid t=([^,]+), k=(.+)$/);
+  expect(match).not.toBeNull();
+  const [, token, publicKey] = match!;
+  expect(publicKey).toBe(vapid.publicKey);
+
+  const [header, claims, signature] = token.split(".");
+  const rawKey = Buffer.from(publicKey, "base64url");
+  const key = createPublicKey({
+    key: {
+      kty: "EC",
+      crv: "P-256",
+      x: rawKey.subarray(1, 33).toString("base64url"),
+      y: rawKey.subarray(33, 65).toString("base64url"),
+    },
+    format: "jwk",
+  });
+  const valid = verify(
+    "sha256",
+    Buffer.from(`${header}.${claims}`),
+    { key, dsaEncoding: "ieee-p1363" },
+    Buffer.from(signature, "base64url")
+  );
+  expect(valid).toBe(true);
+  return JSON.parse(Buffer.from(claims, "base64url").toString());
+}
+
+// ============================================
+// TESTS
+// ============================================
+
+describe("sendWebPush", () => {
+  let vapid: VapidDetails;
+
+  beforeEach(() => {
+    vapid = createVapidDetails();
+  });
+
+  it("delivers an encrypted payload the subscriber can decrypt", async () => {
+    const standIn = createPushStandIn();
+    const payload = JSON.stringify({ title: "Chrono Trigger", body: "Up 12.0% to $504", tag: "event-1", gameId: "game-1" });
+
+    const result = await sendWebPush(standIn.subscription, payload, vapid, { fetchImpl: standIn.fetchImpl });
+
+    expect(result).toEqual({ status: 201, ok: true, gone: false });
+    expect(standIn.received).toHaveLength(1);
+    const [push] = standIn.received;
+    expect(push.endpoint).toBe(standIn.subscription.endpoint);
+    expect(push.headers["Content-Encoding"]).toBe("aes128gcm");
+    expect(push.headers["TTL"]).toBe("86400");
+    expect(push.body.toString()).not.toContain("Chrono Trigger");
+    expect(standIn.decrypt(push.body)).toBe(payload);
+  });
+
+  it("signs a VAPID token for the push service origin", async () => {
+    const standIn = createPushStandIn();
+
+    await sendWebPush(standIn.subscription, "{}", vapid, { fetchImpl: standIn.fetchImpl });
+
+    const claims = verifyVapidHeader(standIn.received[0].headers["Authorization"], vapid);
+    expect(claims.aud).toBe("http://localhost:9999");
+    expect(claims.sub).toBe(vapid.subject);
+    expect(claims.exp).toBeGreaterThan(Date.now() / 1000);
+  });
+
+  it("reports expired subscriptions as gone", async () => {
+    const standIn = createPushStandIn(410);
+
+    const result = await sendWebPush(standIn.subscription, "{}", vapid, { fetchImpl: standIn.fetchImpl });
+
+    expect(result).toEqual({ status: 410, ok: false, gone: true });
+  });
+
+  it("rejects payloads over the push size limit", async () => {
+    const standIn = createPushStandIn();
+
+    await expect(
+      sendWebPush(standIn.subscription, "x".repeat(MAX_PAYLOAD_BYTES + 1), vapid, { fetchImpl: standIn.fetchImpl })
+    ).rejects.toThrow(/limit/);
+    expect(standIn.received).toHaveLength(0);
+  });
+});
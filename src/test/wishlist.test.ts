@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import { MarketComparable } from "@/types/asset";
+import { WishlistItem, WishlistPriceCheck } from "@/types/wishlist";
+import { createEmptyLookupResult } from "@/services/priceValuation";
+import { getDealPrice, isCheckDue, isNewDeal, toWishlistCheck } from "@/utils/wishlist";
+
+function comparable(source: string, soldPrice: number, name = "EarthBound SNES"): MarketComparable {
+  return { name, soldPrice, soldDate: "2024-05-01", source, url: `https://example.com/${soldPrice}` };
+}
+
+function item(maxPrice: number, lastCheck?: Partial<WishlistPriceCheck>, notifiedPrice?: number): WishlistItem {
+  return {
+    id: "w1",
+    name: "EarthBound",
+    platform: "SNES",
+    conditionType: "cib",
+    maxPrice,
+    notifiedPrice,
+    createdAt: "2024-04-01T00:00:00.000Z",
+    lastCheck: lastCheck && {
+      estimatedValue: 0,
+      confidence: "medium",
+      lowestListing: null,
+      checkedAt: "2024-05-01T12:00:00.000Z",
+      ...lastCheck,
+    },
+  };
+}
+
+describe("toWishlistCheck", () => {
+  it("keeps the estimate and the cheapest eBay sold listing", () => {
+    const check = toWishlistCheck({
+      ...createEmptyLookupResult("Test valuation"),
+      estimatedValue: 320,
+      confidence: "high",
+      comparables: [
+        comparable("PriceCharting", 150),
+        comparable("eBay", 290, "EarthBound CIB"),
+        comparable("eBay", 240, "EarthBound complete"),
+        comparable("eBay", 0),
+      ],
+      lastUpdated: "2024-05-01T12:00:00.000Z",
+    });
+
+    expect(check).toEqual({
+      estimatedValue: 320,
+      confidence: "high",
+      lowestListing: { price: 240, title: "EarthBound complete", url: "https://example.com/240" },
+      checkedAt: "2024-05-01T12:00:00.000Z",
+    });
+  });
+
+  it("has no listing without eBay comparables", () => {
+    const check = toWishlistCheck({ ...createEmptyLookupResult("Test valuation"), comparables: [comparable("PriceCharting", 150)] });
+
+    expect(check.lowestListing).toBeNull();
+  });
+});
+
+describe("getDealPrice", () => {
+  it("is null until a check comes in at or under the target", () => {
+    expect(getDealPrice(item(250))).toBeNull();
+    expect(getDealPrice(item(250, { estimatedValue: 320 }))).toBeNull();
+    expect(getDealPrice(item(250, { estimatedValue: 320, lowestListing: { price: 260, title: "CIB" } }))).toBeNull();
+  });
+
+  it("takes the market estimate when it is within the target", () => {
+    expect(getDealPrice(item(250, { estimatedValue: 250 }))).toBe(250);
+  });
+
+  it("takes an eBay listing under the target when the estimate is above it", () => {
+    expect(getDealPrice(item(250, { estimatedValue: 320, lowestListing: { price: 230, title: "CIB" } }))).toBe(230);
+  });
+
+  it("takes the cheaper of the two", () => {
+    expect(getDealPrice(item(250, { estimatedValue: 200, lowestListing: { price: 230, title: "CIB" } }))).toBe(200);
+  });
+
+  it("ignores a check with no market value", () => {
+    expect(getDealPrice(item(250, { estimatedValue: 0 }))).toBeNull();
+  });
+});
+
+describe("isNewDeal", () => {
+  const deal = { estimatedValue: 320, lowestListing: { price: 230, title: "CIB" } };
+
+  it("announces a deal once, and again only when it gets cheaper", () => {
+    expect(isNewDeal(item(250, deal))).toBe(true);
+    expect(isNewDeal(item(250, deal, 230))).toBe(false);
+    expect(isNewDeal(item(250, deal, 240))).toBe(true);
+  });
+
+  it("is not a deal above the target", () => {
+    expect(isNewDeal(item(200, deal))).toBe(false);
+  });
+});
+
+describe("isCheckDue", () => {
+  it("re-checks at most once a day", () => {
+    expect(isCheckDue(item(250))).toBe(true);
+    expect(isCheckDue(item(250, {}), new Date("2024-05-02T11:59:00.000Z"))).toBe(false);
+    expect(isCheckDue(item(250, {}), new Date("2024-05-02T12:00:00.000Z"))).toBe(true);
+  });
+});
@@ -0,0 +1,40 @@
+import { PriceSnapshot } from './asset';
+
+// Which games a rule watches
+export type AlertRuleScope =
+  | { type: 'collection' }
+  | { type: 'game'; gameId: string }
+  | { type: 'platform'; platform: string };
+
+export type PriceDirection = 'up' | 'down' | 'either';
+
+// What makes a rule fire, checked against recorded price snapshots
+export type AlertCondition =
+  | { type: 'price-above'; target: number }
+  | { type: 'price-below'; target: number }
+  | { type: 'percent-change'; percent: number; direction: PriceDirection; windowDays: number }
+  // Valuation confidence falls below this level
+  | { type: 'confidence-drop'; below: Exclude<PriceSnapshot['confidence'], 'low'> };
+
+export interface AlertRule {
+  id: string;
+  scope: AlertRuleScope;
+  condition: AlertCondition;
+  enabled: boolean;
+  createdAt: string;
+}
+
+// A rule firing for one game
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  gameId: string;
+  gameName: string;
+  // Snapshot that triggered it; a snapshot fires each rule at most once
+  snapshotId: string;
+  message: string;
+  previousValue: number | null;
+  currentValue: number;
+  firedAt: string;
+  read: boolean;
+}
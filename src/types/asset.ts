@@ -1,6 +1,6 @@
-// Currently supporting Video Games only
-// Future categories: trading-cards, cars, art, vintage-toys, sneakers
-export type AssetCategory = 'video-games';
+// Supported collectible categories
+// Future categories: cars, art, vintage-toys, sneakers
+export type AssetCategory = 'video-games' | 'trading-cards';
 
 export type Condition = 'mint' | 'near-mint' | 'excellent' | 'good' | 'fair' | 'poor';
 
@@ -15,20 +15,100 @@ export interface VideoGameDetails {
   boxCondition?: Condition;
 }
 
+// Trading card specific details
+export interface TradingCardDetails {
+  cardGame: 'pokemon' | 'magic' | 'yugioh' | 'sports' | 'other';
+  setName: string;
+  cardNumber?: string;
+  year?: number;
+  // e.g. 1st Edition, Holo, Reverse Holo, Refractor
+  variant?: string;
+  language?: string;
+  gradingCompany?: 'PSA' | 'BGS' | 'CGC' | 'SGC' | 'raw';
+  grade?: number;
+}
+
+export type CostEntryType = 'shipping' | 'tax' | 'buyers-premium' | 'grading' | 'other';
+
+// A cost on top of the purchase price, e.g. shipping or a grading submission
+export interface CostEntry {
+  id: string;
+  type: CostEntryType;
+  amount: number;
+  // YYYY-MM-DD
+  date: string;
+  note?: string;
+}
+
+// How a lot's total cost is split across its items
+export type LotAllocationMethod = 'market' | 'even' | 'manual';
+
+// Purchase record shared by every item bought together in one lot. Each
+// item's purchasePrice is its allocated share of totalCost.
+export interface LotPurchase {
+  id: string;
+  name: string;
+  totalCost: number;
+  method: LotAllocationMethod;
+  // This item's market value when the lot was bought; market allocation
+  // weights by it so later revaluations don't move the cost basis
+  marketValue?: number;
+}
+
+// Sale of an asset that has left the collection
+export interface SaleDetails {
+  price: number;
+  // YYYY-MM-DD
+  date: string;
+  // Marketplace and payment fees
+  fees: number;
+  // Shipping paid by the seller
+  shipping: number;
+  venue: string;
+}
+
 export interface Asset {
   id: string;
   name: string;
   category: AssetCategory;
   imageUrl: string;
+  // Legacy inline photos (data URLs). Photos now live in the gallery
+  // (services/gamePhotos); these are moved there when the game is opened
   photos?: string[];
   currentValue: number;
   estimatedValue?: number;
+  // Price paid for the item itself; see `costs` for everything else
   purchasePrice: number;
   purchaseDate: string;
+  // Costs added to the cost basis (shipping, tax, grading...)
+  costs?: CostEntry[];
+  // Set when the asset was bought as part of a lot
+  lot?: LotPurchase;
   source: string;
   lastUpdated: string;
+  // Full timestamp of the last edit, used to merge offline changes
+  updatedAt?: string;
+  // When the market value was last refreshed from price providers
+  lastValuedAt?: string;
   // Video game specific details
   videoGameDetails?: VideoGameDetails;
+  // Trading card specific details
+  tradingCardDetails?: TradingCardDetails;
+  // Set once sold; the asset moves to the sold ledger but keeps its history
+  sale?: SaleDetails;
+}
+
+// A recorded market valuation for a single game
+export interface PriceSnapshot {
+  id: string;
+  gameId: string;
+  value: number;
+  source: string;
+  confidence: 'high' | 'medium' | 'low';
+  confidenceScore: number;
+  // ValuationConfig version, absent on snapshots recorded before versioning
+  configVersion?: string;
+  recordedAt: string;
 }
 
 export interface PriceSource {
@@ -49,8 +129,18 @@ export interface MarketComparable {
 
 export const categoryLabels: Record<AssetCategory, string> = {
   'video-games': 'Video Games',
+  'trading-cards': 'Trading Cards',
+};
+
+export const costEntryLabels: Record<CostEntryType, string> = {
+  shipping: 'Shipping',
+  tax: 'Sales Tax',
+  'buyers-premium': "Buyer's Premium",
+  grading: 'Grading',
+  other: 'Other',
 };
 
 export const categoryIcons: Record<AssetCategory, string> = {
   'video-games': '🎮',
+  'trading-cards': '🃏',
 };
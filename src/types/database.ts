@@ -4,6 +4,14 @@
  * These types match the database schema in Supabase
  */
 
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[];
+
 export interface Database {
   public: {
     Tables: {
@@ -12,17 +20,30 @@ export interface Database {
           id: string;
           user_id: string;
           name: string;
+          category: string;
           platform: string;
           region: string;
           condition_type: string;
           grading_company: string | null;
           grade: number | null;
           seal_rating: string | null;
+          box_condition: string | null;
+          details: Json;
           purchase_price: number;
           current_value: number;
+          estimated_value: number | null;
           purchase_date: string;
           source: string;
           image_url: string | null;
+          photos: string[];
+          costs: Json;
+          lot: Json | null;
+          sale_price: number | null;
+          sale_date: string | null;
+          sale_fees: number | null;
+          sale_shipping: number | null;
+          sale_venue: string | null;
+          last_valued_at: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -30,17 +51,30 @@ export interface Database {
           id?: string;
           user_id: string;
           name: string;
-          platform: string;
+          category?: string;
+          platform?: string;
           region?: string;
           condition_type?: string;
           grading_company?: string | null;
           grade?: number | null;
           seal_rating?: string | null;
+          box_condition?: string | null;
+          details?: Json;
           purchase_price: number;
           current_value: number;
+          estimated_value?: number | null;
           purchase_date?: string;
           source: string;
           image_url?: string | null;
+          photos?: string[];
+          costs?: Json;
+          lot?: Json | null;
+          sale_price?: number | null;
+          sale_date?: string | null;
+          sale_fees?: number | null;
+          sale_shipping?: number | null;
+          sale_venue?: string | null;
+          last_valued_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -48,19 +82,155 @@ export interface Database {
           id?: string;
           user_id?: string;
           name?: string;
+          category?: string;
           platform?: string;
           region?: string;
           condition_type?: string;
           grading_company?: string | null;
           grade?: number | null;
           seal_rating?: string | null;
+          box_condition?: string | null;
+          details?: Json;
           purchase_price?: number;
           current_value?: number;
+          estimated_value?: number | null;
           purchase_date?: string;
           source?: string;
           image_url?: string | null;
+          photos?: string[];
+          costs?: Json;
+          lot?: Json | null;
+          sale_price?: number | null;
+          sale_date?: string | null;
+          sale_fees?: number | null;
+          sale_shipping?: number | null;
+          sale_venue?: string | null;
+          last_valued_at?: string | null;
           updated_at?: string;
         };
+        Relationships: [];
+      };
+      price_snapshots: {
+        Row: {
+          id: string;
+          game_id: string;
+          user_id: string;
+          value: number;
+          source: string;
+          confidence: string;
+          confidence_score: number;
+          config_version: string | null;
+          recorded_at: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          game_id: string;
+          user_id: string;
+          value: number;
+          source: string;
+          confidence: string;
+          confidence_score?: number;
+          config_version?: string | null;
+          recorded_at?: string;
+          created_at?: string;
+        };
+        Update: {
+          value?: number;
+          source?: string;
+          confidence?: string;
+          confidence_score?: number;
+          config_version?: string | null;
+          recorded_at?: string;
+        };
+        Relationships: [];
+      };
+      game_photos: {
+        Row: {
+          id: string;
+          game_id: string;
+          user_id: string;
+          storage_path: string;
+          caption: string | null;
+          position: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          game_id: string;
+          user_id: string;
+          storage_path: string;
+          caption?: string | null;
+          position?: number;
+          created_at?: string;
+        };
+        Update: {
+          caption?: string | null;
+          position?: number;
+        };
+        Relationships: [];
+      };
+      alert_rules: {
+        Row: {
+          id: string;
+          user_id: string;
+          scope: Json;
+          condition: Json;
+          enabled: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          scope?: Json;
+          condition: Json;
+          enabled?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          scope?: Json;
+          condition?: Json;
+          enabled?: boolean;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      alert_events: {
+        Row: {
+          id: string;
+          user_id: string;
+          rule_id: string | null;
+          game_id: string;
+          game_name: string;
+          snapshot_id: string;
+          message: string;
+          previous_value: number | null;
+          current_value: number;
+          fired_at: string;
+          read_at: string | null;
+          pushed_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          rule_id?: string | null;
+          game_id: string;
+          game_name: string;
+          snapshot_id: string;
+          message: string;
+          previous_value?: number | null;
+          current_value: number;
+          fired_at?: string;
+          read_at?: string | null;
+          pushed_at?: string | null;
+        };
+        Update: {
+          read_at?: string | null;
+          pushed_at?: string | null;
+        };
+        Relationships: [];
       };
       profiles: {
         Row: {
@@ -82,12 +252,167 @@ export interface Database {
           display_name?: string | null;
           avatar_url?: string | null;
         };
+        Relationships: [];
+      };
+      digest_settings: {
+        Row: {
+          user_id: string;
+          email: string;
+          enabled: boolean;
+          frequency: string;
+          last_sent_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          user_id: string;
+          email: string;
+          enabled?: boolean;
+          frequency?: string;
+          last_sent_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          email?: string;
+          enabled?: boolean;
+          frequency?: string;
+          last_sent_at?: string | null;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      digest_email_confirmations: {
+        Row: {
+          user_id: string;
+          email: string;
+          token_hash: string | null;
+          sent_at: string | null;
+          confirmed_at: string | null;
+        };
+        Insert: {
+          user_id: string;
+          email: string;
+          token_hash?: string | null;
+          sent_at?: string | null;
+          confirmed_at?: string | null;
+        };
+        Update: {
+          email?: string;
+          token_hash?: string | null;
+          sent_at?: string | null;
+          confirmed_at?: string | null;
+        };
+        Relationships: [];
+      };
+      valuation_configs: {
+        Row: {
+          version: string;
+          config: Json;
+          active: boolean;
+          notes: string | null;
+          created_at: string;
+        };
+        Insert: {
+          version: string;
+          config: Json;
+          active?: boolean;
+          notes?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          config?: Json;
+          active?: boolean;
+          notes?: string | null;
+        };
+        Relationships: [];
+      };
+      push_subscriptions: {
+        Row: {
+          id: string;
+          user_id: string;
+          endpoint: string;
+          p256dh: string;
+          auth: string;
+          user_agent: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          endpoint: string;
+          p256dh: string;
+          auth: string;
+          user_agent?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          p256dh?: string;
+          auth?: string;
+          user_agent?: string | null;
+        };
+        Relationships: [];
+      };
+      wishlist_items: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          platform: string;
+          condition_type: string;
+          max_price: number;
+          notes: string | null;
+          last_check: Json | null;
+          notified_price: number | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          platform: string;
+          condition_type?: string;
+          max_price: number;
+          notes?: string | null;
+          last_check?: Json | null;
+          notified_price?: number | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          name?: string;
+          platform?: string;
+          condition_type?: string;
+          max_price?: number;
+          notes?: string | null;
+          last_check?: Json | null;
+          notified_price?: number | null;
+          updated_at?: string;
+        };
+        Relationships: [];
       };
     };
+    Views: { [_ in never]: never };
+    Functions: { [_ in never]: never };
+    Enums: { [_ in never]: never };
+    CompositeTypes: { [_ in never]: never };
   };
 }
 
 // Helper type for game rows
 export type GameRow = Database['public']['Tables']['games']['Row'];
 export type GameInsert = Database['public']['Tables']['games']['Insert'];
+export type GameUpdate = Database['public']['Tables']['games']['Update'];
+export type PriceSnapshotRow = Database['public']['Tables']['price_snapshots']['Row'];
+export type PriceSnapshotInsert = Database['public']['Tables']['price_snapshots']['Insert'];
+export type GamePhotoRow = Database['public']['Tables']['game_photos']['Row'];
+export type AlertRuleRow = Database['public']['Tables']['alert_rules']['Row'];
+export type AlertEventRow = Database['public']['Tables']['alert_events']['Row'];
+export type DigestSettingsRow = Database['public']['Tables']['digest_settings']['Row'];
+export type DigestEmailConfirmationRow = Database['public']['Tables']['digest_email_confirmations']['Row'];
+export type ValuationConfigRow = Database['public']['Tables']['valuation_configs']['Row'];
+export type PushSubscriptionRow = Database['public']['Tables']['push_subscriptions']['Row'];
+export type WishlistItemRow = Database['public']['Tables']['wishlist_items']['Row'];
 export type ProfileRow = Database['public']['Tables']['profiles']['Row'];
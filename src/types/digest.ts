@@ -0,0 +1,18 @@
+// How often the collection digest email goes out
+export type DigestFrequency = 'weekly' | 'monthly';
+
+export interface DigestSettings {
+  enabled: boolean;
+  email: string;
+  frequency: DigestFrequency;
+  // Set by the digest sender after each delivery
+  lastSentAt?: string;
+}
+
+// Whether digests can go to the saved address yet (see api/digest-confirm.ts)
+export type DigestConfirmationStatus = 'confirmed' | 'sent' | 'pending';
+
+export const digestFrequencyLabels: Record<DigestFrequency, string> = {
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+};
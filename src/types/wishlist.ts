@@ -0,0 +1,28 @@
+import { VideoGameDetails } from './asset';
+
+// Latest market read for a wanted game
+export interface WishlistPriceCheck {
+  estimatedValue: number;
+  confidence: 'high' | 'medium' | 'low';
+  // Cheapest eBay sold listing among the comparables
+  lowestListing: {
+    price: number;
+    title: string;
+    url?: string;
+  } | null;
+  checkedAt: string;
+}
+
+// A game we want to buy, with the most we'd pay for it
+export interface WishlistItem {
+  id: string;
+  name: string;
+  platform: string;
+  conditionType: VideoGameDetails['conditionType'];
+  maxPrice: number;
+  notes?: string;
+  lastCheck?: WishlistPriceCheck;
+  // Price we last notified about, so one deal is announced only once
+  notifiedPrice?: number;
+  createdAt: string;
+}
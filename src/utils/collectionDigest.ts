@@ -0,0 +1,293 @@
+/**
+ * Collection Digest
+ *
+ * Builds the periodic collection performance summary (portfolio change,
+ * top movers, alerts fired and stale valuations) and renders it as an
+ * email. Shared by the app and the scheduled sender in api/digest-cron.ts,
+ * so it only imports types through the `@/` alias.
+ */
+
+import type { Asset, PriceSnapshot } from '@/types/asset';
+import type { AlertEvent } from '@/types/alerts';
+import type { DigestFrequency, DigestSettings } from '@/types/digest';
+import { calculatePeriodGain, generatePortfolioHistory, TimePeriod } from './portfolioHistory';
+import { groupSnapshotsByGame } from './priceHistory';
+import { isSold } from './sales';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Valuations older than this are flagged for a refresh
+export const STALE_VALUATION_DAYS = 30;
+
+const digestPeriods: Record<DigestFrequency, { period: TimePeriod; days: number; label: string }> = {
+  weekly: { period: '1W', days: 7, label: 'week' },
+  monthly: { period: '1M', days: 30, label: 'month' },
+};
+
+export interface DigestMover {
+  gameId: string;
+  name: string;
+  startValue: number;
+  endValue: number;
+  change: number;
+  changePercentage: number;
+}
+
+export interface StaleValuation {
+  gameId: string;
+  name: string;
+  // Null when the game has never been market valued
+  lastValuedAt: string | null;
+}
+
+export interface CollectionDigest {
+  frequency: DigestFrequency;
+  periodStart: string;
+  periodEnd: string;
+  itemCount: number;
+  portfolio: {
+    startValue: number;
+    endValue: number;
+    gain: number;
+    gainPercentage: number;
+  };
+  topGainers: DigestMover[];
+  topLosers: DigestMover[];
+  alerts: Array<Pick<AlertEvent, 'gameName' | 'message' | 'firedAt'>>;
+  staleValuations: StaleValuation[];
+}
+
+export interface DigestInput {
+  games: Asset[];
+  snapshots: PriceSnapshot[];
+  alerts: Array<Pick<AlertEvent, 'gameName' | 'message' | 'firedAt'>>;
+  frequency: DigestFrequency;
+  now?: Date;
+  // Movers listed in each direction
+  moverCount?: number;
+}
+
+// ============================================
+// SCHEDULING
+// ============================================
+
+export function getDigestPeriodDays(frequency: DigestFrequency): number {
+  return digestPeriods[frequency].days;
+}
+
+// Addresses are confirmed and compared in this form
+export function normalizeDigestEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+// Sent when enabled and a full period has passed since the last one
+export function isDigestDue(settings: DigestSettings, now = new Date()): boolean {
+  if (!settings.enabled || !settings.email) return false;
+  if (!settings.lastSentAt) return true;
+  // An hour of slack so a daily schedule doesn't drift a day late
+  const elapsed = now.getTime() - new Date(settings.lastSentAt).getTime();
+  return elapsed >= getDigestPeriodDays(settings.frequency) * DAY_MS - 60 * 60 * 1000;
+}
+
+// ============================================
+// DIGEST
+// ============================================
+
+export function buildCollectionDigest({
+  games,
+  snapshots,
+  alerts,
+  frequency,
+  now = new Date(),
+  moverCount = 3,
+}: DigestInput): CollectionDigest {
+  const { period, days } = digestPeriods[frequency];
+  const periodStart = new Date(now.getTime() - days * DAY_MS);
+  const owned = games.filter(g => !isSold(g));
+  const snapshotsByGame = groupSnapshotsByGame(snapshots);
+
+  const { startValue, endValue, gain, gainPercentage } = calculatePeriodGain(
+    generatePortfolioHistory(games, snapshots),
+    period
+  );
+
+  // Same period math per game; games bought during the period have no baseline
+  const movers: DigestMover[] = owned
+    .map(game => {
+      const change = calculatePeriodGain(generatePortfolioHistory([game], snapshotsByGame.get(game.id) || []), period);
+      return {
+        gameId: game.id,
+        name: game.name,
+        startValue: change.startValue,
+        endValue: change.endValue,
+        change: change.gain,
+        changePercentage: change.gainPercentage,
+      };
+    })
+    .filter(m => m.startValue > 0 && m.change !== 0);
+
+  const staleBefore = now.getTime() - STALE_VALUATION_DAYS * DAY_MS;
+  const staleValuations = owned
+    .filter(g => !g.lastValuedAt || new Date(g.lastValuedAt).getTime() < staleBefore)
+    .map(g => ({ gameId: g.id, name: g.name, lastValuedAt: g.lastValuedAt || null }))
+    .sort((a, b) => (a.lastValuedAt || '').localeCompare(b.lastValuedAt || ''));
+
+  return {
+    frequency,
+    periodStart: periodStart.toISOString(),
+    periodEnd: now.toISOString(),
+    itemCount: owned.length,
+    portfolio: { startValue, endValue, gain, gainPercentage },
+    topGainers: movers
+      .filter(m => m.change > 0)
+      .sort((a, b) => b.changePercentage - a.changePercentage)
+      .slice(0, moverCount),
+    topLosers: movers
+      .filter(m => m.change < 0)
+      .sort((a, b) => a.changePercentage - b.changePercentage)
+      .slice(0, moverCount),
+    alerts: alerts
+      .filter(a => new Date(a.firedAt).getTime() >= periodStart.getTime())
+      .sort((a, b) => b.firedAt.localeCompare(a.firedAt)),
+    staleValuations,
+  };
+}
+
+// ============================================
+// EMAIL
+// ============================================
+
+export interface DigestEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+function escapeHTML(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value);
+
+const formatChange = (value: number, percentage: number) =>
+  `${value >= 0 ? '+' : '-'}${formatCurrency(Math.abs(value))} (${percentage >= 0 ? '+' : ''}${percentage.toFixed(1)}%)`;
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+/**
+ * Email-safe HTML (inline styles, table layout) plus a plain text part
+ */
+export function renderDigestEmail(digest: CollectionDigest, options: { appUrl: string }): DigestEmail {
+  const { label } = digestPeriods[digest.frequency];
+  const { portfolio } = digest;
+  const gainColor = portfolio.gain >= 0 ? '#16a34a' : '#dc2626';
+  const subject = `Your collection this ${label}: ${formatChange(portfolio.gain, portfolio.gainPercentage)}`;
+
+  const section = (title: string, rows: string[]) => rows.length === 0 ? '' : `
+    <h2 style="font-size:16px;margin:24px 0 8px;">${escapeHTML(title)}</h2>
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="border-collapse:collapse;font-size:14px;">${rows.join('')}</table>`;
+
+  const row = (left: string, right: string, rightColor = '#111111') => `
+      <tr>
+        <td style="padding:6px 0;border-bottom:1px solid #eeeeee;">${left}</td>
+        <td style="padding:6px 0;border-bottom:1px solid #eeeeee;text-align:right;white-space:nowrap;color:${rightColor};">${right}</td>
+      </tr>`;
+
+  const moverRow = (m: DigestMover) => row(
+    `${escapeHTML(m.name)}<br><span style="color:#666666;font-size:12px;">${formatCurrency(m.startValue)} → ${formatCurrency(m.endValue)}</span>`,
+    formatChange(m.change, m.changePercentage),
+    m.change >= 0 ? '#16a34a' : '#dc2626'
+  );
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head><meta charset="utf-8"><title>${escapeHTML(subject)}</title></head>
+<body style="margin:0;padding:0;background:#f4f4f5;">
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f4f4f5;">
+    <tr><td align="center" style="padding:24px 12px;">
+      <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px;background:#ffffff;border-radius:8px;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',sans-serif;color:#111111;">
+        <tr><td style="padding:24px;">
+          <p style="margin:0;color:#666666;font-size:12px;">${formatDate(digest.periodStart)} – ${formatDate(digest.periodEnd)}</p>
+          <h1 style="font-size:20px;margin:4px 0 16px;">Your collection this ${label}</h1>
+          <p style="margin:0;font-size:28px;font-weight:bold;">${formatCurrency(portfolio.endValue)}</p>
+          <p style="margin:4px 0 0;font-size:14px;color:${gainColor};">${formatChange(portfolio.gain, portfolio.gainPercentage)}</p>
+          <p style="margin:4px 0 0;font-size:12px;color:#666666;">${digest.itemCount} item${digest.itemCount === 1 ? '' : 's'} owned</p>
+          ${section('Top gainers', digest.topGainers.map(moverRow))}
+          ${section('Top losers', digest.topLosers.map(moverRow))}
+          ${section('Price alerts', digest.alerts.map(a => row(
+            `${escapeHTML(a.gameName)}<br><span style="color:#666666;font-size:12px;">${escapeHTML(a.message)}</span>`,
+            formatDate(a.firedAt),
+            '#666666'
+          )))}
+          ${section('Valuations to refresh', digest.staleValuations.map(s => row(
+            escapeHTML(s.name),
+            s.lastValuedAt ? `Last valued ${formatDate(s.lastValuedAt)}` : 'Never valued',
+            '#666666'
+          )))}
+          <p style="margin:24px 0 0;"><a href="${escapeHTML(options.appUrl)}" style="display:inline-block;background:#7c3aed;color:#ffffff;text-decoration:none;padding:10px 16px;border-radius:6px;font-size:14px;">Open gil0</a></p>
+          <p style="margin:24px 0 0;font-size:11px;color:#999999;">You get this ${label}ly digest because you turned it on in your gil0 profile. Values are market estimates.</p>
+        </td></tr>
+      </table>
+    </td></tr>
+  </table>
+</body>
+</html>`;
+
+  const textSection = (title: string, lines: string[]) =>
+    lines.length === 0 ? [] : ['', title, ...lines.map(line => `- ${line}`)];
+  const textMover = (m: DigestMover) => `${m.name}: ${formatChange(m.change, m.changePercentage)}`;
+
+  const text = [
+    `Your collection this ${label} (${formatDate(digest.periodStart)} - ${formatDate(digest.periodEnd)})`,
+    `${formatCurrency(portfolio.endValue)}, ${formatChange(portfolio.gain, portfolio.gainPercentage)}`,
+    ...textSection('Top gainers', digest.topGainers.map(textMover)),
+    ...textSection('Top losers', digest.topLosers.map(textMover)),
+    ...textSection('Price alerts', digest.alerts.map(a => `${a.gameName}: ${a.message}`)),
+    ...textSection('Valuations to refresh', digest.staleValuations.map(s => s.name)),
+    '',
+    options.appUrl,
+  ].join('\n');
+
+  return { subject, html, text };
+}
+
+/**
+ * Sent to a newly entered digest address; digests only go out once the
+ * link has been opened
+ */
+export function renderDigestConfirmationEmail(options: { confirmUrl: string; appUrl: string }): DigestEmail {
+  const subject = 'Confirm your gil0 digest email';
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head><meta charset="utf-8"><title>${escapeHTML(subject)}</title></head>
+<body style="margin:0;padding:24px 12px;background:#f4f4f5;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',sans-serif;color:#111111;">
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;">
+    <tr><td style="padding:24px;">
+      <h1 style="font-size:20px;margin:0 0 16px;">Confirm your digest email</h1>
+      <p style="margin:0;font-size:14px;">Someone asked for gil0 collection digests to be sent to this address. Confirm it was you to start receiving them.</p>
+      <p style="margin:24px 0 0;"><a href="${escapeHTML(options.confirmUrl)}" style="display:inline-block;background:#7c3aed;color:#ffffff;text-decoration:none;padding:10px 16px;border-radius:6px;font-size:14px;">Confirm address</a></p>
+      <p style="margin:24px 0 0;font-size:11px;color:#999999;">If this wasn't you, ignore this email and nothing will be sent.</p>
+    </td></tr>
+  </table>
+</body>
+</html>`;
+
+  const text = [
+    'Someone asked for gil0 collection digests to be sent to this address.',
+    'Confirm it was you to start receiving them:',
+    '',
+    options.confirmUrl,
+    '',
+    "If this wasn't you, ignore this email and nothing will be sent.",
+    options.appUrl,
+  ].join('\n');
+
+  return { subject, html, text };
+}
@@ -0,0 +1,239 @@
+/**
+ * Collection Export Helpers
+ *
+ * Serializes the collection as CSV (spreadsheet friendly, re-importable),
+ * a lossless JSON backup, and a printable insurance report that the
+ * browser can save as PDF.
+ */
+
+import { Asset, PriceSnapshot, categoryLabels } from '@/types/asset';
+import { groupSnapshotsByGame } from './priceHistory';
+
+export const EXPORT_FORMAT_VERSION = 1;
+
+export interface CollectionBackup {
+  version: number;
+  exportedAt: string;
+  assets: Asset[];
+  snapshots: PriceSnapshot[];
+}
+
+export interface InsuranceReportOptions {
+  owner?: string;
+  snapshots?: PriceSnapshot[];
+  generatedAt?: Date;
+}
+
+// ============================================
+// CSV
+// ============================================
+
+// Headers match the import aliases so an export can be re-imported as-is
+const CSV_COLUMNS: Array<{ header: string; value: (asset: Asset) => string | number | undefined }> = [
+  { header: 'Name', value: a => a.name },
+  { header: 'Category', value: a => a.category },
+  { header: 'Platform', value: a => a.videoGameDetails?.platform },
+  { header: 'Region', value: a => a.videoGameDetails?.region },
+  { header: 'Condition', value: a => a.videoGameDetails?.conditionType },
+  { header: 'Set', value: a => a.tradingCardDetails?.setName },
+  { header: 'Card Number', value: a => a.tradingCardDetails?.cardNumber },
+  { header: 'Grading Company', value: a => {
+    const company = a.videoGameDetails?.gradingCompany || a.tradingCardDetails?.gradingCompany;
+    return company === 'raw' ? '' : company;
+  } },
+  { header: 'Grade', value: a => a.videoGameDetails?.grade ?? a.tradingCardDetails?.grade },
+  { header: 'Purchase Price', value: a => a.purchasePrice },
+  { header: 'Current Value', value: a => a.currentValue },
+  { header: 'Purchase Date', value: a => a.purchaseDate },
+  { header: 'Source', value: a => a.source },
+  { header: 'Last Valued', value: a => a.lastValuedAt },
+  { header: 'Sale Date', value: a => a.sale?.date },
+  { header: 'Sale Price', value: a => a.sale?.price },
+  { header: 'Image URL', value: a => (a.imageUrl?.startsWith('data:') ? '' : a.imageUrl) },
+];
+
+export function escapeCSV(value: string | number | undefined): string {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function exportToCSV(assets: Asset[]): string {
+  const lines = [
+    CSV_COLUMNS.map(c => escapeCSV(c.header)).join(','),
+    ...assets.map(asset => CSV_COLUMNS.map(c => escapeCSV(c.value(asset))).join(',')),
+  ];
+  return lines.join('\r\n');
+}
+
+// ============================================
+// JSON BACKUP
+// ============================================
+
+/**
+ * Full backup - every Asset field (photos and category details included)
+ * plus the price history
+ */
+export function exportToJSON(assets: Asset[], snapshots: PriceSnapshot[] = []): string {
+  const backup: CollectionBackup = {
+    version: EXPORT_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    assets,
+    snapshots,
+  };
+  return JSON.stringify(backup, null, 2);
+}
+
+// ============================================
+// INSURANCE REPORT
+// ============================================
+
+function escapeHTML(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value);
+
+function getGroupLabel(asset: Asset): string {
+  return asset.videoGameDetails?.platform || asset.tradingCardDetails?.setName || categoryLabels[asset.category];
+}
+
+function describeCondition(asset: Asset): string {
+  const card = asset.tradingCardDetails;
+  if (card) {
+    const grade = card.gradingCompany && card.gradingCompany !== 'raw' ? `${card.gradingCompany} ${card.grade ?? ''}` : 'Raw';
+    return [card.cardNumber && `#${card.cardNumber}`, card.variant, grade].filter(Boolean).join(' · ');
+  }
+
+  const game = asset.videoGameDetails;
+  if (!game) return '';
+  const grade = game.gradingCompany && game.gradingCompany !== 'raw'
+    ? ` · ${game.gradingCompany} ${game.grade ?? ''}${game.sealRating ? ` ${game.sealRating}` : ''}`
+    : '';
+  return `${game.conditionType.toUpperCase()} · ${game.region}${grade}`;
+}
+
+/**
+ * Self-contained HTML report listing every item with photo, purchase price,
+ * current value and valuation confidence, grouped and totalled per platform
+ */
+export function buildInsuranceReport(assets: Asset[], options: InsuranceReportOptions = {}): string {
+  const { owner, snapshots = [], generatedAt = new Date() } = options;
+  const latestSnapshot = new Map(
+    Array.from(groupSnapshotsByGame(snapshots), ([gameId, list]) => [gameId, list[list.length - 1]])
+  );
+
+  const groups = new Map<string, Asset[]>();
+  for (const asset of assets) {
+    const label = getGroupLabel(asset);
+    groups.set(label, [...(groups.get(label) || []), asset]);
+  }
+  const sortedGroups = Array.from(groups).sort(([a], [b]) => a.localeCompare(b));
+
+  const totalCost = assets.reduce((sum, a) => sum + a.purchasePrice, 0);
+  const totalValue = assets.reduce((sum, a) => sum + a.currentValue, 0);
+
+  const renderRow = (asset: Asset) => {
+    const snapshot = latestSnapshot.get(asset.id);
+    const photo = asset.photos?.[0] || (asset.imageUrl !== '/placeholder.svg' ? asset.imageUrl : '');
+    const confidence = snapshot
+      ? `${snapshot.confidence} (${snapshot.confidenceScore}%)<br><small>${new Date(snapshot.recordedAt).toLocaleDateString()}</small>`
+      : '<small>Not market valued</small>';
+
+    return `
+      <tr>
+        <td class="photo">${photo ? `<img src="${escapeHTML(photo)}" alt="">` : ''}</td>
+        <td><strong>${escapeHTML(asset.name)}</strong><br><small>${escapeHTML(describeCondition(asset))}</small></td>
+        <td>${escapeHTML(asset.purchaseDate)}<br><small>${escapeHTML(asset.source)}</small></td>
+        <td class="num">${formatCurrency(asset.purchasePrice)}</td>
+        <td class="num">${formatCurrency(asset.currentValue)}</td>
+        <td>${confidence}</td>
+      </tr>`;
+  };
+
+  const renderGroup = ([label, items]: [string, Asset[]]) => {
+    const cost = items.reduce((sum, a) => sum + a.purchasePrice, 0);
+    const value = items.reduce((sum, a) => sum + a.currentValue, 0);
+    return `
+      <h2>${escapeHTML(label)}</h2>
+      <table>
+        <thead>
+          <tr><th></th><th>Item</th><th>Acquired</th><th class="num">Purchase Price</th><th class="num">Current Value</th><th>Valuation Confidence</th></tr>
+        </thead>
+        <tbody>${items.map(renderRow).join('')}</tbody>
+        <tfoot>
+          <tr><td></td><td colspan="2">${items.length} item${items.length === 1 ? '' : 's'}</td><td class="num">${formatCurrency(cost)}</td><td class="num">${formatCurrency(value)}</td><td></td></tr>
+        </tfoot>
+      </table>`;
+  };
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Collection Insurance Report</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; color: #111; margin: 32px; }
+  h1 { margin-bottom: 4px; }
+  h2 { margin-top: 32px; font-size: 18px; border-bottom: 2px solid #111; padding-bottom: 4px; }
+  table { width: 100%; border-collapse: collapse; font-size: 12px; page-break-inside: auto; }
+  tr { page-break-inside: avoid; }
+  th, td { text-align: left; padding: 6px; border-bottom: 1px solid #ddd; vertical-align: top; }
+  tfoot td { font-weight: bold; border-top: 1px solid #111; }
+  .num { text-align: right; white-space: nowrap; }
+  .photo { width: 56px; }
+  .photo img { width: 48px; height: 48px; object-fit: cover; border-radius: 4px; }
+  .summary { display: flex; gap: 32px; margin: 16px 0; }
+  .summary div { font-size: 12px; color: #555; }
+  .summary strong { display: block; font-size: 20px; color: #111; }
+  small { color: #666; }
+  @media print { body { margin: 12mm; } }
+</style>
+</head>
+<body>
+  <h1>Collection Insurance Report</h1>
+  <small>${owner ? `${escapeHTML(owner)} · ` : ''}Generated ${generatedAt.toLocaleDateString()} ${generatedAt.toLocaleTimeString()}</small>
+  <div class="summary">
+    <div><strong>${assets.length}</strong>Items</div>
+    <div><strong>${formatCurrency(totalCost)}</strong>Total Purchase Price</div>
+    <div><strong>${formatCurrency(totalValue)}</strong>Total Current Value</div>
+  </div>
+  ${sortedGroups.map(renderGroup).join('')}
+  <p><small>Current values are market estimates from recorded comparable sales and may differ from replacement cost.</small></p>
+</body>
+</html>`;
+}
+
+// ============================================
+// BROWSER HELPERS
+// ============================================
+
+export function downloadFile(fileName: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Open the report in a new window and bring up the print dialog,
+ * where it can be saved as PDF
+ */
+export function openPrintableReport(html: string): boolean {
+  const reportWindow = window.open('', '_blank');
+  if (!reportWindow) return false;
+
+  reportWindow.document.write(html);
+  reportWindow.document.close();
+  reportWindow.focus();
+  reportWindow.onload = () => reportWindow.print();
+  return true;
+}
@@ -0,0 +1,395 @@
+/**
+ * Collection Import Helpers
+ *
+ * Parses CSV or JSON collection files (spreadsheets, PriceCharting
+ * collection exports...), maps their columns onto Asset fields and
+ * validates every row before it is imported.
+ */
+
+import { Asset, AssetCategory, TradingCardDetails, VideoGameDetails } from '@/types/asset';
+
+export type ImportField =
+  | 'name'
+  | 'category'
+  | 'platform'
+  | 'region'
+  | 'conditionType'
+  | 'gradingCompany'
+  | 'grade'
+  | 'setName'
+  | 'cardNumber'
+  | 'purchasePrice'
+  | 'currentValue'
+  | 'purchaseDate'
+  | 'source'
+  | 'imageUrl';
+
+// Target field -> source column header
+export type ImportMapping = Partial<Record<ImportField, string>>;
+
+export interface ImportFieldDefinition {
+  field: ImportField;
+  label: string;
+  required: boolean;
+  // Header names recognised automatically (compared case-insensitively)
+  aliases: string[];
+}
+
+export interface ParsedImportFile {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+export interface ImportRow {
+  // 1-based row number in the source file
+  rowNumber: number;
+  asset: Asset | null;
+  errors: string[];
+  // Already in the collection, or repeated earlier in the same file
+  duplicate: 'existing' | 'file' | null;
+}
+
+export const importFields: ImportFieldDefinition[] = [
+  { field: 'name', label: 'Name', required: true, aliases: ['name', 'title', 'game', 'game title', 'product-name', 'product name', 'card', 'card name'] },
+  { field: 'category', label: 'Category', required: false, aliases: ['category', 'type', 'asset type'] },
+  { field: 'platform', label: 'Platform', required: false, aliases: ['platform', 'console', 'console-name', 'console name', 'system'] },
+  { field: 'region', label: 'Region', required: false, aliases: ['region'] },
+  { field: 'conditionType', label: 'Condition', required: false, aliases: ['condition', 'condition-string', 'condition type', 'completeness'] },
+  { field: 'gradingCompany', label: 'Grading Company', required: false, aliases: ['grading company', 'grader', 'grading', 'graded by'] },
+  { field: 'grade', label: 'Grade', required: false, aliases: ['grade', 'score'] },
+  { field: 'setName', label: 'Card Set', required: false, aliases: ['set', 'set name', 'card set', 'expansion'] },
+  { field: 'cardNumber', label: 'Card Number', required: false, aliases: ['card number', 'number', 'card #', 'no.'] },
+  { field: 'purchasePrice', label: 'Purchase Price', required: true, aliases: ['purchase price', 'price paid', 'paid', 'price-paid', 'cost', 'purchase-price', 'bought for'] },
+  { field: 'currentValue', label: 'Current Value', required: false, aliases: ['current value', 'value', 'market value', 'current-value', 'estimated value'] },
+  { field: 'purchaseDate', label: 'Purchase Date', required: false, aliases: ['purchase date', 'date purchased', 'date', 'date-entered', 'acquired', 'purchase-date'] },
+  { field: 'source', label: 'Purchase Source', required: false, aliases: ['source', 'store', 'purchased from', 'seller', 'where bought'] },
+  { field: 'imageUrl', label: 'Image URL', required: false, aliases: ['image', 'image url', 'image-url', 'photo', 'cover'] },
+];
+
+// ============================================
+// PARSING
+// ============================================
+
+function detectDelimiter(headerLine: string): string {
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce((best, d) =>
+    headerLine.split(d).length > headerLine.split(best).length ? d : best
+  );
+}
+
+/**
+ * Parse CSV text into header + row objects.
+ * Handles quoted fields, escaped quotes, newlines inside quotes and
+ * comma, semicolon or tab delimiters.
+ */
+export function parseCSV(text: string): ParsedImportFile {
+  const content = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(content.split(/\r?\n/)[0] || '');
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter(r => r.some(value => value.trim() !== ''));
+  if (nonEmpty.length === 0) return { headers: [], rows: [] };
+
+  const headers = nonEmpty[0].map(h => h.trim());
+  const rows = nonEmpty.slice(1).map(values =>
+    Object.fromEntries(headers.map((h, i) => [h, (values[i] ?? '').trim()]))
+  );
+  return { headers, rows };
+}
+
+/**
+ * Parse a JSON array of objects (or an object wrapping one, e.g. { games: [...] })
+ */
+export function parseJSON(text: string): ParsedImportFile {
+  const data = JSON.parse(text);
+  const list: unknown = Array.isArray(data)
+    ? data
+    : Object.values(data ?? {}).find(Array.isArray);
+
+  if (!Array.isArray(list)) {
+    throw new Error('JSON file does not contain a list of items');
+  }
+
+  const items = list.filter((item): item is Record<string, unknown> =>
+    typeof item === 'object' && item !== null && !Array.isArray(item)
+  );
+
+  // Nested objects (e.g. videoGameDetails) are flattened into the row
+  const flatten = (item: Record<string, unknown>): Record<string, string> => {
+    const row: Record<string, string> = {};
+    for (const [key, value] of Object.entries(item)) {
+      if (value && typeof value === 'object' && !Array.isArray(value)) {
+        Object.assign(row, flatten(value as Record<string, unknown>));
+      } else if (value !== null && value !== undefined) {
+        row[key] = String(value);
+      }
+    }
+    return row;
+  };
+
+  const rows = items.map(flatten);
+  const headers = Array.from(new Set(rows.flatMap(r => Object.keys(r))));
+  return { headers, rows };
+}
+
+export function parseImportFile(fileName: string, text: string): ParsedImportFile {
+  return fileName.toLowerCase().endsWith('.json') || text.trim().startsWith('[') || text.trim().startsWith('{')
+    ? parseJSON(text)
+    : parseCSV(text);
+}
+
+// ============================================
+// COLUMN MAPPING
+// ============================================
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().trim().replace(/[_\s]+/g, ' ');
+}
+
+/**
+ * Guess which column feeds each field from the header names
+ */
+export function suggestMapping(headers: string[]): ImportMapping {
+  const mapping: ImportMapping = {};
+  const used = new Set<string>();
+
+  for (const definition of importFields) {
+    const candidates = [definition.field, ...definition.aliases].map(normalizeHeader);
+    const match = headers.find(h => !used.has(h) && candidates.includes(normalizeHeader(h)));
+    if (match) {
+      mapping[definition.field] = match;
+      used.add(match);
+    }
+  }
+  return mapping;
+}
+
+// ============================================
+// VALUE NORMALIZATION
+// ============================================
+
+function parseAmount(value: string): number | null {
+  const cleaned = value.replace(/[$£€,\s]/g, '');
+  if (cleaned === '') return null;
+  const amount = Number(cleaned);
+  return Number.isFinite(amount) ? amount : NaN;
+}
+
+function parseCategory(value: string): AssetCategory | null {
+  const v = value.toLowerCase();
+  if (!v) return 'video-games';
+  if (/card|tcg|ccg/.test(v)) return 'trading-cards';
+  if (/game|video/.test(v)) return 'video-games';
+  return null;
+}
+
+function parseConditionType(value: string): VideoGameDetails['conditionType'] | null {
+  const v = value.toLowerCase();
+  if (!v) return 'cib';
+  if (/seal|new/.test(v)) return 'sealed';
+  if (/loose|cart|disc only|game only/.test(v)) return 'loose';
+  if (/cib|complete|box/.test(v)) return 'cib';
+  return null;
+}
+
+function parseRegion(value: string): VideoGameDetails['region'] {
+  const v = value.toLowerCase();
+  if (!v || /ntsc-?u|^ntsc$|^us|usa|america/.test(v)) return 'NTSC';
+  if (/ntsc-?j|jp|japan/.test(v)) return 'NTSC-J';
+  if (/pal|eu|europe|uk/.test(v)) return 'PAL';
+  return 'other';
+}
+
+// YYYY-MM-DD of a date in the user's time zone
+function toLocalDateString(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * ISO dates are kept as written; anything else (e.g. "03/15/2023") is
+ * read as a local date, so converting to UTC can't shift it a day
+ */
+function parseDate(value: string): string | null {
+  if (!value) return toLocalDateString(new Date());
+
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const date = iso ? new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])) : new Date(value);
+  if (isNaN(date.getTime())) return null;
+  // Reject impossible ISO dates like 2023-02-30 instead of rolling them over
+  if (iso && toLocalDateString(date) !== value) return null;
+  return toLocalDateString(date);
+}
+
+const gameGraders: VideoGameDetails['gradingCompany'][] = ['WATA', 'VGA', 'CGC'];
+const cardGraders: TradingCardDetails['gradingCompany'][] = ['PSA', 'BGS', 'CGC', 'SGC'];
+
+// ============================================
+// ROW VALIDATION
+// ============================================
+
+function duplicateKey(asset: Asset): string {
+  const identity = asset.category === 'trading-cards'
+    ? `${asset.tradingCardDetails?.setName}|${asset.tradingCardDetails?.cardNumber ?? ''}|${asset.tradingCardDetails?.gradingCompany}${asset.tradingCardDetails?.grade ?? ''}`
+    : `${asset.videoGameDetails?.platform}|${asset.videoGameDetails?.conditionType}`;
+  return `${asset.category}|${asset.name}|${identity}`.toLowerCase().replace(/\s+/g, ' ');
+}
+
+function buildAsset(
+  row: Record<string, string>,
+  mapping: ImportMapping,
+  rowNumber: number
+): { asset: Asset | null; errors: string[] } {
+  const get = (field: ImportField) => (mapping[field] ? row[mapping[field]!] ?? '' : '').trim();
+  const errors: string[] = [];
+
+  const name = get('name');
+  if (!name) errors.push('Missing name');
+
+  const category = parseCategory(get('category'));
+  if (!category) errors.push(`Unknown category "${get('category')}"`);
+
+  const purchasePrice = parseAmount(get('purchasePrice'));
+  if (purchasePrice === null) errors.push('Missing purchase price');
+  else if (isNaN(purchasePrice) || purchasePrice < 0) errors.push(`Invalid purchase price "${get('purchasePrice')}"`);
+
+  const currentValue = parseAmount(get('currentValue'));
+  if (currentValue !== null && (isNaN(currentValue) || currentValue < 0)) {
+    errors.push(`Invalid current value "${get('currentValue')}"`);
+  }
+
+  const purchaseDate = parseDate(get('purchaseDate'));
+  if (!purchaseDate) errors.push(`Invalid purchase date "${get('purchaseDate')}"`);
+
+  const gradeText = get('grade');
+  const grade = gradeText ? parseFloat(gradeText) : undefined;
+  if (grade !== undefined && (isNaN(grade) || grade < 0 || grade > 10)) {
+    errors.push(`Invalid grade "${gradeText}"`);
+  }
+  const grader = get('gradingCompany').toUpperCase();
+
+  let details: Pick<Asset, 'videoGameDetails' | 'tradingCardDetails'> = {};
+  if (category === 'trading-cards') {
+    const setName = get('setName');
+    if (!setName) errors.push('Missing card set');
+    if (grader && !cardGraders.includes(grader as TradingCardDetails['gradingCompany'])) {
+      errors.push(`Unknown grading company "${get('gradingCompany')}"`);
+    }
+    details = {
+      tradingCardDetails: {
+        cardGame: 'other',
+        setName,
+        cardNumber: get('cardNumber') || undefined,
+        gradingCompany: (grader || 'raw') as TradingCardDetails['gradingCompany'],
+        grade,
+      },
+    };
+  } else if (category === 'video-games') {
+    const platform = get('platform');
+    if (!platform) errors.push('Missing platform');
+    const conditionType = parseConditionType(get('conditionType'));
+    if (!conditionType) errors.push(`Unknown condition "${get('conditionType')}"`);
+    if (grader && !gameGraders.includes(grader as VideoGameDetails['gradingCompany'])) {
+      errors.push(`Unknown grading company "${get('gradingCompany')}"`);
+    }
+    details = {
+      videoGameDetails: {
+        platform,
+        region: parseRegion(get('region')),
+        conditionType: conditionType || 'cib',
+        gradingCompany: (grader || 'raw') as VideoGameDetails['gradingCompany'],
+        grade,
+      },
+    };
+  }
+
+  if (errors.length > 0) return { asset: null, errors };
+
+  const today = new Date().toISOString().split('T')[0];
+  return {
+    asset: {
+      id: `import-${rowNumber}`,
+      name,
+      category: category!,
+      imageUrl: get('imageUrl') || '/placeholder.svg',
+      purchasePrice: purchasePrice!,
+      currentValue: currentValue ?? purchasePrice!,
+      purchaseDate: purchaseDate!,
+      source: get('source') || 'Import',
+      lastUpdated: today,
+      ...details,
+    },
+    errors,
+  };
+}
+
+/**
+ * Map and validate every row, flagging duplicates of existing games
+ * and of earlier rows in the same file
+ */
+export function buildImportRows(
+  file: ParsedImportFile,
+  mapping: ImportMapping,
+  existingGames: Asset[]
+): ImportRow[] {
+  const existingKeys = new Set(existingGames.map(duplicateKey));
+  const fileKeys = new Set<string>();
+
+  return file.rows.map((row, index) => {
+    // Header is row 1
+    const rowNumber = index + 2;
+    const { asset, errors } = buildAsset(row, mapping, rowNumber);
+
+    let duplicate: ImportRow['duplicate'] = null;
+    if (asset) {
+      const key = duplicateKey(asset);
+      if (existingKeys.has(key)) duplicate = 'existing';
+      else if (fileKeys.has(key)) duplicate = 'file';
+      fileKeys.add(key);
+    }
+
+    return { rowNumber, asset, errors, duplicate };
+  });
+}
+
+/**
+ * Fields that must be mapped before rows can be validated
+ */
+export function getMissingRequiredFields(mapping: ImportMapping): ImportFieldDefinition[] {
+  return importFields.filter(f => f.required && !mapping[f.field]);
+}
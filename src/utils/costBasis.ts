@@ -0,0 +1,30 @@
+/**
+ * Cost Basis
+ *
+ * What an asset really cost: the purchase price plus every cost entry
+ * recorded for it (shipping, sales tax, buyer's premium, grading fees).
+ * Gains and ROI are measured against this rather than the purchase price.
+ */
+
+import { Asset, CostEntry } from '@/types/asset';
+
+export function getExtraCosts(asset: Asset): number {
+  return (asset.costs || []).reduce((sum, entry) => sum + entry.amount, 0);
+}
+
+export function getCostBasis(asset: Asset): number {
+  return asset.purchasePrice + getExtraCosts(asset);
+}
+
+/**
+ * Unrealized gain against the total cost basis, with ROI as a percentage
+ */
+export function getUnrealizedGain(asset: Asset): { gain: number; percentage: number } {
+  const costBasis = getCostBasis(asset);
+  const gain = asset.currentValue - costBasis;
+  return { gain, percentage: costBasis > 0 ? (gain / costBasis) * 100 : 0 };
+}
+
+export function createCostEntry(entry: Omit<CostEntry, 'id'>): CostEntry {
+  return { id: crypto.randomUUID(), ...entry };
+}
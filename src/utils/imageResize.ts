@@ -0,0 +1,81 @@
+/**
+ * Client-side Image Resizing
+ *
+ * Photos from phone cameras are several megabytes; they're scaled down
+ * and re-encoded as JPEG before being stored or uploaded.
+ */
+
+export interface ResizeOptions {
+  maxDimension?: number;
+  quality?: number;
+}
+
+const DEFAULT_MAX_DIMENSION = 1600;
+const DEFAULT_QUALITY = 0.82;
+
+export function dataUrlToBlob(dataUrl: string): Blob {
+  const [header, data] = dataUrl.split(',');
+  const mimeType = header.match(/data:([^;]+)/)?.[1] || 'application/octet-stream';
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+}
+
+function loadImage(source: Blob | string): Promise<HTMLImageElement> {
+  const url = typeof source === 'string' ? source : URL.createObjectURL(source);
+
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      if (typeof source !== 'string') URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      if (typeof source !== 'string') URL.revokeObjectURL(url);
+      reject(new Error('Could not decode image'));
+    };
+    image.src = url;
+  });
+}
+
+function drawScaled(image: HTMLImageElement, maxDimension: number): HTMLCanvasElement {
+  const scale = Math.min(1, maxDimension / Math.max(image.naturalWidth, image.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not supported');
+  // JPEG has no alpha; keep transparent PNGs from turning black
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+/**
+ * Scale an image so its longest side fits maxDimension and encode it as JPEG
+ */
+export async function resizeImage(source: Blob | string, options: ResizeOptions = {}): Promise<Blob> {
+  const { maxDimension = DEFAULT_MAX_DIMENSION, quality = DEFAULT_QUALITY } = options;
+  const canvas = drawScaled(await loadImage(source), maxDimension);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Could not encode image'))),
+      'image/jpeg',
+      quality
+    );
+  });
+}
+
+/**
+ * Small inline JPEG for use as a cover image before the photo is uploaded
+ */
+export async function createThumbnailDataUrl(source: Blob | string, maxDimension = 320): Promise<string> {
+  const canvas = drawScaled(await loadImage(source), maxDimension);
+  return canvas.toDataURL('image/jpeg', 0.7);
+}
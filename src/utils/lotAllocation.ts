@@ -0,0 +1,108 @@
+/**
+ * Lot Cost Allocation
+ *
+ * Splits the price paid for a lot across its items - in proportion to
+ * their market values, evenly, or by hand - to the cent, so the shares
+ * always add up to the lot's total cost.
+ */
+
+import { Asset, LotAllocationMethod, LotPurchase } from '@/types/asset';
+import { isSold } from './sales';
+
+export const allocationMethodLabels: Record<LotAllocationMethod, string> = {
+  market: 'By market value',
+  even: 'Evenly',
+  manual: 'Manually',
+};
+
+export function createLot(name: string, totalCost: number, method: LotAllocationMethod): LotPurchase {
+  return { id: crypto.randomUUID(), name, totalCost, method };
+}
+
+// Largest-remainder rounding so the cents add up exactly
+function splitCents(totalCents: number, weights: number[]): number[] {
+  const weightSum = weights.reduce((sum, w) => sum + w, 0);
+  const exact = weights.map(w => (totalCents * w) / weightSum);
+  const shares = exact.map(Math.floor);
+
+  let remaining = totalCents - shares.reduce((sum, s) => sum + s, 0);
+  const byRemainder = exact
+    .map((value, i) => ({ i, remainder: value - shares[i] }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (const { i } of byRemainder) {
+    if (remaining <= 0) break;
+    shares[i] += 1;
+    remaining -= 1;
+  }
+  return shares;
+}
+
+/**
+ * Each item's share of the total cost. `weights` are market values for
+ * 'market' and the entered amounts for 'manual', which are returned as-is.
+ * Items without a market value count as an average item; with none known
+ * the cost is split evenly.
+ */
+export function allocateLotCost(totalCost: number, weights: number[], method: LotAllocationMethod): number[] {
+  if (weights.length === 0) return [];
+  if (method === 'manual') return weights.map(w => Math.max(0, w));
+
+  const known = weights.filter(w => w > 0);
+  const average = known.length > 0 ? known.reduce((sum, w) => sum + w, 0) / known.length : 1;
+  const shares = splitCents(
+    Math.round(totalCost * 100),
+    method === 'even' ? weights.map(() => 1) : weights.map(w => (w > 0 ? w : average))
+  );
+  return shares.map(cents => cents / 100);
+}
+
+/**
+ * Difference between the manual amounts and the lot total (0 when they match)
+ */
+export function getUnallocatedAmount(totalCost: number, amounts: number[]): number {
+  const allocated = amounts.reduce((sum, a) => sum + a, 0);
+  return Math.round((totalCost - allocated) * 100) / 100;
+}
+
+/**
+ * Every asset bought in the given lot, sold ones included
+ */
+export function getLotItems(assets: Asset[], lotId: string): Asset[] {
+  return assets.filter(a => a.lot?.id === lotId);
+}
+
+/**
+ * Re-split a lot's total cost over its items. Sold items keep their share,
+ * since their realized gain is already on the books; the rest of the cost
+ * is split over the items still owned. Market allocation weights by each
+ * item's value when the lot was bought, so revaluations don't move it.
+ */
+export function reallocateLot(
+  items: Asset[],
+  method: LotAllocationMethod,
+  manualAmounts?: number[]
+): Asset[] {
+  const lot = items[0]?.lot;
+  if (!lot) return items;
+
+  const owned = items.map((asset, i) => ({ asset, i })).filter(({ asset }) => !isSold(asset));
+  const soldCost = items.filter(isSold).reduce((sum, a) => sum + a.purchasePrice, 0);
+  const remainingCost = Math.max(0, Math.round((lot.totalCost - soldCost) * 100) / 100);
+
+  const weights = owned.map(({ asset, i }) => {
+    if (method === 'manual') return manualAmounts?.[i] ?? asset.purchasePrice;
+    return asset.lot?.marketValue ?? 0;
+  });
+  const prices = allocateLotCost(remainingCost, weights, method);
+  const priceByIndex = new Map(owned.map(({ i }, n) => [i, prices[n]]));
+
+  return items.map((asset, i) => {
+    const price = priceByIndex.get(i);
+    if (price === undefined) return asset;
+    return {
+      ...asset,
+      purchasePrice: price,
+      lot: { ...(asset.lot ?? lot), method },
+    };
+  });
+}
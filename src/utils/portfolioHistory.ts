@@ -2,10 +2,11 @@
  * Portfolio History Generator
  * 
  * Generates real portfolio value history based on actual assets,
- * their purchase dates, and current values.
+ * their purchase dates, and recorded price snapshots.
  */
 
-import { Asset } from '@/types/asset';
+import { Asset, PriceSnapshot } from '@/types/asset';
+import { groupSnapshotsByGame } from './priceHistory';
 
 export interface PortfolioDataPoint {
   date: string;
@@ -19,14 +20,23 @@ export const timePeriods: TimePeriod[] = ['1W', '1M', '3M', '6M', '1Y', 'ALL'];
 
 /**
  * Generate portfolio history based on actual assets
+ *
+ * Each asset is valued on a given day at its most recent recorded price:
+ * the purchase price on the purchase date, then every price snapshot after
+ * that. Today always uses the asset's current value. Sold assets drop out
+ * from their sale date onward.
  */
-export function generatePortfolioHistory(assets: Asset[]): PortfolioDataPoint[] {
+export function generatePortfolioHistory(
+  assets: Asset[],
+  snapshots: PriceSnapshot[] = []
+): PortfolioDataPoint[] {
   if (assets.length === 0) {
     return generateEmptyHistory();
   }
 
   const now = new Date();
   const data: PortfolioDataPoint[] = [];
+  const snapshotsByGame = groupSnapshotsByGame(snapshots);
   
   // Find the earliest purchase date
   const purchaseDates = assets.map(a => new Date(a.purchaseDate).getTime());
@@ -36,35 +46,30 @@ export function generatePortfolioHistory(assets: Asset[]): PortfolioDataPoint[]
   const daysSinceEarliest = Math.ceil((now.getTime() - earliestDate.getTime()) / (1000 * 60 * 60 * 24));
   const historyDays = Math.min(Math.max(daysSinceEarliest, 7), 365); // Between 7 and 365 days
   
+  // Recorded value points per asset, oldest first
+  const timelines = assets.map(asset => ({
+    asset,
+    points: buildValueTimeline(asset, snapshotsByGame.get(asset.id) || []),
+  }));
+  
   // For each day, calculate the portfolio value
   for (let i = historyDays; i >= 0; i--) {
     const date = new Date(now);
     date.setDate(date.getDate() - i);
     date.setHours(0, 0, 0, 0);
+    const dateKey = date.toISOString().split('T')[0];
     
     let dayValue = 0;
     
-    for (const asset of assets) {
-      const purchaseDate = new Date(asset.purchaseDate);
-      purchaseDate.setHours(0, 0, 0, 0);
+    for (const { asset, points } of timelines) {
+      // Only count assets that were purchased and not yet sold by this date
+      if (dateKey < asset.purchaseDate) continue;
+      if (asset.sale && dateKey >= asset.sale.date) continue;
       
-      // Only count assets that were purchased by this date
-      if (date >= purchaseDate) {
-        // Calculate value on this day
-        // Linear interpolation from purchase price to current value
-        const daysOwned = Math.ceil((now.getTime() - purchaseDate.getTime()) / (1000 * 60 * 60 * 24));
-        const daysSincePurchase = Math.ceil((date.getTime() - purchaseDate.getTime()) / (1000 * 60 * 60 * 24));
-        
-        if (daysOwned <= 0) {
-          // Purchased today
-          dayValue += asset.currentValue;
-        } else {
-          // Interpolate value
-          const valueGrowth = asset.currentValue - asset.purchasePrice;
-          const progress = Math.min(daysSincePurchase / daysOwned, 1);
-          const valueOnDay = asset.purchasePrice + (valueGrowth * progress);
-          dayValue += valueOnDay;
-        }
+      if (i === 0) {
+        dayValue += asset.currentValue;
+      } else {
+        dayValue += getRecordedValueOn(points, dateKey);
       }
     }
     
@@ -72,7 +77,7 @@ export function generatePortfolioHistory(assets: Asset[]): PortfolioDataPoint[]
     const label = formatDateLabel(date, i, historyDays);
     
     data.push({
-      date: date.toISOString().split('T')[0],
+      date: dateKey,
       label,
       value: Math.round(dayValue * 100) / 100,
     });
@@ -81,6 +86,33 @@ export function generatePortfolioHistory(assets: Asset[]): PortfolioDataPoint[]
   return data;
 }
 
+interface ValuePoint {
+  date: string;
+  value: number;
+}
+
+/**
+ * Purchase price followed by every recorded snapshot for an asset
+ */
+function buildValueTimeline(asset: Asset, snapshots: PriceSnapshot[]): ValuePoint[] {
+  return [
+    { date: asset.purchaseDate, value: asset.purchasePrice },
+    ...snapshots.map(s => ({ date: s.recordedAt.split('T')[0], value: s.value })),
+  ];
+}
+
+/**
+ * Last recorded value on or before the given day
+ */
+function getRecordedValueOn(points: ValuePoint[], dateKey: string): number {
+  let value = points[0]?.value || 0;
+  for (const point of points) {
+    if (point.date > dateKey) break;
+    value = point.value;
+  }
+  return value;
+}
+
 /**
  * Generate empty history for when there are no assets
  */
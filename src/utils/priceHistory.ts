@@ -0,0 +1,84 @@
+/**
+ * Price History Helpers
+ *
+ * Builds per-game price history from recorded price snapshots.
+ * Every lookupPrice result for a game is stored as a snapshot, so the
+ * charts only ever show values that were actually observed.
+ */
+
+import { PriceSnapshot } from '@/types/asset';
+import type { PriceLookupResult } from '@/services/priceLookup';
+
+export type SnapshotInput = Pick<
+  PriceLookupResult,
+  'estimatedValue' | 'source' | 'confidence' | 'confidenceScore'
+> & Partial<Pick<PriceLookupResult, 'configVersion'>>;
+
+export interface PriceHistoryPoint {
+  date: string;
+  price: number;
+}
+
+/**
+ * Create a snapshot record from a price lookup result
+ */
+export function createPriceSnapshot(
+  gameId: string,
+  result: SnapshotInput,
+  recordedAt: string = new Date().toISOString()
+): PriceSnapshot {
+  return {
+    id: crypto.randomUUID(),
+    gameId,
+    value: Math.round(result.estimatedValue * 100) / 100,
+    source: result.source,
+    confidence: result.confidence,
+    confidenceScore: result.confidenceScore,
+    configVersion: result.configVersion,
+    recordedAt,
+  };
+}
+
+/**
+ * Only lookups that actually found a price are worth recording
+ */
+export function isRecordableResult(result: SnapshotInput): boolean {
+  return result.estimatedValue > 0 && result.source !== 'none';
+}
+
+/**
+ * Snapshots for a single game, oldest first
+ */
+export function getSnapshotsForGame(snapshots: PriceSnapshot[], gameId: string): PriceSnapshot[] {
+  return snapshots
+    .filter(s => s.gameId === gameId)
+    .sort((a, b) => a.recordedAt.localeCompare(b.recordedAt));
+}
+
+/**
+ * Group snapshots by game id, each list sorted oldest first
+ */
+export function groupSnapshotsByGame(snapshots: PriceSnapshot[]): Map<string, PriceSnapshot[]> {
+  const grouped = new Map<string, PriceSnapshot[]>();
+  for (const snapshot of snapshots) {
+    const list = grouped.get(snapshot.gameId) || [];
+    list.push(snapshot);
+    grouped.set(snapshot.gameId, list);
+  }
+  for (const list of grouped.values()) {
+    list.sort((a, b) => a.recordedAt.localeCompare(b.recordedAt));
+  }
+  return grouped;
+}
+
+/**
+ * Daily price history for one game - one point per day with a recording,
+ * using the latest snapshot taken that day
+ */
+export function buildGamePriceHistory(snapshots: PriceSnapshot[], gameId: string): PriceHistoryPoint[] {
+  const byDay = new Map<string, number>();
+  for (const snapshot of getSnapshotsForGame(snapshots, gameId)) {
+    byDay.set(snapshot.recordedAt.split('T')[0], snapshot.value);
+  }
+  return Array.from(byDay, ([date, price]) => ({ date, price }));
+}
@@ -0,0 +1,150 @@
+/**
+ * Robust Statistics
+ *
+ * Location and spread estimates that hold up with a handful of noisy
+ * prices, where means, standard deviations and percentiles break down.
+ * Used by the valuation engine's robust estimator.
+ */
+
+// Scales the MAD to a standard deviation for normally distributed data
+const MAD_TO_STD = 1.4826;
+
+export interface WeightedValue {
+  value: number;
+  weight: number;
+}
+
+// ============================================
+// LOCATION
+// ============================================
+
+export function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+export function weightedMedian(items: WeightedValue[]): number {
+  const sorted = items.filter(i => i.weight > 0).sort((a, b) => a.value - b.value);
+  if (sorted.length === 0) return median(items.map(i => i.value));
+
+  const half = sorted.reduce((sum, i) => sum + i.weight, 0) / 2;
+  let cumulative = 0;
+  for (const item of sorted) {
+    cumulative += item.weight;
+    if (cumulative >= half) return item.value;
+  }
+  return sorted[sorted.length - 1].value;
+}
+
+/**
+ * Median absolute deviation scaled to a standard deviation
+ */
+export function robustScale(values: number[], center = median(values)): number {
+  return MAD_TO_STD * median(values.map(v => Math.abs(v - center)));
+}
+
+/**
+ * Huber M-estimate of location by iteratively reweighted least squares.
+ * Values within k robust standard deviations count fully, further ones
+ * progressively less. Returns the estimate and each value's final weight.
+ */
+export function huberLocation(
+  items: WeightedValue[],
+  k: number,
+  // Used when the MAD is zero, relative to the center
+  minRelativeScale = 0.05
+): { location: number; weights: number[] } {
+  let location = weightedMedian(items);
+  const values = items.map(i => i.value);
+  const scale = robustScale(values, location) || Math.abs(location) * minRelativeScale || 1;
+  let weights = items.map(i => i.weight);
+
+  for (let iteration = 0; iteration < 50; iteration++) {
+    weights = items.map(i => {
+      const residual = Math.abs(i.value - location) / scale;
+      return i.weight * (residual <= k ? 1 : k / residual);
+    });
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    if (total === 0) break;
+    const next = items.reduce((sum, item, idx) => sum + item.value * weights[idx], 0) / total;
+    const converged = Math.abs(next - location) < 1e-6 * Math.max(1, Math.abs(location));
+    location = next;
+    if (converged) break;
+  }
+
+  return { location, weights };
+}
+
+/**
+ * Split the values into groups, take each group's weighted mean and
+ * return the median of those means
+ */
+export function medianOfMeans(items: WeightedValue[], groups = Math.max(1, Math.round(Math.sqrt(items.length)))): number {
+  const groupCount = Math.min(groups, items.length);
+  if (groupCount === 0) return 0;
+
+  const buckets: WeightedValue[][] = Array.from({ length: groupCount }, () => []);
+  items.forEach((item, idx) => buckets[idx % groupCount].push(item));
+
+  return median(buckets.map(bucket => {
+    const total = bucket.reduce((sum, i) => sum + i.weight, 0);
+    return total > 0
+      ? bucket.reduce((sum, i) => sum + i.value * i.weight, 0) / total
+      : bucket.reduce((sum, i) => sum + i.value, 0) / bucket.length;
+  }));
+}
+
+// ============================================
+// BOOTSTRAP
+// ============================================
+
+/**
+ * Small seeded generator (mulberry32) so bootstrap results are
+ * reproducible for the same inputs
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function seedFromValues(values: number[]): number {
+  return values.reduce((hash, value) => Math.imul(hash ^ Math.round(value * 100), 16777619) >>> 0, 2166136261);
+}
+
+/**
+ * Value at a quantile (0-1) of the values, interpolating between ranks
+ */
+export function quantile(values: number[], q: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (sorted.length - 1) * Math.min(1, Math.max(0, q));
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Resample the items with replacement and collect the estimator's result
+ * on each resample
+ */
+export function bootstrap<T>(
+  items: T[],
+  estimate: (sample: T[], random: () => number) => number,
+  samples: number,
+  random: () => number
+): number[] {
+  const results: number[] = [];
+  for (let s = 0; s < samples; s++) {
+    const sample = items.map(() => items[Math.floor(random() * items.length)]);
+    results.push(estimate(sample, random));
+  }
+  return results;
+}
@@ -0,0 +1,56 @@
+/**
+ * Sales & Realized Gains
+ *
+ * Sold assets stay in the collection data with their sale recorded, so
+ * their history is kept; these helpers split the collection into owned
+ * and sold items and work out realized vs unrealized gain.
+ */
+
+import { Asset, SaleDetails } from '@/types/asset';
+import { getCostBasis } from './costBasis';
+
+export interface PortfolioStats {
+  // Current value of everything still owned
+  totalValue: number;
+  unrealizedGain: number;
+  realizedGain: number;
+  totalGain: number;
+  gainPercentage: number;
+}
+
+export function isSold(asset: Asset): asset is Asset & { sale: SaleDetails } {
+  return Boolean(asset.sale);
+}
+
+/**
+ * What the seller actually kept from a sale
+ */
+export function getNetProceeds(sale: SaleDetails): number {
+  return sale.price - sale.fees - sale.shipping;
+}
+
+export function getRealizedGain(asset: Asset): number {
+  return asset.sale ? getNetProceeds(asset.sale) - getCostBasis(asset) : 0;
+}
+
+export function calculatePortfolioStats(assets: Asset[]): PortfolioStats {
+  const owned = assets.filter(a => !isSold(a));
+  const sold = assets.filter(isSold);
+
+  const totalValue = owned.reduce((sum, a) => sum + a.currentValue, 0);
+  const ownedCost = owned.reduce((sum, a) => sum + getCostBasis(a), 0);
+  const soldCost = sold.reduce((sum, a) => sum + getCostBasis(a), 0);
+
+  const unrealizedGain = totalValue - ownedCost;
+  const realizedGain = sold.reduce((sum, a) => sum + getRealizedGain(a), 0);
+  const totalGain = unrealizedGain + realizedGain;
+  const totalCost = ownedCost + soldCost;
+
+  return {
+    totalValue,
+    unrealizedGain,
+    realizedGain,
+    totalGain,
+    gainPercentage: totalCost > 0 ? (totalGain / totalCost) * 100 : 0,
+  };
+}
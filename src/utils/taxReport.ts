@@ -0,0 +1,184 @@
+/**
+ * Collectibles Tax Report
+ *
+ * Per-tax-year schedule of sold items for US capital gains. Each sale
+ * becomes one Form 8949 line: acquisition and sale dates, holding period,
+ * proceeds, total cost basis and selling expenses as an adjustment.
+ * Long-term gains on collectibles are taxed at up to 28%.
+ */
+
+import { Asset } from '@/types/asset';
+import { getCostBasis } from './costBasis';
+import { escapeCSV } from './collectionExport';
+import { isSold } from './sales';
+
+export const COLLECTIBLES_TAX_RATE = 0.28;
+
+// Form 8949 code for selling expenses not reflected in the proceeds
+const SELLING_EXPENSE_CODE = 'E';
+
+export type HoldingPeriod = 'short' | 'long';
+
+export interface TaxReportLine {
+  assetId: string;
+  description: string;
+  dateAcquired: string;
+  dateSold: string;
+  holdingPeriod: HoldingPeriod;
+  // Gross sale price
+  proceeds: number;
+  costBasis: number;
+  // Fees and shipping, entered as a negative adjustment
+  adjustment: number;
+  gain: number;
+}
+
+export interface TaxReportTotals {
+  proceeds: number;
+  costBasis: number;
+  adjustment: number;
+  gain: number;
+}
+
+export interface TaxReport {
+  year: number;
+  shortTerm: TaxReportLine[];
+  longTerm: TaxReportLine[];
+  shortTermTotals: TaxReportTotals;
+  longTermTotals: TaxReportTotals;
+  // Upper bound: long-term collectibles gain at the 28% rate
+  estimatedCollectiblesTax: number;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Long term means held more than one year: sold after the first
+ * anniversary of the acquisition date. Dates are YYYY-MM-DD.
+ * Something bought on Feb 29 has its anniversary on Feb 28, so a sale on
+ * Mar 1 of the next year is already long term.
+ */
+export function getHoldingPeriod(dateAcquired: string, dateSold: string): HoldingPeriod {
+  const [year, month, day] = dateAcquired.split('-').map(Number);
+  const daysInMonth = new Date(Date.UTC(year + 1, month, 0)).getUTCDate();
+  const anniversary = new Date(Date.UTC(year + 1, month - 1, Math.min(day, daysInMonth))).toISOString().split('T')[0];
+  return dateSold > anniversary ? 'long' : 'short';
+}
+
+/**
+ * Tax years that have at least one sale, most recent first
+ */
+export function getTaxYears(assets: Asset[]): number[] {
+  const years = new Set(assets.filter(isSold).map(a => Number(a.sale.date.slice(0, 4))));
+  return Array.from(years).sort((a, b) => b - a);
+}
+
+function describeAsset(asset: Asset): string {
+  const group = asset.videoGameDetails?.platform || asset.tradingCardDetails?.setName;
+  return group ? `${asset.name} (${group})` : asset.name;
+}
+
+function sumLines(lines: TaxReportLine[]): TaxReportTotals {
+  return {
+    proceeds: roundCents(lines.reduce((sum, l) => sum + l.proceeds, 0)),
+    costBasis: roundCents(lines.reduce((sum, l) => sum + l.costBasis, 0)),
+    adjustment: roundCents(lines.reduce((sum, l) => sum + l.adjustment, 0)),
+    gain: roundCents(lines.reduce((sum, l) => sum + l.gain, 0)),
+  };
+}
+
+export function buildTaxReport(assets: Asset[], year: number): TaxReport {
+  const lines = assets
+    .filter(isSold)
+    .filter(a => a.sale.date.startsWith(`${year}-`))
+    .sort((a, b) => a.sale.date.localeCompare(b.sale.date))
+    .map((asset): TaxReportLine => {
+      const proceeds = roundCents(asset.sale.price);
+      const costBasis = roundCents(getCostBasis(asset));
+      const adjustment = -roundCents(asset.sale.fees + asset.sale.shipping);
+      return {
+        assetId: asset.id,
+        description: describeAsset(asset),
+        dateAcquired: asset.purchaseDate,
+        dateSold: asset.sale.date,
+        holdingPeriod: getHoldingPeriod(asset.purchaseDate, asset.sale.date),
+        proceeds,
+        costBasis,
+        adjustment,
+        gain: roundCents(proceeds - costBasis + adjustment),
+      };
+    });
+
+  const shortTerm = lines.filter(l => l.holdingPeriod === 'short');
+  const longTerm = lines.filter(l => l.holdingPeriod === 'long');
+  const longTermTotals = sumLines(longTerm);
+
+  return {
+    year,
+    shortTerm,
+    longTerm,
+    shortTermTotals: sumLines(shortTerm),
+    longTermTotals,
+    estimatedCollectiblesTax: roundCents(Math.max(0, longTermTotals.gain) * COLLECTIBLES_TAX_RATE),
+  };
+}
+
+// ============================================
+// FORM 8949 CSV
+// ============================================
+
+// Form 8949 dates are MM/DD/YYYY
+function formatFormDate(date: string): string {
+  const [year, month, day] = date.split('-');
+  return `${month}/${day}/${year}`;
+}
+
+const FORM_8949_HEADERS = [
+  'Part',
+  '(a) Description of property',
+  '(b) Date acquired',
+  '(c) Date sold or disposed of',
+  '(d) Proceeds (sales price)',
+  '(e) Cost or other basis',
+  '(f) Code(s)',
+  '(g) Amount of adjustment',
+  '(h) Gain or (loss)',
+];
+
+/**
+ * One row per sale in Form 8949 column order; Part I holds short-term
+ * and Part II long-term sales, each followed by its totals
+ */
+export function exportTaxReportCSV(report: TaxReport): string {
+  const lineRow = (part: string, line: TaxReportLine) => [
+    part,
+    line.description,
+    formatFormDate(line.dateAcquired),
+    formatFormDate(line.dateSold),
+    line.proceeds.toFixed(2),
+    line.costBasis.toFixed(2),
+    line.adjustment !== 0 ? SELLING_EXPENSE_CODE : '',
+    line.adjustment !== 0 ? line.adjustment.toFixed(2) : '',
+    line.gain.toFixed(2),
+  ];
+  const totalsRow = (part: string, totals: TaxReportTotals) => [
+    part,
+    'Totals',
+    '',
+    '',
+    totals.proceeds.toFixed(2),
+    totals.costBasis.toFixed(2),
+    '',
+    totals.adjustment !== 0 ? totals.adjustment.toFixed(2) : '',
+    totals.gain.toFixed(2),
+  ];
+
+  const rows = [
+    FORM_8949_HEADERS,
+    ...report.shortTerm.map(line => lineRow('I', line)),
+    ...(report.shortTerm.length > 0 ? [totalsRow('I', report.shortTermTotals)] : []),
+    ...report.longTerm.map(line => lineRow('II', line)),
+    ...(report.longTerm.length > 0 ? [totalsRow('II', report.longTermTotals)] : []),
+  ];
+  return rows.map(row => row.map(escapeCSV).join(',')).join('\r\n');
+}
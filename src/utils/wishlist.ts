@@ -0,0 +1,61 @@
+/**
+ * Wishlist Pricing
+ *
+ * Turns price lookups into wishlist checks and decides when a wanted game
+ * can be had at or below its target price.
+ */
+
+import { WishlistItem, WishlistPriceCheck } from '@/types/wishlist';
+import type { PriceLookupParams, PriceLookupResult } from '@/services/priceLookup';
+
+// Wanted games are re-checked at most once a day
+export const WISHLIST_CHECK_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+export function getWishlistLookupParams(item: WishlistItem): Omit<PriceLookupParams, 'userId'> {
+  return {
+    category: 'video-games',
+    name: item.name,
+    details: {
+      platform: item.platform,
+      conditionType: item.conditionType,
+    },
+  };
+}
+
+export function toWishlistCheck(result: PriceLookupResult): WishlistPriceCheck {
+  const listings = result.comparables
+    .filter(c => c.source.toLowerCase().includes('ebay') && c.soldPrice > 0)
+    .sort((a, b) => a.soldPrice - b.soldPrice);
+  const lowest = listings[0];
+
+  return {
+    estimatedValue: result.estimatedValue,
+    confidence: result.confidence,
+    lowestListing: lowest ? { price: lowest.soldPrice, title: lowest.name, url: lowest.url } : null,
+    checkedAt: result.lastUpdated,
+  };
+}
+
+/**
+ * Best price at or below the target, from the market estimate or an eBay
+ * listing, or null when nothing is cheap enough yet
+ */
+export function getDealPrice(item: WishlistItem): number | null {
+  const check = item.lastCheck;
+  if (!check) return null;
+
+  const prices = [check.estimatedValue, check.lowestListing?.price ?? 0]
+    .filter(price => price > 0 && price <= item.maxPrice);
+  return prices.length > 0 ? Math.min(...prices) : null;
+}
+
+// A deal worth announcing: cheap enough and not at a price we already reported
+export function isNewDeal(item: WishlistItem): boolean {
+  const price = getDealPrice(item);
+  return price !== null && (item.notifiedPrice === undefined || price < item.notifiedPrice);
+}
+
+export function isCheckDue(item: WishlistItem, now = new Date()): boolean {
+  if (!item.lastCheck) return true;
+  return now.getTime() - new Date(item.lastCheck.checkedAt).getTime() >= WISHLIST_CHECK_INTERVAL_MS;
+}
@@ -6,6 +6,14 @@
 -- Enable UUID extension
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 
+-- The signed-in user behind a request: the `sub` claim of the Clerk
+-- session token the app sends (add Clerk under Authentication > Third-party
+-- auth). Clerk ids aren't UUIDs, so policies use this, not auth.uid().
+CREATE OR REPLACE FUNCTION requesting_user_id()
+RETURNS TEXT AS $$
+  SELECT NULLIF(auth.jwt() ->> 'sub', '');
+$$ LANGUAGE sql STABLE;
+
 -- =============================================
 -- GAMES TABLE
 -- =============================================
@@ -13,23 +21,42 @@ CREATE TABLE games (
   id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
   user_id TEXT NOT NULL,
   name TEXT NOT NULL,
-  platform TEXT NOT NULL,
+  category TEXT NOT NULL DEFAULT 'video-games',
+  -- Video game fields (empty for other categories)
+  platform TEXT NOT NULL DEFAULT '',
   region TEXT DEFAULT 'NTSC',
   condition_type TEXT DEFAULT 'cib',
   grading_company TEXT,
   grade DECIMAL(3,1),
   seal_rating TEXT,
+  box_condition TEXT,
+  -- Category-specific details for non-video-game assets (set, card number, grade...)
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
   purchase_price DECIMAL(10,2) NOT NULL,
   current_value DECIMAL(10,2) NOT NULL,
+  estimated_value DECIMAL(10,2),
   purchase_date DATE DEFAULT CURRENT_DATE,
   source TEXT NOT NULL,
   image_url TEXT,
+  photos TEXT[] NOT NULL DEFAULT '{}',
+  -- Cost entries on top of purchase_price (shipping, tax, grading...)
+  costs JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- Lot purchase shared by games bought together (id, name, total cost, allocation method)
+  lot JSONB,
+  -- Sale (all NULL while the game is still in the collection)
+  sale_price DECIMAL(10,2),
+  sale_date DATE,
+  sale_fees DECIMAL(10,2),
+  sale_shipping DECIMAL(10,2),
+  sale_venue TEXT,
+  last_valued_at TIMESTAMPTZ,
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
 
 -- Index for fast user queries
 CREATE INDEX idx_games_user_id ON games(user_id);
+CREATE INDEX idx_games_user_category ON games(user_id, category);
 
 -- =============================================
 -- ROW LEVEL SECURITY
@@ -39,7 +66,7 @@ ALTER TABLE games ENABLE ROW LEVEL SECURITY;
 
 -- Policy: Users can only see their own games
 CREATE POLICY "Users can view own games" ON games
-  FOR SELECT USING (auth.uid()::text = user_id OR user_id = current_setting('app.current_user_id', true));
+  FOR SELECT USING (requesting_user_id() = user_id OR user_id = current_setting('app.current_user_id', true));
 
 -- Policy: Users can insert their own games
 CREATE POLICY "Users can insert own games" ON games
@@ -47,11 +74,11 @@ CREATE POLICY "Users can insert own games" ON games
 
 -- Policy: Users can update their own games
 CREATE POLICY "Users can update own games" ON games
-  FOR UPDATE USING (auth.uid()::text = user_id OR user_id = current_setting('app.current_user_id', true));
+  FOR UPDATE USING (requesting_user_id() = user_id OR user_id = current_setting('app.current_user_id', true));
 
 -- Policy: Users can delete their own games
 CREATE POLICY "Users can delete own games" ON games
-  FOR DELETE USING (auth.uid()::text = user_id OR user_id = current_setting('app.current_user_id', true));
+  FOR DELETE USING (requesting_user_id() = user_id OR user_id = current_setting('app.current_user_id', true));
 
 -- =============================================
 -- AUTO-UPDATE TIMESTAMP FUNCTION
@@ -69,6 +96,322 @@ CREATE TRIGGER games_updated_at
   FOR EACH ROW
   EXECUTE FUNCTION update_updated_at();
 
+-- =============================================
+-- REALTIME
+-- Broadcast game changes so other devices update live
+-- =============================================
+ALTER PUBLICATION supabase_realtime ADD TABLE games;
+
+-- =============================================
+-- PRICE SNAPSHOTS TABLE
+-- Every recorded market valuation per game
+-- =============================================
+CREATE TABLE price_snapshots (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  game_id UUID NOT NULL REFERENCES games(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  value DECIMAL(10,2) NOT NULL,
+  source TEXT NOT NULL,
+  confidence TEXT NOT NULL DEFAULT 'low',
+  confidence_score INTEGER DEFAULT 0,
+  -- valuation_configs version the value was calculated with
+  config_version TEXT,
+  recorded_at TIMESTAMPTZ DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_price_snapshots_game_id ON price_snapshots(game_id, recorded_at);
+CREATE INDEX idx_price_snapshots_user_id ON price_snapshots(user_id);
+
+ALTER TABLE price_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own price snapshots" ON price_snapshots
+  FOR SELECT USING (requesting_user_id() = user_id OR user_id = current_setting('app.current_user_id', true));
+
+CREATE POLICY "Users can insert own price snapshots" ON price_snapshots
+  FOR INSERT WITH CHECK (true);
+
+CREATE POLICY "Users can delete own price snapshots" ON price_snapshots
+  FOR DELETE USING (requesting_user_id() = user_id OR user_id = current_setting('app.current_user_id', true));
+
+-- =============================================
+-- GAME PHOTOS TABLE
+-- Ordered, captioned photos; image files live in the game-photos bucket
+-- =============================================
+CREATE TABLE game_photos (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  game_id UUID NOT NULL REFERENCES games(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  storage_path TEXT NOT NULL,
+  caption TEXT,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_game_photos_game_id ON game_photos(game_id, position);
+
+ALTER TABLE game_photos ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own game photos" ON game_photos
+  FOR SELECT USING (requesting_user_id() = user_id OR user_id = current_setting('app.current_user_id', true));
+
+CREATE POLICY "Users can insert own game photos" ON game_photos
+  FOR INSERT WITH CHECK (true);
+
+CREATE POLICY "Users can update own game photos" ON game_photos
+  FOR UPDATE USING (requesting_user_id() = user_id OR user_id = current_setting('app.current_user_id', true));
+
+CREATE POLICY "Users can delete own game photos" ON game_photos
+  FOR DELETE USING (requesting_user_id() = user_id OR user_id = current_setting('app.current_user_id', true));
+
+-- =============================================
+-- ALERT RULES TABLE
+-- Price alert rules; scope and condition parameters are JSON
+-- (see src/types/alerts.ts)
+-- =============================================
+CREATE TABLE alert_rules (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  scope JSONB NOT NULL DEFAULT '{"type": "collection"}'::jsonb,
+  condition JSONB NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_alert_rules_user_id ON alert_rules(user_id);
+
+ALTER TABLE alert_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own alert rules" ON alert_rules
+  FOR SELECT USING (requesting_user_id() = user_id OR user_id = current_setting('app.current_user_id', true));
+
+CREATE POLICY "Users can insert own alert rules" ON alert_rules
+  FOR INSERT WITH CHECK (true);
+
+CREATE POLICY "Users can update own alert rules" ON alert_rules
+  FOR UPDATE USING (requesting_user_id() = user_id OR user_id = current_setting('app.current_user_id', true));
+
+CREATE POLICY "Users can delete own alert rules" ON alert_rules
+  FOR DELETE USING (requesting_user_id() = user_id OR user_id = current_setting('app.current_user_id', true));
+
+CREATE TRIGGER alert_rules_updated_at
+  BEFORE UPDATE ON alert_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+-- =============================================
+-- ALERT EVENTS TABLE
+-- Firing history: one row each time a rule fires for a game
+-- =============================================
+CREATE TABLE alert_events (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  rule_id UUID REFERENCES alert_rules(id) ON DELETE SET NULL,
+  game_id UUID NOT NULL REFERENCES games(id) ON DELETE CASCADE,
+  game_name TEXT NOT NULL,
+  snapshot_id UUID NOT NULL,
+  message TEXT NOT NULL,
+  previous_value DECIMAL(10,2),
+  current_value DECIMAL(10,2) NOT NULL,
+  fired_at TIMESTAMPTZ DEFAULT NOW(),
+  read_at TIMESTAMPTZ,
+  -- Set once the event has been sent as a push notification
+  pushed_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_alert_events_user_id ON alert_events(user_id, fired_at DESC);
+
+ALTER TABLE alert_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own alert events" ON alert_events
+  FOR SELECT USING (requesting_user_id() = user_id OR user_id = current_setting('app.current_user_id', true));
+
+-- Owner only: the push sender delivers stored events to the user's devices
+CREATE POLICY "Users can insert own alert events" ON alert_events
+  FOR INSERT WITH CHECK (requesting_user_id() = user_id);
+
+CREATE POLICY "Users can update own alert events" ON alert_events
+  FOR UPDATE USING (requesting_user_id() = user_id OR user_id = current_setting('app.current_user_id', true));
+
+CREATE POLICY "Users can delete own alert events" ON alert_events
+  FOR DELETE USING (requesting_user_id() = user_id OR user_id = current_setting('app.current_user_id', true));
+
+-- =============================================
+-- PUSH SUBSCRIPTIONS TABLE
+-- One row per browser that accepted Web Push (see api/push-alerts.ts)
+-- =============================================
+CREATE TABLE push_subscriptions (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  endpoint TEXT NOT NULL UNIQUE,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  user_agent TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_push_subscriptions_user_id ON push_subscriptions(user_id);
+
+ALTER TABLE push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own push subscriptions" ON push_subscriptions
+  FOR SELECT USING (requesting_user_id() = user_id OR user_id = current_setting('app.current_user_id', true));
+
+-- Owner only: a subscription receives its user's alert pushes
+CREATE POLICY "Users can insert own push subscriptions" ON push_subscriptions
+  FOR INSERT WITH CHECK (requesting_user_id() = user_id);
+
+CREATE POLICY "Users can update own push subscriptions" ON push_subscriptions
+  FOR UPDATE USING (requesting_user_id() = user_id)
+  WITH CHECK (requesting_user_id() = user_id);
+
+CREATE POLICY "Users can delete own push subscriptions" ON push_subscriptions
+  FOR DELETE USING (requesting_user_id() = user_id OR user_id = current_setting('app.current_user_id', true));
+
+-- =============================================
+-- WISHLIST ITEMS TABLE
+-- Games the user wants to buy, with a buy-below price target.
+-- last_check holds the latest market read (see src/types/wishlist.ts)
+-- =============================================
+CREATE TABLE wishlist_items (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  platform TEXT NOT NULL,
+  condition_type TEXT NOT NULL DEFAULT 'cib' CHECK (condition_type IN ('sealed', 'cib', 'loose')),
+  max_price DECIMAL(10,2) NOT NULL,
+  notes TEXT,
+  last_check JSONB,
+  notified_price DECIMAL(10,2),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_wishlist_items_user_id ON wishlist_items(user_id);
+
+ALTER TABLE wishlist_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own wishlist" ON wishlist_items
+  FOR SELECT USING (requesting_user_id() = user_id OR user_id = current_setting('app.current_user_id', true));
+
+CREATE POLICY "Users can insert own wishlist" ON wishlist_items
+  FOR INSERT WITH CHECK (true);
+
+CREATE POLICY "Users can update own wishlist" ON wishlist_items
+  FOR UPDATE USING (requesting_user_id() = user_id OR user_id = current_setting('app.current_user_id', true));
+
+CREATE POLICY "Users can delete own wishlist" ON wishlist_items
+  FOR DELETE USING (requesting_user_id() = user_id OR user_id = current_setting('app.current_user_id', true));
+
+CREATE TRIGGER wishlist_items_updated_at
+  BEFORE UPDATE ON wishlist_items
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+-- =============================================
+-- DIGEST SETTINGS TABLE
+-- Opt-in for the collection digest email (see api/digest-cron.ts)
+-- =============================================
+CREATE TABLE digest_settings (
+  user_id TEXT PRIMARY KEY,
+  email TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT false,
+  frequency TEXT NOT NULL DEFAULT 'weekly' CHECK (frequency IN ('weekly', 'monthly')),
+  last_sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE digest_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own digest settings" ON digest_settings
+  FOR SELECT USING (requesting_user_id() = user_id OR user_id = current_setting('app.current_user_id', true));
+
+-- Owner only: the sender emails this address the user's whole collection
+CREATE POLICY "Users can insert own digest settings" ON digest_settings
+  FOR INSERT WITH CHECK (requesting_user_id() = user_id);
+
+CREATE POLICY "Users can update own digest settings" ON digest_settings
+  FOR UPDATE USING (requesting_user_id() = user_id)
+  WITH CHECK (requesting_user_id() = user_id);
+
+CREATE TRIGGER digest_settings_updated_at
+  BEFORE UPDATE ON digest_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+-- =============================================
+-- DIGEST EMAIL CONFIRMATIONS TABLE
+-- Addresses proven by a confirmation link (see api/digest-confirm.ts);
+-- digests only go to a confirmed address. Service role only, so the
+-- app can neither read tokens nor mark an address confirmed itself.
+-- =============================================
+CREATE TABLE digest_email_confirmations (
+  user_id TEXT PRIMARY KEY,
+  email TEXT NOT NULL,
+  -- SHA-256 of the emailed token; cleared once used
+  token_hash TEXT UNIQUE,
+  sent_at TIMESTAMPTZ,
+  confirmed_at TIMESTAMPTZ
+);
+
+ALTER TABLE digest_email_confirmations ENABLE ROW LEVEL SECURITY;
+
+-- =============================================
+-- VALUATION CONFIGS TABLE
+-- Versioned valuation tuning; the app uses the active row. Managed with
+-- the service role, rows are kept so past valuations can be reproduced.
+-- =============================================
+CREATE TABLE valuation_configs (
+  version TEXT PRIMARY KEY,
+  config JSONB NOT NULL,
+  active BOOLEAN NOT NULL DEFAULT false,
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Only one config is active at a time
+CREATE UNIQUE INDEX idx_valuation_configs_active ON valuation_configs(active) WHERE active;
+
+ALTER TABLE valuation_configs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view valuation configs" ON valuation_configs
+  FOR SELECT USING (true);
+
+-- =============================================
+-- PHOTO STORAGE BUCKET
+-- Private, served through signed URLs; files stored under <user_id>/<game_id>/
+-- =============================================
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('game-photos', 'game-photos', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can view own game photo files" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'game-photos'
+    AND (storage.foldername(name))[1] IN (requesting_user_id(), current_setting('app.current_user_id', true))
+  );
+
+CREATE POLICY "Users can upload own game photo files" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'game-photos'
+    AND (storage.foldername(name))[1] IN (requesting_user_id(), current_setting('app.current_user_id', true))
+  );
+
+-- Uploads use upsert, which updates a file that is already there
+CREATE POLICY "Users can update own game photo files" ON storage.objects
+  FOR UPDATE USING (
+    bucket_id = 'game-photos'
+    AND (storage.foldername(name))[1] IN (requesting_user_id(), current_setting('app.current_user_id', true))
+  );
+
+CREATE POLICY "Users can delete own game photo files" ON storage.objects
+  FOR DELETE USING (
+    bucket_id = 'game-photos'
+    AND (storage.foldername(name))[1] IN (requesting_user_id(), current_setting('app.current_user_id', true))
+  );
+
 -- =============================================
 -- DONE! Your database is ready.
 -- =============================================